@@ -12,8 +12,17 @@ import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Dashboard from "@/pages/dashboard";
 import Inventory from "@/pages/inventory";
+import ProductDetail from "@/pages/product-detail";
+import PurchaseOrders from "@/pages/purchase-orders";
+import Recalls from "@/pages/recalls";
+import Counts from "@/pages/counts";
+import Valuation from "@/pages/valuation";
+import Locations from "@/pages/locations";
 import Customers from "@/pages/customers";
 import SalesPOS from "@/pages/sales-pos";
+import OrderDetail from "@/pages/order-detail";
+import Promotions from "@/pages/promotions";
+import SalesTax from "@/pages/sales-tax";
 import Delivery from "@/pages/delivery";
 import Loyalty from "@/pages/loyalty";
 import Credit from "@/pages/credit";
@@ -64,8 +73,17 @@ function Router() {
       <Switch>
         <Route path="/dashboard" component={Dashboard} />
         <Route path="/inventory" component={Inventory} />
+        <Route path="/inventory/:productId" component={ProductDetail} />
+        <Route path="/purchase-orders" component={PurchaseOrders} />
+        <Route path="/recalls" component={Recalls} />
+        <Route path="/counts" component={Counts} />
+        <Route path="/locations" component={Locations} />
+        <Route path="/valuation" component={Valuation} />
         <Route path="/customers" component={Customers} />
         <Route path="/sales" component={SalesPOS} />
+        <Route path="/orders/:orderId" component={OrderDetail} />
+        <Route path="/promotions" component={Promotions} />
+        <Route path="/sales-tax" component={SalesTax} />
         <Route path="/delivery" component={Delivery} />
         <Route path="/loyalty" component={Loyalty} />
         <Route path="/credit" component={Credit} />
@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { TaxExemption } from "@shared/schema";
+
+interface TaxExemptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: { id: string; name: string } | null;
+}
+
+export function TaxExemptionsDialog({ open, onOpenChange, customer }: TaxExemptionsDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [certificateNumber, setCertificateNumber] = useState("");
+  const [state, setState] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setCertificateNumber("");
+      setState("");
+      setExpiresAt("");
+      setNotes("");
+    }
+  }, [open]);
+
+  const exemptionsKey = ["/api/tenants", currentTenant, "customers", customer?.id, "tax-exemptions"];
+  const { data: exemptions = [] } = useQuery<TaxExemption[]>({
+    queryKey: exemptionsKey,
+    enabled: open && !!currentTenant && !!customer,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/customers/${customer!.id}/tax-exemptions`, {
+        certificateNumber,
+        state: state.trim() || null,
+        expiresAt,
+        notes: notes.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      setCertificateNumber("");
+      setState("");
+      setExpiresAt("");
+      setNotes("");
+      queryClient.invalidateQueries({ queryKey: exemptionsKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Add Certificate",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (exemptionId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/customers/${customer!.id}/tax-exemptions/${exemptionId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: exemptionsKey }),
+    onError: (error) => {
+      toast({
+        title: "Could Not Revoke Certificate",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const canAdd = certificateNumber.trim().length > 0 && !!expiresAt && expiresAt > today &&
+    (!state.trim() || state.trim().length >= 2);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Tax Exemption Certificates{customer ? `: ${customer.name}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Orders for this customer are not taxed while a certificate covering the order's state is current.
+        </p>
+
+        {exemptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No certificates on file.</p>
+        ) : (
+          <ul className="divide-y divide-border border border-border rounded-md text-sm">
+            {exemptions.map((exemption) => {
+              const expired = new Date(exemption.expiresAt) <= new Date();
+              return (
+                <li key={exemption.id} className="flex justify-between items-center px-3 py-2" data-testid={`row-tax-exemption-${exemption.id}`}>
+                  <div>
+                    <span className="font-medium text-foreground">{exemption.certificateNumber}</span>
+                    <span className="text-muted-foreground">
+                      {" "}· {exemption.state ?? "All states"}
+                      {" "}· {expired ? "expired" : "expires"} {new Date(exemption.expiresAt).toLocaleDateString()}
+                    </span>
+                    {exemption.notes && <div className="text-xs text-muted-foreground">{exemption.notes}</div>}
+                  </div>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-red-600"
+                    onClick={() => revokeMutation.mutate(exemption.id)}
+                    disabled={revokeMutation.isPending}
+                    aria-label="Revoke certificate"
+                    data-testid={`button-revoke-tax-exemption-${exemption.id}`}
+                  >
+                    <i className="fas fa-times text-xs"></i>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="tax-exemption-certificate">Certificate Number</Label>
+            <Input
+              id="tax-exemption-certificate"
+              value={certificateNumber}
+              onChange={(e) => setCertificateNumber(e.target.value)}
+              data-testid="input-tax-exemption-certificate"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-exemption-state">State (blank for all)</Label>
+            <Input
+              id="tax-exemption-state"
+              value={state}
+              onChange={(e) => setState(e.target.value.toUpperCase())}
+              placeholder="TX"
+              data-testid="input-tax-exemption-state"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-exemption-expires">Expires</Label>
+            <Input
+              id="tax-exemption-expires"
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              data-testid="input-tax-exemption-expires"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-exemption-notes">Notes</Label>
+            <Input
+              id="tax-exemption-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Nonprofit hospital"
+              data-testid="input-tax-exemption-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-close-tax-exemptions">
+            Close
+          </Button>
+          <Button
+            onClick={() => addMutation.mutate()}
+            disabled={!canAdd || addMutation.isPending}
+            data-testid="button-add-tax-exemption"
+          >
+            {addMutation.isPending ? "Adding..." : "Add Certificate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
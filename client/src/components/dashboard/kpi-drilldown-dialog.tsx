@@ -0,0 +1,116 @@
+import { useQuery } from "@tanstack/react-query";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useTenant } from "@/contexts/tenant-context";
+
+export type KpiDrilldownView = 'low_stock' | 'overdue_credits';
+
+interface DashboardDrilldown {
+  lowStockProducts: Array<{
+    id: string;
+    name: string;
+    unit: string;
+    currentStock: number;
+    minStockThreshold: number;
+    stockStatus: 'low_stock' | 'out_of_stock';
+  }>;
+  overdueCustomers: Array<{
+    customerId: string;
+    customerName: string;
+    overdueAmount: string;
+    transactionCount: number;
+    oldestDueDate: string | null;
+  }>;
+}
+
+interface KpiDrilldownDialogProps {
+  view: KpiDrilldownView | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function KpiDrilldownDialog({ view, onOpenChange }: KpiDrilldownDialogProps) {
+  const { currentTenant } = useTenant();
+
+  const { data: drilldown, isLoading } = useQuery<DashboardDrilldown>({
+    queryKey: ["/api/tenants", currentTenant, "dashboard", "kpis", "drilldown"],
+    enabled: !!currentTenant && !!view,
+  });
+
+  return (
+    <Dialog open={!!view} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{view === 'overdue_credits' ? "Overdue Credit Accounts" : "Low Stock Products"}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : view === 'low_stock' ? (
+          !drilldown?.lowStockProducts.length ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-low-stock">
+              All products are above their minimum stock threshold.
+            </p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto border border-border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Product</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">On Hand</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">Minimum</th>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {drilldown.lowStockProducts.map((product) => (
+                    <tr key={product.id} data-testid={`row-low-stock-${product.id}`}>
+                      <td className="px-3 py-2 font-medium text-foreground">{product.name}</td>
+                      <td className="px-3 py-2 text-right">{product.currentStock} {product.unit}</td>
+                      <td className="px-3 py-2 text-right">{product.minStockThreshold}</td>
+                      <td className="px-3 py-2">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          product.stockStatus === 'out_of_stock' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {product.stockStatus === 'out_of_stock' ? 'Out of Stock' : 'Low Stock'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : !drilldown?.overdueCustomers.length ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-overdue-credits">
+            No customers have overdue credit charges.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto border border-border rounded-md">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Customer</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Overdue</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Charges</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Oldest Due</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {drilldown.overdueCustomers.map((customer) => (
+                  <tr key={customer.customerId} data-testid={`row-overdue-${customer.customerId}`}>
+                    <td className="px-3 py-2 font-medium text-foreground">{customer.customerName}</td>
+                    <td className="px-3 py-2 text-right text-red-600">${customer.overdueAmount}</td>
+                    <td className="px-3 py-2 text-right">{customer.transactionCount}</td>
+                    <td className="px-3 py-2">
+                      {customer.oldestDueDate ? new Date(customer.oldestDueDate).toLocaleDateString() : 'N/A'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
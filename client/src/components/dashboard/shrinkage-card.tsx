@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useTenant } from "@/contexts/tenant-context";
+
+type AdjustmentReason = "waste" | "sample" | "personal" | "recount";
+
+interface ShrinkageTotals {
+  count: number;
+  qty: number;
+  value: string;
+}
+
+interface ShrinkageReport {
+  from: string;
+  to: string;
+  period: "day" | "week" | "month";
+  totals: ShrinkageTotals & { salesValue: string; shrinkRate: number };
+  byReason: Array<ShrinkageTotals & { reason: AdjustmentReason }>;
+  byProduct: Array<ShrinkageTotals & { productId: string; name: string; unit: string }>;
+  byUser: Array<ShrinkageTotals & { userId: string; name: string | null; personalOrSampleCount: number }>;
+  byPeriod: Array<ShrinkageTotals & { periodStart: string; salesValue: string; shrinkRate: number }>;
+  flags: Array<{ kind: "staff_personal_sample" | "shrink_rate"; message: string }>;
+}
+
+const reasonLabels: Record<AdjustmentReason, string> = {
+  waste: "Waste / Breakage",
+  sample: "Sample",
+  personal: "Personal Use",
+  recount: "Recount",
+};
+
+const ranges = {
+  "30": { days: 30, period: "week" },
+  "90": { days: 90, period: "week" },
+  "365": { days: 365, period: "month" },
+} as const;
+
+type Range = keyof typeof ranges;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export function ShrinkageCard() {
+  const { currentTenant } = useTenant();
+  const [range, setRange] = useState<Range>("30");
+
+  const { days, period } = ranges[range];
+  const to = new Date();
+  const from = new Date(to.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  const params = `from=${isoDay(from)}&to=${isoDay(to)}&period=${period}`;
+
+  const { data: report, isLoading } = useQuery<ShrinkageReport>({
+    queryKey: ["/api/tenants", currentTenant, "inventory", "shrinkage", params],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${currentTenant}/inventory/shrinkage?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch shrinkage report");
+      return response.json();
+    },
+    enabled: !!currentTenant,
+  });
+
+  const maxPeriodValue = Math.max(...(report?.byPeriod ?? []).map(entry => parseFloat(entry.value)), 0);
+
+  return (
+    <Card className="mb-8" data-testid="card-shrinkage">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <TooltipHelp content="Stock written off through adjustments, valued at the cost of the lot it came out of. Flags call out staff logging many personal or sample removals, and shrink above the alert level set in Settings." side="top">
+            <h3 className="text-lg font-medium text-foreground">Shrinkage</h3>
+          </TooltipHelp>
+          <Select value={range} onValueChange={(value) => setRange(value as Range)}>
+            <SelectTrigger className="w-36" data-testid="select-shrinkage-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last 12 months</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !report ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Loss at Cost</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-shrinkage-value">${report.totals.value}</p>
+                <p className="text-xs text-muted-foreground">{report.totals.qty} units in {report.totals.count} adjustments</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Share of Sales</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-shrinkage-rate">{percent(report.totals.shrinkRate)}</p>
+                <p className="text-xs text-muted-foreground">of ${report.totals.salesValue} sold</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground mb-1">Trend</p>
+                <div className="flex items-end gap-1 h-12" data-testid="chart-shrinkage-trend">
+                  {report.byPeriod.map((entry) => (
+                    <div
+                      key={entry.periodStart}
+                      className="flex-1 bg-red-200 rounded-t"
+                      style={{ height: `${maxPeriodValue > 0 ? Math.max((parseFloat(entry.value) / maxPeriodValue) * 100, 4) : 4}%` }}
+                      title={`${new Date(entry.periodStart).toLocaleDateString()}: $${entry.value} (${percent(entry.shrinkRate)} of sales)`}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {report.flags.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {report.flags.map((flag, index) => (
+                  <div
+                    key={index}
+                    className="flex items-start space-x-3 p-3 bg-red-50 rounded-lg border-l-4 border-red-400"
+                    data-testid={`alert-shrinkage-${index}`}
+                  >
+                    <i className={`fas ${flag.kind === "staff_personal_sample" ? "fa-user-clock" : "fa-chart-line"} text-red-600 mt-0.5`}></i>
+                    <p className="text-sm text-foreground">{flag.message}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.totals.count === 0 ? (
+              <p className="text-sm text-muted-foreground">No stock was written off in this period.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+                <div>
+                  <h4 className="font-medium text-foreground mb-2">By Reason</h4>
+                  <ul className="space-y-1">
+                    {report.byReason.map((entry) => (
+                      <li key={entry.reason} className="flex justify-between">
+                        <span>{reasonLabels[entry.reason]}</span>
+                        <span className="text-muted-foreground">${entry.value}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <h4 className="font-medium text-foreground mb-2">Top Products</h4>
+                  <ul className="space-y-1">
+                    {report.byProduct.slice(0, 5).map((entry) => (
+                      <li key={entry.productId} className="flex justify-between">
+                        <span className="truncate mr-2">{entry.name}</span>
+                        <span className="text-muted-foreground whitespace-nowrap">{entry.qty} {entry.unit} · ${entry.value}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <h4 className="font-medium text-foreground mb-2">By Staff</h4>
+                  <ul className="space-y-1">
+                    {report.byUser.slice(0, 5).map((entry) => (
+                      <li key={entry.userId} className="flex justify-between">
+                        <span className="truncate mr-2">{entry.name ?? "Unknown"}</span>
+                        <span className="text-muted-foreground whitespace-nowrap">{entry.count} · ${entry.value}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
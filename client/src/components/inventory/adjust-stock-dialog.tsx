@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+
+type AdjustmentReason = 'waste' | 'sample' | 'personal' | 'recount';
+
+interface AdjustStockProduct {
+  id: string;
+  name: string;
+  unit: string;
+  currentStock?: number;
+}
+
+interface AdjustStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: AdjustStockProduct | null;
+}
+
+interface AdjustmentHistoryEntry {
+  id: string;
+  batchId: string | null;
+  qtyDelta: number;
+  reason: AdjustmentReason;
+  notes: string | null;
+  createdAt: string;
+  createdByName: string | null;
+}
+
+const reasonLabels: Record<AdjustmentReason, string> = {
+  waste: "Waste / Breakage",
+  sample: "Sample",
+  personal: "Personal Use",
+  recount: "Recount",
+};
+
+export function AdjustStockDialog({ open, onOpenChange, product }: AdjustStockDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [direction, setDirection] = useState<'remove' | 'add'>('remove');
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState<AdjustmentReason>('waste');
+  const [notes, setNotes] = useState("");
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setDirection('remove');
+      setQuantity("");
+      setReason('waste');
+      setNotes("");
+    }
+  }, [open, product?.id]);
+
+  // Only a recount can add stock back
+  useEffect(() => {
+    if (direction === 'add') {
+      setReason('recount');
+    }
+  }, [direction]);
+
+  const { data: history, isLoading: historyLoading } = useQuery<AdjustmentHistoryEntry[]>({
+    queryKey: ["/api/tenants", currentTenant, "products", product?.id, "adjustments"],
+    enabled: open && !!currentTenant && !!product,
+  });
+
+  const adjustStockMutation = useMutation({
+    mutationFn: async () => {
+      const qty = parseInt(quantity);
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/products/${product!.id}/adjustments`, {
+        qtyDelta: direction === 'add' ? qty : -qty,
+        reason,
+        notes: notes || null,
+      });
+      return (await res.json()) as { currentStock: number };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Stock Adjusted",
+        description: `${product?.name ?? "Product"} now has ${result.currentStock} ${product?.unit ?? ""} on hand.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "inventory"] });
+      setQuantity("");
+      setNotes("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Adjustment Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = !!product && parseInt(quantity) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Adjust Stock{product ? ` — ${product.name}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {product?.currentStock !== undefined && (
+            <p className="text-sm text-muted-foreground">
+              Currently on hand: {product.currentStock} {product.unit}
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="adjust-direction">Change</Label>
+              <Select value={direction} onValueChange={(value) => setDirection(value as 'remove' | 'add')}>
+                <SelectTrigger id="adjust-direction" data-testid="select-adjust-direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="remove">Remove stock</SelectItem>
+                  <SelectItem value="add">Add stock</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="adjust-qty">Quantity</Label>
+              <Input
+                id="adjust-qty"
+                type="number"
+                min="1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                data-testid="input-adjust-qty"
+              />
+            </div>
+            <div>
+              <Label htmlFor="adjust-reason">Reason</Label>
+              <Select
+                value={reason}
+                onValueChange={(value) => setReason(value as AdjustmentReason)}
+                disabled={direction === 'add'}
+              >
+                <SelectTrigger id="adjust-reason" data-testid="select-adjust-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(reasonLabels) as AdjustmentReason[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {reasonLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="adjust-notes">Notes</Label>
+            <Textarea
+              id="adjust-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="What happened?"
+              data-testid="textarea-adjust-notes"
+            />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-foreground mb-2">Adjustment History</h4>
+            {historyLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !history || history.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-adjustments">
+                No adjustments recorded for this product.
+              </p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto border border-border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground">Date</th>
+                      <th className="px-3 py-2 text-right font-medium text-muted-foreground">Change</th>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground">Reason</th>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground">By</th>
+                      <th className="px-3 py-2 text-left font-medium text-muted-foreground">Notes</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {history.map((entry) => (
+                      <tr key={entry.id} data-testid={`row-adjustment-${entry.id}`}>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {new Date(entry.createdAt).toLocaleDateString()}
+                        </td>
+                        <td className={`px-3 py-2 text-right font-medium ${entry.qtyDelta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {entry.qtyDelta > 0 ? `+${entry.qtyDelta}` : entry.qtyDelta}
+                        </td>
+                        <td className="px-3 py-2">{reasonLabels[entry.reason]}</td>
+                        <td className="px-3 py-2">{entry.createdByName ?? "—"}</td>
+                        <td className="px-3 py-2 text-muted-foreground">{entry.notes ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-adjust">
+            Close
+          </Button>
+          <Button
+            onClick={() => adjustStockMutation.mutate()}
+            disabled={!canSubmit || adjustStockMutation.isPending}
+            data-testid="button-submit-adjust"
+          >
+            {adjustStockMutation.isPending ? "Saving..." : "Record Adjustment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
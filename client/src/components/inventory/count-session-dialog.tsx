@@ -0,0 +1,293 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { useLocations } from "@/hooks/use-locations";
+import { apiRequest } from "@/lib/queryClient";
+import type { CountEntry, CountSession } from "@shared/schema";
+
+interface CountSessionLine {
+  productId: string;
+  productName: string;
+  unit: string;
+  systemQty: number;
+  countedQty: number | null;
+  varianceQty: number | null;
+  entries: Array<CountEntry & { countedByName: string | null }>;
+}
+
+interface CountSessionDetail extends CountSession {
+  createdByName: string | null;
+  postedByName: string | null;
+  lines: CountSessionLine[];
+}
+
+interface CountSessionDialogProps {
+  sessionId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function varianceClass(variance: number | null) {
+  if (variance === null || variance === 0) return "text-muted-foreground";
+  return variance < 0 ? "text-red-600 font-medium" : "text-green-600 font-medium";
+}
+
+export function CountSessionDialog({ sessionId, onOpenChange }: CountSessionDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [drafts, setDrafts] = useState<Record<string, { qty: string; location: string }>>({});
+
+  useEffect(() => {
+    setDrafts({});
+  }, [sessionId]);
+
+  const sessionKey = ["/api/tenants", currentTenant, "count-sessions", sessionId];
+  const { data: session, isLoading } = useQuery<CountSessionDetail>({
+    queryKey: sessionKey,
+    enabled: !!currentTenant && !!sessionId,
+    // Several people may be counting at once
+    refetchInterval: 15000,
+  });
+
+  const { data: locations = [] } = useLocations(currentTenant);
+
+  const isOpen = session?.status === "open";
+  const locationName = session?.locationId
+    ? locations.find((location) => location.id === session.locationId)?.name ?? "Unknown location"
+    : "All locations";
+
+  const setDraft = (productId: string, field: "qty" | "location", value: string) => {
+    setDrafts((current) => ({
+      ...current,
+      [productId]: { ...(current[productId] ?? { qty: "", location: "" }), [field]: value },
+    }));
+  };
+
+  const addEntryMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      const draft = drafts[productId];
+      await apiRequest("POST", `/api/tenants/${currentTenant}/count-sessions/${sessionId}/entries`, {
+        productId,
+        qty: parseInt(draft.qty, 10),
+        location: draft.location || null,
+      });
+      return productId;
+    },
+    onSuccess: (productId) => {
+      setDrafts((current) => ({ ...current, [productId]: { qty: "", location: current[productId]?.location ?? "" } }));
+      queryClient.invalidateQueries({ queryKey: sessionKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "count-sessions"], exact: true });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Record Count",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/count-sessions/${sessionId}/entries/${entryId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sessionKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "count-sessions"], exact: true });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Remove Count",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/count-sessions/${sessionId}/post`, {});
+    },
+    onSuccess: () => {
+      toast({
+        title: "Count Posted",
+        description: "Stock has been adjusted to the counted quantities.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "count-sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "adjustments"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Post Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const countedLines = session?.lines.filter((line) => line.countedQty !== null) ?? [];
+  const netVariance = countedLines.reduce((sum, line) => sum + (line.varianceQty ?? 0), 0);
+
+  const handlePost = () => {
+    if (!session) return;
+    const uncounted = session.lines.length - countedLines.length;
+    const message = uncounted > 0
+      ? `${uncounted} product(s) have not been counted and will be left unchanged. Post this count?`
+      : "Post this count? Stock will be adjusted and the session can no longer be edited.";
+    if (window.confirm(message)) {
+      postMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog open={!!sessionId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{session?.name ?? "Stock Count"}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !session ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {isOpen ? (
+                <Badge className="bg-blue-100 text-blue-800">Open</Badge>
+              ) : (
+                <Badge className="bg-green-100 text-green-800">Posted</Badge>
+              )}
+              <span className="text-muted-foreground" data-testid="text-count-location">{locationName}</span>
+              <span className="text-muted-foreground">Started by {session.createdByName ?? "unknown"}</span>
+              {session.postedAt && (
+                <span className="text-muted-foreground">
+                  Posted {new Date(session.postedAt).toLocaleString()} by {session.postedByName ?? "unknown"}
+                </span>
+              )}
+              <span className="text-muted-foreground">
+                Counted {countedLines.length} of {session.lines.length}
+              </span>
+              <span className={varianceClass(netVariance)}>
+                Net variance: {netVariance > 0 ? "+" : ""}{netVariance}
+              </span>
+            </div>
+            {session.notes && <p className="text-sm text-foreground">{session.notes}</p>}
+
+            <div className="border border-border rounded-md overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Product</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">System</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">Counted</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">Variance</th>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Counts</th>
+                    {isOpen && <th className="px-3 py-2"></th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {session.lines.map((line) => {
+                    const draft = drafts[line.productId] ?? { qty: "", location: "" };
+                    const draftQty = parseInt(draft.qty, 10);
+                    return (
+                      <tr key={line.productId} className="align-top" data-testid={`row-count-${line.productId}`}>
+                        <td className="px-3 py-2 font-medium text-foreground">{line.productName}</td>
+                        <td className="px-3 py-2 text-right">{line.systemQty} {line.unit}</td>
+                        <td className="px-3 py-2 text-right">{line.countedQty ?? "—"}</td>
+                        <td className={`px-3 py-2 text-right ${varianceClass(line.varianceQty)}`}>
+                          {line.varianceQty === null ? "—" : `${line.varianceQty > 0 ? "+" : ""}${line.varianceQty}`}
+                        </td>
+                        <td className="px-3 py-2">
+                          {line.entries.length === 0 ? (
+                            <span className="text-muted-foreground">Not counted</span>
+                          ) : (
+                            <ul className="space-y-1">
+                              {line.entries.map((entry) => (
+                                <li key={entry.id} className="flex items-center gap-2" data-testid={`entry-count-${entry.id}`}>
+                                  <span>
+                                    {entry.qty}
+                                    {entry.location ? ` @ ${entry.location}` : ""}
+                                    <span className="text-muted-foreground"> · {entry.countedByName ?? "unknown"}</span>
+                                  </span>
+                                  {isOpen && (
+                                    <button
+                                      type="button"
+                                      className="text-muted-foreground hover:text-red-600"
+                                      onClick={() => deleteEntryMutation.mutate(entry.id)}
+                                      disabled={deleteEntryMutation.isPending}
+                                      aria-label="Remove count"
+                                      data-testid={`button-delete-entry-${entry.id}`}
+                                    >
+                                      <i className="fas fa-times text-xs"></i>
+                                    </button>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                        {isOpen && (
+                          <td className="px-3 py-2">
+                            <div className="flex gap-2 justify-end">
+                              <Input
+                                type="number"
+                                min="0"
+                                className="w-20"
+                                placeholder="Qty"
+                                value={draft.qty}
+                                onChange={(e) => setDraft(line.productId, "qty", e.target.value)}
+                                data-testid={`input-count-qty-${line.productId}`}
+                              />
+                              <Input
+                                className="w-28"
+                                placeholder="Location"
+                                value={draft.location}
+                                onChange={(e) => setDraft(line.productId, "location", e.target.value)}
+                                data-testid={`input-count-location-${line.productId}`}
+                              />
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => addEntryMutation.mutate(line.productId)}
+                                disabled={isNaN(draftQty) || draftQty < 0 || addEntryMutation.isPending}
+                                data-testid={`button-add-count-${line.productId}`}
+                              >
+                                Add
+                              </Button>
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-close-count">
+            Close
+          </Button>
+          {isOpen && (
+            <Button
+              onClick={handlePost}
+              disabled={countedLines.length === 0 || postMutation.isPending}
+              data-testid="button-post-count"
+            >
+              {postMutation.isPending ? "Posting..." : "Post Count"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,417 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { Product, ProductPack } from "@shared/schema";
+
+type TaxCategory = Product["taxCategory"];
+
+interface EditableProduct {
+  id: string;
+  name: string;
+  ndcCode?: string | null;
+  type: string;
+  unit: string;
+  description?: string | null;
+  category?: string | null;
+  taxCategory?: TaxCategory;
+  archivedAt?: string | null;
+}
+
+interface ProductHistoryEntry {
+  id: string;
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+  changedByName: string | null;
+}
+
+interface EditProductDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: EditableProduct | null;
+}
+
+const taxCategoryLabels: Record<TaxCategory, string> = {
+  general: "General merchandise",
+  prescription: "Prescription medication",
+  otc_medication: "Over-the-counter medication",
+  exempt: "Always exempt",
+};
+
+const fieldLabels: Record<string, string> = {
+  name: "Name",
+  ndcCode: "NDC",
+  type: "Type",
+  unit: "Unit",
+  category: "Category",
+  taxCategory: "Sales tax",
+  listPrice: "List price",
+};
+
+const historyValue = (field: string, value: string | null) =>
+  value === null ? "—" : field === "taxCategory" ? taxCategoryLabels[value as TaxCategory] ?? value : value;
+
+export function EditProductDialog({ open, onOpenChange, product }: EditProductDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [ndcCode, setNdcCode] = useState("");
+  const [type, setType] = useState("solid");
+  const [unit, setUnit] = useState("count");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("");
+  const [taxCategory, setTaxCategory] = useState<TaxCategory>("general");
+  const [packName, setPackName] = useState("");
+  const [packQty, setPackQty] = useState("");
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open && product) {
+      setName(product.name);
+      setNdcCode(product.ndcCode ?? "");
+      setType(product.type);
+      setUnit(product.unit);
+      setDescription(product.description ?? "");
+      setCategory(product.category ?? "");
+      setTaxCategory(product.taxCategory ?? "general");
+      setPackName("");
+      setPackQty("");
+    }
+  }, [open, product]);
+
+  const { data: history = [] } = useQuery<ProductHistoryEntry[]>({
+    queryKey: ["/api/tenants", currentTenant, "products", product?.id, "history"],
+    enabled: open && !!currentTenant && !!product,
+  });
+
+  const packsKey = ["/api/tenants", currentTenant, "products", product?.id, "packs"];
+  const { data: packs = [] } = useQuery<ProductPack[]>({
+    queryKey: packsKey,
+    enabled: open && !!currentTenant && !!product,
+  });
+
+  const invalidatePacks = () => {
+    queryClient.invalidateQueries({ queryKey: packsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "product-packs"] });
+  };
+
+  const addPackMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/products/${product!.id}/packs`, {
+        name: packName,
+        qtyPerPack: parseInt(packQty, 10),
+      });
+    },
+    onSuccess: () => {
+      setPackName("");
+      setPackQty("");
+      invalidatePacks();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Add Pack",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removePackMutation = useMutation({
+    mutationFn: async (packId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/products/${product!.id}/packs/${packId}`);
+    },
+    onSuccess: invalidatePacks,
+    onError: (error) => {
+      toast({
+        title: "Could Not Remove Pack",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invalidateProducts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/tenants/${currentTenant}/products/${product!.id}`, {
+        name,
+        ndcCode: ndcCode.trim() || null,
+        type,
+        unit,
+        description: description.trim() || null,
+        category: category.trim() || null,
+        taxCategory,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Product Updated",
+        description: `${name} has been saved.`,
+      });
+      invalidateProducts();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (archive: boolean) => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/products/${product!.id}/${archive ? "archive" : "restore"}`, {});
+      return archive;
+    },
+    onSuccess: (archive) => {
+      toast({
+        title: archive ? "Product Archived" : "Product Restored",
+        description: archive
+          ? `${product!.name} is hidden from sale. Past orders still show it.`
+          : `${product!.name} is available again.`,
+      });
+      invalidateProducts();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Action Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isArchived = !!product?.archivedAt;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isArchived ? "Archived Product" : "Edit Product"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isArchived && (
+            <p className="text-sm text-muted-foreground">
+              Archived {new Date(product!.archivedAt!).toLocaleDateString()}. Restore it to edit or sell it again.
+            </p>
+          )}
+
+          <div>
+            <Label htmlFor="product-name">Name</Label>
+            <Input
+              id="product-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isArchived}
+              data-testid="input-product-name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="product-ndc">NDC</Label>
+            <Input
+              id="product-ndc"
+              value={ndcCode}
+              onChange={(e) => setNdcCode(e.target.value)}
+              placeholder="12345-678-90"
+              disabled={isArchived}
+              data-testid="input-product-ndc"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="product-type">Type</Label>
+              <Select value={type} onValueChange={setType} disabled={isArchived}>
+                <SelectTrigger id="product-type" data-testid="select-product-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="solid">Solid</SelectItem>
+                  <SelectItem value="liquid">Liquid</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="product-unit">Unit</Label>
+              <Select value={unit} onValueChange={setUnit} disabled={isArchived}>
+                <SelectTrigger id="product-unit" data-testid="select-product-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="count">Count</SelectItem>
+                  <SelectItem value="g">Grams</SelectItem>
+                  <SelectItem value="ml">Milliliters</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="product-category">Category</Label>
+            <Input
+              id="product-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="Antibiotics, OTC, Vitamins..."
+              disabled={isArchived}
+              data-testid="input-product-category"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">Price rules can set a margin or rounding per category.</p>
+          </div>
+
+          <div>
+            <Label htmlFor="product-tax-category">Sales Tax</Label>
+            <Select value={taxCategory} onValueChange={(value) => setTaxCategory(value as TaxCategory)} disabled={isArchived}>
+              <SelectTrigger id="product-tax-category" data-testid="select-product-tax-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(taxCategoryLabels) as TaxCategory[]).map((value) => (
+                  <SelectItem key={value} value={value}>{taxCategoryLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="mt-1 text-xs text-muted-foreground">Each tax jurisdiction sets the rate for prescription and over-the-counter medication.</p>
+          </div>
+
+          <div>
+            <Label htmlFor="product-description">Description</Label>
+            <Textarea
+              id="product-description"
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isArchived}
+              data-testid="textarea-product-description"
+            />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-foreground mb-2">Pack Sizes</h4>
+            <p className="text-xs text-muted-foreground mb-2">
+              Buy or sell in packs; stock and cost are always kept per {unit}.
+            </p>
+            {packs.length > 0 && (
+              <ul className="mb-2 divide-y divide-border border border-border rounded-md text-sm">
+                {packs.map((pack) => (
+                  <li key={pack.id} className="flex justify-between items-center px-3 py-2" data-testid={`row-pack-${pack.id}`}>
+                    <span>{pack.name} = {pack.qtyPerPack} {product?.unit}</span>
+                    {!isArchived && (
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-red-600"
+                        onClick={() => removePackMutation.mutate(pack.id)}
+                        disabled={removePackMutation.isPending}
+                        aria-label="Remove pack"
+                        data-testid={`button-remove-pack-${pack.id}`}
+                      >
+                        <i className="fas fa-times text-xs"></i>
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!isArchived && (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Bottle of 100"
+                  value={packName}
+                  onChange={(e) => setPackName(e.target.value)}
+                  data-testid="input-pack-name"
+                />
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-28"
+                  placeholder={`# ${product?.unit ?? ""}`}
+                  value={packQty}
+                  onChange={(e) => setPackQty(e.target.value)}
+                  data-testid="input-pack-qty"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => addPackMutation.mutate()}
+                  disabled={!packName.trim() || !(parseInt(packQty, 10) >= 1) || addPackMutation.isPending}
+                  data-testid="button-add-pack"
+                >
+                  Add
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-foreground mb-2">Change History</h4>
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes recorded.</p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto border border-border rounded-md">
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-border">
+                    {history.map((entry) => (
+                      <tr key={entry.id} data-testid={`row-product-history-${entry.id}`}>
+                        <td className="px-3 py-2 whitespace-nowrap text-muted-foreground">
+                          {new Date(entry.changedAt).toLocaleDateString()}
+                        </td>
+                        <td className="px-3 py-2">
+                          {fieldLabels[entry.field] ?? entry.field}: {historyValue(entry.field, entry.oldValue)} → {historyValue(entry.field, entry.newValue)}
+                        </td>
+                        <td className="px-3 py-2 text-muted-foreground">{entry.changedByName ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant={isArchived ? "secondary" : "destructive"}
+            onClick={() => archiveMutation.mutate(!isArchived)}
+            disabled={archiveMutation.isPending}
+            data-testid={isArchived ? "button-restore-product" : "button-archive-product"}
+          >
+            {isArchived ? "Restore" : "Archive"}
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-edit-product">
+              Cancel
+            </Button>
+            {!isArchived && (
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!name.trim() || saveMutation.isPending}
+                data-testid="button-save-product"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface ExpiringLot {
+  lotId: string;
+  batchId: string;
+  productId: string;
+  productName: string;
+  unit: string;
+  lotNumber: string | null;
+  expiresAt: string;
+  qtyRemaining: number;
+  unitCost: string;
+  daysUntilExpiry: number;
+  isExpired: boolean;
+}
+
+export function ExpiringLotsPanel() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState("30");
+
+  const { data: lots = [] } = useQuery<ExpiringLot[]>({
+    queryKey: ["/api/tenants", currentTenant, "inventory", `expiring?days=${days}`],
+    enabled: !!currentTenant,
+  });
+
+  const writeOffMutation = useMutation({
+    mutationFn: async (lot: ExpiringLot) => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/inventory/lots/${lot.lotId}/write-off`, {});
+      return lot;
+    },
+    onSuccess: (lot) => {
+      toast({
+        title: "Lot Written Off",
+        description: `${lot.qtyRemaining} ${lot.unit} of ${lot.productName} recorded as waste.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Write-off Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-6" data-testid="panel-expiring-lots">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-center mb-4">
+          <TooltipHelp content="Lots that have expired or will expire soon. Expired lots cannot be sold; write them off to record the waste and clear them from stock." side="right">
+            <h3 className="text-lg font-medium text-foreground">
+              <i className="fas fa-hourglass-half text-orange-600 mr-2"></i>
+              Expiring Stock ({lots.length})
+            </h3>
+          </TooltipHelp>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-40" data-testid="select-expiring-days">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="0">Expired only</SelectItem>
+              <SelectItem value="30">Within 30 days</SelectItem>
+              <SelectItem value="60">Within 60 days</SelectItem>
+              <SelectItem value="90">Within 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {lots.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-expiring-lots">
+            No lots expire in this window.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border text-sm">
+              <thead>
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-muted-foreground">Product</th>
+                  <th className="px-4 py-2 text-left font-medium text-muted-foreground">Lot</th>
+                  <th className="px-4 py-2 text-left font-medium text-muted-foreground">Expires</th>
+                  <th className="px-4 py-2 text-right font-medium text-muted-foreground">Qty</th>
+                  <th className="px-4 py-2 text-right font-medium text-muted-foreground">Value</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {lots.map((lot) => (
+                  <tr key={lot.lotId} data-testid={`row-expiring-${lot.lotId}`}>
+                    <td className="px-4 py-2 font-medium text-foreground">{lot.productName}</td>
+                    <td className="px-4 py-2">{lot.lotNumber ?? "—"}</td>
+                    <td className={`px-4 py-2 ${lot.isExpired ? 'text-red-600 font-medium' : 'text-orange-600'}`}>
+                      {new Date(lot.expiresAt).toLocaleDateString()}
+                      {lot.isExpired ? " (expired)" : ` (${lot.daysUntilExpiry}d)`}
+                    </td>
+                    <td className="px-4 py-2 text-right">{lot.qtyRemaining} {lot.unit}</td>
+                    <td className="px-4 py-2 text-right">${(lot.qtyRemaining * parseFloat(lot.unitCost)).toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right">
+                      {lot.isExpired && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => writeOffMutation.mutate(lot)}
+                          disabled={writeOffMutation.isPending}
+                          data-testid={`button-write-off-${lot.lotId}`}
+                        >
+                          Write Off
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+
+const importFields = [
+  { key: "name", label: "Name" },
+  { key: "ndcCode", label: "NDC" },
+  { key: "type", label: "Type (solid/liquid/other)" },
+  { key: "unit", label: "Unit (g/ml/count)" },
+  { key: "description", label: "Description" },
+  { key: "openingQty", label: "Opening qty" },
+  { key: "unitCost", label: "Unit cost" },
+  { key: "lotNumber", label: "Lot number" },
+  { key: "expiresAt", label: "Expiry date" },
+] as const;
+
+type ImportField = typeof importFields[number]["key"];
+
+// Sentinel for "don't import this field"; Select items cannot have an empty value
+const UNMAPPED = "__none__";
+
+interface ImportReport {
+  dryRun: boolean;
+  headers: string[];
+  mapping: Partial<Record<ImportField, string>>;
+  totalRows: number;
+  validRows: number;
+  errors: Array<{ row: number; column?: string; message: string }>;
+  imported?: number;
+  openingStockLots?: number;
+}
+
+interface ImportProductsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportProductsDialog({ open, onOpenChange }: ImportProductsDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setMapping({});
+      setReport(null);
+    }
+  }, [open]);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("mapping", JSON.stringify(mapping));
+      formData.append("dry_run", String(dryRun));
+
+      const response = await fetch(`/api/tenants/${currentTenant}/products/import`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const data = await response.json();
+      // A rejected commit still carries the row report
+      if (!response.ok && !data.errors) {
+        throw new Error(data.message || "Import failed");
+      }
+      return data as ImportReport;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      setMapping(
+        Object.fromEntries(importFields.map(({ key }) => [key, data.mapping[key] ?? ""])) as Partial<Record<ImportField, string>>
+      );
+      if (data.imported !== undefined) {
+        toast({
+          title: "Catalog Imported",
+          description: `${data.imported} products added, ${data.openingStockLots} with opening stock.`,
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "inventory"] });
+        onOpenChange(false);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectFile = (selected: File | null) => {
+    setFile(selected);
+    setMapping({});
+    setReport(null);
+  };
+
+  const canImport = !!report && report.dryRun && report.errors.length === 0 && report.validRows > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="import-file">CSV or Excel file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+              data-testid="input-import-file"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              One product per row with a header row. Opening qty, unit cost, lot and expiry are optional and create opening stock.
+            </p>
+          </div>
+
+          {report && (
+            <>
+              <div>
+                <h4 className="text-sm font-medium text-foreground mb-2">Column Mapping</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {importFields.map(({ key, label }) => (
+                    <div key={key}>
+                      <Label className="text-xs">{label}</Label>
+                      <Select
+                        value={mapping[key] || UNMAPPED}
+                        onValueChange={(value) => setMapping((current) => ({ ...current, [key]: value === UNMAPPED ? "" : value }))}
+                      >
+                        <SelectTrigger data-testid={`select-import-mapping-${key}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>— Not imported —</SelectItem>
+                          {report.headers.filter(Boolean).map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="text-sm" data-testid="text-import-summary">
+                {report.validRows} of {report.totalRows} rows are valid
+                {report.errors.length > 0 && (
+                  <span className="text-red-600"> · {report.errors.length} problem(s) to fix</span>
+                )}
+              </div>
+
+              {report.errors.length > 0 && (
+                <div className="max-h-56 overflow-y-auto border border-border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Row</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Column</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {report.errors.map((error, index) => (
+                        <tr key={index} data-testid={`row-import-error-${index}`}>
+                          <td className="px-3 py-2">{error.row}</td>
+                          <td className="px-3 py-2">{error.column ?? "—"}</td>
+                          <td className="px-3 py-2 text-red-600">{error.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-import">
+            Cancel
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => importMutation.mutate(true)}
+            disabled={!file || importMutation.isPending}
+            data-testid="button-validate-import"
+          >
+            {report ? "Re-check" : "Check File"}
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate(false)}
+            disabled={!canImport || importMutation.isPending}
+            data-testid="button-submit-import"
+          >
+            {importMutation.isPending ? "Working..." : `Import ${report?.validRows ?? 0} Products`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
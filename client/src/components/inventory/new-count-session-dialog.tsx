@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { useLocations, useCurrentLocation } from "@/hooks/use-locations";
+import { apiRequest } from "@/lib/queryClient";
+import type { CountSession, Product } from "@shared/schema";
+
+// Select items cannot have an empty value
+const ALL_LOCATIONS = "all";
+
+interface NewCountSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (sessionId: string) => void;
+}
+
+export function NewCountSessionDialog({ open, onOpenChange, onCreated }: NewCountSessionDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [countAll, setCountAll] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [locationId, setLocationId] = useState(ALL_LOCATIONS);
+
+  const { data: locations = [] } = useLocations(currentTenant);
+  const { data: currentLocation } = useCurrentLocation(currentTenant);
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setName(`Count ${new Date().toLocaleDateString()}`);
+      setNotes("");
+      setCountAll(true);
+      setSelected(new Set());
+      setLocationId(currentLocation?.id ?? ALL_LOCATIONS);
+    }
+  }, [open, currentLocation?.id]);
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/tenants", currentTenant, "products"],
+    enabled: open && !!currentTenant,
+  });
+
+  const toggleProduct = (productId: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(productId);
+      } else {
+        next.delete(productId);
+      }
+      return next;
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/count-sessions`, {
+        name,
+        notes: notes || null,
+        locationId: locationId === ALL_LOCATIONS ? null : locationId,
+        productIds: countAll ? undefined : Array.from(selected),
+      });
+      return (await res.json()) as CountSession;
+    },
+    onSuccess: (session) => {
+      toast({
+        title: "Count Started",
+        description: `${session.name} is open for counting.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "count-sessions"] });
+      onOpenChange(false);
+      onCreated?.(session.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Start Count",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = name.trim().length > 0 && (countAll || selected.size > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Stock Count</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="count-name">Name</Label>
+            <Input
+              id="count-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-count-name"
+            />
+          </div>
+
+          {locations.length > 1 && (
+            <div>
+              <Label htmlFor="count-location">Location</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger id="count-location" data-testid="select-count-location">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="count-all"
+              checked={countAll}
+              onCheckedChange={(checked) => setCountAll(checked === true)}
+              data-testid="checkbox-count-all"
+            />
+            <Label htmlFor="count-all">Count every product</Label>
+          </div>
+
+          {!countAll && (
+            <div className="max-h-56 overflow-y-auto border border-border rounded-md divide-y divide-border">
+              {products.map((product) => (
+                <label
+                  key={product.id}
+                  className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer"
+                  data-testid={`option-count-product-${product.id}`}
+                >
+                  <Checkbox
+                    checked={selected.has(product.id)}
+                    onCheckedChange={(checked) => toggleProduct(product.id, checked === true)}
+                  />
+                  {product.name}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="count-notes">Notes</Label>
+            <Textarea
+              id="count-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Back room only, quarterly count..."
+              data-testid="textarea-count-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-count">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canSubmit || createMutation.isPending}
+            data-testid="button-submit-count"
+          >
+            {createMutation.isPending ? "Starting..." : "Start Count"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
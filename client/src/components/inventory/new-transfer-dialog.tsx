@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { useLocations, useCurrentLocation } from "@/hooks/use-locations";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SourceProduct {
+  id: string;
+  name: string;
+  unit: string;
+  currentStock: number;
+}
+
+interface TransferLine {
+  productId: string;
+  qty: string;
+}
+
+interface NewTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NewTransferDialog({ open, onOpenChange }: NewTransferDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: locations = [] } = useLocations(currentTenant);
+  const { data: currentLocation } = useCurrentLocation(currentTenant);
+
+  const [fromLocationId, setFromLocationId] = useState("");
+  const [toLocationId, setToLocationId] = useState("");
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [notes, setNotes] = useState("");
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setFromLocationId(currentLocation?.id ?? "");
+      setToLocationId("");
+      setLines([{ productId: "", qty: "" }]);
+      setNotes("");
+    }
+  }, [open, currentLocation?.id]);
+
+  // Only what is on hand at the source can be sent
+  const { data: sourceProducts = [] } = useQuery<SourceProduct[]>({
+    queryKey: ["/api/tenants", currentTenant, "products", "with_inventory", false, fromLocationId],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${currentTenant}/products?with_inventory=true&location_id=${fromLocationId}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch products");
+      return response.json();
+    },
+    enabled: open && !!currentTenant && !!fromLocationId,
+  });
+
+  const inStock = sourceProducts.filter((product) => product.currentStock > 0);
+  const productById = new Map(sourceProducts.map((product) => [product.id, product]));
+
+  const updateLine = (index: number, changes: Partial<TransferLine>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/stock-transfers`, {
+        fromLocationId,
+        toLocationId,
+        notes: notes.trim() || null,
+        items: lines.map((line) => ({ productId: line.productId, qty: parseInt(line.qty, 10) })),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Transfer Sent",
+        description: "Stock is in transit until the receiving store accepts it.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "stock-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Transfer Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const linesValid = lines.length > 0 && lines.every((line) => {
+    const qty = parseInt(line.qty, 10);
+    const product = productById.get(line.productId);
+    return !!product && qty >= 1 && qty <= product.currentStock;
+  });
+  const canSubmit = !!fromLocationId && !!toLocationId && fromLocationId !== toLocationId && linesValid;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Transfer</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="transfer-from">From</Label>
+              <Select
+                value={fromLocationId}
+                onValueChange={(value) => {
+                  setFromLocationId(value);
+                  setLines([{ productId: "", qty: "" }]);
+                }}
+              >
+                <SelectTrigger id="transfer-from" data-testid="select-transfer-from">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="transfer-to">To</Label>
+              <Select value={toLocationId} onValueChange={setToLocationId}>
+                <SelectTrigger id="transfer-to" data-testid="select-transfer-to">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.filter((location) => location.id !== fromLocationId).map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-foreground mb-2">Products</h4>
+            <p className="text-xs text-muted-foreground mb-2">
+              Lots are picked earliest expiry first. Quarantined lots stay where they are.
+            </p>
+            <div className="space-y-2">
+              {lines.map((line, index) => {
+                const product = productById.get(line.productId);
+                return (
+                  <div key={index} className="flex gap-2 items-center" data-testid={`row-transfer-line-${index}`}>
+                    <Select value={line.productId} onValueChange={(value) => updateLine(index, { productId: value })}>
+                      <SelectTrigger className="flex-1" data-testid={`select-transfer-product-${index}`}>
+                        <SelectValue placeholder={fromLocationId ? "Select product" : "Choose a source first"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {inStock.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.name} ({option.currentStock} {option.unit})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="1"
+                      max={product?.currentStock}
+                      className="w-24"
+                      placeholder={product?.unit ?? "Qty"}
+                      value={line.qty}
+                      onChange={(e) => updateLine(index, { qty: e.target.value })}
+                      data-testid={`input-transfer-qty-${index}`}
+                    />
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-red-600 disabled:opacity-50"
+                      onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                      disabled={lines.length === 1}
+                      aria-label="Remove line"
+                      data-testid={`button-remove-transfer-line-${index}`}
+                    >
+                      <i className="fas fa-times text-xs"></i>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => setLines((current) => [...current, { productId: "", qty: "" }])}
+              disabled={!fromLocationId}
+              data-testid="button-add-transfer-line"
+            >
+              <i className="fas fa-plus mr-2"></i>
+              Add Product
+            </Button>
+          </div>
+
+          <div>
+            <Label htmlFor="transfer-notes">Notes</Label>
+            <Textarea
+              id="transfer-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Courier, expected arrival..."
+              data-testid="textarea-transfer-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-transfer">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canSubmit || createMutation.isPending}
+            data-testid="button-submit-transfer"
+          >
+            {createMutation.isPending ? "Sending..." : "Send Transfer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
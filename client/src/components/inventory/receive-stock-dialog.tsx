@@ -0,0 +1,322 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { useLocations, useCurrentLocation } from "@/hooks/use-locations";
+import { useBarcodeScanner, resolveBarcode } from "@/hooks/use-barcode-scanner";
+import { apiRequest } from "@/lib/queryClient";
+import type { ProductPack } from "@shared/schema";
+
+interface ReceiveStockProduct {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+interface ReceiveStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: ReceiveStockProduct[];
+  defaultProductId?: string;
+}
+
+interface ReceiveStockResult {
+  batch: { id: string };
+  currentStock: number;
+  wac: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Select value for receiving in the product's base unit
+const BASE_UNIT = "base";
+
+export function ReceiveStockDialog({ open, onOpenChange, products, defaultProductId }: ReceiveStockDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [productId, setProductId] = useState(defaultProductId || "");
+  const [supplier, setSupplier] = useState("");
+  const [acquiredAt, setAcquiredAt] = useState(today());
+  const [qtyAcquired, setQtyAcquired] = useState("");
+  const [packId, setPackId] = useState(BASE_UNIT);
+  const [totalCost, setTotalCost] = useState("");
+  const [lotNumber, setLotNumber] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [scanCode, setScanCode] = useState("");
+
+  const { data: locations = [] } = useLocations(currentTenant);
+  const { data: currentLocation } = useCurrentLocation(currentTenant);
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setProductId(defaultProductId || "");
+      setSupplier("");
+      setAcquiredAt(today());
+      setQtyAcquired("");
+      setPackId(BASE_UNIT);
+      setTotalCost("");
+      setLotNumber("");
+      setExpiresAt("");
+      setNotes("");
+      setLocationId(currentLocation?.id ?? "");
+      setScanCode("");
+    }
+  }, [open, defaultProductId, currentLocation?.id]);
+
+  const { data: packs = [] } = useQuery<ProductPack[]>({
+    queryKey: ["/api/tenants", currentTenant, "products", productId, "packs"],
+    enabled: open && !!currentTenant && !!productId,
+  });
+
+  // Prefill product, lot and expiry from the package barcode
+  const handleScan = async (code: string) => {
+    setScanCode("");
+    try {
+      const { scan, product } = await resolveBarcode(currentTenant!, code);
+      if (product && products.some(p => p.id === product.id)) {
+        if (product.id !== productId) {
+          setProductId(product.id);
+          setPackId(BASE_UNIT);
+        }
+      } else {
+        toast({
+          title: "Product Not Found",
+          description: scan.ndc ? `No product with NDC ${scan.ndc} is in the catalog.` : "This barcode has no NDC to look up.",
+          variant: "destructive",
+        });
+      }
+      if (scan.lotNumber) setLotNumber(scan.lotNumber);
+      if (scan.expiresAt) setExpiresAt(scan.expiresAt);
+    } catch (error: any) {
+      toast({
+        title: "Scan Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  useBarcodeScanner({ enabled: open && !!currentTenant, onScan: handleScan });
+
+  const selectedProduct = products.find(p => p.id === productId);
+  const selectedPack = packs.find(p => p.id === packId);
+
+  const receiveStockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/products/${productId}/batches`, {
+        supplier,
+        acquiredAt,
+        qtyAcquired: parseInt(qtyAcquired),
+        packId: selectedPack?.id ?? null,
+        locationId: locationId || null,
+        totalCost,
+        lotNumber: lotNumber || null,
+        expiresAt: expiresAt || null,
+        notes: notes || null,
+      });
+      return (await res.json()) as ReceiveStockResult;
+    },
+    onSuccess: (result) => {
+      const product = products.find(p => p.id === productId);
+      toast({
+        title: "Stock Received",
+        description: `${product?.name ?? "Product"} now has ${result.currentStock} ${product?.unit ?? ""} on hand (WAC $${result.wac}).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "inventory"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Receiving Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = !!productId && supplier.trim().length > 0 && parseInt(qtyAcquired) > 0 && totalCost !== "" && parseFloat(totalCost) >= 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Receive Stock</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="receive-scan">Scan Barcode</Label>
+            <Input
+              id="receive-scan"
+              value={scanCode}
+              onChange={(e) => setScanCode(e.target.value)}
+              placeholder="Scan the package to fill product, lot and expiry"
+              data-barcode-input
+              data-testid="input-receive-scan"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="receive-product">Product</Label>
+            <Select value={productId} onValueChange={(value) => { setProductId(value); setPackId(BASE_UNIT); }}>
+              <SelectTrigger id="receive-product" data-testid="select-receive-product">
+                <SelectValue placeholder="Select product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {locations.length > 1 && (
+            <div>
+              <Label htmlFor="receive-location">Receive Into</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger id="receive-location" data-testid="select-receive-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="receive-supplier">Supplier</Label>
+            <Input
+              id="receive-supplier"
+              value={supplier}
+              onChange={(e) => setSupplier(e.target.value)}
+              placeholder="Supplier name"
+              data-testid="input-receive-supplier"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="receive-acquired-at">Received On</Label>
+              <Input
+                id="receive-acquired-at"
+                type="date"
+                value={acquiredAt}
+                onChange={(e) => setAcquiredAt(e.target.value)}
+                data-testid="input-receive-acquired-at"
+              />
+            </div>
+            <div>
+              <Label htmlFor="receive-pack">Received As</Label>
+              <Select value={packId} onValueChange={setPackId} disabled={!productId}>
+                <SelectTrigger id="receive-pack" data-testid="select-receive-pack">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BASE_UNIT}>{selectedProduct?.unit ?? "Base unit"}</SelectItem>
+                  {packs.map((pack) => (
+                    <SelectItem key={pack.id} value={pack.id}>
+                      {pack.name} ({pack.qtyPerPack} {selectedProduct?.unit})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="receive-qty">Quantity</Label>
+              <Input
+                id="receive-qty"
+                type="number"
+                min="1"
+                value={qtyAcquired}
+                onChange={(e) => setQtyAcquired(e.target.value)}
+                data-testid="input-receive-qty"
+              />
+              {selectedPack && parseInt(qtyAcquired) > 0 && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  = {parseInt(qtyAcquired) * selectedPack.qtyPerPack} {selectedProduct?.unit}
+                </p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="receive-total-cost">Total Cost</Label>
+              <Input
+                id="receive-total-cost"
+                type="number"
+                min="0"
+                step="0.01"
+                value={totalCost}
+                onChange={(e) => setTotalCost(e.target.value)}
+                data-testid="input-receive-total-cost"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="receive-lot-number">Lot Number</Label>
+              <Input
+                id="receive-lot-number"
+                value={lotNumber}
+                onChange={(e) => setLotNumber(e.target.value)}
+                placeholder="From the package label"
+                data-testid="input-receive-lot-number"
+              />
+            </div>
+            <div>
+              <Label htmlFor="receive-expires-at">Expiration Date</Label>
+              <Input
+                id="receive-expires-at"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                data-testid="input-receive-expires-at"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="receive-notes">Notes</Label>
+            <Textarea
+              id="receive-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Invoice number, condition on arrival..."
+              data-testid="textarea-receive-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-receive">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => receiveStockMutation.mutate()}
+            disabled={!canSubmit || receiveStockMutation.isPending}
+            data-testid="button-submit-receive"
+          >
+            {receiveStockMutation.isPending ? "Receiving..." : "Receive Stock"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useTenant } from "@/contexts/tenant-context";
+
+interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  unit: string;
+  currentStock: number;
+  avgDailySales: number;
+  daysOfCover: number;
+  reorderPoint: number;
+  suggestedQty: number;
+  needsReorder: boolean;
+}
+
+interface ReorderPanelProps {
+  onReceive: (productId: string) => void;
+}
+
+export function ReorderPanel({ onReceive }: ReorderPanelProps) {
+  const { currentTenant } = useTenant();
+
+  const { data: suggestions } = useQuery<ReorderSuggestion[]>({
+    queryKey: ["/api/tenants", currentTenant, "inventory", "reorder-suggestions"],
+    enabled: !!currentTenant,
+  });
+
+  const needsReorder = suggestions?.filter(s => s.needsReorder) ?? [];
+  if (needsReorder.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-yellow-300" data-testid="panel-needs-reorder">
+      <CardContent className="p-6">
+        <TooltipHelp content="Products whose stock will not last through your supplier lead time plus safety days at the current sales pace. Adjust lead time and safety days in Settings." side="right">
+          <h3 className="text-lg font-medium text-foreground mb-4">
+            <i className="fas fa-exclamation-triangle text-yellow-600 mr-2"></i>
+            Needs Reorder ({needsReorder.length})
+          </h3>
+        </TooltipHelp>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border text-sm">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-muted-foreground">Product</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">On Hand</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Avg / Day</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Days of Cover</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Reorder Point</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Suggested Order</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {needsReorder.map((suggestion) => (
+                <tr key={suggestion.productId} data-testid={`row-reorder-${suggestion.productId}`}>
+                  <td className="px-4 py-2 font-medium text-foreground">{suggestion.name}</td>
+                  <td className="px-4 py-2 text-right">{suggestion.currentStock} {suggestion.unit}</td>
+                  <td className="px-4 py-2 text-right">{suggestion.avgDailySales}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${suggestion.daysOfCover < 1 ? 'text-red-600' : 'text-yellow-600'}`}>
+                    {suggestion.daysOfCover}
+                  </td>
+                  <td className="px-4 py-2 text-right">{suggestion.reorderPoint}</td>
+                  <td className="px-4 py-2 text-right font-semibold">{suggestion.suggestedQty} {suggestion.unit}</td>
+                  <td className="px-4 py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onReceive(suggestion.productId)}
+                      data-testid={`button-reorder-receive-${suggestion.productId}`}
+                    >
+                      Receive
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
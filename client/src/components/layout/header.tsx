@@ -5,6 +5,7 @@ import { useTenant } from "@/contexts/tenant-context";
 import { HelpOverlay } from "@/components/help/help-overlay";
 import { HelpCircle } from "lucide-react";
 import { BrandMark } from "@/branding/BrandMark";
+import { LocationSwitcher } from "@/components/layout/location-switcher";
 
 interface HeaderProps {
   onMobileMenuToggle: () => void;
@@ -13,7 +14,7 @@ interface HeaderProps {
 
 export default function Header({ onMobileMenuToggle, tenantName }: HeaderProps) {
   const { user } = useAuth();
-  const { clearTenant } = useTenant();
+  const { clearTenant, currentTenant } = useTenant();
   const [helpOverlayOpen, setHelpOverlayOpen] = useState(false);
 
   const handleLogout = () => {
@@ -70,6 +71,8 @@ export default function Header({ onMobileMenuToggle, tenantName }: HeaderProps)
           </div>
           
           <div className="flex items-center space-x-4">
+            <LocationSwitcher tenantId={currentTenant} />
+
             <Button 
               variant="ghost" 
               size="sm" 
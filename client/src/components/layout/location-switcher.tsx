@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLocations, useCurrentLocation } from "@/hooks/use-locations";
+
+interface LocationSwitcherProps {
+  tenantId: string | null;
+}
+
+// Only shown once a tenant has more than one location
+export function LocationSwitcher({ tenantId }: LocationSwitcherProps) {
+  const { data: locations = [] } = useLocations(tenantId);
+  const { data: currentLocation, setCurrentLocation } = useCurrentLocation(tenantId);
+
+  if (locations.length < 2 || !currentLocation) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={currentLocation.id}
+      onValueChange={(locationId) => setCurrentLocation.mutate(locationId)}
+      disabled={setCurrentLocation.isPending}
+    >
+      <SelectTrigger className="w-44" data-testid="select-current-location">
+        <i className="fas fa-store mr-2 text-muted-foreground"></i>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {locations.map((location) => (
+          <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -20,8 +20,15 @@ interface NavItem {
 const navItems: NavItem[] = [
   { href: "/dashboard", icon: "fas fa-chart-line", label: "Dashboard", flagKey: "dashboard" },
   { href: "/inventory", icon: "fas fa-boxes", label: "Inventory", flagKey: "inventory" },
+  { href: "/purchase-orders", icon: "fas fa-file-invoice", label: "Purchase Orders", flagKey: "inventory" },
+  { href: "/recalls", icon: "fas fa-exclamation-circle", label: "Recalls", flagKey: "inventory" },
+  { href: "/counts", icon: "fas fa-clipboard-check", label: "Stock Counts", flagKey: "inventory" },
+  { href: "/locations", icon: "fas fa-store", label: "Locations", flagKey: "inventory" },
+  { href: "/valuation", icon: "fas fa-balance-scale", label: "Valuation", flagKey: "inventory" },
   { href: "/customers", icon: "fas fa-users", label: "Customers", flagKey: "customers" },
   { href: "/sales", icon: "fas fa-cash-register", label: "Sales POS", flagKey: "sales" },
+  { href: "/promotions", icon: "fas fa-tags", label: "Promotions", flagKey: "sales" },
+  { href: "/sales-tax", icon: "fas fa-file-invoice-dollar", label: "Sales Tax", flagKey: "sales" },
   { href: "/delivery", icon: "fas fa-truck", label: "Delivery", flagKey: "delivery" },
   { href: "/loyalty", icon: "fas fa-star", label: "Loyalty", flagKey: "loyalty" },
   { href: "/credit", icon: "fas fa-credit-card", label: "Credit", flagKey: "credit" },
@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { OrderReturn, OrderReturnLine } from "@shared/schema";
+
+type Disposition = OrderReturnLine["disposition"];
+
+export interface ReturnableItem {
+  id: string;
+  productName: string;
+  unit: string;
+  lotNumber: string | null;
+  unitPrice: string;
+  returnableQty: number; // Sold less already returned
+}
+
+interface ReturnItemsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  items: ReturnableItem[];
+  paidShare: number; // What the customer paid per dollar of list price, after discounts, points and tax
+}
+
+export const refundMethodLabels: Record<OrderReturn["refundMethod"], string> = {
+  stripe: "Card (Stripe)",
+  card: "Card at the terminal",
+  cash: "Cash",
+  credit: "Store credit balance",
+  other: "Original payment method",
+};
+
+export function ReturnItemsDialog({ open, onOpenChange, orderId, items, paidShare }: ReturnItemsDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [reason, setReason] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [dispositions, setDispositions] = useState<Record<string, Disposition>>({});
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setQuantities({});
+      setDispositions({});
+    }
+  }, [open]);
+
+  const lines = items
+    .map((item) => ({ item, qty: parseInt(quantities[item.id] ?? "", 10) }))
+    .filter(({ qty }) => !isNaN(qty) && qty > 0);
+  const linesValid = lines.length > 0 && lines.every(({ item, qty }) => qty <= item.returnableQty);
+  const estimate = lines.reduce((sum, { item, qty }) => sum + qty * parseFloat(item.unitPrice) * paidShare, 0);
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/orders/${orderId}/returns`, {
+        reason,
+        lines: lines.map(({ item, qty }) => ({
+          orderItemId: item.id,
+          qty,
+          disposition: dispositions[item.id] ?? "restock",
+        })),
+      });
+      return (await res.json()) as OrderReturn;
+    },
+    onSuccess: (orderReturn) => {
+      if (orderReturn.refundStatus === "completed") {
+        toast({
+          title: "Return Recorded",
+          description: `Refunded $${orderReturn.refundAmount} to ${refundMethodLabels[orderReturn.refundMethod].toLowerCase()}.`,
+        });
+      } else {
+        toast({
+          title: "Return Recorded, Refund Failed",
+          description: `The items are back, but the $${orderReturn.refundAmount} card refund did not go through. Retry it from the order.`,
+          variant: "destructive",
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Record Return",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Everything on this order has already been returned.</p>
+          ) : (
+            <ul className="divide-y divide-border border border-border rounded-md text-sm">
+              {items.map((item) => (
+                <li key={item.id} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-center px-3 py-2" data-testid={`row-return-item-${item.id}`}>
+                  <div>
+                    <div className="font-medium text-foreground">{item.productName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.lotNumber ? `Lot ${item.lotNumber} · ` : ""}{item.returnableQty} {item.unit} returnable
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={item.returnableQty}
+                    value={quantities[item.id] ?? ""}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                    placeholder="Qty"
+                    aria-label={`Quantity of ${item.productName} to return`}
+                    data-testid={`input-return-qty-${item.id}`}
+                  />
+                  <Select
+                    value={dispositions[item.id] ?? "restock"}
+                    onValueChange={(value) => setDispositions({ ...dispositions, [item.id]: value as Disposition })}
+                  >
+                    <SelectTrigger data-testid={`select-return-disposition-${item.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="restock">Back to stock</SelectItem>
+                      <SelectItem value="waste">Waste</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <Label htmlFor="return-reason">Reason</Label>
+            <Input
+              id="return-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Unopened, customer changed mind"
+              data-testid="input-return-reason"
+            />
+          </div>
+
+          {lines.length > 0 && (
+            <p className="text-sm text-muted-foreground" data-testid="text-return-estimate">
+              Refund of about ${estimate.toFixed(2)}, back to the way the order was paid. Redeemed loyalty points are
+              returned and earned points taken back in proportion.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-return">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => returnMutation.mutate()}
+            disabled={!linesValid || !reason.trim() || returnMutation.isPending}
+            data-testid="button-submit-return"
+          >
+            {returnMutation.isPending ? "Recording..." : "Record Return"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
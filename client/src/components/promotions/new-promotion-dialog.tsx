@@ -0,0 +1,285 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { Product, Promotion } from "@shared/schema";
+
+type PromotionType = Promotion["type"];
+
+interface NewPromotionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value for "whole order"; Select items cannot have an empty value
+const WHOLE_ORDER = "__order__";
+
+export const promotionTypeLabels: Record<PromotionType, string> = {
+  percent_off: "Percentage Off",
+  fixed_off: "Fixed Amount Off",
+  buy_x_get_y: "Buy X Get Y",
+};
+
+export function NewPromotionDialog({ open, onOpenChange }: NewPromotionDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [type, setType] = useState<PromotionType>("percent_off");
+  const [value, setValue] = useState("");
+  const [productId, setProductId] = useState(WHOLE_ORDER);
+  const [buyQty, setBuyQty] = useState("");
+  const [getQty, setGetQty] = useState("");
+  const [minSubtotal, setMinSubtotal] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [usageLimit, setUsageLimit] = useState("");
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setCode("");
+      setType("percent_off");
+      setValue("");
+      setProductId(WHOLE_ORDER);
+      setBuyQty("");
+      setGetQty("");
+      setMinSubtotal("");
+      setStartsAt("");
+      setEndsAt("");
+      setUsageLimit("");
+    }
+  }, [open]);
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/tenants", currentTenant, "products"],
+    enabled: open && !!currentTenant,
+  });
+
+  const amount = parseFloat(value);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/promotions`, {
+        name,
+        code: code.trim() || null,
+        type,
+        // Percentages are entered as 0-100 and stored as a rate
+        value: type === "fixed_off" ? amount : amount / 100,
+        productId: productId === WHOLE_ORDER ? null : productId,
+        buyQty: type === "buy_x_get_y" ? parseInt(buyQty, 10) : undefined,
+        getQty: type === "buy_x_get_y" ? parseInt(getQty, 10) : undefined,
+        minSubtotal: minSubtotal ? parseFloat(minSubtotal) : null,
+        startsAt: startsAt || undefined,
+        endsAt: endsAt || null,
+        usageLimitPerCustomer: usageLimit ? parseInt(usageLimit, 10) : null,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Promotion Created",
+        description: code.trim()
+          ? `Customers can use code ${code.trim().toUpperCase()} at checkout.`
+          : "It applies to every qualifying order automatically.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "promotions"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Create Promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const valueValid = !isNaN(amount) && amount > 0 && (type === "fixed_off" || amount <= 100);
+  const quantitiesValid = type !== "buy_x_get_y" ||
+    (productId !== WHOLE_ORDER && parseInt(buyQty, 10) >= 1 && parseInt(getQty, 10) >= 1);
+  const canSubmit = name.trim().length > 0 && valueValid && quantitiesValid &&
+    (!startsAt || !endsAt || endsAt > startsAt);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Promotion</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="promotion-name">Name</Label>
+              <Input
+                id="promotion-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Spring vitamins"
+                data-testid="input-promotion-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="promotion-code-new">Code (blank applies automatically)</Label>
+              <Input
+                id="promotion-code-new"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="e.g. SPRING10"
+                data-testid="input-promotion-code-new"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="promotion-type">Type</Label>
+              <Select value={type} onValueChange={(next) => setType(next as PromotionType)}>
+                <SelectTrigger id="promotion-type" data-testid="select-promotion-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(promotionTypeLabels) as PromotionType[]).map((promotionType) => (
+                    <SelectItem key={promotionType} value={promotionType}>{promotionTypeLabels[promotionType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="promotion-value">
+                {type === "fixed_off" ? "Amount Off ($)" : type === "buy_x_get_y" ? "Off the Free Items (%)" : "Discount (%)"}
+              </Label>
+              <Input
+                id="promotion-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={type === "buy_x_get_y" ? "100 = free" : ""}
+                data-testid="input-promotion-value"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="promotion-product">Product</Label>
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger id="promotion-product" data-testid="select-promotion-product">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_ORDER} disabled={type === "buy_x_get_y"}>
+                  {type === "buy_x_get_y" ? "Select product" : "Whole order"}
+                </SelectItem>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "buy_x_get_y" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promotion-buy-qty">Buy (units)</Label>
+                <Input
+                  id="promotion-buy-qty"
+                  type="number"
+                  min="1"
+                  value={buyQty}
+                  onChange={(e) => setBuyQty(e.target.value)}
+                  data-testid="input-promotion-buy-qty"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promotion-get-qty">Get (units)</Label>
+                <Input
+                  id="promotion-get-qty"
+                  type="number"
+                  min="1"
+                  value={getQty}
+                  onChange={(e) => setGetQty(e.target.value)}
+                  data-testid="input-promotion-get-qty"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="promotion-min-subtotal">Order Minimum ($)</Label>
+              <Input
+                id="promotion-min-subtotal"
+                type="number"
+                min="0"
+                step="0.01"
+                value={minSubtotal}
+                onChange={(e) => setMinSubtotal(e.target.value)}
+                placeholder="None"
+                data-testid="input-promotion-min-subtotal"
+              />
+            </div>
+            <div>
+              <Label htmlFor="promotion-usage-limit">Uses per Customer</Label>
+              <Input
+                id="promotion-usage-limit"
+                type="number"
+                min="1"
+                value={usageLimit}
+                onChange={(e) => setUsageLimit(e.target.value)}
+                placeholder="Unlimited"
+                data-testid="input-promotion-usage-limit"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="promotion-starts">Starts</Label>
+              <Input
+                id="promotion-starts"
+                type="date"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                data-testid="input-promotion-starts"
+              />
+            </div>
+            <div>
+              <Label htmlFor="promotion-ends">Ends (blank for no end)</Label>
+              <Input
+                id="promotion-ends"
+                type="date"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                data-testid="input-promotion-ends"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-promotion">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canSubmit || createMutation.isPending}
+            data-testid="button-submit-promotion"
+          >
+            {createMutation.isPending ? "Creating..." : "Create Promotion"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { Product, Supplier } from "@shared/schema";
+
+interface NewPurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (purchaseOrderId: string) => void;
+}
+
+interface DraftLine {
+  productId: string;
+  qtyOrdered: string;
+  unitCost: string;
+}
+
+const emptyLine = (): DraftLine => ({ productId: "", qtyOrdered: "", unitCost: "" });
+
+export function NewPurchaseOrderDialog({ open, onOpenChange, onCreated }: NewPurchaseOrderDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [supplierId, setSupplierId] = useState("");
+  const [newSupplierName, setNewSupplierName] = useState("");
+  const [expectedAt, setExpectedAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine()]);
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setSupplierId("");
+      setNewSupplierName("");
+      setExpectedAt("");
+      setNotes("");
+      setLines([emptyLine()]);
+    }
+  }, [open]);
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/tenants", currentTenant, "suppliers"],
+    enabled: open && !!currentTenant,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/tenants", currentTenant, "products"],
+    enabled: open && !!currentTenant,
+  });
+
+  const createSupplierMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/suppliers`, { name: newSupplierName });
+      return (await res.json()) as Supplier;
+    },
+    onSuccess: (supplier) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "suppliers"] });
+      setSupplierId(supplier.id);
+      setNewSupplierName("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Add Supplier",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createPurchaseOrderMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/purchase-orders`, {
+        supplierId,
+        expectedAt: expectedAt || null,
+        notes: notes || null,
+        lines: lines.map(line => ({
+          productId: line.productId,
+          qtyOrdered: parseInt(line.qtyOrdered),
+          unitCost: line.unitCost,
+        })),
+      });
+      return (await res.json()) as { id: string; poNumber: string };
+    },
+    onSuccess: (purchaseOrder) => {
+      toast({
+        title: "Purchase Order Created",
+        description: `${purchaseOrder.poNumber} saved as a draft.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "purchase-orders"] });
+      onOpenChange(false);
+      onCreated?.(purchaseOrder.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Create Purchase Order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) => {
+    setLines(current => current.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const linesValid = lines.length > 0 && lines.every(line =>
+    !!line.productId && parseInt(line.qtyOrdered) > 0 && line.unitCost !== "" && parseFloat(line.unitCost) >= 0
+  );
+  const canSubmit = !!supplierId && linesValid;
+  const orderTotal = lines.reduce((sum, line) => sum + (parseInt(line.qtyOrdered) || 0) * (parseFloat(line.unitCost) || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="po-supplier">Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger id="po-supplier" data-testid="select-po-supplier">
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2 mt-2">
+                <Input
+                  value={newSupplierName}
+                  onChange={(e) => setNewSupplierName(e.target.value)}
+                  placeholder="Or add a new supplier"
+                  data-testid="input-new-supplier"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => createSupplierMutation.mutate()}
+                  disabled={!newSupplierName.trim() || createSupplierMutation.isPending}
+                  data-testid="button-add-supplier"
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="po-expected-at">Expected Delivery</Label>
+              <Input
+                id="po-expected-at"
+                type="date"
+                value={expectedAt}
+                onChange={(e) => setExpectedAt(e.target.value)}
+                data-testid="input-po-expected-at"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Lines</Label>
+            <div className="space-y-2 mt-1">
+              {lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center" data-testid={`row-po-line-${index}`}>
+                  <div className="col-span-6">
+                    <Select value={line.productId} onValueChange={(value) => updateLine(index, { productId: value })}>
+                      <SelectTrigger data-testid={`select-po-line-product-${index}`}>
+                        <SelectValue placeholder="Product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="1"
+                    placeholder="Qty"
+                    value={line.qtyOrdered}
+                    onChange={(e) => updateLine(index, { qtyOrdered: e.target.value })}
+                    data-testid={`input-po-line-qty-${index}`}
+                  />
+                  <Input
+                    className="col-span-3"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Unit cost"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                    data-testid={`input-po-line-cost-${index}`}
+                  />
+                  <Button
+                    className="col-span-1"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLines(current => current.filter((_, i) => i !== index))}
+                    disabled={lines.length === 1}
+                    data-testid={`button-remove-po-line-${index}`}
+                  >
+                    <i className="fas fa-times"></i>
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between items-center mt-2">
+              <Button variant="outline" size="sm" onClick={() => setLines(current => [...current, emptyLine()])} data-testid="button-add-po-line">
+                <i className="fas fa-plus mr-2"></i>
+                Add Line
+              </Button>
+              <span className="text-sm font-medium text-foreground">Total: ${orderTotal.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="po-notes">Notes</Label>
+            <Textarea
+              id="po-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="textarea-po-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-po">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createPurchaseOrderMutation.mutate()}
+            disabled={!canSubmit || createPurchaseOrderMutation.isPending}
+            data-testid="button-submit-po"
+          >
+            {createPurchaseOrderMutation.isPending ? "Saving..." : "Save Draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { PurchaseOrder, PurchaseOrderLine, Supplier } from "@shared/schema";
+
+export type PurchaseOrderStatus = PurchaseOrder['status'];
+
+interface PurchaseOrderDetail extends PurchaseOrder {
+  supplier: Supplier;
+  lines: Array<PurchaseOrderLine & {
+    productName: string;
+    unit: string;
+    qtyOutstanding: number;
+    expectedCost: string;
+    costVariance: string;
+  }>;
+  orderedCost: string;
+  receivedCost: string;
+  costVariance: string;
+}
+
+interface PurchaseOrderDetailDialogProps {
+  purchaseOrderId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  received: "Received",
+  closed: "Closed",
+};
+
+export const purchaseOrderStatusColors: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  sent: "bg-blue-100 text-blue-800",
+  partially_received: "bg-yellow-100 text-yellow-800",
+  received: "bg-green-100 text-green-800",
+  closed: "bg-purple-100 text-purple-800",
+};
+
+const varianceClass = (value: string) =>
+  parseFloat(value) > 0 ? "text-red-600" : parseFloat(value) < 0 ? "text-green-600" : "text-muted-foreground";
+
+export function PurchaseOrderDetailDialog({ purchaseOrderId, onOpenChange }: PurchaseOrderDetailDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Per-line receipt inputs, keyed by line id
+  const [receiptQty, setReceiptQty] = useState<Record<string, string>>({});
+  const [receiptCost, setReceiptCost] = useState<Record<string, string>>({});
+  const [receiptLot, setReceiptLot] = useState<Record<string, string>>({});
+  const [receiptExpiry, setReceiptExpiry] = useState<Record<string, string>>({});
+  const [allowOverReceipt, setAllowOverReceipt] = useState(false);
+
+  const resetReceipts = () => {
+    setReceiptQty({});
+    setReceiptCost({});
+    setReceiptLot({});
+    setReceiptExpiry({});
+    setAllowOverReceipt(false);
+  };
+
+  useEffect(() => {
+    resetReceipts();
+  }, [purchaseOrderId]);
+
+  const { data: purchaseOrder, isLoading } = useQuery<PurchaseOrderDetail>({
+    queryKey: ["/api/tenants", currentTenant, "purchase-orders", purchaseOrderId],
+    enabled: !!currentTenant && !!purchaseOrderId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "purchase-orders"] });
+  };
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: 'send' | 'close') => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/purchase-orders/${purchaseOrderId}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      toast({
+        title: action === 'send' ? "Purchase Order Sent" : "Purchase Order Closed",
+        description: purchaseOrder?.poNumber,
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const receipts = (purchaseOrder?.lines ?? [])
+        .filter(line => parseInt(receiptQty[line.id]) > 0)
+        .map(line => ({
+          lineId: line.id,
+          qtyReceived: parseInt(receiptQty[line.id]),
+          totalCost: receiptCost[line.id] || (parseInt(receiptQty[line.id]) * parseFloat(line.unitCost)).toFixed(2),
+          lotNumber: receiptLot[line.id] || null,
+          expiresAt: receiptExpiry[line.id] || null,
+        }));
+      await apiRequest("POST", `/api/tenants/${currentTenant}/purchase-orders/${purchaseOrderId}/receive`, { receipts, allowOverReceipt });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Stock Received",
+        description: "Batches and inventory lots were created for the received lines.",
+      });
+      resetReceipts();
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "inventory"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Receiving Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canReceive = purchaseOrder?.status === 'sent' || purchaseOrder?.status === 'partially_received';
+  const hasReceipts = Object.values(receiptQty).some(value => parseInt(value) > 0);
+  const overReceipt = (purchaseOrder?.lines ?? []).some(line => parseInt(receiptQty[line.id]) > line.qtyOutstanding);
+
+  return (
+    <Dialog open={!!purchaseOrderId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            {purchaseOrder ? `${purchaseOrder.poNumber} — ${purchaseOrder.supplier.name}` : "Purchase Order"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !purchaseOrder ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <Badge className={purchaseOrderStatusColors[purchaseOrder.status]} data-testid="badge-po-status">
+                {purchaseOrderStatusLabels[purchaseOrder.status]}
+              </Badge>
+              <span className="text-muted-foreground">Ordered: ${purchaseOrder.orderedCost}</span>
+              <span className="text-muted-foreground">Received: ${purchaseOrder.receivedCost}</span>
+              <span className={varianceClass(purchaseOrder.costVariance)} data-testid="text-po-variance">
+                Cost variance: ${purchaseOrder.costVariance}
+              </span>
+              {purchaseOrder.expectedAt && (
+                <span className="text-muted-foreground">
+                  Expected: {new Date(purchaseOrder.expectedAt).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto border border-border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Product</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">Ordered</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">Received</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">Unit Cost</th>
+                    <th className="px-3 py-2 text-right font-medium text-muted-foreground">Variance</th>
+                    {canReceive && (
+                      <>
+                        <th className="px-3 py-2 text-right font-medium text-muted-foreground">Receive Qty</th>
+                        <th className="px-3 py-2 text-right font-medium text-muted-foreground">Invoice Total</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Lot / Expiry</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {purchaseOrder.lines.map((line) => (
+                    <tr key={line.id} data-testid={`row-po-detail-line-${line.id}`}>
+                      <td className="px-3 py-2 font-medium text-foreground">{line.productName}</td>
+                      <td className="px-3 py-2 text-right">{line.qtyOrdered} {line.unit}</td>
+                      <td className="px-3 py-2 text-right">
+                        {line.qtyReceived}
+                        {line.qtyOutstanding > 0 && (
+                          <span className="text-xs text-muted-foreground"> ({line.qtyOutstanding} due)</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">${line.unitCost}</td>
+                      <td className={`px-3 py-2 text-right ${varianceClass(line.costVariance)}`}>${line.costVariance}</td>
+                      {canReceive && (
+                        <>
+                          <td className="px-3 py-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              className={`w-24 ml-auto ${parseInt(receiptQty[line.id]) > line.qtyOutstanding ? "border-yellow-500" : ""}`}
+                              value={receiptQty[line.id] ?? ""}
+                              placeholder={String(line.qtyOutstanding)}
+                              onChange={(e) => setReceiptQty(current => ({ ...current, [line.id]: e.target.value }))}
+                              data-testid={`input-receive-line-qty-${line.id}`}
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="w-28 ml-auto"
+                              value={receiptCost[line.id] ?? ""}
+                              placeholder={((parseInt(receiptQty[line.id]) || 0) * parseFloat(line.unitCost)).toFixed(2)}
+                              onChange={(e) => setReceiptCost(current => ({ ...current, [line.id]: e.target.value }))}
+                              data-testid={`input-receive-line-cost-${line.id}`}
+                            />
+                          </td>
+                          <td className="px-3 py-2 space-y-1">
+                            <Input
+                              className="w-32"
+                              value={receiptLot[line.id] ?? ""}
+                              placeholder="Lot #"
+                              onChange={(e) => setReceiptLot(current => ({ ...current, [line.id]: e.target.value }))}
+                              data-testid={`input-receive-line-lot-${line.id}`}
+                            />
+                            <Input
+                              className="w-32"
+                              type="date"
+                              value={receiptExpiry[line.id] ?? ""}
+                              onChange={(e) => setReceiptExpiry(current => ({ ...current, [line.id]: e.target.value }))}
+                              data-testid={`input-receive-line-expiry-${line.id}`}
+                            />
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {canReceive && overReceipt && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="allow-over-receipt"
+                  checked={allowOverReceipt}
+                  onCheckedChange={(checked) => setAllowOverReceipt(checked === true)}
+                  data-testid="checkbox-allow-over-receipt"
+                />
+                <Label htmlFor="allow-over-receipt" className="text-sm">
+                  Accept more than was ordered on the highlighted lines
+                </Label>
+              </div>
+            )}
+
+            {purchaseOrder.notes && (
+              <p className="text-sm text-muted-foreground">{purchaseOrder.notes}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {purchaseOrder?.status === 'draft' && (
+            <Button
+              onClick={() => transitionMutation.mutate('send')}
+              disabled={transitionMutation.isPending}
+              data-testid="button-send-po"
+            >
+              Mark as Sent
+            </Button>
+          )}
+          {canReceive && (
+            <Button
+              onClick={() => receiveMutation.mutate()}
+              disabled={!hasReceipts || (overReceipt && !allowOverReceipt) || receiveMutation.isPending}
+              data-testid="button-receive-po"
+            >
+              {receiveMutation.isPending ? "Receiving..." : "Receive"}
+            </Button>
+          )}
+          {purchaseOrder && purchaseOrder.status !== 'closed' && (
+            <Button
+              variant="outline"
+              onClick={() => transitionMutation.mutate('close')}
+              disabled={transitionMutation.isPending}
+              data-testid="button-close-po"
+            >
+              Close PO
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Link } from "@/lib/router";
+import { useTenant } from "@/contexts/tenant-context";
+import type { Batch } from "@shared/schema";
+
+interface BatchTrace {
+  batch: Batch & { productName: string; unit: string };
+  lots: Array<{ id: string; lotNumber: string | null; qtyRemaining: number; quarantinedAt: string | null }>;
+  orders: Array<{ orderId: string; status: string; createdAt: string | null; customerId: string | null; qty: number }>;
+  customers: Array<{
+    customerId: string;
+    name: string;
+    phone: string | null;
+    email: string | null;
+    orderCount: number;
+    qtyReceived: number;
+    lastOrderAt: string | null;
+  }>;
+  qtySold: number;
+  qtyOnHand: number;
+}
+
+interface BatchTraceDialogProps {
+  batchId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BatchTraceDialog({ batchId, onOpenChange }: BatchTraceDialogProps) {
+  const { currentTenant } = useTenant();
+
+  const { data: trace, isLoading } = useQuery<BatchTrace>({
+    queryKey: ["/api/tenants", currentTenant, "batches", batchId, "trace"],
+    enabled: !!currentTenant && !!batchId,
+  });
+
+  return (
+    <Dialog open={!!batchId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            {trace
+              ? `${trace.batch.productName}${trace.batch.lotNumber ? ` — Lot ${trace.batch.lotNumber}` : ""}`
+              : "Batch Trace"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !trace ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {trace.batch.recalledAt ? (
+                <Badge className="bg-red-100 text-red-800">
+                  Recalled {new Date(trace.batch.recalledAt).toLocaleDateString()}
+                </Badge>
+              ) : (
+                <Badge className="bg-gray-100 text-gray-800">Not recalled</Badge>
+              )}
+              <span className="text-muted-foreground">Sold: {trace.qtySold} {trace.batch.unit}</span>
+              <span className="text-muted-foreground">
+                {trace.batch.recalledAt ? "Quarantined" : "On hand"}: {trace.qtyOnHand} {trace.batch.unit}
+              </span>
+              <span className="text-muted-foreground">Customers: {trace.customers.length}</span>
+            </div>
+            {trace.batch.recallReason && (
+              <p className="text-sm text-foreground">{trace.batch.recallReason}</p>
+            )}
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-medium text-foreground">Affected Customers</h4>
+                {trace.customers.length > 0 && (
+                  <Button variant="outline" size="sm" asChild data-testid="button-export-recall-contacts">
+                    <a href={`/api/tenants/${currentTenant}/batches/${trace.batch.id}/recall/contacts.csv`}>
+                      <i className="fas fa-download mr-2"></i>
+                      Export Contacts
+                    </a>
+                  </Button>
+                )}
+              </div>
+              {trace.customers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No identified customers received this batch.</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto border border-border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Customer</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Phone</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Email</th>
+                        <th className="px-3 py-2 text-right font-medium text-muted-foreground">Qty</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Last Order</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {trace.customers.map((customer) => (
+                        <tr key={customer.customerId} data-testid={`row-trace-customer-${customer.customerId}`}>
+                          <td className="px-3 py-2 font-medium text-foreground">{customer.name}</td>
+                          <td className="px-3 py-2">{customer.phone ?? "—"}</td>
+                          <td className="px-3 py-2">{customer.email ?? "—"}</td>
+                          <td className="px-3 py-2 text-right">{customer.qtyReceived}</td>
+                          <td className="px-3 py-2">
+                            {customer.lastOrderAt ? new Date(customer.lastOrderAt).toLocaleDateString() : "—"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-foreground mb-2">Orders ({trace.orders.length})</h4>
+              {trace.orders.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No orders were filled from this batch.</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto border border-border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Order</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Date</th>
+                        <th className="px-3 py-2 text-left font-medium text-muted-foreground">Status</th>
+                        <th className="px-3 py-2 text-right font-medium text-muted-foreground">Qty</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {trace.orders.map((order) => (
+                        <tr key={order.orderId}>
+                          <td className="px-3 py-2 font-mono text-xs">
+                            <Link href={`/orders/${order.orderId}`} className="hover:underline">{order.orderId.slice(0, 8)}</Link>
+                          </td>
+                          <td className="px-3 py-2">{order.createdAt ? new Date(order.createdAt).toLocaleDateString() : "—"}</td>
+                          <td className="px-3 py-2 capitalize">{order.status}</td>
+                          <td className="px-3 py-2 text-right">{order.qty}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { Batch, Product } from "@shared/schema";
+
+interface StartRecallDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRecalled: (batchId: string) => void;
+}
+
+export function StartRecallDialog({ open, onOpenChange, onRecalled }: StartRecallDialogProps) {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [productId, setProductId] = useState("");
+  const [batchId, setBatchId] = useState("");
+  const [reason, setReason] = useState("");
+
+  // Reset the form each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setProductId("");
+      setBatchId("");
+      setReason("");
+    }
+  }, [open]);
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/tenants", currentTenant, "products"],
+    enabled: open && !!currentTenant,
+  });
+
+  const { data: batches = [] } = useQuery<Array<Batch & { qtyOnHand: number }>>({
+    queryKey: ["/api/tenants", currentTenant, "products", productId, "batches"],
+    enabled: open && !!currentTenant && !!productId,
+  });
+
+  const recallMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/batches/${batchId}/recall`, { reason });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Batch Recalled",
+        description: "Remaining stock is quarantined and can no longer be sold.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "recalls"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+      onOpenChange(false);
+      onRecalled(batchId);
+    },
+    onError: (error) => {
+      toast({
+        title: "Recall Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = !!batchId && reason.trim().length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Recall a Batch</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="recall-product">Product</Label>
+            <Select value={productId} onValueChange={(value) => { setProductId(value); setBatchId(""); }}>
+              <SelectTrigger id="recall-product" data-testid="select-recall-product">
+                <SelectValue placeholder="Select product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="recall-batch">Batch</Label>
+            <Select value={batchId} onValueChange={setBatchId} disabled={!productId}>
+              <SelectTrigger id="recall-batch" data-testid="select-recall-batch">
+                <SelectValue placeholder="Select batch" />
+              </SelectTrigger>
+              <SelectContent>
+                {batches.map((batch) => (
+                  <SelectItem key={batch.id} value={batch.id} disabled={!!batch.recalledAt}>
+                    {batch.lotNumber ? `Lot ${batch.lotNumber}` : "No lot #"} · {new Date(batch.acquiredAt).toLocaleDateString()}
+                    {batch.supplier ? ` · ${batch.supplier}` : ""} · {batch.qtyOnHand} on hand
+                    {batch.recalledAt ? " (recalled)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="recall-reason">Reason</Label>
+            <Textarea
+              id="recall-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Manufacturer notice, FDA recall number..."
+              data-testid="textarea-recall-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-recall">
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => recallMutation.mutate()}
+            disabled={!canSubmit || recallMutation.isPending}
+            data-testid="button-submit-recall"
+          >
+            {recallMutation.isPending ? "Recalling..." : "Recall Batch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
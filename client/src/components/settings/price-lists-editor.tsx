@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { PriceList, PriceListItem, Product } from "@shared/schema";
+
+interface PriceListRow extends PriceList {
+  itemCount: number;
+  customerCount: number;
+}
+
+interface PriceListDetail extends PriceList {
+  items: Array<PriceListItem & { productName: string; unit: string }>;
+}
+
+type ItemKind = "price" | "discount";
+
+const percent = (rate: string | null) => `${(parseFloat(rate ?? "0") * 100).toFixed(1)}%`;
+
+function describePeriod(list: PriceList): string {
+  const from = new Date(list.effectiveFrom).toLocaleDateString();
+  return list.effectiveTo ? `${from} – ${new Date(list.effectiveTo).toLocaleDateString()}` : `From ${from}`;
+}
+
+export function PriceListsEditor() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [listDiscount, setListDiscount] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [effectiveTo, setEffectiveTo] = useState("");
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [itemProductId, setItemProductId] = useState("");
+  const [itemKind, setItemKind] = useState<ItemKind>("price");
+  const [itemValue, setItemValue] = useState("");
+
+  const listsKey = ["/api/tenants", currentTenant, "price-lists"];
+  const { data: lists = [] } = useQuery<PriceListRow[]>({
+    queryKey: listsKey,
+    enabled: !!currentTenant,
+  });
+
+  const { data: selectedList } = useQuery<PriceListDetail>({
+    queryKey: ["/api/tenants", currentTenant, "price-lists", selectedListId],
+    enabled: !!currentTenant && !!selectedListId,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/tenants", currentTenant, "products"],
+    enabled: !!currentTenant,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createListMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/price-lists`, {
+        name,
+        discountRate: listDiscount ? parseFloat(listDiscount) / 100 : null,
+        effectiveFrom: effectiveFrom || undefined,
+        effectiveTo: effectiveTo || null,
+      });
+      return (await res.json()) as PriceList;
+    },
+    onSuccess: (list) => {
+      setName("");
+      setListDiscount("");
+      setEffectiveFrom("");
+      setEffectiveTo("");
+      setSelectedListId(list.id);
+      queryClient.invalidateQueries({ queryKey: listsKey });
+    },
+    onError: showError("Could Not Add Price List"),
+  });
+
+  const archiveListMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/price-lists/${listId}`);
+    },
+    onSuccess: (_, listId) => {
+      if (listId === selectedListId) setSelectedListId(null);
+      queryClient.invalidateQueries({ queryKey: listsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "customers"] });
+    },
+    onError: showError("Could Not Archive Price List"),
+  });
+
+  const saveItemMutation = useMutation({
+    mutationFn: async () => {
+      const amount = parseFloat(itemValue);
+      await apiRequest("PUT", `/api/tenants/${currentTenant}/price-lists/${selectedListId}/items/${itemProductId}`,
+        itemKind === "price" ? { price: amount } : { discountRate: amount / 100 });
+    },
+    onSuccess: () => {
+      setItemProductId("");
+      setItemValue("");
+      queryClient.invalidateQueries({ queryKey: listsKey });
+    },
+    onError: showError("Could Not Save Price"),
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/price-lists/${selectedListId}/items/${productId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listsKey }),
+    onError: showError("Could Not Remove Price"),
+  });
+
+  const discount = listDiscount ? parseFloat(listDiscount) : 0;
+  const canAddList = name.trim().length > 0 && !isNaN(discount) && discount >= 0 && discount < 100 &&
+    (!effectiveFrom || !effectiveTo || effectiveTo > effectiveFrom);
+
+  const itemAmount = parseFloat(itemValue);
+  const canSaveItem = !!itemProductId && !isNaN(itemAmount) && itemAmount >= 0 &&
+    (itemKind === "price" || (itemAmount > 0 && itemAmount < 100));
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <TooltipHelp content="Negotiated prices for customers such as nursing homes and clinics. A list can fix a product's price or discount it, and a list-wide discount covers everything else. Assign lists on the Customers page; the POS applies a list when its customer is selected, between the list's dates." side="top">
+          <h3 className="text-lg font-medium text-foreground mb-4">Contract Price Lists</h3>
+        </TooltipHelp>
+
+        {lists.length === 0 ? (
+          <p className="text-sm text-muted-foreground mb-6">No price lists yet. Every customer pays regular prices.</p>
+        ) : (
+          <ul className="mb-6 divide-y divide-border border border-border rounded-md text-sm">
+            {lists.map((list) => (
+              <li
+                key={list.id}
+                className={`flex justify-between items-center px-3 py-2 cursor-pointer ${list.id === selectedListId ? "bg-accent" : "hover:bg-accent/50"}`}
+                onClick={() => setSelectedListId(list.id === selectedListId ? null : list.id)}
+                data-testid={`row-price-list-${list.id}`}
+              >
+                <div>
+                  <span className="font-medium text-foreground">{list.name}</span>
+                  <span className="text-muted-foreground">
+                    {" "}· {describePeriod(list)}
+                    {list.discountRate && ` · ${percent(list.discountRate)} off everything else`}
+                    {" "}· {list.itemCount} products · {list.customerCount} customers
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-red-600"
+                  onClick={(e) => { e.stopPropagation(); archiveListMutation.mutate(list.id); }}
+                  disabled={archiveListMutation.isPending}
+                  aria-label="Archive price list"
+                  data-testid={`button-archive-price-list-${list.id}`}
+                >
+                  <i className="fas fa-archive text-xs"></i>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selectedList && (
+          <div className="mb-6 rounded-md border border-border p-4" data-testid="panel-price-list-items">
+            <h4 className="font-medium text-foreground mb-3">{selectedList.name}: Product Prices</h4>
+            {selectedList.items.length === 0 ? (
+              <p className="text-sm text-muted-foreground mb-4">No product prices on this list yet.</p>
+            ) : (
+              <ul className="mb-4 space-y-1 text-sm">
+                {selectedList.items.map((item) => (
+                  <li key={item.id} className="flex justify-between items-center" data-testid={`row-price-list-item-${item.productId}`}>
+                    <span>{item.productName}</span>
+                    <span className="flex items-center gap-3 text-muted-foreground">
+                      {item.price !== null
+                        ? `$${parseFloat(item.price).toFixed(2)} per ${item.unit}`
+                        : `${percent(item.discountRate)} off`}
+                      <button
+                        type="button"
+                        className="hover:text-red-600"
+                        onClick={() => removeItemMutation.mutate(item.productId)}
+                        disabled={removeItemMutation.isPending}
+                        aria-label="Remove price"
+                        data-testid={`button-remove-price-list-item-${item.productId}`}
+                      >
+                        <i className="fas fa-times text-xs"></i>
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label htmlFor="price-list-item-product">Product</Label>
+                <Select value={itemProductId} onValueChange={setItemProductId}>
+                  <SelectTrigger id="price-list-item-product" data-testid="select-price-list-item-product">
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="price-list-item-kind">Terms</Label>
+                <Select value={itemKind} onValueChange={(value) => setItemKind(value as ItemKind)}>
+                  <SelectTrigger id="price-list-item-kind" data-testid="select-price-list-item-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="price">Fixed price per unit ($)</SelectItem>
+                    <SelectItem value="discount">Discount (%)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="price-list-item-value">{itemKind === "price" ? "Price ($)" : "Discount (%)"}</Label>
+                <Input
+                  id="price-list-item-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={itemValue}
+                  onChange={(e) => setItemValue(e.target.value)}
+                  data-testid="input-price-list-item-value"
+                />
+              </div>
+            </div>
+            <Button
+              className="mt-4"
+              variant="outline"
+              onClick={() => saveItemMutation.mutate()}
+              disabled={!canSaveItem || saveItemMutation.isPending}
+              data-testid="button-save-price-list-item"
+            >
+              <i className="fas fa-plus mr-2"></i>
+              Set Price
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="price-list-name">Name</Label>
+            <Input
+              id="price-list-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Maple Grove Care Home"
+              data-testid="input-price-list-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="price-list-discount">Discount on Other Products (%)</Label>
+            <Input
+              id="price-list-discount"
+              type="number"
+              min="0"
+              max="99"
+              step="0.1"
+              value={listDiscount}
+              onChange={(e) => setListDiscount(e.target.value)}
+              placeholder="None"
+              data-testid="input-price-list-discount"
+            />
+          </div>
+          <div>
+            <Label htmlFor="price-list-from">Effective From</Label>
+            <Input
+              id="price-list-from"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              data-testid="input-price-list-from"
+            />
+          </div>
+          <div>
+            <Label htmlFor="price-list-to">Effective To (blank for no end)</Label>
+            <Input
+              id="price-list-to"
+              type="date"
+              value={effectiveTo}
+              onChange={(e) => setEffectiveTo(e.target.value)}
+              data-testid="input-price-list-to"
+            />
+          </div>
+        </div>
+
+        <Button
+          className="mt-4"
+          variant="outline"
+          onClick={() => createListMutation.mutate()}
+          disabled={!canAddList || createListMutation.isPending}
+          data-testid="button-add-price-list"
+        >
+          <i className="fas fa-plus mr-2"></i>
+          Add Price List
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { PriceRule, Product } from "@shared/schema";
+
+type PriceRuleType = PriceRule["type"];
+
+interface PriceRuleRow extends PriceRule {
+  productName: string | null;
+}
+
+const ruleTypes: Record<PriceRuleType, { label: string; help: string }> = {
+  list_price: { label: "List Price", help: "A fixed price per base unit; the product is no longer priced from cost" },
+  category_margin: { label: "Category Margin", help: "Margin over WAC for every product in a category" },
+  quantity_break: { label: "Quantity Break", help: "Discount once a line reaches a quantity, in base units" },
+  rounding: { label: "Rounding", help: "Round the price of each unit or pack sold up to a fixed ending such as .99" },
+};
+
+// Select value for "every product" / "every category"; Select items cannot have an empty value
+const ANY = "__any__";
+
+const percent = (rate: string | null) => `${(parseFloat(rate ?? "0") * 100).toFixed(1)}%`;
+
+function describeScope(rule: PriceRuleRow): string {
+  if (rule.productName) return rule.productName;
+  if (rule.category) return `Category: ${rule.category}`;
+  return "All products";
+}
+
+function describeRule(rule: PriceRuleRow): string {
+  switch (rule.type) {
+    case "list_price":
+      return `$${parseFloat(rule.price ?? "0").toFixed(2)} per unit`;
+    case "category_margin":
+      return `${percent(rule.margin)} over WAC`;
+    case "quantity_break":
+      return `${percent(rule.discountRate)} off from ${rule.minQty} units`;
+    case "rounding":
+      return `Round up to .${(rule.roundingEnding ?? "0.00").split(".")[1]}`;
+  }
+}
+
+export function PriceRulesEditor() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [type, setType] = useState<PriceRuleType>("list_price");
+  const [productId, setProductId] = useState(ANY);
+  const [category, setCategory] = useState("");
+  const [value, setValue] = useState("");
+  const [minQty, setMinQty] = useState("");
+
+  const rulesKey = ["/api/tenants", currentTenant, "price-rules"];
+  const { data: rules = [] } = useQuery<PriceRuleRow[]>({
+    queryKey: rulesKey,
+    enabled: !!currentTenant,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/tenants", currentTenant, "products"],
+    enabled: !!currentTenant,
+  });
+  const categories = Array.from(new Set(products.map((product) => product.category).filter(Boolean))) as string[];
+
+  const resetForm = () => {
+    setProductId(ANY);
+    setCategory("");
+    setValue("");
+    setMinQty("");
+  };
+
+  const buildRule = () => {
+    const amount = parseFloat(value);
+    switch (type) {
+      case "list_price":
+        return { type, productId, price: amount };
+      case "category_margin":
+        return { type, category, margin: amount / 100 };
+      case "quantity_break":
+        return {
+          type,
+          productId: productId === ANY ? null : productId,
+          category: productId === ANY && category.trim() ? category : null,
+          minQty: parseInt(minQty, 10),
+          discountRate: amount / 100,
+        };
+      case "rounding":
+        return { type, category: category.trim() || null, roundingEnding: amount };
+    }
+  };
+
+  const addRuleMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/price-rules`, buildRule());
+    },
+    onSuccess: () => {
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: rulesKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Add Rule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/price-rules/${ruleId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: rulesKey }),
+    onError: (error) => {
+      toast({
+        title: "Could Not Remove Rule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const amount = parseFloat(value);
+  const canAdd = !isNaN(amount) && amount >= 0 && (
+    (type === "list_price" && productId !== ANY) ||
+    (type === "category_margin" && category.trim().length > 0) ||
+    (type === "quantity_break" && parseInt(minQty, 10) >= 2 && amount > 0 && amount < 100) ||
+    (type === "rounding" && amount < 1)
+  );
+
+  const valueLabel: Record<PriceRuleType, string> = {
+    list_price: "Price per Unit ($)",
+    category_margin: "Margin (%)",
+    quantity_break: "Discount (%)",
+    rounding: "Ending (e.g. 0.99)",
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <TooltipHelp content="Prices start from a product's list price, or its WAC plus the margin for its category (the target margin otherwise). The best quantity break then applies and rounding sets the ending. Product rules beat category rules, which beat rules for all products." side="top">
+          <h3 className="text-lg font-medium text-foreground mb-4">Price Rules</h3>
+        </TooltipHelp>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground mb-6">
+            No rules yet. Products are priced at WAC plus the target margin.
+          </p>
+        ) : (
+          <ul className="mb-6 divide-y divide-border border border-border rounded-md text-sm">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex justify-between items-center px-3 py-2" data-testid={`row-price-rule-${rule.id}`}>
+                <div>
+                  <span className="font-medium text-foreground">{ruleTypes[rule.type].label}</span>
+                  <span className="text-muted-foreground"> · {describeScope(rule)} · {describeRule(rule)}</span>
+                </div>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-red-600"
+                  onClick={() => removeRuleMutation.mutate(rule.id)}
+                  disabled={removeRuleMutation.isPending}
+                  aria-label="Remove rule"
+                  data-testid={`button-remove-price-rule-${rule.id}`}
+                >
+                  <i className="fas fa-times text-xs"></i>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="price-rule-type">Rule Type</Label>
+            <Select value={type} onValueChange={(next) => { setType(next as PriceRuleType); resetForm(); }}>
+              <SelectTrigger id="price-rule-type" data-testid="select-price-rule-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ruleTypes) as PriceRuleType[]).map((ruleType) => (
+                  <SelectItem key={ruleType} value={ruleType}>{ruleTypes[ruleType].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">{ruleTypes[type].help}</p>
+          </div>
+
+          {(type === "list_price" || type === "quantity_break") && (
+            <div>
+              <Label htmlFor="price-rule-product">Product</Label>
+              <Select value={productId} onValueChange={setProductId}>
+                <SelectTrigger id="price-rule-product" data-testid="select-price-rule-product">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {type === "quantity_break" && <SelectItem value={ANY}>All products</SelectItem>}
+                  {type === "list_price" && <SelectItem value={ANY} disabled>Select product</SelectItem>}
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {(type === "category_margin" || type === "rounding" || (type === "quantity_break" && productId === ANY)) && (
+            <div>
+              <Label htmlFor="price-rule-category">
+                Category{type === "category_margin" ? "" : " (blank for all)"}
+              </Label>
+              <Input
+                id="price-rule-category"
+                list="price-rule-categories"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                data-testid="input-price-rule-category"
+              />
+              <datalist id="price-rule-categories">
+                {categories.map((name) => <option key={name} value={name} />)}
+              </datalist>
+            </div>
+          )}
+
+          {type === "quantity_break" && (
+            <div>
+              <Label htmlFor="price-rule-min-qty">From Quantity</Label>
+              <Input
+                id="price-rule-min-qty"
+                type="number"
+                min="2"
+                value={minQty}
+                onChange={(e) => setMinQty(e.target.value)}
+                data-testid="input-price-rule-min-qty"
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="price-rule-value">{valueLabel[type]}</Label>
+            <Input
+              id="price-rule-value"
+              type="number"
+              min="0"
+              step="0.01"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              data-testid="input-price-rule-value"
+            />
+          </div>
+        </div>
+
+        <Button
+          className="mt-4"
+          variant="outline"
+          onClick={() => addRuleMutation.mutate()}
+          disabled={!canAdd || addRuleMutation.isPending}
+          data-testid="button-add-price-rule"
+        >
+          <i className="fas fa-plus mr-2"></i>
+          Add Rule
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
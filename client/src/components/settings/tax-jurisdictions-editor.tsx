@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { TaxJurisdiction } from "@shared/schema";
+
+const percent = (rate: string) => `${(parseFloat(rate) * 100).toFixed(3).replace(/\.?0+$/, "")}%`;
+
+function describeArea(jurisdiction: TaxJurisdiction): string {
+  return [jurisdiction.postalCode, jurisdiction.city, jurisdiction.state].filter(Boolean).join(", ");
+}
+
+export function TaxJurisdictionsEditor() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [state, setState] = useState("");
+  const [city, setCity] = useState("");
+  const [postalCode, setPostalCode] = useState("");
+  const [rate, setRate] = useState("");
+  const [prescriptionRate, setPrescriptionRate] = useState("");
+  const [otcRate, setOtcRate] = useState("");
+
+  const jurisdictionsKey = ["/api/tenants", currentTenant, "tax-jurisdictions"];
+  const { data: jurisdictions = [] } = useQuery<TaxJurisdiction[]>({
+    queryKey: jurisdictionsKey,
+    enabled: !!currentTenant,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      // Rates are entered as percentages and stored as rates
+      await apiRequest("POST", `/api/tenants/${currentTenant}/tax-jurisdictions`, {
+        name,
+        state,
+        city: city.trim() || null,
+        postalCode: postalCode.trim() || null,
+        rate: parseFloat(rate) / 100,
+        prescriptionRate: prescriptionRate ? parseFloat(prescriptionRate) / 100 : undefined,
+        otcRate: otcRate ? parseFloat(otcRate) / 100 : null,
+      });
+    },
+    onSuccess: () => {
+      setName("");
+      setState("");
+      setCity("");
+      setPostalCode("");
+      setRate("");
+      setPrescriptionRate("");
+      setOtcRate("");
+      queryClient.invalidateQueries({ queryKey: jurisdictionsKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Add Jurisdiction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (jurisdictionId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/tax-jurisdictions/${jurisdictionId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: jurisdictionsKey }),
+    onError: (error) => {
+      toast({
+        title: "Could Not Archive Jurisdiction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const validRate = (value: string, required: boolean) => {
+    if (!value) return !required;
+    const amount = parseFloat(value);
+    return !isNaN(amount) && amount >= 0 && amount < 100;
+  };
+  const canAdd = name.trim().length > 0 && state.trim().length >= 2 &&
+    (!postalCode.trim() || /^\d{5}$/.test(postalCode.trim())) &&
+    validRate(rate, true) && validRate(prescriptionRate, false) && validRate(otcRate, false);
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <TooltipHelp content="Sales tax rates by area. A pickup order is taxed where its store is and a delivery order where it is delivered; the most specific match wins, so a ZIP code rate beats a city rate, which beats the state rate. Orders with no matching jurisdiction are not taxed." side="top">
+          <h3 className="text-lg font-medium text-foreground mb-4">Tax Jurisdictions</h3>
+        </TooltipHelp>
+
+        {jurisdictions.length === 0 ? (
+          <p className="text-sm text-muted-foreground mb-6">No jurisdictions yet. Orders are not taxed.</p>
+        ) : (
+          <ul className="mb-6 divide-y divide-border border border-border rounded-md text-sm">
+            {jurisdictions.map((jurisdiction) => (
+              <li key={jurisdiction.id} className="flex justify-between items-center px-3 py-2" data-testid={`row-tax-jurisdiction-${jurisdiction.id}`}>
+                <div>
+                  <span className="font-medium text-foreground">{jurisdiction.name}</span>
+                  <span className="text-muted-foreground">
+                    {" "}· {describeArea(jurisdiction)} · {percent(jurisdiction.rate)}
+                    {" "}· prescriptions {percent(jurisdiction.prescriptionRate)}
+                    {jurisdiction.otcRate && ` · OTC ${percent(jurisdiction.otcRate)}`}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-red-600"
+                  onClick={() => archiveMutation.mutate(jurisdiction.id)}
+                  disabled={archiveMutation.isPending}
+                  aria-label="Archive jurisdiction"
+                  data-testid={`button-archive-tax-jurisdiction-${jurisdiction.id}`}
+                >
+                  <i className="fas fa-archive text-xs"></i>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="tax-jurisdiction-name">Name</Label>
+            <Input
+              id="tax-jurisdiction-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Austin, TX"
+              data-testid="input-tax-jurisdiction-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-jurisdiction-state">State</Label>
+            <Input
+              id="tax-jurisdiction-state"
+              value={state}
+              onChange={(e) => setState(e.target.value.toUpperCase())}
+              placeholder="TX"
+              data-testid="input-tax-jurisdiction-state"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-jurisdiction-rate">General Rate (%)</Label>
+            <Input
+              id="tax-jurisdiction-rate"
+              type="number"
+              min="0"
+              step="0.001"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              data-testid="input-tax-jurisdiction-rate"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-jurisdiction-city">City (blank for whole state)</Label>
+            <Input
+              id="tax-jurisdiction-city"
+              value={city}
+              onChange={(e) => setCity(e.target.value)}
+              data-testid="input-tax-jurisdiction-city"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-jurisdiction-postal-code">ZIP Code (optional)</Label>
+            <Input
+              id="tax-jurisdiction-postal-code"
+              value={postalCode}
+              onChange={(e) => setPostalCode(e.target.value)}
+              placeholder="78701"
+              data-testid="input-tax-jurisdiction-postal-code"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-jurisdiction-prescription-rate">Prescription Rate (%)</Label>
+            <Input
+              id="tax-jurisdiction-prescription-rate"
+              type="number"
+              min="0"
+              step="0.001"
+              value={prescriptionRate}
+              onChange={(e) => setPrescriptionRate(e.target.value)}
+              placeholder="0 (exempt)"
+              data-testid="input-tax-jurisdiction-prescription-rate"
+            />
+          </div>
+          <div>
+            <Label htmlFor="tax-jurisdiction-otc-rate">OTC Medication Rate (%)</Label>
+            <Input
+              id="tax-jurisdiction-otc-rate"
+              type="number"
+              min="0"
+              step="0.001"
+              value={otcRate}
+              onChange={(e) => setOtcRate(e.target.value)}
+              placeholder="Same as general"
+              data-testid="input-tax-jurisdiction-otc-rate"
+            />
+          </div>
+        </div>
+
+        <Button
+          className="mt-4"
+          variant="outline"
+          onClick={() => createMutation.mutate()}
+          disabled={!canAdd || createMutation.isPending}
+          data-testid="button-add-tax-jurisdiction"
+        >
+          <i className="fas fa-plus mr-2"></i>
+          Add Jurisdiction
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
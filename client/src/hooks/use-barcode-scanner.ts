@@ -0,0 +1,78 @@
+import { useEffect, useRef } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Product } from "@shared/schema";
+
+export interface BarcodeScanResult {
+  scan: {
+    gtin: string | null;
+    ndc: string | null;
+    lotNumber: string | null;
+    expiresAt: string | null;
+    serialNumber: string | null;
+  };
+  product: Product | null;
+}
+
+// Wedge scanners type far faster than people; keys closer together than this belong to one scan
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_SCAN_LENGTH = 6;
+const GROUP_SEPARATOR = "\u001d";
+
+interface UseBarcodeScannerOptions {
+  enabled?: boolean;
+  onScan: (code: string) => void;
+}
+
+// Listens for keyboard-wedge scans anywhere on the page. Typing into form fields is left
+// alone unless the field opts in with a data-barcode-input attribute.
+export function useBarcodeScanner({ enabled = true, onScan }: UseBarcodeScannerOptions) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const editable = target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+      if (editable && !target.hasAttribute("data-barcode-input")) {
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) {
+        buffer = "";
+      }
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_SCAN_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+        return;
+      }
+
+      // Scanners send the GS1 separator as Ctrl+] when it has no printable key
+      if (event.ctrlKey && event.key === "]") {
+        buffer += GROUP_SEPARATOR;
+      } else if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [enabled]);
+}
+
+export async function resolveBarcode(tenantId: string, code: string): Promise<BarcodeScanResult> {
+  const response = await apiRequest("POST", `/api/tenants/${tenantId}/products/scan`, { code });
+  return response.json();
+}
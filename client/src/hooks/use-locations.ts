@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Location } from "@shared/schema";
+
+export function useLocations(tenantId: string | null) {
+  return useQuery<Location[]>({
+    queryKey: ["/api/tenants", tenantId, "locations"],
+    enabled: !!tenantId,
+  });
+}
+
+// The store the signed-in user is working at; POS sales draw stock from it
+export function useCurrentLocation(tenantId: string | null) {
+  const queryClient = useQueryClient();
+  const currentKey = ["/api/tenants", tenantId, "locations", "current"];
+
+  const query = useQuery<Location>({
+    queryKey: currentKey,
+    enabled: !!tenantId,
+  });
+
+  const setCurrentLocation = useMutation({
+    mutationFn: async (locationId: string) => {
+      const response = await apiRequest("PUT", `/api/tenants/${tenantId}/locations/current`, { locationId });
+      return response.json() as Promise<Location>;
+    },
+    onSuccess: (location) => {
+      queryClient.setQueryData(currentKey, location);
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", tenantId, "products"] });
+    },
+  });
+
+  return { ...query, setCurrentLocation };
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useTenant } from "@/contexts/tenant-context";
+import { NewCountSessionDialog } from "@/components/inventory/new-count-session-dialog";
+import { CountSessionDialog } from "@/components/inventory/count-session-dialog";
+import type { CountSession } from "@shared/schema";
+
+interface CountSessionSummary extends CountSession {
+  productCount: number;
+  countedCount: number;
+}
+
+export default function Counts() {
+  const { currentTenant } = useTenant();
+  const [newDialogOpen, setNewDialogOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<CountSessionSummary[]>({
+    queryKey: ["/api/tenants", currentTenant, "count-sessions"],
+    enabled: !!currentTenant,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="mb-8">
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-counts">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <TooltipHelp content="A stock count lets staff record what is physically on the shelf. Review the variance against system stock, then post the count to adjust inventory with recount adjustments.">
+            <h1 className="text-2xl font-bold text-foreground">Stock Counts</h1>
+          </TooltipHelp>
+          <p className="mt-1 text-sm text-muted-foreground">Count physical stock and reconcile it with the system</p>
+        </div>
+        <Button className="mt-4 sm:mt-0" onClick={() => setNewDialogOpen(true)} data-testid="button-new-count">
+          <i className="fas fa-plus mr-2"></i>
+          New Count
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {sessions.length === 0 ? (
+            <div className="text-center py-12">
+              <i className="fas fa-clipboard-check text-4xl text-muted-foreground mb-4"></i>
+              <p className="text-muted-foreground">No stock counts yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Name</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Counted</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Started</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Posted</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-card divide-y divide-border">
+                  {sessions.map((session) => (
+                    <tr
+                      key={session.id}
+                      className="hover:bg-muted/50 cursor-pointer"
+                      onClick={() => setSelectedId(session.id)}
+                      data-testid={`row-count-session-${session.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{session.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {session.status === "open" ? (
+                          <Badge className="bg-blue-100 text-blue-800">Open</Badge>
+                        ) : (
+                          <Badge className="bg-green-100 text-green-800">Posted</Badge>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        {session.countedCount} / {session.productCount}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {session.createdAt ? new Date(session.createdAt).toLocaleDateString() : ""}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {session.postedAt ? new Date(session.postedAt).toLocaleDateString() : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewCountSessionDialog
+        open={newDialogOpen}
+        onOpenChange={setNewDialogOpen}
+        onCreated={setSelectedId}
+      />
+
+      <CountSessionDialog
+        sessionId={selectedId}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,6 +7,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Skeleton } from "@/components/ui/skeleton";
 import { TooltipHelp } from "@/components/ui/tooltip-help";
 import { useTenant } from "@/contexts/tenant-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { TaxExemptionsDialog } from "@/components/customers/tax-exemptions-dialog";
 
 interface Customer {
   id: string;
@@ -15,6 +19,7 @@ interface Customer {
   preferredFulfillment?: string;
   preferredPayment?: string;
   notes?: string;
+  priceListId?: string | null;
   createdAt: string;
   loyaltyTier?: string;
   loyaltyPoints?: number;
@@ -23,8 +28,19 @@ interface Customer {
   creditStatus?: string;
 }
 
+interface PriceListSummary {
+  id: string;
+  name: string;
+}
+
+// Select value for "regular prices"; Select items cannot have an empty value
+const NO_PRICE_LIST = "__none__";
+
 export default function Customers() {
   const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [exemptionsCustomer, setExemptionsCustomer] = useState<Customer | null>(null);
   
   const { data: customers, isLoading } = useQuery<Customer[]>({
     queryKey: ["/api/tenants", currentTenant, "customers", "with_details"],
@@ -36,6 +52,28 @@ export default function Customers() {
     enabled: !!currentTenant,
   });
 
+  const { data: priceLists = [] } = useQuery<PriceListSummary[]>({
+    queryKey: ["/api/tenants", currentTenant, "price-lists"],
+    enabled: !!currentTenant,
+  });
+
+  const assignPriceListMutation = useMutation({
+    mutationFn: async ({ customerId, priceListId }: { customerId: string; priceListId: string | null }) => {
+      await apiRequest("PUT", `/api/tenants/${currentTenant}/customers/${customerId}/price-list`, { priceListId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "price-lists"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Assign Price List",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -203,6 +241,40 @@ export default function Customers() {
                           <p className="text-xs text-muted-foreground">
                             Prefers: {customer.preferredFulfillment || "Pickup"} | {customer.preferredPayment || "Cash"}
                           </p>
+                          {priceLists.length > 0 && (
+                            <div className="mt-2 flex justify-end" onClick={(e) => e.stopPropagation()}>
+                              <Select
+                                value={customer.priceListId ?? NO_PRICE_LIST}
+                                onValueChange={(value) => assignPriceListMutation.mutate({
+                                  customerId: customer.id,
+                                  priceListId: value === NO_PRICE_LIST ? null : value,
+                                })}
+                                disabled={assignPriceListMutation.isPending}
+                              >
+                                <SelectTrigger className="h-7 w-48 text-xs" data-testid={`select-price-list-${customer.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={NO_PRICE_LIST}>Regular prices</SelectItem>
+                                  {priceLists.map((list) => (
+                                    <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          <div className="mt-1 flex justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 text-xs"
+                              onClick={(e) => { e.stopPropagation(); setExemptionsCustomer(customer); }}
+                              data-testid={`button-tax-exemptions-${customer.id}`}
+                            >
+                              <i className="fas fa-file-invoice mr-1"></i>
+                              Tax Exemptions
+                            </Button>
+                          </div>
                         </div>
                         <i className="fas fa-chevron-right text-muted-foreground"></i>
                       </div>
@@ -218,6 +290,12 @@ export default function Customers() {
             )}
           </CardContent>
         </Card>
+
+        <TaxExemptionsDialog
+          open={!!exemptionsCustomer}
+          onOpenChange={(open) => { if (!open) setExemptionsCustomer(null); }}
+          customer={exemptionsCustomer}
+        />
     </div>
   );
 }
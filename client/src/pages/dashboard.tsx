@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -5,23 +6,34 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { TooltipHelp } from "@/components/ui/tooltip-help";
 import { useTenant } from "@/contexts/tenant-context";
 import { useLocation } from "@/lib/router";
+import { KpiDrilldownDialog, type KpiDrilldownView } from "@/components/dashboard/kpi-drilldown-dialog";
+import { ShrinkageCard } from "@/components/dashboard/shrinkage-card";
+import type { ExpiringLot } from "@/components/inventory/expiring-lots-panel";
 
 interface DashboardKPIs {
   todayRevenue: string;
   ordersToday: number;
   lowStockItems: number;
   overdueCredits: string;
+  overdueCustomers: number;
 }
 
 export default function Dashboard() {
   const { currentTenant } = useTenant();
   const [, setLocation] = useLocation();
+  const [drilldownView, setDrilldownView] = useState<KpiDrilldownView | null>(null);
   
   const { data: kpis, isLoading } = useQuery<DashboardKPIs>({
     queryKey: ["/api/tenants", currentTenant, "dashboard", "kpis"],
     enabled: !!currentTenant,
   });
 
+  const { data: expiringLots = [] } = useQuery<ExpiringLot[]>({
+    queryKey: ["/api/tenants", currentTenant, "inventory", "expiring?days=30"],
+    enabled: !!currentTenant,
+  });
+  const expiredLotCount = expiringLots.filter(lot => lot.isExpired).length;
+
   if (isLoading) {
     return (
       <div className="p-4 sm:p-6 lg:p-8">
@@ -95,7 +107,11 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
-        <Card>
+        <Card
+          className="cursor-pointer hover:bg-muted/30 transition-colors"
+          onClick={() => setDrilldownView('low_stock')}
+          data-testid="card-low-stock"
+        >
           <CardContent className="p-6">
             <div className="flex items-center">
               <div className="flex-shrink-0">
@@ -116,7 +132,11 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
-        <Card>
+        <Card
+          className="cursor-pointer hover:bg-muted/30 transition-colors"
+          onClick={() => setDrilldownView('overdue_credits')}
+          data-testid="card-overdue-credits"
+        >
           <CardContent className="p-6">
             <div className="flex items-center">
               <div className="flex-shrink-0">
@@ -125,25 +145,53 @@ export default function Dashboard() {
                 </div>
               </div>
               <div className="ml-4">
-                <TooltipHelp content="Total amount owed by customers with overdue credit payments. Includes all accounts past their due date." side="top">
+                <TooltipHelp content="Total amount owed by customers with overdue credit payments. Includes all unpaid charges past their due date. Click to see who owes what." side="top">
                   <p className="text-sm font-medium text-muted-foreground">Overdue Credits</p>
                 </TooltipHelp>
                 <p className="text-2xl font-semibold text-foreground" data-testid="text-overdue-credits">
                   ${kpis?.overdueCredits || "0"}
                 </p>
-                <p className="text-xs text-red-600">7 customers</p>
+                <p className="text-xs text-red-600">
+                  {kpis?.overdueCustomers || 0} {kpis?.overdueCustomers === 1 ? "customer" : "customers"}
+                </p>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      <KpiDrilldownDialog
+        view={drilldownView}
+        onOpenChange={(open) => !open && setDrilldownView(null)}
+      />
+
+      <ShrinkageCard />
+
       {/* Alerts and Quick Actions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
         <Card>
           <CardContent className="p-6">
             <h3 className="text-lg font-medium text-foreground mb-4">Recent Alerts</h3>
             <div className="space-y-4">
+              {expiringLots.length > 0 && (
+                <div className="flex items-start space-x-3 p-3 bg-orange-50 rounded-lg border-l-4 border-orange-400" data-testid="alert-expiring-lots">
+                  <i className="fas fa-hourglass-half text-orange-600 mt-0.5"></i>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-foreground">
+                      {expiringLots.length} {expiringLots.length === 1 ? "lot expires" : "lots expire"} within 30 days
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {expiredLotCount > 0
+                        ? `${expiredLotCount} already expired and blocked from sale. Write them off from Inventory.`
+                        : `Next: ${expiringLots[0].productName} on ${new Date(expiringLots[0].expiresAt).toLocaleDateString()}.`}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" className="text-xs" onClick={() => setLocation("/inventory")}>
+                    Review
+                  </Button>
+                </div>
+              )}
+
               <div className="flex items-start space-x-3 p-3 bg-yellow-50 rounded-lg border-l-4 border-yellow-400">
                 <i className="fas fa-exclamation-triangle text-yellow-600 mt-0.5"></i>
                 <div className="flex-1">
@@ -1,12 +1,22 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { Link } from "@/lib/router";
 import { useTenant } from "@/contexts/tenant-context";
+import { useLocations } from "@/hooks/use-locations";
+import { ReceiveStockDialog } from "@/components/inventory/receive-stock-dialog";
+import { AdjustStockDialog } from "@/components/inventory/adjust-stock-dialog";
+import { ReorderPanel } from "@/components/inventory/reorder-panel";
+import { ExpiringLotsPanel } from "@/components/inventory/expiring-lots-panel";
+import { ImportProductsDialog } from "@/components/inventory/import-products-dialog";
+import { EditProductDialog } from "@/components/inventory/edit-product-dialog";
 
 interface Product {
   id: string;
@@ -15,26 +25,50 @@ interface Product {
   type: string;
   unit: string;
   description?: string;
+  archivedAt?: string | null;
   createdAt: string;
   currentStock?: number;
+  unavailableStock?: number;
   wac?: string;
   minStockThreshold?: number;
   stockStatus?: 'in_stock' | 'low_stock' | 'out_of_stock';
+  locationStock?: Array<{ locationId: string; currentStock: number; stockStatus: 'in_stock' | 'low_stock' | 'out_of_stock' }>;
 }
 
+// Select items cannot have an empty value
+const ALL_LOCATIONS = "all";
+
 export default function Inventory() {
   const { currentTenant } = useTenant();
+  const [receiveDialogOpen, setReceiveDialogOpen] = useState(false);
+  const [receiveProductId, setReceiveProductId] = useState<string | undefined>();
+  const [adjustProductId, setAdjustProductId] = useState<string | null>(null);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [editProductId, setEditProductId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const { data: locations = [] } = useLocations(currentTenant);
+  const locationNames = new Map(locations.map(location => [location.id, location.name]));
   
   const { data: products, isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/tenants", currentTenant, "products", "with_inventory"],
+    queryKey: ["/api/tenants", currentTenant, "products", "with_inventory", showArchived, locationFilter],
     queryFn: async () => {
-      const response = await fetch(`/api/tenants/${currentTenant}/products?with_inventory=true`);
+      const locationParam = locationFilter === ALL_LOCATIONS ? "" : `&location_id=${locationFilter}`;
+      const response = await fetch(`/api/tenants/${currentTenant}/products?with_inventory=true&include_archived=${showArchived}${locationParam}`);
       if (!response.ok) throw new Error('Failed to fetch products');
       return response.json();
     },
     enabled: !!currentTenant,
   });
 
+  const openReceiveDialog = (productId?: string) => {
+    setReceiveProductId(productId);
+    setReceiveDialogOpen(true);
+  };
+
+  const adjustProduct = products?.find(p => p.id === adjustProductId) ?? null;
+  const editProduct = products?.find(p => p.id === editProductId) ?? null;
+
   if (isLoading) {
     return (
       <div className="p-4 sm:p-6 lg:p-8">
@@ -61,10 +95,24 @@ export default function Inventory() {
             <p className="mt-1 text-sm text-muted-foreground">Manage medications, products, and stock levels</p>
           </div>
           <div className="flex space-x-3 mt-4 sm:mt-0">
-            <TooltipHelp content="Add a new batch of products to your inventory. Batches track supplier information, acquisition costs, and expiration dates for better inventory management." side="bottom">
-              <Button variant="secondary" data-testid="button-add-batch">
+            <TooltipHelp content="Download the catalog with current stock and weighted average cost as a CSV file." side="bottom">
+              <Button variant="outline" asChild data-testid="button-export-products">
+                <a href={`/api/tenants/${currentTenant}/products/export.csv`}>
+                  <i className="fas fa-download mr-2"></i>
+                  Export
+                </a>
+              </Button>
+            </TooltipHelp>
+            <TooltipHelp content="Add many products at once from a CSV or Excel file, optionally with opening stock. Every row is checked before anything is saved." side="bottom">
+              <Button variant="outline" onClick={() => setImportDialogOpen(true)} data-testid="button-import-products">
+                <i className="fas fa-file-import mr-2"></i>
+                Import
+              </Button>
+            </TooltipHelp>
+            <TooltipHelp content="Receive a new batch of products into your inventory. Batches track supplier information and acquisition costs, and update stock and WAC immediately." side="bottom">
+              <Button variant="secondary" onClick={() => openReceiveDialog()} data-testid="button-add-batch">
                 <i className="fas fa-plus mr-2"></i>
-                Add Batch
+                Receive Stock
               </Button>
             </TooltipHelp>
             <TooltipHelp content="Add a new product to your inventory catalog. Include product details, NDC codes, and set minimum stock thresholds for automated reorder alerts." side="bottom">
@@ -76,6 +124,10 @@ export default function Inventory() {
           </div>
         </div>
 
+        <ReorderPanel onReceive={openReceiveDialog} />
+
+        <ExpiringLotsPanel />
+
         {/* Search and Filters */}
         <Card className="mb-6">
           <CardContent className="p-6">
@@ -105,6 +157,24 @@ export default function Inventory() {
                   </SelectContent>
                 </Select>
               </div>
+              {locations.length > 1 && (
+                <div className="w-full lg:w-48">
+                  <TooltipHelp content="Show stock held at one location, or the total across all locations." side="right">
+                    <Label htmlFor="location-filter">Location</Label>
+                  </TooltipHelp>
+                  <Select value={locationFilter} onValueChange={setLocationFilter}>
+                    <SelectTrigger id="location-filter" data-testid="select-location-filter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_LOCATIONS}>All Locations</SelectItem>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="w-full lg:w-48">
                 <TooltipHelp content="Filter products by stock status: In Stock (above minimum), Low Stock (below threshold), or Out of Stock (zero quantity)." side="right">
                   <Label htmlFor="stock-status">Stock Status</Label>
@@ -128,10 +198,19 @@ export default function Inventory() {
         {/* Inventory Table */}
         <Card>
           <CardContent className="p-0">
-            <div className="px-6 py-4 border-b border-border">
+            <div className="px-6 py-4 border-b border-border flex justify-between items-center">
               <TooltipHelp content="This table shows all your products with current stock levels, pricing, and status. Click any product row to view detailed information and transaction history." side="right">
                 <h3 className="text-lg font-medium text-foreground">Products & Stock Levels</h3>
               </TooltipHelp>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="show-archived"
+                  checked={showArchived}
+                  onCheckedChange={(checked) => setShowArchived(checked === true)}
+                  data-testid="checkbox-show-archived"
+                />
+                <Label htmlFor="show-archived" className="text-sm">Show archived</Label>
+              </div>
             </div>
             
             {!products || products.length === 0 ? (
@@ -179,7 +258,14 @@ export default function Inventory() {
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div>
                             <div className="text-sm font-medium text-foreground" data-testid={`text-product-name-${product.id}`}>
-                              {product.name}
+                              <Link href={`/inventory/${product.id}`} className="hover:underline">
+                                {product.name}
+                              </Link>
+                              {product.archivedAt && (
+                                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                                  Archived
+                                </span>
+                              )}
                             </div>
                             {product.description && (
                               <div className="text-sm text-muted-foreground" data-testid={`text-product-description-${product.id}`}>
@@ -198,6 +284,20 @@ export default function Inventory() {
                           <div className="text-xs text-muted-foreground">
                             Min: {product.minStockThreshold || 0}
                           </div>
+                          {!!product.unavailableStock && (
+                            <div className="text-xs text-red-600" data-testid={`text-unavailable-stock-${product.id}`}>
+                              {product.unavailableStock} expired or quarantined
+                            </div>
+                          )}
+                          {locationFilter === ALL_LOCATIONS && locations.length > 1 && product.locationStock?.map((entry) => (
+                            <div
+                              key={entry.locationId}
+                              className={`text-xs ${entry.stockStatus === 'in_stock' ? 'text-muted-foreground' : 'text-red-600'}`}
+                              data-testid={`text-location-stock-${product.id}-${entry.locationId}`}
+                            >
+                              {locationNames.get(entry.locationId) ?? "Unknown"}: {entry.currentStock}
+                            </div>
+                          ))}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
                           ${product.wac || "0.00"}
@@ -221,6 +321,15 @@ export default function Inventory() {
                           <Button 
                             variant="ghost" 
                             size="sm"
+                            onClick={() => openReceiveDialog(product.id)}
+                            data-testid={`button-receive-product-${product.id}`}
+                          >
+                            Receive
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => setEditProductId(product.id)}
                             data-testid={`button-edit-product-${product.id}`}
                           >
                             Edit
@@ -228,6 +337,7 @@ export default function Inventory() {
                           <Button 
                             variant="ghost" 
                             size="sm"
+                            onClick={() => setAdjustProductId(product.id)}
                             data-testid={`button-adjust-product-${product.id}`}
                           >
                             Adjust
@@ -241,6 +351,30 @@ export default function Inventory() {
             )}
           </CardContent>
         </Card>
+
+        <ReceiveStockDialog
+          open={receiveDialogOpen}
+          onOpenChange={setReceiveDialogOpen}
+          products={products || []}
+          defaultProductId={receiveProductId}
+        />
+
+        <AdjustStockDialog
+          open={!!adjustProductId}
+          onOpenChange={(open) => !open && setAdjustProductId(null)}
+          product={adjustProduct}
+        />
+
+        <ImportProductsDialog
+          open={importDialogOpen}
+          onOpenChange={setImportDialogOpen}
+        />
+
+        <EditProductDialog
+          open={!!editProductId}
+          onOpenChange={(open) => !open && setEditProductId(null)}
+          product={editProduct}
+        />
     </div>
   );
 }
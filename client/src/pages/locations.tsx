@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { useLocations } from "@/hooks/use-locations";
+import { apiRequest } from "@/lib/queryClient";
+import { NewTransferDialog } from "@/components/inventory/new-transfer-dialog";
+import type { Location, StockTransfer } from "@shared/schema";
+
+interface StockTransferDetail extends StockTransfer {
+  fromLocationName: string;
+  toLocationName: string;
+  createdByName: string | null;
+  completedByName: string | null;
+  totalQty: number;
+  lines: Array<{
+    id: string;
+    productId: string;
+    productName: string;
+    unit: string;
+    lotNumber: string | null;
+    qty: number;
+  }>;
+}
+
+interface AddressFields {
+  address: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  lat: string;
+  lon: string;
+}
+
+const emptyAddress: AddressFields = { address: "", city: "", state: "", postalCode: "", lat: "", lon: "" };
+
+const addressPayload = (fields: AddressFields) => ({
+  address: fields.address.trim() || null,
+  city: fields.city.trim() || null,
+  state: fields.state.trim() || null,
+  postalCode: fields.postalCode.trim() || null,
+  lat: fields.lat !== "" ? parseFloat(fields.lat) : null,
+  lon: fields.lon !== "" ? parseFloat(fields.lon) : null,
+});
+
+function formatAddress(location: Location): string {
+  const cityLine = [location.city, [location.state, location.postalCode].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+  return [location.address, cityLine].filter(Boolean).join(" · ");
+}
+
+const statusBadges: Record<StockTransfer["status"], { label: string; className: string }> = {
+  in_transit: { label: "In Transit", className: "bg-yellow-100 text-yellow-800" },
+  received: { label: "Received", className: "bg-green-100 text-green-800" },
+  cancelled: { label: "Cancelled", className: "bg-gray-100 text-gray-800" },
+};
+
+export default function Locations() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [newAddress, setNewAddress] = useState<AddressFields>(emptyAddress);
+  const [editingLocationId, setEditingLocationId] = useState<string | null>(null);
+  const [editAddress, setEditAddress] = useState<AddressFields>(emptyAddress);
+
+  const { data: locations = [], isLoading: locationsLoading } = useLocations(currentTenant);
+
+  const { data: transfers = [], isLoading: transfersLoading } = useQuery<StockTransferDetail[]>({
+    queryKey: ["/api/tenants", currentTenant, "stock-transfers"],
+    enabled: !!currentTenant,
+  });
+
+  const invalidateLocations = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "locations"] });
+  };
+
+  const addLocationMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/locations`, {
+        name,
+        ...addressPayload(newAddress),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Location Added",
+        description: `${name} can now receive and sell stock.`,
+      });
+      setName("");
+      setNewAddress(emptyAddress);
+      invalidateLocations();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Add Location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The store address decides which tax jurisdiction its pickup sales fall in, and its
+  // coordinates are where delivery fees are estimated from
+  const updateLocationMutation = useMutation({
+    mutationFn: async (locationId: string) => {
+      await apiRequest("PATCH", `/api/tenants/${currentTenant}/locations/${locationId}`, addressPayload(editAddress));
+    },
+    onSuccess: () => {
+      setEditingLocationId(null);
+      invalidateLocations();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Update Location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (location: Location) => {
+    setEditingLocationId(location.id);
+    setEditAddress({
+      address: location.address ?? "",
+      city: location.city ?? "",
+      state: location.state ?? "",
+      postalCode: location.postalCode ?? "",
+      lat: location.lat ?? "",
+      lon: location.lon ?? "",
+    });
+  };
+
+  const archiveLocationMutation = useMutation({
+    mutationFn: async (locationId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/locations/${locationId}`);
+    },
+    onSuccess: invalidateLocations,
+    onError: (error) => {
+      toast({
+        title: "Could Not Archive Location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settleTransferMutation = useMutation({
+    mutationFn: async ({ transferId, action }: { transferId: string; action: "receive" | "cancel" }) => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/stock-transfers/${transferId}/${action}`, {});
+      return action;
+    },
+    onSuccess: (action) => {
+      toast({
+        title: action === "receive" ? "Transfer Received" : "Transfer Cancelled",
+        description: action === "receive"
+          ? "The stock is now on hand at the receiving store."
+          : "The stock has been returned to the sending store.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "stock-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Action Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (locationsLoading || transfersLoading) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="mb-8">
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-locations">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <TooltipHelp content="Each store keeps its own stock. Batches are received into a location, POS sales draw from the seller's current location, and transfers move lots between stores.">
+            <h1 className="text-2xl font-bold text-foreground">Locations & Transfers</h1>
+          </TooltipHelp>
+          <p className="mt-1 text-sm text-muted-foreground">Manage stores and move stock between them</p>
+        </div>
+        <Button
+          className="mt-4 sm:mt-0"
+          onClick={() => setTransferDialogOpen(true)}
+          disabled={locations.length < 2}
+          data-testid="button-new-transfer"
+        >
+          <i className="fas fa-truck mr-2"></i>
+          New Transfer
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Locations</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ul className="divide-y divide-border border border-border rounded-md text-sm">
+            {locations.map((location) => (
+              <li key={location.id} className="px-4 py-3" data-testid={`row-location-${location.id}`}>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <span className="font-medium text-foreground">{location.name}</span>
+                    {location.isDefault && <Badge className="ml-2 bg-blue-100 text-blue-800">Default</Badge>}
+                    {formatAddress(location) && <div className="text-xs text-muted-foreground">{formatAddress(location)}</div>}
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => editingLocationId === location.id ? setEditingLocationId(null) : startEditing(location)}
+                      data-testid={`button-edit-location-${location.id}`}
+                    >
+                      {editingLocationId === location.id ? "Cancel" : "Edit Address"}
+                    </Button>
+                    {!location.isDefault && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => archiveLocationMutation.mutate(location.id)}
+                        disabled={archiveLocationMutation.isPending}
+                        data-testid={`button-archive-location-${location.id}`}
+                      >
+                        Archive
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {editingLocationId === location.id && (
+                  <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                    <AddressInputs idPrefix={`location-${location.id}`} fields={editAddress} onChange={setEditAddress} />
+                    <Button
+                      variant="outline"
+                      onClick={() => updateLocationMutation.mutate(location.id)}
+                      disabled={updateLocationMutation.isPending}
+                      data-testid={`button-save-location-${location.id}`}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Location name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-location-name"
+            />
+            <AddressInputs idPrefix="location" fields={newAddress} onChange={setNewAddress} />
+            <Button
+              variant="outline"
+              onClick={() => addLocationMutation.mutate()}
+              disabled={!name.trim() || addLocationMutation.isPending}
+              data-testid="button-add-location"
+            >
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transfers</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {transfers.length === 0 ? (
+            <div className="text-center py-12">
+              <i className="fas fa-truck text-4xl text-muted-foreground mb-4"></i>
+              <p className="text-muted-foreground">No transfers yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Sent</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Route</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Products</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-card divide-y divide-border">
+                  {transfers.map((transfer) => (
+                    <tr key={transfer.id} data-testid={`row-transfer-${transfer.id}`}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div>{transfer.createdAt ? new Date(transfer.createdAt).toLocaleDateString() : ""}</div>
+                        {transfer.createdByName && <div className="text-xs text-muted-foreground">{transfer.createdByName}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {transfer.fromLocationName} <i className="fas fa-arrow-right mx-1 text-muted-foreground text-xs"></i> {transfer.toLocationName}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {transfer.lines.map((line) => (
+                          <div key={line.id}>
+                            {line.productName}: {line.qty} {line.unit}
+                            {line.lotNumber && <span className="text-xs text-muted-foreground"> (lot {line.lotNumber})</span>}
+                          </div>
+                        ))}
+                        {transfer.notes && <div className="text-xs text-muted-foreground">{transfer.notes}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Badge className={statusBadges[transfer.status].className}>{statusBadges[transfer.status].label}</Badge>
+                        {transfer.completedAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {new Date(transfer.completedAt).toLocaleDateString()}
+                            {transfer.completedByName ? ` · ${transfer.completedByName}` : ""}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        {transfer.status === "in_transit" && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => settleTransferMutation.mutate({ transferId: transfer.id, action: "receive" })}
+                              disabled={settleTransferMutation.isPending}
+                              data-testid={`button-receive-transfer-${transfer.id}`}
+                            >
+                              Receive
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => settleTransferMutation.mutate({ transferId: transfer.id, action: "cancel" })}
+                              disabled={settleTransferMutation.isPending}
+                              data-testid={`button-cancel-transfer-${transfer.id}`}
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewTransferDialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen} />
+    </div>
+  );
+}
+
+function AddressInputs({ idPrefix, fields, onChange }: { idPrefix: string; fields: AddressFields; onChange: (fields: AddressFields) => void }) {
+  return (
+    <>
+      <Input
+        placeholder="Address (optional)"
+        value={fields.address}
+        onChange={(e) => onChange({ ...fields, address: e.target.value })}
+        data-testid={`input-${idPrefix}-address`}
+      />
+      <Input
+        placeholder="City"
+        value={fields.city}
+        onChange={(e) => onChange({ ...fields, city: e.target.value })}
+        data-testid={`input-${idPrefix}-city`}
+      />
+      <Input
+        className="sm:w-20"
+        placeholder="State"
+        value={fields.state}
+        onChange={(e) => onChange({ ...fields, state: e.target.value.toUpperCase() })}
+        data-testid={`input-${idPrefix}-state`}
+      />
+      <Input
+        className="sm:w-28"
+        placeholder="ZIP"
+        value={fields.postalCode}
+        onChange={(e) => onChange({ ...fields, postalCode: e.target.value })}
+        data-testid={`input-${idPrefix}-postal-code`}
+      />
+      <Input
+        className="sm:w-28"
+        type="number"
+        step="0.000001"
+        placeholder="Latitude"
+        value={fields.lat}
+        onChange={(e) => onChange({ ...fields, lat: e.target.value })}
+        data-testid={`input-${idPrefix}-lat`}
+      />
+      <Input
+        className="sm:w-28"
+        type="number"
+        step="0.000001"
+        placeholder="Longitude"
+        value={fields.lon}
+        onChange={(e) => onChange({ ...fields, lon: e.target.value })}
+        data-testid={`input-${idPrefix}-lon`}
+      />
+    </>
+  );
+}
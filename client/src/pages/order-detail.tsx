@@ -0,0 +1,485 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { Link, useRoute } from "@/lib/router";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import { ReturnItemsDialog, refundMethodLabels } from "@/components/orders/return-items-dialog";
+import type { AuditLog, CreditTransaction, Delivery, LoyaltyEvent, Order, OrderDiscount, OrderItem, OrderReturn, OrderReturnLine, Payment } from "@shared/schema";
+
+interface OrderDetail extends Order {
+  customer: { id: string; name: string | null; phone: string | null; email: string | null } | null;
+  locationName: string | null;
+  createdByName: string | null;
+  items: Array<OrderItem & { productName: string; unit: string; packName: string | null; lotNumber: string | null }>;
+  discounts: OrderDiscount[];
+  payments: Payment[];
+  delivery: Omit<Delivery, "addressLine1Enc" | "cityEnc" | "stateEnc" | "postalCodeEnc"> | null;
+  loyaltyEvents: LoyaltyEvent[];
+  creditTransactions: CreditTransaction[];
+  returns: Array<OrderReturn & {
+    createdByName: string | null;
+    lines: Array<OrderReturnLine & { productName: string; unit: string; lotNumber: string | null }>;
+  }>;
+  auditTrail: Array<AuditLog & { actorName: string | null }>;
+}
+
+type Transition = "confirm" | "pay" | "void" | "refund";
+
+const statusBadges: Record<Order["status"], string> = {
+  draft: "bg-gray-100 text-gray-800",
+  confirmed: "bg-blue-100 text-blue-800",
+  paid: "bg-green-100 text-green-800",
+  voided: "bg-red-100 text-red-800",
+};
+
+const money = (value: string | number) => `$${parseFloat(String(value)).toFixed(2)}`;
+const when = (value: string | Date | null) => (value ? new Date(value).toLocaleString() : "—");
+
+// One line per audit entry: the status change or return if there was one, else the action
+function describeAudit(entry: AuditLog): string {
+  const changes = (entry.changes ?? {}) as {
+    status?: { from: string | null; to: string };
+    returned?: { refundAmount: string; refundMethod: OrderReturn["refundMethod"] };
+    refunded?: { refundAmount: string };
+  };
+  if (changes.status) {
+    return changes.status.from ? `${changes.status.from} → ${changes.status.to}` : `Created as ${changes.status.to}`;
+  }
+  if (changes.returned) {
+    return `Return refunded ${money(changes.returned.refundAmount)} (${refundMethodLabels[changes.returned.refundMethod]})`;
+  }
+  if (changes.refunded) {
+    return `Card refund of ${money(changes.refunded.refundAmount)} sent`;
+  }
+  return entry.action;
+}
+
+export default function OrderDetailPage() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, params] = useRoute("/orders/:orderId");
+  const orderId = params?.orderId;
+  const [reason, setReason] = useState("");
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+
+  const orderKey = ["/api/tenants", currentTenant, "orders", orderId];
+  const { data: order, isLoading, error } = useQuery<OrderDetail>({
+    queryKey: orderKey,
+    enabled: !!currentTenant && !!orderId,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (transition: Transition) => {
+      const body = transition === "void" || transition === "refund" ? { reason } : {};
+      await apiRequest("POST", `/api/tenants/${currentTenant}/orders/${orderId}/${transition}`, body);
+    },
+    onSuccess: () => {
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Update Order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryRefundMutation = useMutation({
+    mutationFn: async (returnId: string) => {
+      await apiRequest("POST", `/api/tenants/${currentTenant}/orders/${orderId}/returns/${returnId}/refund`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "orders"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Refund Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: orderKey });
+    },
+  });
+
+  if (error) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8 text-center" data-testid="page-order-detail">
+        <i className="fas fa-receipt text-4xl text-muted-foreground mb-4"></i>
+        <p className="text-muted-foreground">This order was not found.</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !order) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="mb-8">
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-96 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Orders with returns are settled item by item rather than refunded in full
+  const needsReason = order.status !== "voided" && order.returns.length === 0;
+  const canVoid = order.status === "draft" || order.status === "confirmed";
+
+  const returnedQty = new Map<string, number>();
+  for (const orderReturn of order.returns) {
+    for (const line of orderReturn.lines) {
+      returnedQty.set(line.orderItemId, (returnedQty.get(line.orderItemId) ?? 0) + line.qty);
+    }
+  }
+  const returnableItems = order.items
+    .map((item) => ({ ...item, returnableQty: item.qty - (returnedQty.get(item.id) ?? 0) }))
+    .filter((item) => item.returnableQty > 0);
+  const subtotal = parseFloat(order.subtotal);
+  const paidShare = subtotal > 0 ? (parseFloat(order.total) - parseFloat(order.deliveryFee)) / subtotal : 0;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-order-detail">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <Link href="/sales" className="text-sm text-muted-foreground hover:text-foreground" data-testid="link-back-sales">
+            <i className="fas fa-arrow-left mr-1"></i>
+            Sales
+          </Link>
+          <h1 className="text-2xl font-bold text-foreground mt-1" data-testid="text-order-detail-id">
+            Order {order.id.slice(0, 8)}
+            <Badge className={`ml-2 align-middle ${statusBadges[order.status]}`} data-testid="badge-order-status">{order.status}</Badge>
+          </h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {when(order.createdAt)}
+            {order.createdByName ? ` · by ${order.createdByName}` : ""}
+            {order.locationName ? ` · ${order.locationName}` : ""}
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex gap-2">
+          {order.status === "draft" && (
+            <Button onClick={() => transitionMutation.mutate("confirm")} disabled={transitionMutation.isPending} data-testid="button-confirm-order">
+              Confirm
+            </Button>
+          )}
+          {order.status === "confirmed" && (
+            <Button onClick={() => transitionMutation.mutate("pay")} disabled={transitionMutation.isPending} data-testid="button-pay-order">
+              Mark Paid
+            </Button>
+          )}
+          {order.status === "paid" && returnableItems.length > 0 && (
+            <Button variant="outline" onClick={() => setReturnDialogOpen(true)} data-testid="button-return-items">
+              <i className="fas fa-undo mr-2"></i>
+              Return Items
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Customer</p>
+            <p className="text-lg font-semibold text-foreground" data-testid="text-order-customer">
+              {order.customer?.name ?? "Walk-in Customer"}
+            </p>
+            {order.customer && (
+              <p className="text-xs text-muted-foreground">
+                {[order.customer.phone, order.customer.email].filter(Boolean).join(" · ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Total</p>
+            <p className="text-2xl font-semibold text-foreground" data-testid="text-order-total">{money(order.total)}</p>
+            <p className="text-xs text-muted-foreground">
+              {order.paymentMethod ? `${order.paymentMethod} · ` : ""}payment {order.paymentStatus}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Fulfillment</p>
+            <p className="text-lg font-semibold text-foreground" data-testid="text-order-fulfillment">
+              {order.delivery ? `Delivery · ${order.delivery.status}` : "Pickup"}
+            </p>
+            {order.delivery && (
+              <p className="text-xs text-muted-foreground">
+                {[order.delivery.addressLine1, order.delivery.city, order.delivery.state, order.delivery.postalCode].filter(Boolean).join(", ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {order.voidedAt && (
+        <Card className="mb-6 border-red-200">
+          <CardContent className="p-4 text-sm" data-testid="text-order-void">
+            <span className="font-medium text-red-700">Voided {when(order.voidedAt)}</span>
+            {order.voidReason && <span className="text-muted-foreground"> · {order.voidReason}</span>}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <TooltipHelp content="Lines as sold. Quantities and prices are per base unit; lines split across lots show one row per lot once the order is confirmed.">
+            <CardTitle>Items</CardTitle>
+          </TooltipHelp>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Lot</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Qty</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Unit Price</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Line Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {order.items.map((item) => (
+                  <tr key={item.id} data-testid={`row-order-item-${item.id}`}>
+                    <td className="px-6 py-4 text-sm">
+                      <Link href={`/inventory/${item.productId}`} className="text-foreground hover:underline">{item.productName}</Link>
+                      {item.packName && <div className="text-xs text-muted-foreground">Sold as {item.packName}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">{item.lotNumber ?? (item.batchId ? "—" : "Not allocated")}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{item.qty} {item.unit}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${parseFloat(item.unitPrice).toFixed(4)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{money(item.qty * parseFloat(item.unitPrice))}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-muted/50 text-sm">
+                <tr>
+                  <td className="px-6 py-2" colSpan={4}>Subtotal</td>
+                  <td className="px-6 py-2 text-right">{money(order.subtotal)}</td>
+                </tr>
+                {order.discounts.map((discount) => (
+                  <tr key={discount.id} className="text-green-700">
+                    <td className="px-6 py-2" colSpan={4}>{discount.description}{discount.code ? ` (${discount.code})` : ""}</td>
+                    <td className="px-6 py-2 text-right">-{money(discount.amount)}</td>
+                  </tr>
+                ))}
+                {order.loyaltyPointsRedeemed > 0 && (
+                  <tr className="text-green-700">
+                    <td className="px-6 py-2" colSpan={4}>{order.loyaltyPointsRedeemed} loyalty points</td>
+                    <td className="px-6 py-2 text-right">-{money(order.loyaltyDiscount)}</td>
+                  </tr>
+                )}
+                <tr>
+                  <td className="px-6 py-2" colSpan={4}>Tax on {money(order.taxableAmount)}</td>
+                  <td className="px-6 py-2 text-right">{money(order.tax)}</td>
+                </tr>
+                {parseFloat(order.deliveryFee) > 0 && (
+                  <tr>
+                    <td className="px-6 py-2" colSpan={4}>Delivery</td>
+                    <td className="px-6 py-2 text-right">{money(order.deliveryFee)}</td>
+                  </tr>
+                )}
+                <tr className="font-semibold">
+                  <td className="px-6 py-2" colSpan={4}>Total</td>
+                  <td className="px-6 py-2 text-right">{money(order.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Payments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {order.payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No payment records for this order.</p>
+            ) : (
+              <ul className="divide-y divide-border text-sm">
+                {order.payments.map((payment) => (
+                  <li key={payment.id} className="flex justify-between py-2" data-testid={`row-order-payment-${payment.id}`}>
+                    <span>{when(payment.createdAt)} · {payment.method} · {payment.status}</span>
+                    <span className="font-medium">{money(payment.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Loyalty and Credit</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {order.loyaltyEvents.length === 0 && order.creditTransactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No loyalty points or store credit on this order.</p>
+            ) : (
+              <ul className="divide-y divide-border text-sm">
+                {order.loyaltyEvents.map((event) => (
+                  <li key={event.id} className="flex justify-between py-2" data-testid={`row-order-loyalty-${event.id}`}>
+                    <span>{when(event.createdAt)} · points {event.reason ?? ""}</span>
+                    <span className={event.pointsDelta < 0 ? "text-red-600" : "text-green-600"}>
+                      {event.pointsDelta > 0 ? `+${event.pointsDelta}` : event.pointsDelta}
+                    </span>
+                  </li>
+                ))}
+                {order.creditTransactions.map((transaction) => (
+                  <li key={transaction.id} className="flex justify-between py-2" data-testid={`row-order-credit-${transaction.id}`}>
+                    <span>{when(transaction.createdAt)} · credit {transaction.status}{transaction.dueDate ? `, due ${new Date(transaction.dueDate).toLocaleDateString()}` : ""}</span>
+                    <span className="font-medium">{money(transaction.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {order.returns.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <TooltipHelp content="Items brought back from this order. Restocked units went back to the lot they were sold from; waste was written off.">
+              <CardTitle>Returns</CardTitle>
+            </TooltipHelp>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {order.returns.map((orderReturn) => (
+              <div key={orderReturn.id} className="rounded-md border border-border p-3 text-sm" data-testid={`row-order-return-${orderReturn.id}`}>
+                <div className="flex justify-between">
+                  <span className="font-medium text-foreground">
+                    {money(orderReturn.refundAmount)} to {refundMethodLabels[orderReturn.refundMethod].toLowerCase()}
+                    {orderReturn.loyaltyPointsDelta !== 0 && (
+                      <span className="text-muted-foreground"> · {orderReturn.loyaltyPointsDelta > 0 ? "+" : ""}{orderReturn.loyaltyPointsDelta} points</span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {when(orderReturn.createdAt)}{orderReturn.createdByName ? ` · ${orderReturn.createdByName}` : ""}
+                  </span>
+                </div>
+                {orderReturn.refundStatus !== "completed" && (
+                  <div className="flex justify-between items-center text-destructive">
+                    <span data-testid={`text-return-refund-status-${orderReturn.id}`}>
+                      {orderReturn.refundStatus === "failed" ? "The card refund failed" : "The card refund has not gone through yet"}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => retryRefundMutation.mutate(orderReturn.id)}
+                      disabled={retryRefundMutation.isPending}
+                      data-testid={`button-retry-refund-${orderReturn.id}`}
+                    >
+                      Retry Refund
+                    </Button>
+                  </div>
+                )}
+                <div className="text-muted-foreground mb-2">{orderReturn.reason}</div>
+                <ul className="space-y-1">
+                  {orderReturn.lines.map((line) => (
+                    <li key={line.id} className="flex justify-between">
+                      <span>
+                        {line.qty} {line.unit} {line.productName}
+                        {line.disposition === "restock"
+                          ? ` · back to stock${line.lotNumber ? ` (lot ${line.lotNumber})` : ""}`
+                          : " · waste"}
+                      </span>
+                      <span>{money(line.refundAmount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {needsReason && (
+        <Card className="mb-6">
+          <CardHeader>
+            <TooltipHelp content="Voiding puts any stock the order took back on the shelf and returns redeemed loyalty points. Paid orders are voided by refunding them.">
+              <CardTitle>{canVoid ? "Void Order" : "Refund Order"}</CardTitle>
+            </TooltipHelp>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-4 items-end">
+            <div className="flex-1 w-full">
+              <Label htmlFor="order-void-reason">Reason</Label>
+              <Input
+                id="order-void-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={canVoid ? "e.g. Customer cancelled" : "e.g. Wrong item dispensed"}
+                data-testid="input-order-void-reason"
+              />
+            </div>
+            <Button
+              variant="destructive"
+              onClick={() => transitionMutation.mutate(canVoid ? "void" : "refund")}
+              disabled={!reason.trim() || transitionMutation.isPending}
+              data-testid={canVoid ? "button-void-order" : "button-refund-order"}
+            >
+              {canVoid ? "Void Order" : `Refund ${money(order.total)}`}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <TooltipHelp content="Every recorded change to this order, oldest first.">
+            <CardTitle>History</CardTitle>
+          </TooltipHelp>
+        </CardHeader>
+        <CardContent>
+          {order.auditTrail.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded.</p>
+          ) : (
+            <ul className="divide-y divide-border text-sm">
+              {order.auditTrail.map((entry) => {
+                const metadata = (entry.metadata ?? {}) as { reason?: string };
+                return (
+                  <li key={entry.id} className="flex justify-between py-2" data-testid={`row-order-audit-${entry.id}`}>
+                    <span>
+                      <span className="font-medium text-foreground">{describeAudit(entry)}</span>
+                      {metadata.reason && <span className="text-muted-foreground"> · {metadata.reason}</span>}
+                    </span>
+                    <span className="text-muted-foreground">{when(entry.createdAt)}{entry.actorName ? ` · ${entry.actorName}` : ""}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReturnItemsDialog
+        open={returnDialogOpen}
+        onOpenChange={setReturnDialogOpen}
+        orderId={order.id}
+        items={returnableItems}
+        paidShare={paidShare}
+      />
+    </div>
+  );
+}
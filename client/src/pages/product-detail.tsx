@@ -0,0 +1,196 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { Link, useRoute } from "@/lib/router";
+import { useTenant } from "@/contexts/tenant-context";
+import type { Product } from "@shared/schema";
+
+interface StockLedgerEntry {
+  occurredAt: string;
+  type: "receipt" | "sale" | "void" | "return" | "adjustment";
+  sourceId: string;
+  reference: string | null;
+  batchId: string | null;
+  lotNumber: string | null;
+  qtyIn: number;
+  qtyOut: number;
+  unitCost: string;
+  balance: number;
+  wac: string;
+  actorName: string | null;
+  notes: string | null;
+}
+
+interface StockLedger {
+  product: Product;
+  entries: StockLedgerEntry[];
+  currentStock: number;
+  wac: string;
+}
+
+const typeBadges: Record<StockLedgerEntry["type"], { label: string; className: string }> = {
+  receipt: { label: "Receipt", className: "bg-green-100 text-green-800" },
+  sale: { label: "Sale", className: "bg-blue-100 text-blue-800" },
+  void: { label: "Voided Sale", className: "bg-gray-100 text-gray-800" },
+  return: { label: "Return", className: "bg-purple-100 text-purple-800" },
+  adjustment: { label: "Adjustment", className: "bg-yellow-100 text-yellow-800" },
+};
+
+export default function ProductDetail() {
+  const { currentTenant } = useTenant();
+  const [, params] = useRoute("/inventory/:productId");
+  const productId = params?.productId;
+
+  const { data: ledger, isLoading } = useQuery<StockLedger>({
+    queryKey: ["/api/tenants", currentTenant, "products", productId, "ledger"],
+    enabled: !!currentTenant && !!productId,
+  });
+
+  if (isLoading || !ledger) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="mb-8">
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-96 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { product, entries } = ledger;
+  const finalBalance = entries.length > 0 ? entries[entries.length - 1].balance : 0;
+  // Newest first on screen; the running values are computed oldest first
+  const rows = [...entries].reverse();
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-product-detail">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <Link href="/inventory" className="text-sm text-muted-foreground hover:text-foreground" data-testid="link-back-inventory">
+            <i className="fas fa-arrow-left mr-1"></i>
+            Inventory
+          </Link>
+          <h1 className="text-2xl font-bold text-foreground mt-1" data-testid="text-product-detail-name">
+            {product.name}
+            {product.archivedAt && (
+              <Badge className="ml-2 bg-gray-100 text-gray-800 align-middle">Archived</Badge>
+            )}
+          </h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {product.ndcCode ? `NDC ${product.ndcCode} · ` : ""}{product.type} · per {product.unit}
+          </p>
+        </div>
+        <TooltipHelp content="Download every stock movement for this product with running balance and WAC as a CSV file." side="bottom">
+          <Button variant="outline" className="mt-4 sm:mt-0" asChild data-testid="button-export-ledger">
+            <a href={`/api/tenants/${currentTenant}/products/${product.id}/ledger.csv`}>
+              <i className="fas fa-download mr-2"></i>
+              Export Ledger
+            </a>
+          </Button>
+        </TooltipHelp>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">On Hand</p>
+            <p className="text-2xl font-semibold text-foreground" data-testid="text-ledger-stock">
+              {ledger.currentStock} {product.unit}
+            </p>
+            {finalBalance !== ledger.currentStock && (
+              <p className="text-xs text-red-600">Ledger balance is {finalBalance}</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Weighted Average Cost</p>
+            <p className="text-2xl font-semibold text-foreground" data-testid="text-ledger-wac">${ledger.wac}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Stock Value</p>
+            <p className="text-2xl font-semibold text-foreground" data-testid="text-ledger-value">
+              ${(ledger.currentStock * parseFloat(ledger.wac)).toFixed(2)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <TooltipHelp content="Every receipt, sale, voided sale, return to stock and adjustment that changed this product's stock. Balance and WAC are the running values after each movement.">
+            <CardTitle>Stock Ledger</CardTitle>
+          </TooltipHelp>
+        </CardHeader>
+        <CardContent className="p-0">
+          {rows.length === 0 ? (
+            <div className="text-center py-12">
+              <i className="fas fa-book text-4xl text-muted-foreground mb-4"></i>
+              <p className="text-muted-foreground">No stock movements yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Reference</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Lot</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">In</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Out</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Unit Cost</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Balance</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">WAC</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">By</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-card divide-y divide-border">
+                  {rows.map((entry, index) => (
+                    <tr key={`${entry.type}-${entry.sourceId}-${entry.batchId ?? ""}-${index}`} data-testid={`row-ledger-${entry.sourceId}`}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {new Date(entry.occurredAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Badge className={typeBadges[entry.type].className}>{typeBadges[entry.type].label}</Badge>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {entry.type === "sale" || entry.type === "void" || entry.type === "return" ? (
+                          <Link href={`/orders/${entry.sourceId}`} className="text-foreground hover:underline">{entry.reference}</Link>
+                        ) : (
+                          <div className="text-foreground">{entry.reference ?? "—"}</div>
+                        )}
+                        {entry.notes && <div className="text-xs text-muted-foreground">{entry.notes}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{entry.lotNumber ?? "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
+                        {entry.qtyIn > 0 ? `+${entry.qtyIn}` : ""}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                        {entry.qtyOut > 0 ? `-${entry.qtyOut}` : ""}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${entry.unitCost}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium">{entry.balance}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${entry.wac}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{entry.actorName ?? ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
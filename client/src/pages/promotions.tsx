@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/contexts/tenant-context";
+import { apiRequest } from "@/lib/queryClient";
+import { NewPromotionDialog, promotionTypeLabels } from "@/components/promotions/new-promotion-dialog";
+import type { Promotion } from "@shared/schema";
+
+interface PromotionRow extends Promotion {
+  productName: string | null;
+  redemptions: number;
+}
+
+interface PromotionReport {
+  from: string;
+  to: string;
+  promotions: Array<{
+    promotionId: string;
+    name: string;
+    code: string | null;
+    type: Promotion["type"];
+    archived: boolean;
+    redemptions: number;
+    customers: number;
+    salesValue: string;
+    discountValue: string;
+    costValue: string;
+    marginAfterDiscount: string;
+  }>;
+  totals: { redemptions: number; salesValue: string; discountValue: string; marginAfterDiscount: string };
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+function describeOffer(promotion: PromotionRow): string {
+  const value = parseFloat(promotion.value);
+  const scope = promotion.productName ?? "the order";
+  switch (promotion.type) {
+    case "percent_off":
+      return `${(value * 100).toFixed(1)}% off ${scope}`;
+    case "fixed_off":
+      return `$${value.toFixed(2)} off ${scope}`;
+    case "buy_x_get_y":
+      return `Buy ${promotion.buyQty} ${scope}, get ${promotion.getQty} ${value >= 1 ? "free" : `${(value * 100).toFixed(0)}% off`}`;
+  }
+}
+
+function describeConditions(promotion: PromotionRow): string {
+  const conditions = [
+    promotion.endsAt
+      ? `${new Date(promotion.startsAt).toLocaleDateString()} – ${new Date(promotion.endsAt).toLocaleDateString()}`
+      : `From ${new Date(promotion.startsAt).toLocaleDateString()}`,
+  ];
+  if (promotion.minSubtotal) conditions.push(`orders over $${parseFloat(promotion.minSubtotal).toFixed(2)}`);
+  if (promotion.usageLimitPerCustomer) conditions.push(`${promotion.usageLimitPerCustomer} per customer`);
+  return conditions.join(" · ");
+}
+
+export default function Promotions() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [from, setFrom] = useState(() => isoDay(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => isoDay(new Date()));
+
+  const { data: promotions = [], isLoading } = useQuery<PromotionRow[]>({
+    queryKey: ["/api/tenants", currentTenant, "promotions"],
+    enabled: !!currentTenant,
+  });
+
+  const { data: report } = useQuery<PromotionReport>({
+    queryKey: ["/api/tenants", currentTenant, "promotions", "report", from, to],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${currentTenant}/promotions/report?from=${from}&to=${to}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch promotion report");
+      return response.json();
+    },
+    enabled: !!currentTenant && !!from && !!to,
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (promotionId: string) => {
+      await apiRequest("DELETE", `/api/tenants/${currentTenant}/promotions/${promotionId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "promotions"] }),
+    onError: (error) => {
+      toast({
+        title: "Could Not Archive Promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="mb-8">
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-promotions">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <TooltipHelp content="Discounts applied when an order is created. Promotions without a code apply to every qualifying order; coded ones only when the code is entered at the POS. Each discount is stored on the order as its own line.">
+            <h1 className="text-2xl font-bold text-foreground">Promotions</h1>
+          </TooltipHelp>
+          <p className="mt-1 text-sm text-muted-foreground">Discounts, discount codes and what they cost</p>
+        </div>
+        <Button className="mt-4 sm:mt-0" onClick={() => setDialogOpen(true)} data-testid="button-new-promotion">
+          <i className="fas fa-tags mr-2"></i>
+          New Promotion
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Active Promotions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {promotions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No promotions yet.</p>
+          ) : (
+            <ul className="divide-y divide-border border border-border rounded-md text-sm">
+              {promotions.map((promotion) => (
+                <li key={promotion.id} className="flex justify-between items-center px-4 py-3" data-testid={`row-promotion-${promotion.id}`}>
+                  <div>
+                    <span className="font-medium text-foreground">{promotion.name}</span>
+                    {promotion.code
+                      ? <Badge className="ml-2 bg-blue-100 text-blue-800">{promotion.code}</Badge>
+                      : <Badge className="ml-2 bg-green-100 text-green-800">Automatic</Badge>}
+                    <div className="text-muted-foreground">{describeOffer(promotion)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {describeConditions(promotion)} · used {promotion.redemptions} times
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => archiveMutation.mutate(promotion.id)}
+                    disabled={archiveMutation.isPending}
+                    data-testid={`button-archive-promotion-${promotion.id}`}
+                  >
+                    Archive
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
+            <TooltipHelp content="Confirmed and paid orders placed in the period. Margin given away is the discount itself; margin after discount takes the FIFO cost of the goods on those orders off what the customers paid." side="right">
+              <CardTitle>Promotion Performance</CardTitle>
+            </TooltipHelp>
+            <div className="flex items-end gap-3">
+              <div>
+                <Label htmlFor="promotion-report-from">From</Label>
+                <Input id="promotion-report-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-promotion-report-from" />
+              </div>
+              <div>
+                <Label htmlFor="promotion-report-to">To</Label>
+                <Input id="promotion-report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-promotion-report-to" />
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {!report ? (
+            <Skeleton className="h-32 m-6" />
+          ) : report.promotions.length === 0 ? (
+            <div className="text-center py-12">
+              <i className="fas fa-tags text-4xl text-muted-foreground mb-4"></i>
+              <p className="text-muted-foreground">No promotions were redeemed in this period.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Promotion</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Redemptions</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Customers</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Order Sales</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Margin Given Away</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Margin After Discount</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-card divide-y divide-border">
+                  {report.promotions.map((row) => (
+                    <tr key={row.promotionId} data-testid={`row-promotion-report-${row.promotionId}`}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="font-medium text-foreground">
+                          {row.name}
+                          {row.archived && <span className="text-xs text-muted-foreground"> (archived)</span>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {promotionTypeLabels[row.type]}{row.code ? ` · ${row.code}` : ""}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{row.redemptions}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{row.customers}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${row.salesValue}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">${row.discountValue}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${row.marginAfterDiscount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-muted/50">
+                  <tr className="font-semibold text-sm">
+                    <td className="px-6 py-3">Total</td>
+                    <td className="px-6 py-3 text-right" data-testid="text-promotion-redemptions">{report.totals.redemptions}</td>
+                    <td className="px-6 py-3"></td>
+                    <td className="px-6 py-3 text-right">${report.totals.salesValue}</td>
+                    <td className="px-6 py-3 text-right text-red-600" data-testid="text-promotion-discount">${report.totals.discountValue}</td>
+                    <td className="px-6 py-3 text-right">${report.totals.marginAfterDiscount}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewPromotionDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+    </div>
+  );
+}
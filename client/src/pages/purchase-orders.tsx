@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useTenant } from "@/contexts/tenant-context";
+import { NewPurchaseOrderDialog } from "@/components/purchasing/new-purchase-order-dialog";
+import {
+  PurchaseOrderDetailDialog,
+  purchaseOrderStatusColors,
+  purchaseOrderStatusLabels,
+} from "@/components/purchasing/purchase-order-detail-dialog";
+import type { PurchaseOrder } from "@shared/schema";
+
+interface PurchaseOrderSummary extends PurchaseOrder {
+  supplierName: string;
+  lineCount: number;
+  orderedCost: string;
+  receivedCost: string;
+}
+
+export default function PurchaseOrders() {
+  const { currentTenant } = useTenant();
+  const [newDialogOpen, setNewDialogOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<PurchaseOrderSummary[]>({
+    queryKey: ["/api/tenants", currentTenant, "purchase-orders"],
+    enabled: !!currentTenant,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="mb-8">
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-96 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-purchase-orders">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <TooltipHelp content="Purchase orders track what you have ordered from suppliers. Receiving a PO line creates a batch and inventory lot, and the PO keeps ordered versus received quantity and cost variance.">
+            <h1 className="text-2xl font-bold text-foreground">Purchase Orders</h1>
+          </TooltipHelp>
+          <p className="mt-1 text-sm text-muted-foreground">Order from suppliers and receive into inventory</p>
+        </div>
+        <Button className="mt-4 sm:mt-0" onClick={() => setNewDialogOpen(true)} data-testid="button-new-po">
+          <i className="fas fa-plus mr-2"></i>
+          New Purchase Order
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {purchaseOrders.length === 0 ? (
+            <div className="text-center py-12">
+              <i className="fas fa-file-invoice text-4xl text-muted-foreground mb-4"></i>
+              <p className="text-muted-foreground">No purchase orders yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">PO #</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Lines</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Ordered</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Received</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Created</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-card divide-y divide-border">
+                  {purchaseOrders.map((purchaseOrder) => (
+                    <tr
+                      key={purchaseOrder.id}
+                      className="hover:bg-muted/50 cursor-pointer"
+                      onClick={() => setSelectedId(purchaseOrder.id)}
+                      data-testid={`row-po-${purchaseOrder.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{purchaseOrder.poNumber}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{purchaseOrder.supplierName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge className={purchaseOrderStatusColors[purchaseOrder.status]}>
+                          {purchaseOrderStatusLabels[purchaseOrder.status]}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{purchaseOrder.lineCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${purchaseOrder.orderedCost}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${purchaseOrder.receivedCost}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                        {purchaseOrder.createdAt ? new Date(purchaseOrder.createdAt).toLocaleDateString() : ""}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewPurchaseOrderDialog
+        open={newDialogOpen}
+        onOpenChange={setNewDialogOpen}
+        onCreated={setSelectedId}
+      />
+
+      <PurchaseOrderDetailDialog
+        purchaseOrderId={selectedId}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useTenant } from "@/contexts/tenant-context";
+import { StartRecallDialog } from "@/components/recalls/start-recall-dialog";
+import { BatchTraceDialog } from "@/components/recalls/batch-trace-dialog";
+import type { Batch } from "@shared/schema";
+
+interface RecalledBatch extends Batch {
+  productName: string;
+  qtyQuarantined: number;
+}
+
+export default function Recalls() {
+  const { currentTenant } = useTenant();
+  const [startDialogOpen, setStartDialogOpen] = useState(false);
+  const [traceBatchId, setTraceBatchId] = useState<string | null>(null);
+
+  const { data: recalls = [], isLoading } = useQuery<RecalledBatch[]>({
+    queryKey: ["/api/tenants", currentTenant, "recalls"],
+    enabled: !!currentTenant,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-4 sm:p-6 lg:p-8">
+        <div className="mb-8">
+          <Skeleton className="h-8 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-recalls">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div>
+          <TooltipHelp content="Recalling a batch quarantines its remaining stock so it cannot be sold, and traces every order and customer that received it so you can contact them.">
+            <h1 className="text-2xl font-bold text-foreground">Recalls</h1>
+          </TooltipHelp>
+          <p className="mt-1 text-sm text-muted-foreground">Quarantine recalled lots and reach affected customers</p>
+        </div>
+        <Button variant="destructive" className="mt-4 sm:mt-0" onClick={() => setStartDialogOpen(true)} data-testid="button-start-recall">
+          <i className="fas fa-exclamation-circle mr-2"></i>
+          Recall a Batch
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {recalls.length === 0 ? (
+            <div className="text-center py-12">
+              <i className="fas fa-shield-alt text-4xl text-muted-foreground mb-4"></i>
+              <p className="text-muted-foreground">No batches have been recalled.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Lot</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Recalled</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Quarantined</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-card divide-y divide-border">
+                  {recalls.map((recall) => (
+                    <tr
+                      key={recall.id}
+                      className="hover:bg-muted/50 cursor-pointer"
+                      onClick={() => setTraceBatchId(recall.id)}
+                      data-testid={`row-recall-${recall.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{recall.productName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{recall.lotNumber ?? "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{recall.supplier ?? "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {recall.recalledAt ? new Date(recall.recalledAt).toLocaleDateString() : ""}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{recall.qtyQuarantined}</td>
+                      <td className="px-6 py-4 text-sm text-muted-foreground truncate max-w-xs">{recall.recallReason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <StartRecallDialog
+        open={startDialogOpen}
+        onOpenChange={setStartDialogOpen}
+        onRecalled={setTraceBatchId}
+      />
+
+      <BatchTraceDialog
+        batchId={traceBatchId}
+        onOpenChange={(open) => !open && setTraceBatchId(null)}
+      />
+    </div>
+  );
+}
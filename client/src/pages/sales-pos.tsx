@@ -11,7 +11,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { TooltipHelp } from "@/components/ui/tooltip-help";
 import { useToast } from "@/hooks/use-toast";
 import { useTenant } from "@/contexts/tenant-context";
+import { useCurrentLocation } from "@/hooks/use-locations";
+import { useBarcodeScanner, resolveBarcode } from "@/hooks/use-barcode-scanner";
 import { apiRequest } from "@/lib/queryClient";
+import type { ProductPack } from "@shared/schema";
 
 interface Product {
   id: string;
@@ -27,22 +30,65 @@ interface Customer {
   name: string;
   phone?: string;
   email?: string;
+  priceListId?: string | null;
 }
 
+interface PriceListSummary {
+  id: string;
+  name: string;
+}
+
+// Prices are never kept here; every figure shown comes from the server's cart quote
 interface CartItem {
+  key: string; // One line per product and sale unit
   productId: string;
+  packId: string | null; // null sells in the product's base unit
+  unitLabel: string;
   name: string;
   quantity: number;
-  unitPrice: number;
-  total: number;
 }
 
 interface PriceCalculation {
   quantity: number;
   unitPrice: number;
   total: string;
+  priceListId: string | null;
+}
+
+interface CartQuote {
+  lines: Array<{
+    productId: string;
+    packId: string | null;
+    qty: number;
+    unitPrice: string;
+    total: string;
+    basis: "list_price" | "cost_plus" | "contract";
+    priceListId: string | null;
+  }>;
+  subtotal: string;
+  discounts: Array<{ promotionId: string; code: string | null; description: string; amount: string }>;
+  discount: string;
+  loyalty: { pointsAvailable: number; pointsRedeemed: number; amount: string } | null;
+  tax: { jurisdictionName: string | null; exemptionId: string | null; tax: string };
+  fulfillment: Fulfillment;
+  delivery: { distanceMiles: number; estimatedMinutes: number; fee: string } | null;
+  deliveryFee: string;
+  total: string;
+}
+
+type Fulfillment = "pickup" | "delivery";
+
+interface DeliveryAddress {
+  addressLine1: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  lat: string;
+  lon: string;
 }
 
+const emptyDeliveryAddress: DeliveryAddress = { addressLine1: "", city: "", state: "", postalCode: "", lat: "", lon: "" };
+
 interface QtyCalculation {
   suggestedQuantity: number;
   unitPrice: number;
@@ -50,8 +96,14 @@ interface QtyCalculation {
   change: string;
 }
 
+// Select value for selling in the product's base unit
+const BASE_UNIT = "base";
+
+const cartKey = (productId: string, packId: string | null) => `${productId}:${packId ?? BASE_UNIT}`;
+
 export default function SalesPOS() {
   const { currentTenant } = useTenant();
+  const { data: currentLocation } = useCurrentLocation(currentTenant);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -59,6 +111,11 @@ export default function SalesPOS() {
   const [selectedCustomer, setSelectedCustomer] = useState<string>("");
   const [paymentMethod, setPaymentMethod] = useState<string>("");
   const [paymentNotes, setPaymentNotes] = useState<string>("");
+  const [promotionCode, setPromotionCode] = useState<string>("");
+  const [appliedPromotionCode, setAppliedPromotionCode] = useState<string>("");
+  const [redeemPoints, setRedeemPoints] = useState<string>("");
+  const [fulfillment, setFulfillment] = useState<Fulfillment>("pickup");
+  const [deliveryAddress, setDeliveryAddress] = useState<DeliveryAddress>(emptyDeliveryAddress);
   const [qtyCalcProduct, setQtyCalcProduct] = useState<string>("");
   const [qtyCalcQuantity, setQtyCalcQuantity] = useState<string>("");
   const [amtCalcProduct, setAmtCalcProduct] = useState<string>("");
@@ -70,37 +127,70 @@ export default function SalesPOS() {
     enabled: !!currentTenant,
   });
 
+  const { data: packs = [] } = useQuery<ProductPack[]>({
+    queryKey: ["/api/tenants", currentTenant, "product-packs"],
+    enabled: !!currentTenant,
+  });
+
   const { data: customers } = useQuery<Customer[]>({
     queryKey: ["/api/tenants", currentTenant, "customers"],
     enabled: !!currentTenant,
   });
 
+  const { data: priceLists = [] } = useQuery<PriceListSummary[]>({
+    queryKey: ["/api/tenants", currentTenant, "price-lists"],
+    enabled: !!currentTenant,
+  });
+
+  const customerPriceList = priceLists.find(list => list.id === customers?.find(c => c.id === selectedCustomer)?.priceListId);
+
+  // Prices are quoted for the selected customer so their contract price list applies
   const qtyToPriceMutation = useMutation({
-    mutationFn: async (data: { productId: string; quantity: number; tenantId: string }) => {
-      const res = await apiRequest("POST", "/api/orders/assist/qty-to-price", data);
+    mutationFn: async (data: { productId: string; quantity: number }): Promise<PriceCalculation> => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/orders/assist/qty-to-price`, {
+        customerId: selectedCustomer || null,
+        ...data,
+      });
       return await res.json();
     },
   });
 
   const amountToQtyMutation = useMutation({
-    mutationFn: async (data: { productId: string; targetAmount: number; tenantId: string }) => {
-      const res = await apiRequest("POST", "/api/orders/assist/amount-to-qty", data);
+    mutationFn: async (data: { productId: string; targetAmount: number }) => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/orders/assist/amount-to-qty`, {
+        ...data,
+        customerId: selectedCustomer || null,
+      });
       return await res.json();
     },
   });
 
+  // A sale is taken as a confirmed order, which allocates its stock, and then marked paid
   const createOrderMutation = useMutation({
-    mutationFn: async (orderData: any) => {
-      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/orders`, orderData);
-      return await res.json();
+    mutationFn: async ({ paymentMethod, paymentNotes, ...orderData }: any) => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/orders`, { ...orderData, status: "confirmed" });
+      const order = await res.json();
+      try {
+        const paid = await apiRequest("POST", `/api/tenants/${currentTenant}/orders/${order.id}/pay`, { paymentMethod, paymentNotes });
+        return await paid.json();
+      } catch (error) {
+        // The order already holds its stock, so the same cart must not be submitted again
+        clearCart();
+        queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "orders"] });
+        throw new Error(`The order was created but not marked paid (${(error as Error).message}); record the payment from the order's page`);
+      }
     },
-    onSuccess: () => {
+    onSuccess: (order: { discount: string }) => {
+      const discount = parseFloat(order.discount ?? "0");
       toast({
         title: "Order Created",
-        description: "Sale processed successfully",
+        description: discount > 0
+          ? `Sale processed successfully with $${discount.toFixed(2)} in discounts`
+          : "Sale processed successfully",
       });
       clearCart();
       queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "products"] });
     },
     onError: (error) => {
       toast({
@@ -108,6 +198,8 @@ export default function SalesPOS() {
         description: error.message,
         variant: "destructive",
       });
+      // The total may have moved since the quote was shown, e.g. a promotion ended
+      queryClient.invalidateQueries({ queryKey: ["/api/tenants", currentTenant, "orders", "quote"] });
     },
   });
 
@@ -116,69 +208,114 @@ export default function SalesPOS() {
     product.ndcCode?.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
 
-  const subtotal = cart.reduce((sum, item) => sum + item.total, 0);
-  const tax = subtotal * 0.08; // 8% tax
-  const deliveryFee = 0; // No delivery fee for POS
-  const total = subtotal + tax + deliveryFee;
+  const deliveryReady = fulfillment === "pickup" || (
+    !!deliveryAddress.addressLine1.trim() && !!deliveryAddress.city.trim() && !!deliveryAddress.state.trim() &&
+    !!deliveryAddress.postalCode.trim() && deliveryAddress.lat !== "" && deliveryAddress.lon !== ""
+  );
+  const cartInput = {
+    items: cart.map(item => ({ productId: item.productId, packId: item.packId, qty: item.quantity })),
+    customerId: selectedCustomer || null,
+    locationId: currentLocation?.id ?? null,
+    fulfillment,
+    delivery: fulfillment === "delivery"
+      ? { ...deliveryAddress, lat: parseFloat(deliveryAddress.lat), lon: parseFloat(deliveryAddress.lon) }
+      : null,
+    promotionCodes: appliedPromotionCode ? [appliedPromotionCode] : [],
+    redeemPoints: selectedCustomer && redeemPoints ? parseInt(redeemPoints, 10) || 0 : 0,
+  };
 
-  const addToCart = async (product: Product) => {
-    const existingItem = cart.find(item => item.productId === product.id);
-    
+  // The server prices the whole cart; the POS shows only what comes back
+  const { data: cartQuote, error: quoteError, isFetching: quoteFetching } = useQuery<CartQuote>({
+    queryKey: ["/api/tenants", currentTenant, "orders", "quote", cartInput],
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/tenants/${currentTenant}/orders/quote`, cartInput);
+      return await res.json();
+    },
+    enabled: !!currentTenant && cart.length > 0 && deliveryReady,
+    placeholderData: (previous) => previous,
+  });
+  const quote = cart.length > 0 && deliveryReady ? cartQuote : undefined;
+  const quotedLine = (item: CartItem) =>
+    quote?.lines.find(line => line.productId === item.productId && line.packId === item.packId);
+  const money = (value: string | undefined) => (value === undefined ? "—" : `$${parseFloat(value).toFixed(2)}`);
+
+  const addToCart = (product: Product) => {
+    const key = cartKey(product.id, null);
+    const existingItem = cart.find(item => item.key === key);
     if (existingItem) {
-      // For existing items, calculate new quantity and get updated pricing
-      const newQuantity = existingItem.quantity + 1;
-      try {
-        const priceCalc = await qtyToPriceMutation.mutateAsync({
-          productId: product.id,
-          quantity: newQuantity,
-          tenantId: currentTenant!,
-        });
-        
-        setCart(cart.map(item =>
-          item.productId === product.id
-            ? { 
-                ...item, 
-                quantity: newQuantity, 
-                unitPrice: priceCalc.unitPrice,
-                total: parseFloat(priceCalc.total)
-              }
-            : item
-        ));
-      } catch (error) {
-        toast({
-          title: "Pricing Error",
-          description: "Unable to calculate pricing for this item",
-          variant: "destructive",
-        });
-      }
+      setCart(cart.map(item => item.key === key ? { ...item, quantity: item.quantity + 1 } : item));
     } else {
-      // For new items, get pricing for quantity 1
-      try {
-        const priceCalc = await qtyToPriceMutation.mutateAsync({
-          productId: product.id,
-          quantity: 1,
-          tenantId: currentTenant!,
-        });
-        
-        setCart([...cart, {
-          productId: product.id,
-          name: product.name,
-          quantity: 1,
-          unitPrice: priceCalc.unitPrice,
-          total: parseFloat(priceCalc.total),
-        }]);
-      } catch (error) {
+      setCart([...cart, {
+        key,
+        productId: product.id,
+        packId: null,
+        unitLabel: product.unit,
+        name: product.name,
+        quantity: 1,
+      }]);
+    }
+  };
+
+  // A scan lands in the search box as well when it has focus, so clear it either way
+  const handleScan = async (code: string) => {
+    setSearchTerm("");
+    try {
+      const { scan, product } = await resolveBarcode(currentTenant!, code);
+      const match = product && products?.find(p => p.id === product.id);
+      if (!match) {
         toast({
-          title: "Pricing Error",
-          description: "Unable to calculate pricing for this item",
+          title: "Product Not Found",
+          description: scan.ndc ? `No product with NDC ${scan.ndc} is in the catalog.` : "This barcode has no NDC to look up.",
           variant: "destructive",
         });
+        return;
       }
+      addToCart(match);
+    } catch (error: any) {
+      toast({
+        title: "Scan Failed",
+        description: error.message,
+        variant: "destructive",
+      });
     }
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart(cart.filter(item => item.productId !== productId));
+  useBarcodeScanner({ enabled: !!currentTenant, onScan: handleScan });
+
+  // Switch a cart line between the base unit and a pack; stock is still drawn in base units
+  const changeCartItemUnit = (item: CartItem, value: string) => {
+    const pack = packs.find(p => p.id === value) ?? null;
+    const key = cartKey(item.productId, pack?.id ?? null);
+    if (cart.some(other => other.key === key)) {
+      toast({
+        title: "Already in Cart",
+        description: "This product is already in the cart in that unit.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const product = products?.find(p => p.id === item.productId);
+    setCart(cart.map(line =>
+      line.key === item.key
+        ? {
+            ...line,
+            key,
+            packId: pack?.id ?? null,
+            unitLabel: pack ? pack.name : product?.unit ?? line.unitLabel,
+          }
+        : line
+    ));
+  };
+
+  // Contract prices and loyalty points depend on the buyer; the quote reprices the cart
+  const changeCustomer = (customerId: string) => {
+    setSelectedCustomer(customerId);
+    setRedeemPoints("");
+  };
+
+  const removeFromCart = (key: string) => {
+    setCart(cart.filter(item => item.key !== key));
   };
 
   const clearCart = () => {
@@ -186,6 +323,11 @@ export default function SalesPOS() {
     setSelectedCustomer("");
     setPaymentMethod("");
     setPaymentNotes("");
+    setPromotionCode("");
+    setAppliedPromotionCode("");
+    setRedeemPoints("");
+    setFulfillment("pickup");
+    setDeliveryAddress(emptyDeliveryAddress);
   };
 
   const handleQtyToPrice = () => {
@@ -194,7 +336,6 @@ export default function SalesPOS() {
     qtyToPriceMutation.mutate({
       productId: qtyCalcProduct,
       quantity: parseInt(qtyCalcQuantity),
-      tenantId: currentTenant,
     });
   };
 
@@ -204,7 +345,6 @@ export default function SalesPOS() {
     amountToQtyMutation.mutate({
       productId: amtCalcProduct,
       targetAmount: parseFloat(amtCalcAmount),
-      tenantId: currentTenant,
     });
   };
 
@@ -227,16 +367,21 @@ export default function SalesPOS() {
       return;
     }
 
+    if (!quote || quoteFetching) {
+      toast({
+        title: "Quote Pending",
+        description: quoteError ? quoteError.message : "Wait for the cart total before processing payment",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The server re-quotes the cart and refuses the order if this total no longer matches
     const orderData = {
-      customerId: selectedCustomer || null,
-      status: "confirmed",
-      subtotal: subtotal.toFixed(2),
-      tax: tax.toFixed(2),
-      deliveryFee: deliveryFee.toFixed(2),
-      total: total.toFixed(2),
+      ...cartInput,
+      total: quote.total,
       paymentMethod,
       paymentNotes: paymentNotes || null,
-      paymentStatus: "completed",
     };
 
     createOrderMutation.mutate(orderData);
@@ -264,7 +409,12 @@ export default function SalesPOS() {
           <TooltipHelp content="The Sales Point of Sale system allows you to process customer transactions, add products to cart, calculate pricing, and complete payments. Use the calculators to help determine quantities and pricing." articleSlug="sales-pos-overview">
             <h1 className="text-2xl font-bold text-foreground">Sales Point of Sale</h1>
           </TooltipHelp>
-          <p className="mt-1 text-sm text-muted-foreground">Process customer transactions and manage orders</p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Process customer transactions and manage orders
+            {currentLocation && (
+              <span data-testid="text-pos-location"> · Selling from {currentLocation.name}</span>
+            )}
+          </p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -277,11 +427,12 @@ export default function SalesPOS() {
                 </TooltipHelp>
                 
                 <div className="mb-4">
-                  <TooltipHelp content="Search products by name or NDC code. Start typing to filter the product list and find items quickly." side="bottom">
+                  <TooltipHelp content="Search products by name or NDC code, or scan a product barcode to add it straight to the cart." side="bottom">
                     <Input
-                      placeholder="Search products..."
+                      placeholder="Search or scan products..."
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
+                      data-barcode-input
                       data-testid="input-product-search"
                     />
                   </TooltipHelp>
@@ -442,7 +593,7 @@ export default function SalesPOS() {
                 
                 <div className="mb-4">
                   <Label className="text-sm font-medium text-foreground">Customer</Label>
-                  <Select value={selectedCustomer} onValueChange={setSelectedCustomer}>
+                  <Select value={selectedCustomer} onValueChange={changeCustomer}>
                     <SelectTrigger data-testid="select-customer">
                       <SelectValue placeholder="Walk-in Customer" />
                     </SelectTrigger>
@@ -455,6 +606,12 @@ export default function SalesPOS() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {customerPriceList && (
+                    <p className="text-xs text-muted-foreground mt-1" data-testid="text-customer-price-list">
+                      <i className="fas fa-file-contract mr-1"></i>
+                      Contract prices: {customerPriceList.name}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-3 mb-6 max-h-48 overflow-y-auto">
@@ -464,53 +621,206 @@ export default function SalesPOS() {
                       <p className="text-sm text-muted-foreground">Cart is empty</p>
                     </div>
                   ) : (
-                    cart.map((item) => (
-                      <div key={item.productId} className="flex items-center justify-between py-2 border-b border-border">
-                        <div className="flex-1 pr-3">
-                          <p className="text-sm font-medium text-foreground" data-testid={`text-cart-item-name-${item.productId}`}>
-                            {item.name}
-                          </p>
-                          <p className="text-xs text-muted-foreground">
-                            ${item.unitPrice.toFixed(2)} x {item.quantity}
-                          </p>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <span className="text-sm font-semibold text-foreground" data-testid={`text-cart-item-total-${item.productId}`}>
-                            ${item.total.toFixed(2)}
-                          </span>
-                          <Button 
-                            variant="ghost"
-                            size="sm"
-                            className="h-6 w-6 p-0 text-red-600 hover:text-red-800"
-                            onClick={() => removeFromCart(item.productId)}
-                            data-testid={`button-remove-cart-item-${item.productId}`}
-                          >
-                            <i className="fas fa-times text-xs"></i>
-                          </Button>
+                    cart.map((item) => {
+                      const productPacks = packs.filter(pack => pack.productId === item.productId);
+                      return (
+                        <div key={item.key} className="flex items-center justify-between py-2 border-b border-border">
+                          <div className="flex-1 pr-3">
+                            <p className="text-sm font-medium text-foreground" data-testid={`text-cart-item-name-${item.productId}`}>
+                              {item.name}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {money(quotedLine(item)?.unitPrice)} x {item.quantity} {item.unitLabel}
+                              {quotedLine(item)?.priceListId && <span className="ml-1 text-primary">· Contract</span>}
+                            </p>
+                            {productPacks.length > 0 && (
+                              <Select value={item.packId ?? BASE_UNIT} onValueChange={(value) => changeCartItemUnit(item, value)}>
+                                <SelectTrigger className="h-7 mt-1 text-xs" data-testid={`select-cart-item-unit-${item.key}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={BASE_UNIT}>
+                                    {products?.find(p => p.id === item.productId)?.unit ?? "Base unit"}
+                                  </SelectItem>
+                                  {productPacks.map((pack) => (
+                                    <SelectItem key={pack.id} value={pack.id}>
+                                      {pack.name} ({pack.qtyPerPack})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm font-semibold text-foreground" data-testid={`text-cart-item-total-${item.productId}`}>
+                              {money(quotedLine(item)?.total)}
+                            </span>
+                            <Button 
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0 text-red-600 hover:text-red-800"
+                              onClick={() => removeFromCart(item.key)}
+                              data-testid={`button-remove-cart-item-${item.productId}`}
+                            >
+                              <i className="fas fa-times text-xs"></i>
+                            </Button>
+                          </div>
                         </div>
+                      );
+                    })
+                  )}
+                </div>
+
+                <div className="mb-4">
+                  <Label className="text-sm font-medium text-foreground">Fulfillment</Label>
+                  <RadioGroup
+                    value={fulfillment}
+                    onValueChange={(value) => setFulfillment(value as Fulfillment)}
+                    className="mt-2 flex space-x-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="pickup" id="fulfillment-pickup" data-testid="radio-fulfillment-pickup" />
+                      <Label htmlFor="fulfillment-pickup" className="text-sm text-foreground">Pickup</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="delivery" id="fulfillment-delivery" data-testid="radio-fulfillment-delivery" />
+                      <Label htmlFor="fulfillment-delivery" className="text-sm text-foreground">Delivery</Label>
+                    </div>
+                  </RadioGroup>
+                  {fulfillment === "delivery" && (
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <Input
+                        className="col-span-2"
+                        placeholder="Street address"
+                        value={deliveryAddress.addressLine1}
+                        onChange={(e) => setDeliveryAddress({ ...deliveryAddress, addressLine1: e.target.value })}
+                        data-testid="input-delivery-address"
+                      />
+                      <Input
+                        placeholder="City"
+                        value={deliveryAddress.city}
+                        onChange={(e) => setDeliveryAddress({ ...deliveryAddress, city: e.target.value })}
+                        data-testid="input-delivery-city"
+                      />
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          placeholder="State"
+                          value={deliveryAddress.state}
+                          onChange={(e) => setDeliveryAddress({ ...deliveryAddress, state: e.target.value.toUpperCase() })}
+                          data-testid="input-delivery-state"
+                        />
+                        <Input
+                          placeholder="ZIP"
+                          value={deliveryAddress.postalCode}
+                          onChange={(e) => setDeliveryAddress({ ...deliveryAddress, postalCode: e.target.value })}
+                          data-testid="input-delivery-postal-code"
+                        />
                       </div>
-                    ))
+                      <Input
+                        type="number"
+                        step="0.000001"
+                        placeholder="Latitude"
+                        value={deliveryAddress.lat}
+                        onChange={(e) => setDeliveryAddress({ ...deliveryAddress, lat: e.target.value })}
+                        data-testid="input-delivery-lat"
+                      />
+                      <Input
+                        type="number"
+                        step="0.000001"
+                        placeholder="Longitude"
+                        value={deliveryAddress.lon}
+                        onChange={(e) => setDeliveryAddress({ ...deliveryAddress, lon: e.target.value })}
+                        data-testid="input-delivery-lon"
+                      />
+                    </div>
                   )}
                 </div>
 
+                <div className="mb-4">
+                  <Label htmlFor="promotion-code" className="text-sm font-medium text-foreground">Promotion Code</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="promotion-code"
+                      value={promotionCode}
+                      onChange={(e) => setPromotionCode(e.target.value.toUpperCase())}
+                      placeholder="Optional"
+                      data-testid="input-promotion-code"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => setAppliedPromotionCode(promotionCode.trim())}
+                      disabled={promotionCode.trim() === appliedPromotionCode}
+                      data-testid="button-apply-promotion-code"
+                    >
+                      Apply
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Kept open while points are entered, so a rejected amount can be corrected */}
+                {((quote?.loyalty && quote.loyalty.pointsAvailable > 0) || redeemPoints !== "") && (
+                  <div className="mb-4">
+                    <Label htmlFor="redeem-points" className="text-sm font-medium text-foreground">Redeem Loyalty Points</Label>
+                    <Input
+                      id="redeem-points"
+                      type="number"
+                      min="0"
+                      max={quote?.loyalty?.pointsAvailable}
+                      value={redeemPoints}
+                      onChange={(e) => setRedeemPoints(e.target.value)}
+                      placeholder={quote?.loyalty ? `Up to ${quote.loyalty.pointsAvailable} points` : "Points"}
+                      data-testid="input-redeem-points"
+                    />
+                  </div>
+                )}
+
                 {/* Order Summary */}
                 <div className="space-y-2 border-t border-border pt-4 mb-6">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Subtotal:</span>
-                    <span className="text-foreground" data-testid="text-subtotal">${subtotal.toFixed(2)}</span>
+                    <span className="text-foreground" data-testid="text-subtotal">{money(quote?.subtotal)}</span>
                   </div>
+                  {quote?.discounts.map((line) => (
+                    <div key={line.promotionId} className="flex justify-between text-sm" data-testid={`text-discount-${line.promotionId}`}>
+                      <span className="text-muted-foreground">{line.description}{line.code ? ` (${line.code})` : ""}:</span>
+                      <span className="text-green-700">-{money(line.amount)}</span>
+                    </div>
+                  ))}
+                  {quote?.loyalty && quote.loyalty.pointsRedeemed > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">{quote.loyalty.pointsRedeemed} Loyalty Points:</span>
+                      <span className="text-green-700" data-testid="text-loyalty-discount">-{money(quote.loyalty.amount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Tax:</span>
-                    <span className="text-foreground" data-testid="text-tax">${tax.toFixed(2)}</span>
+                    <span className="text-muted-foreground">
+                      Tax
+                      {quote && (
+                        <span data-testid="text-tax-jurisdiction">
+                          {quote.tax.exemptionId
+                            ? " (customer exempt)"
+                            : quote.tax.jurisdictionName ? ` (${quote.tax.jurisdictionName})` : " (no jurisdiction)"}
+                        </span>
+                      )}
+                      :
+                    </span>
+                    <span className="text-foreground" data-testid="text-tax">{money(quote?.tax.tax)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Delivery Fee:</span>
-                    <span className="text-foreground" data-testid="text-delivery-fee">${deliveryFee.toFixed(2)}</span>
+                    <span className="text-muted-foreground">
+                      Delivery Fee
+                      {quote?.delivery && ` (${quote.delivery.distanceMiles.toFixed(1)} mi)`}
+                      :
+                    </span>
+                    <span className="text-foreground" data-testid="text-delivery-fee">{money(quote?.deliveryFee)}</span>
                   </div>
                   <div className="flex justify-between font-semibold text-lg border-t border-border pt-2">
                     <span className="text-foreground">Total:</span>
-                    <span className="text-foreground" data-testid="text-total">${total.toFixed(2)}</span>
+                    <span className="text-foreground" data-testid="text-total">{money(quote?.total)}</span>
                   </div>
+                  {quoteError && cart.length > 0 && (
+                    <p className="text-xs text-red-600" data-testid="text-quote-error">{quoteError.message}</p>
+                  )}
                 </div>
 
                 {/* Payment Method */}
@@ -555,7 +865,7 @@ export default function SalesPOS() {
                 <div className="space-y-3">
                   <Button 
                     onClick={processPayment}
-                    disabled={createOrderMutation.isPending}
+                    disabled={createOrderMutation.isPending || !quote || quoteFetching}
                     className="w-full"
                     data-testid="button-process-payment"
                   >
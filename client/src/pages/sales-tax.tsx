@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { useTenant } from "@/contexts/tenant-context";
+
+interface SalesTaxReport {
+  from: string;
+  to: string;
+  jurisdictions: Array<{
+    jurisdictionId: string | null;
+    name: string;
+    state: string | null;
+    orders: number;
+    grossSales: string;
+    taxableSales: string;
+    exemptSales: string;
+    certificateExemptSales: string;
+    taxCollected: string;
+  }>;
+  totals: { orders: number; grossSales: string; taxableSales: string; exemptSales: string; taxCollected: string };
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// The previous calendar month, the usual filing period
+function previousMonth(): { from: string; to: string } {
+  const today = new Date();
+  return {
+    from: isoDay(new Date(Date.UTC(today.getFullYear(), today.getMonth() - 1, 1))),
+    to: isoDay(new Date(Date.UTC(today.getFullYear(), today.getMonth(), 0))),
+  };
+}
+
+export default function SalesTax() {
+  const { currentTenant } = useTenant();
+  const [from, setFrom] = useState(() => previousMonth().from);
+  const [to, setTo] = useState(() => previousMonth().to);
+
+  const { data: report, isLoading } = useQuery<SalesTaxReport>({
+    queryKey: ["/api/tenants", currentTenant, "tax", "report", from, to],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${currentTenant}/tax/report?from=${from}&to=${to}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch sales tax report");
+      return response.json();
+    },
+    enabled: !!currentTenant && !!from && !!to,
+  });
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-sales-tax">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end mb-8 gap-4">
+        <div>
+          <TooltipHelp content="Confirmed and paid orders in the period, grouped by the jurisdiction they were taxed in. Gross sales are after discounts; exempt sales cover exempt products and customers with an exemption certificate. Delivery fees are not taxed and are left out.">
+            <h1 className="text-2xl font-bold text-foreground">Sales Tax</h1>
+          </TooltipHelp>
+          <p className="mt-1 text-sm text-muted-foreground">Tax collected by jurisdiction, for filing</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <Label htmlFor="sales-tax-from">From</Label>
+            <Input id="sales-tax-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-sales-tax-from" />
+          </div>
+          <div>
+            <Label htmlFor="sales-tax-to">To</Label>
+            <Input id="sales-tax-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-sales-tax-to" />
+          </div>
+          <Button variant="outline" asChild disabled={!from || !to} data-testid="button-export-sales-tax">
+            <a href={`/api/tenants/${currentTenant}/tax/report.csv?from=${from}&to=${to}`}>
+              <i className="fas fa-download mr-2"></i>
+              Export
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Taxable Sales</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-sales-tax-taxable">${report.totals.taxableSales}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Exempt Sales</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-sales-tax-exempt">${report.totals.exemptSales}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Tax Collected</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-sales-tax-collected">${report.totals.taxCollected}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardContent className="p-0">
+              {report.jurisdictions.length === 0 ? (
+                <div className="text-center py-12">
+                  <i className="fas fa-file-invoice-dollar text-4xl text-muted-foreground mb-4"></i>
+                  <p className="text-muted-foreground">No sales in this period.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-border">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Jurisdiction</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Orders</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Gross Sales</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Taxable</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Exempt</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">By Certificate</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Tax Collected</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-card divide-y divide-border">
+                      {report.jurisdictions.map((row) => (
+                        <tr key={row.jurisdictionId ?? "none"} data-testid={`row-sales-tax-${row.jurisdictionId ?? "none"}`}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="font-medium text-foreground">{row.name}</div>
+                            {row.state && <div className="text-xs text-muted-foreground">{row.state}</div>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{row.orders}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${row.grossSales}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${row.taxableSales}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${row.exemptSales}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${row.certificateExemptSales}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${row.taxCollected}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-muted/50">
+                      <tr className="font-medium">
+                        <td className="px-6 py-3 text-sm text-foreground">Total</td>
+                        <td className="px-6 py-3 text-sm text-right">{report.totals.orders}</td>
+                        <td className="px-6 py-3 text-sm text-right">${report.totals.grossSales}</td>
+                        <td className="px-6 py-3 text-sm text-right">${report.totals.taxableSales}</td>
+                        <td className="px-6 py-3 text-sm text-right">${report.totals.exemptSales}</td>
+                        <td className="px-6 py-3"></td>
+                        <td className="px-6 py-3 text-sm text-right">${report.totals.taxCollected}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
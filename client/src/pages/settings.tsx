@@ -14,6 +14,9 @@ import { useTenant } from "@/contexts/tenant-context";
 import { useFeatureFlags } from "@/hooks/use-feature-flags";
 import { apiRequest } from "@/lib/queryClient";
 import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { PriceRulesEditor } from "@/components/settings/price-rules-editor";
+import { PriceListsEditor } from "@/components/settings/price-lists-editor";
+import { TaxJurisdictionsEditor } from "@/components/settings/tax-jurisdictions-editor";
 
 interface TenantSettings {
   tenantId: string;
@@ -23,6 +26,10 @@ interface TenantSettings {
   deliveryMethodsEnabled: string;
   leadTimeDays: number;
   safetyDays: number;
+  shrinkAlertRate: string;
+  shrinkStaffAlertCount: number;
+  loyaltyPointValue: string;
+  loyaltyPointsPerDollar: string;
   cityProfile: any;
   paymentMode: string;
   applicationFeeBps: number;
@@ -138,8 +145,10 @@ export default function Settings() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="general" data-testid="tab-general">General</TabsTrigger>
+            <TabsTrigger value="pricing" data-testid="tab-pricing">Pricing</TabsTrigger>
+            <TabsTrigger value="tax" data-testid="tab-tax">Tax</TabsTrigger>
             <TabsTrigger value="inventory" data-testid="tab-inventory">Inventory</TabsTrigger>
             <TabsTrigger value="delivery" data-testid="tab-delivery">Delivery</TabsTrigger>
             <TabsTrigger value="payments" data-testid="tab-payments">Payments</TabsTrigger>
@@ -193,6 +202,46 @@ export default function Settings() {
                     </p>
                   </div>
 
+                  <div>
+                    <TooltipHelp content="What one loyalty point takes off an order when a customer redeems points at the POS. Points pay for goods only, not tax or delivery." side="right">
+                      <Label htmlFor="loyalty-point-value" className="text-sm font-medium text-foreground">
+                        Loyalty Point Value ($)
+                      </Label>
+                    </TooltipHelp>
+                    <Input
+                      id="loyalty-point-value"
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      value={localSettings.loyaltyPointValue || ""}
+                      onChange={(e) => handleSettingChange("loyaltyPointValue", e.target.value)}
+                      data-testid="input-loyalty-point-value"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Dollars per point redeemed; 0.01 makes 100 points worth $1
+                    </p>
+                  </div>
+
+                  <div>
+                    <TooltipHelp content="Points a customer earns for each dollar paid for goods, credited when the order is paid. Returns and refunds take them back." side="right">
+                      <Label htmlFor="loyalty-points-per-dollar" className="text-sm font-medium text-foreground">
+                        Loyalty Points per Dollar
+                      </Label>
+                    </TooltipHelp>
+                    <Input
+                      id="loyalty-points-per-dollar"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={localSettings.loyaltyPointsPerDollar || ""}
+                      onChange={(e) => handleSettingChange("loyaltyPointsPerDollar", e.target.value)}
+                      data-testid="input-loyalty-points-per-dollar"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      0 turns earning off
+                    </p>
+                  </div>
+
                   <div>
                     <Label htmlFor="default-currency" className="text-sm font-medium text-foreground">
                       Default Currency
@@ -217,6 +266,15 @@ export default function Settings() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="pricing" className="space-y-6">
+            <PriceRulesEditor />
+            <PriceListsEditor />
+          </TabsContent>
+
+          <TabsContent value="tax" className="space-y-6">
+            <TaxJurisdictionsEditor />
+          </TabsContent>
+
           <TabsContent value="inventory" className="space-y-6">
             <Card>
               <CardContent className="p-6">
@@ -277,6 +335,43 @@ export default function Settings() {
                       Additional buffer days for stock planning
                     </p>
                   </div>
+
+                  <div>
+                    <TooltipHelp content="The dashboard flags shrinkage when stock written off costs more than this share of sales over the period shown." side="top">
+                      <Label htmlFor="shrink-alert-rate" className="text-sm font-medium text-foreground">
+                        Shrink Alert (% of Sales)
+                      </Label>
+                    </TooltipHelp>
+                    <Input
+                      id="shrink-alert-rate"
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={parseFloat(localSettings.shrinkAlertRate || "0") * 100}
+                      onChange={(e) => handleSettingChange("shrinkAlertRate", (parseFloat(e.target.value) / 100).toString())}
+                      data-testid="input-shrink-alert-rate"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Flag shrink above this share of sales
+                    </p>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="shrink-staff-alert-count" className="text-sm font-medium text-foreground">
+                      Staff Removal Alert
+                    </Label>
+                    <Input
+                      id="shrink-staff-alert-count"
+                      type="number"
+                      min="1"
+                      value={localSettings.shrinkStaffAlertCount || ""}
+                      onChange={(e) => handleSettingChange("shrinkStaffAlertCount", parseInt(e.target.value))}
+                      data-testid="input-shrink-staff-alert-count"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Flag staff logging this many personal or sample removals in a period
+                    </p>
+                  </div>
                 </div>
 
                 <div className="mt-6">
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TooltipHelp } from "@/components/ui/tooltip-help";
+import { Link } from "@/lib/router";
+import { useTenant } from "@/contexts/tenant-context";
+
+interface InventoryValuation {
+  asOf: string;
+  products: Array<{
+    productId: string;
+    name: string;
+    ndcCode: string | null;
+    unit: string;
+    qtyOnHand: number;
+    fifoValue: string;
+    wac: string;
+    wacValue: string;
+  }>;
+  totals: {
+    qtyOnHand: number;
+    fifoValue: string;
+    wacValue: string;
+  };
+}
+
+// Last day of the previous month, the usual month-end close
+function previousMonthEnd(): string {
+  const today = new Date();
+  return new Date(Date.UTC(today.getFullYear(), today.getMonth(), 0)).toISOString().slice(0, 10);
+}
+
+export default function Valuation() {
+  const { currentTenant } = useTenant();
+  const [asOf, setAsOf] = useState(previousMonthEnd);
+
+  const { data: valuation, isLoading } = useQuery<InventoryValuation>({
+    queryKey: ["/api/tenants", currentTenant, "inventory", "valuation", asOf],
+    queryFn: async () => {
+      const response = await fetch(`/api/tenants/${currentTenant}/inventory/valuation?as_of=${asOf}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch inventory valuation");
+      return response.json();
+    },
+    enabled: !!currentTenant && !!asOf,
+  });
+
+  const difference = valuation
+    ? parseFloat(valuation.totals.fifoValue) - parseFloat(valuation.totals.wacValue)
+    : 0;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8" data-testid="page-valuation">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end mb-8 gap-4">
+        <div>
+          <TooltipHelp content="Stock on hand at the end of the chosen day, rebuilt from receipts, sales and adjustments. FIFO values each remaining lot at what it actually cost; WAC values the same quantity at the average cost of everything received up to that day.">
+            <h1 className="text-2xl font-bold text-foreground">Inventory Valuation</h1>
+          </TooltipHelp>
+          <p className="mt-1 text-sm text-muted-foreground">Value of stock on hand at any date, under FIFO and WAC</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <Label htmlFor="valuation-as-of">As of</Label>
+            <Input
+              id="valuation-as-of"
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              data-testid="input-valuation-as-of"
+            />
+          </div>
+          <Button variant="outline" asChild disabled={!asOf} data-testid="button-export-valuation">
+            <a href={`/api/tenants/${currentTenant}/inventory/valuation.csv?as_of=${asOf}`}>
+              <i className="fas fa-download mr-2"></i>
+              Export
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !valuation ? (
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">FIFO Value</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-valuation-fifo">${valuation.totals.fifoValue}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">WAC Value</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-valuation-wac">${valuation.totals.wacValue}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">FIFO − WAC</p>
+                <p className="text-2xl font-semibold text-foreground" data-testid="text-valuation-difference">
+                  {difference < 0 ? "-" : ""}${Math.abs(difference).toFixed(2)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardContent className="p-0">
+              {valuation.products.length === 0 ? (
+                <div className="text-center py-12">
+                  <i className="fas fa-balance-scale text-4xl text-muted-foreground mb-4"></i>
+                  <p className="text-muted-foreground">No stock on hand on this date.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-border">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">NDC</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">On Hand</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">FIFO Value</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">WAC</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">WAC Value</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-card divide-y divide-border">
+                      {valuation.products.map((product) => (
+                        <tr key={product.productId} data-testid={`row-valuation-${product.productId}`}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                            <Link href={`/inventory/${product.productId}`} className="hover:underline">
+                              {product.name}
+                            </Link>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">{product.ndcCode || "N/A"}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{product.qtyOnHand} {product.unit}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${product.fifoValue}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${product.wac}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">${product.wacValue}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-muted/50">
+                      <tr className="font-medium">
+                        <td className="px-6 py-3 text-sm text-foreground" colSpan={2}>Total</td>
+                        <td className="px-6 py-3 text-sm text-right">{valuation.totals.qtyOnHand}</td>
+                        <td className="px-6 py-3 text-sm text-right">${valuation.totals.fifoValue}</td>
+                        <td className="px-6 py-3"></td>
+                        <td className="px-6 py-3 text-sm text-right">${valuation.totals.wacValue}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+// Courier delivery estimate: straight-line distance from the store to the drop-off,
+// priced at base + per mile + per minute with a minimum fee
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export type DeliveryPriority = "standard" | "rush";
+
+export interface DeliveryEstimate {
+  distanceMiles: number;
+  estimatedMinutes: number;
+  fee: string;
+}
+
+const EARTH_RADIUS_MILES = 3959;
+const BASE_FEE = 5.0;
+const PER_MILE_FEE = 1.5;
+const PER_MINUTE_FEE = 0.25;
+const MIN_FEE = 7.0;
+const RUSH_MULTIPLIER = 1.3;
+
+// Haversine distance
+export function distanceMiles(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const deltaLat = toRadians(to.lat - from.lat);
+  const deltaLon = toRadians(to.lon - from.lon);
+
+  const a = Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+            Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) *
+            Math.sin(deltaLon / 2) * Math.sin(deltaLon / 2);
+  return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function estimateDelivery(pickup: Coordinates, dropoff: Coordinates, priority: DeliveryPriority = "standard"): DeliveryEstimate {
+  const distance = distanceMiles(pickup, dropoff);
+  const estimatedMinutes = Math.max(15, Math.round(distance * 3)); // 3 minutes per mile, min 15
+
+  let fee = Math.max(BASE_FEE + distance * PER_MILE_FEE + estimatedMinutes * PER_MINUTE_FEE, MIN_FEE);
+  if (priority === "rush") {
+    fee *= RUSH_MULTIPLIER;
+  }
+
+  return { distanceMiles: distance, estimatedMinutes, fee: fee.toFixed(2) };
+}
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isValidGtin, ndcFromGtin, ndcMatchKeys, parseGs1, splitBracketed, splitRaw } from "./gs1";
+
+const GS = "\u001d";
+
+describe("splitRaw", () => {
+  it("runs fixed-length elements together and ends variable ones at GS", () => {
+    const elements = splitRaw(`01003123456789061727033110ABC123${GS}21SN42`);
+    assert.deepEqual(Object.fromEntries(elements), {
+      "01": "00312345678906",
+      "17": "270331",
+      "10": "ABC123",
+      "21": "SN42",
+    });
+  });
+
+  it("ends the last variable element at the end of data", () => {
+    assert.equal(splitRaw("10LOT7").get("10"), "LOT7");
+  });
+
+  it("skips a leading or doubled separator", () => {
+    assert.equal(splitRaw(`${GS}10LOT7${GS}${GS}21X`).get("21"), "X");
+  });
+
+  it("rejects unsupported identifiers and short fixed-length elements", () => {
+    assert.throws(() => splitRaw("99ABC"), /unsupported application identifier 99/);
+    assert.throws(() => splitRaw("0100312345"), /AI 01 needs 14 characters/);
+  });
+});
+
+describe("splitBracketed", () => {
+  it("reads the human-readable form", () => {
+    const elements = splitBracketed("(01)00312345678906(17)270331(10)ABC123");
+    assert.equal(elements.get("01"), "00312345678906");
+    assert.equal(elements.get("17"), "270331");
+    assert.equal(elements.get("10"), "ABC123");
+  });
+
+  it("drops separators scanners leave between bracketed elements", () => {
+    assert.equal(splitBracketed(`(10)ABC123${GS}(21)SN42`).get("10"), "ABC123");
+  });
+
+  it("rejects text outside the brackets", () => {
+    assert.throws(() => splitBracketed("junk(10)ABC"), /malformed bracketed element string/);
+  });
+});
+
+describe("parseGs1", () => {
+  it("reads GTIN, expiry, lot and serial from a DataMatrix scan", () => {
+    assert.deepEqual(parseGs1(`]d2010031234567890617270331${GS}10ABC123${GS}21SN42`), {
+      gtin: "00312345678906",
+      ndc: "1234567890",
+      lotNumber: "ABC123",
+      expiresAt: "2027-03-31",
+      serialNumber: "SN42",
+    });
+  });
+
+  it("accepts printable separator placeholders", () => {
+    const scan = parseGs1("0100312345678906<GS>10ABC123{GS}17270300");
+    assert.equal(scan.lotNumber, "ABC123");
+    assert.equal(scan.expiresAt, "2027-03-31"); // Day 00 is the last day of the month
+  });
+
+  it("reads the bracketed form", () => {
+    const scan = parseGs1("(01)00312345678906(17)280229(10)LOT-9");
+    assert.equal(scan.gtin, "00312345678906");
+    assert.equal(scan.expiresAt, "2028-02-29");
+    assert.equal(scan.lotNumber, "LOT-9");
+  });
+
+  it("pads linear UPC and EAN codes to a GTIN-14", () => {
+    const scan = parseGs1("312345678906");
+    assert.equal(scan.gtin, "00312345678906");
+    assert.equal(scan.ndc, "1234567890");
+    assert.equal(scan.lotNumber, null);
+  });
+
+  it("rejects bad check digits, dates and lengths", () => {
+    assert.throws(() => parseGs1("00312345678907"), /bad check digit/);
+    assert.throws(() => parseGs1("0100312345678907"), /bad check digit/);
+    assert.throws(() => parseGs1("0100312345678906171302"), /needs 6 characters/);
+    assert.throws(() => parseGs1("010031234567890617271331"), /not a YYMMDD date/);
+    assert.throws(() => parseGs1(`10${"X".repeat(21)}`), /wrong length/);
+    assert.throws(() => parseGs1("  "), /nothing was scanned/);
+  });
+});
+
+describe("NDC extraction", () => {
+  it("takes the NDC from US drug GTINs only", () => {
+    assert.ok(isValidGtin("10312345678903"));
+    assert.equal(ndcFromGtin("10312345678903"), "1234567890");
+    assert.equal(ndcFromGtin("01234567890128"), null);
+    assert.equal(parseGs1("0101234567890128").ndc, null);
+  });
+
+  it("lists the 10-digit NDC and each 11-digit padding", () => {
+    assert.deepEqual(ndcMatchKeys("1234567890"), ["1234567890", "01234567890", "12345067890", "12345678900"]);
+    assert.deepEqual(ndcMatchKeys("12345678901"), ["12345678901"]);
+  });
+});
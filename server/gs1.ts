@@ -0,0 +1,180 @@
+// GS1 barcode parsing: GS1-128 / DataMatrix element strings and plain UPC/EAN product codes
+
+// Group separator (FNC1 in the middle of a symbol) as sent by keyboard-wedge scanners
+const GS = "\u001d";
+
+export interface Gs1Scan {
+  gtin: string | null; // 14 digits
+  ndc: string | null; // 10 digits, no hyphens; only for US drug GTINs
+  lotNumber: string | null;
+  expiresAt: string | null; // YYYY-MM-DD
+  serialNumber: string | null;
+}
+
+// Application identifiers we read; fixed-length ones need no separator after them
+const applicationIdentifiers: Record<string, { length?: number; maxLength?: number }> = {
+  "00": { length: 18 }, // SSCC
+  "01": { length: 14 }, // GTIN
+  "02": { length: 14 }, // GTIN of contained items
+  "10": { maxLength: 20 }, // Batch / lot
+  "11": { length: 6 }, // Production date
+  "15": { length: 6 }, // Best before
+  "17": { length: 6 }, // Expiry
+  "21": { maxLength: 20 }, // Serial number
+  "30": { maxLength: 8 }, // Count of items
+  "37": { maxLength: 8 }, // Count of trade items in a logistic unit
+};
+
+function checkDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3,1,... counting from the rightmost data digit
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidGtin(gtin: string): boolean {
+  return /^\d{8,14}$/.test(gtin) && checkDigit(gtin.slice(0, -1)) === Number(gtin[gtin.length - 1]);
+}
+
+// US drug GTINs embed the 10-digit NDC after the "03" prefix: [indicator]03NNNNNNNNNN[check]
+export function ndcFromGtin(gtin: string): string | null {
+  return gtin.length === 14 && gtin.slice(1, 3) === "03" ? gtin.slice(3, 13) : null;
+}
+
+// Digit strings a stored NDC may take for a scanned 10-digit NDC: the NDC itself
+// and its 11-digit form, padded in whichever segment the 4-4-2, 5-3-2 or 5-4-1 layout needs
+export function ndcMatchKeys(ndc: string): string[] {
+  if (ndc.length !== 10) {
+    return [ndc];
+  }
+  return [
+    ndc,
+    `0${ndc}`,
+    `${ndc.slice(0, 5)}0${ndc.slice(5)}`,
+    `${ndc.slice(0, 9)}0${ndc.slice(9)}`,
+  ];
+}
+
+// YYMMDD; day 00 means the last day of the month
+function parseGs1Date(value: string): string {
+  if (!/^\d{6}$/.test(value)) {
+    throw new Error(`Invalid barcode: "${value}" is not a YYMMDD date`);
+  }
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) {
+    throw new Error(`Invalid barcode: "${value}" is not a YYMMDD date`);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) {
+    day = lastDay;
+  }
+  if (day > lastDay) {
+    throw new Error(`Invalid barcode: "${value}" is not a YYMMDD date`);
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Human-readable form: (01)00312345678906(17)270331(10)ABC123
+export function splitBracketed(payload: string): Map<string, string> {
+  const elements = new Map<string, string>();
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+  while ((match = pattern.exec(payload)) !== null) {
+    if (match.index !== consumed) {
+      break;
+    }
+    elements.set(match[1], match[2].replace(new RegExp(GS, "g"), "").trim());
+    consumed = pattern.lastIndex;
+  }
+  if (consumed !== payload.length) {
+    throw new Error("Invalid barcode: malformed bracketed element string");
+  }
+  return elements;
+}
+
+// Raw form as scanned: fixed-length elements run together, variable ones end at GS or end of data
+export function splitRaw(payload: string): Map<string, string> {
+  const elements = new Map<string, string>();
+  let position = 0;
+  while (position < payload.length) {
+    if (payload[position] === GS) {
+      position++;
+      continue;
+    }
+    const ai = payload.slice(position, position + 2);
+    const definition = applicationIdentifiers[ai];
+    if (!definition) {
+      throw new Error(`Invalid barcode: unsupported application identifier ${ai}`);
+    }
+    position += 2;
+
+    let value: string;
+    if (definition.length) {
+      value = payload.slice(position, position + definition.length);
+      if (value.length !== definition.length) {
+        throw new Error(`Invalid barcode: AI ${ai} needs ${definition.length} characters`);
+      }
+      position += definition.length;
+    } else {
+      const end = payload.indexOf(GS, position);
+      value = payload.slice(position, end === -1 ? payload.length : end);
+      position += value.length;
+    }
+    elements.set(ai, value);
+  }
+  return elements;
+}
+
+export function parseGs1(input: string): Gs1Scan {
+  // Scanners may prefix a symbology identifier (]C1 GS1-128, ]d2 DataMatrix, ]Q3 QR)
+  // and some are set to send the separator as a printable placeholder
+  const payload = input
+    .trim()
+    .replace(/^\][A-Za-z]\d/, "")
+    .replace(/<GS>|\{GS\}|\\x1d/gi, GS)
+    .replace(new RegExp(`^${GS}+`), "");
+
+  if (!payload) {
+    throw new Error("Invalid barcode: nothing was scanned");
+  }
+
+  // Linear retail codes carry only the product: UPC-A (12), EAN-13 (13) or GTIN-14 (14)
+  if (/^\d{12,14}$/.test(payload)) {
+    const gtin = payload.padStart(14, "0");
+    if (!isValidGtin(gtin)) {
+      throw new Error(`Invalid barcode: ${payload} has a bad check digit`);
+    }
+    return { gtin, ndc: ndcFromGtin(gtin), lotNumber: null, expiresAt: null, serialNumber: null };
+  }
+
+  const elements = payload.startsWith("(") ? splitBracketed(payload) : splitRaw(payload);
+  for (const [ai, value] of Array.from(elements)) {
+    const definition = applicationIdentifiers[ai];
+    if (!definition) {
+      throw new Error(`Invalid barcode: unsupported application identifier ${ai}`);
+    }
+    if ((definition.length && value.length !== definition.length) || (definition.maxLength && (value.length === 0 || value.length > definition.maxLength))) {
+      throw new Error(`Invalid barcode: AI ${ai} has the wrong length`);
+    }
+  }
+
+  const gtin = elements.get("01") ?? elements.get("02") ?? null;
+  if (gtin && !isValidGtin(gtin)) {
+    throw new Error(`Invalid barcode: GTIN ${gtin} has a bad check digit`);
+  }
+
+  const expiry = elements.get("17");
+  return {
+    gtin,
+    ndc: gtin ? ndcFromGtin(gtin) : null,
+    lotNumber: elements.get("10") ?? null,
+    expiresAt: expiry ? parseGs1Date(expiry) : null,
+    serialNumber: elements.get("21") ?? null,
+  };
+}
@@ -259,6 +259,12 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // One-time data step for tenants created before locations existed
+  const backfilledTenants = await storage.backfillDefaultLocations();
+  if (backfilledTenants > 0) {
+    log(`Created default locations for ${backfilledTenants} tenant(s)`);
+  }
+
   // Global error handler with request IDs
   app.use((err: any, req: any, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
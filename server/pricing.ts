@@ -0,0 +1,164 @@
+import type { PriceRule, Product } from "@shared/schema";
+import { storage } from "./storage";
+
+// Pricing engine: list price or cost-plus, then quantity breaks and rounding (see priceRules).
+// A customer's contract price list overrides the result (see priceLists).
+
+export interface PricingContext {
+  product: Pick<Product, "id" | "name" | "category">;
+  wac: number | null; // Null when nothing has been received yet
+  targetMargin: number; // Tenant default when no category margin applies
+  rules: PriceRule[];
+  contract: { // The customer's price list terms for this product, when one is in effect
+    priceListId: string;
+    name: string;
+    price: number | null; // Fixed price per base unit
+    discountRate: number | null; // Off the regular price
+  } | null;
+}
+
+export interface PriceQuote {
+  productId: string;
+  qty: number; // Base units
+  unitPrice: string; // Per base unit
+  saleUnitPrice: string; // Per unit sold (a pack, or one base unit)
+  total: string;
+  basis: "list_price" | "cost_plus" | "contract";
+  wac: string | null;
+  margin: string | null; // Margin over WAC for cost-plus prices
+  discountRate: string | null; // Quantity break applied
+  roundingEnding: string | null;
+  priceListId: string | null; // Contract list applied
+  contractDiscountRate: string | null;
+}
+
+const sameCategory = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Product rules beat category rules, which beat tenant-wide ones
+function scopeRank(rule: PriceRule): number {
+  return rule.productId ? 2 : rule.category ? 1 : 0;
+}
+
+function appliesTo(rule: PriceRule, product: PricingContext["product"]): boolean {
+  if (rule.productId) return rule.productId === product.id;
+  if (rule.category) return sameCategory(rule.category, product.category);
+  return true;
+}
+
+// Round up to the next price with the given cents, e.g. 0.99 turns 4.20 into 4.99
+export function roundToEnding(price: number, ending: number): number {
+  const candidate = Math.floor(price) + ending;
+  const rounded = candidate + 1e-9 < price ? candidate + 1 : candidate;
+  return Math.round(rounded * 100) / 100;
+}
+
+// Price qty base units sold in units of unitSize base units (a pack size, or 1). Rounding
+// endings apply to the price of the unit sold, so a pack ends in .99 rather than each tablet.
+export function priceFromContext(context: PricingContext, qty: number, unitSize = 1): PriceQuote {
+  const { product, rules, contract } = context;
+  const unitsSold = qty / unitSize;
+
+  // A negotiated fixed price is the price; breaks and rounding do not touch it
+  if (contract?.price !== null && contract?.price !== undefined) {
+    return {
+      productId: product.id,
+      qty,
+      unitPrice: contract.price.toFixed(4),
+      saleUnitPrice: (contract.price * unitSize).toFixed(4),
+      total: (contract.price * qty).toFixed(2),
+      basis: "contract",
+      wac: context.wac === null ? null : context.wac.toFixed(4),
+      margin: null,
+      discountRate: null,
+      roundingEnding: null,
+      priceListId: contract.priceListId,
+      contractDiscountRate: null,
+    };
+  }
+
+  let unitPrice: number;
+  let basis: PriceQuote["basis"];
+  let margin: number | null = null;
+
+  const listPrice = rules.find(rule => rule.type === "list_price" && rule.productId === product.id);
+  if (listPrice) {
+    unitPrice = parseFloat(listPrice.price!);
+    basis = "list_price";
+  } else {
+    if (context.wac === null) {
+      throw new Error(`No price for ${product.name}: set a list price or receive stock to price it from cost`);
+    }
+    const categoryMargin = rules.find(rule => rule.type === "category_margin" && sameCategory(rule.category, product.category));
+    margin = categoryMargin ? parseFloat(categoryMargin.margin!) : context.targetMargin;
+    unitPrice = context.wac * (1 + margin);
+    basis = "cost_plus";
+  }
+
+  // The deepest tier reached in the most specific scope that has one
+  const [quantityBreak] = rules
+    .filter(rule => rule.type === "quantity_break" && rule.minQty !== null && rule.minQty <= qty && appliesTo(rule, product))
+    .sort((a, b) => scopeRank(b) - scopeRank(a) || b.minQty! - a.minQty!);
+  if (quantityBreak) {
+    unitPrice *= 1 - parseFloat(quantityBreak.discountRate!);
+  }
+
+  const [rounding] = rules
+    .filter(rule => rule.type === "rounding" && !rule.productId && appliesTo(rule, product))
+    .sort((a, b) => scopeRank(b) - scopeRank(a));
+  let saleUnitPrice = rounding
+    ? roundToEnding(unitPrice * unitSize, parseFloat(rounding.roundingEnding!))
+    : Math.round(unitPrice * unitSize * 10000) / 10000;
+
+  // A contract discount comes off the regular price, after any quantity break
+  const contractDiscount = contract?.discountRate ?? null;
+  if (contractDiscount !== null) {
+    saleUnitPrice = Math.round(saleUnitPrice * (1 - contractDiscount) * 10000) / 10000;
+  }
+
+  return {
+    productId: product.id,
+    qty,
+    unitPrice: (saleUnitPrice / unitSize).toFixed(4),
+    saleUnitPrice: saleUnitPrice.toFixed(4),
+    total: (saleUnitPrice * unitsSold).toFixed(2),
+    basis,
+    wac: context.wac === null ? null : context.wac.toFixed(4),
+    margin: margin === null ? null : margin.toFixed(4),
+    discountRate: quantityBreak ? quantityBreak.discountRate : null,
+    roundingEnding: rounding ? rounding.roundingEnding : null,
+    priceListId: contractDiscount !== null ? contract!.priceListId : null,
+    contractDiscountRate: contractDiscount !== null ? contractDiscount.toFixed(4) : null,
+  };
+}
+
+// Price qty base units of a product for a customer, on their contract price list if they have one
+export async function quote(tenantId: string, productId: string, qty: number, customerId?: string | null, unitSize = 1): Promise<PriceQuote> {
+  const context = await storage.getPricingContext(tenantId, productId, customerId);
+  return priceFromContext(context, qty, unitSize);
+}
+
+// Most whole steps (base units per sale unit) a customer gets for an amount. Quantity breaks
+// make the unit price depend on qty, so the first guess from the single-step price is walked.
+export async function quoteForAmount(
+  tenantId: string,
+  productId: string,
+  amount: number,
+  step: number,
+  customerId?: string | null,
+): Promise<PriceQuote | null> {
+  const context = await storage.getPricingContext(tenantId, productId, customerId);
+  const single = priceFromContext(context, step, step);
+  if (parseFloat(single.total) <= 0) {
+    throw new Error(`No price for ${context.product.name}: it is priced at zero`);
+  }
+
+  let steps = Math.floor(amount / parseFloat(single.total));
+  while (steps > 0 && parseFloat(priceFromContext(context, steps * step, step).total) > amount) {
+    steps--;
+  }
+  for (let i = 0; i < 10000 && parseFloat(priceFromContext(context, (steps + 1) * step, step).total) <= amount; i++) {
+    steps++;
+  }
+  return steps > 0 ? priceFromContext(context, steps * step, step) : null;
+}
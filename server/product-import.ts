@@ -0,0 +1,222 @@
+import ExcelJS, { type CellValue } from "exceljs";
+import { z } from "zod";
+import { insertProductSchema, type Product } from "@shared/schema";
+import { parseCsv } from "./csv";
+
+// Catalog import: spreadsheet rows -> validated products with optional opening stock
+
+export const productImportFields = [
+  "name",
+  "ndcCode",
+  "type",
+  "unit",
+  "description",
+  "openingQty",
+  "unitCost",
+  "lotNumber",
+  "expiresAt",
+] as const;
+
+export type ProductImportField = typeof productImportFields[number];
+export type ProductImportMapping = Partial<Record<ProductImportField, string>>;
+
+// Header spellings recognised without an explicit mapping (compared lowercased, alphanumerics only)
+const headerAliases: Record<ProductImportField, string[]> = {
+  name: ["name", "productname", "product"],
+  ndcCode: ["ndc", "ndccode", "ndcnumber"],
+  type: ["type", "producttype", "form"],
+  unit: ["unit", "uom", "unitofmeasure"],
+  description: ["description", "notes", "details"],
+  openingQty: ["openingqty", "openingstock", "qty", "quantity", "onhand", "stock"],
+  unitCost: ["unitcost", "cost", "costperunit"],
+  lotNumber: ["lot", "lotnumber", "lotno", "batch"],
+  expiresAt: ["expiresat", "expiry", "expirydate", "expiration", "expirationdate", "exp"],
+};
+
+const blankToUndefined = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value;
+
+// NDC in any labeler-product-package layout (4-4-2, 5-3-2, 5-4-1) or the 11-digit 5-4-2 billing form.
+// Only imports enforce it; products created by hand keep accepting whatever the form sends.
+const ndcCodePattern = /^(\d{4}-\d{4}-\d{2}|\d{5}-\d{3}-\d{2}|\d{5}-\d{4}-\d{1,2}|\d{10,11})$/;
+
+export const productImportRowSchema = insertProductSchema
+  .omit({ tenantId: true })
+  .extend({
+    type: z.preprocess(v => typeof v === "string" ? v.trim().toLowerCase() : v, insertProductSchema.shape.type),
+    unit: z.preprocess(v => typeof v === "string" ? v.trim().toLowerCase() : v, insertProductSchema.shape.unit),
+    ndcCode: z.preprocess(
+      blankToUndefined,
+      z.string().trim().regex(ndcCodePattern, "NDC must be 10 or 11 digits, e.g. 12345-678-90").nullish(),
+    ),
+    description: z.preprocess(blankToUndefined, z.string().trim().nullish()),
+    openingQty: z.preprocess(blankToUndefined, z.coerce.number().int().nonnegative().default(0)),
+    unitCost: z.preprocess(blankToUndefined, z.coerce.number().nonnegative().optional()),
+    lotNumber: z.preprocess(blankToUndefined, z.string().trim().max(100).optional()),
+    expiresAt: z.preprocess(blankToUndefined, z.coerce.date().optional()),
+  })
+  .refine(row => row.openingQty === 0 || row.unitCost !== undefined, {
+    message: "Unit cost is required when opening stock is given",
+    path: ["unitCost"],
+  });
+
+export type ProductImportRow = z.infer<typeof productImportRowSchema>;
+
+export interface ProductImportError {
+  row: number; // 1-based spreadsheet row, header included
+  column?: string;
+  message: string;
+}
+
+export interface ProductImportReport {
+  headers: string[];
+  mapping: ProductImportMapping;
+  totalRows: number;
+  rows: Array<{ row: number; data: ProductImportRow }>;
+  errors: ProductImportError[];
+}
+
+// Read the first sheet of a CSV or XLSX upload as rows of strings
+export async function readImportFile(file: { buffer: Buffer; originalname: string }): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.originalname)) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.buffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return [];
+    }
+
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      const cells: string[] = [];
+      for (let col = 1; col <= sheet.columnCount; col++) {
+        cells.push(cellText(row.getCell(col).value));
+      }
+      rows.push(cells);
+    });
+    return rows;
+  }
+
+  if (/\.csv$/i.test(file.originalname)) {
+    return parseCsv(file.buffer.toString("utf8"));
+  }
+
+  throw new Error("Unsupported file type; upload a .csv or .xlsx file");
+}
+
+// Display text of a spreadsheet cell: dates as YYYY-MM-DD, formulas by their cached result
+function cellText(value: CellValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "object") {
+    return String(value);
+  }
+  if ("richText" in value) {
+    return value.richText.map(run => run.text).join("");
+  }
+  if ("hyperlink" in value) {
+    return value.text;
+  }
+  if ("error" in value) {
+    return "";
+  }
+  return value.result === undefined ? "" : cellText(value.result);
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function resolveMapping(headers: string[], mapping: ProductImportMapping): ProductImportMapping {
+  const resolved: ProductImportMapping = {};
+  for (const field of productImportFields) {
+    if (mapping[field] !== undefined) {
+      if (mapping[field]) resolved[field] = mapping[field];
+      continue;
+    }
+    const match = headers.find(header => headerAliases[field].includes(normalizeHeader(header)));
+    if (match) resolved[field] = match;
+  }
+  return resolved;
+}
+
+// Validate every row; the import is only committed when the report has no errors
+export function validateProductImport(
+  table: string[][],
+  mapping: ProductImportMapping,
+  existingProducts: Product[],
+): ProductImportReport {
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map(header => header.trim());
+  const resolved = resolveMapping(headers, mapping);
+  const errors: ProductImportError[] = [];
+
+  for (const [field, header] of Object.entries(resolved)) {
+    if (!headers.includes(header!)) {
+      errors.push({ row: 1, column: header, message: `Mapped column "${header}" for ${field} is not in the file` });
+    }
+  }
+  if (!resolved.name) {
+    errors.push({ row: 1, message: "No column is mapped to the product name" });
+  }
+  if (dataRows.length === 0) {
+    errors.push({ row: 1, message: "The file has no product rows" });
+  }
+  if (errors.length > 0) {
+    return { headers, mapping: resolved, totalRows: dataRows.length, rows: [], errors };
+  }
+
+  const existingNames = new Set(existingProducts.map(p => p.name.trim().toLowerCase()));
+  const existingNdcs = new Set(existingProducts.filter(p => p.ndcCode).map(p => p.ndcCode!.replace(/-/g, "")));
+  const seenNames = new Map<string, number>();
+  const seenNdcs = new Map<string, number>();
+  const rows: ProductImportReport["rows"] = [];
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const raw: Record<string, string | undefined> = {};
+    for (const [field, header] of Object.entries(resolved)) {
+      raw[field] = cells[headers.indexOf(header!)];
+    }
+
+    const parsed = productImportRowSchema.safeParse(raw);
+    if (!parsed.success) {
+      for (const issue of parsed.error.errors) {
+        const field = issue.path[0] as ProductImportField | undefined;
+        errors.push({ row: rowNumber, column: field ? resolved[field] ?? field : undefined, message: issue.message });
+      }
+      return;
+    }
+
+    const data = parsed.data;
+    const nameKey = data.name.toLowerCase();
+    if (existingNames.has(nameKey)) {
+      errors.push({ row: rowNumber, column: resolved.name, message: `A product named "${data.name}" already exists` });
+      return;
+    }
+    if (seenNames.has(nameKey)) {
+      errors.push({ row: rowNumber, column: resolved.name, message: `Duplicate of row ${seenNames.get(nameKey)}` });
+      return;
+    }
+    seenNames.set(nameKey, rowNumber);
+
+    if (data.ndcCode) {
+      const ndcKey = data.ndcCode.replace(/-/g, "");
+      if (existingNdcs.has(ndcKey)) {
+        errors.push({ row: rowNumber, column: resolved.ndcCode, message: `NDC ${data.ndcCode} is already in the catalog` });
+        return;
+      }
+      if (seenNdcs.has(ndcKey)) {
+        errors.push({ row: rowNumber, column: resolved.ndcCode, message: `NDC duplicates row ${seenNdcs.get(ndcKey)}` });
+        return;
+      }
+      seenNdcs.set(ndcKey, rowNumber);
+    }
+
+    rows.push({ row: rowNumber, data });
+  });
+
+  return { headers, mapping: resolved, totalRows: dataRows.length, rows, errors };
+}
@@ -0,0 +1,131 @@
+import type { Promotion } from "@shared/schema";
+import { storage } from "./storage";
+
+// Promotions engine: the discount lines a priced cart earns (see promotions)
+
+export interface PromotionLine {
+  productId: string;
+  qty: number; // Base units
+  unitPrice: number; // Per base unit, after the pricing engine
+  total: number;
+}
+
+export interface DiscountLine {
+  promotionId: string;
+  code: string | null;
+  description: string;
+  amount: string;
+}
+
+export interface PromotionContext {
+  promotions: Promotion[]; // Every promotion not archived; dates are checked here
+  usage: Map<string, number>; // Uses by the order's customer on confirmed and paid orders, by promotion
+  customerId: string | null;
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+// What one promotion takes off these lines, before any order minimum or usage check
+export function discountForPromotion(promotion: Promotion, lines: PromotionLine[]): number {
+  const scoped = promotion.productId ? lines.filter(line => line.productId === promotion.productId) : lines;
+  const scopedTotal = scoped.reduce((sum, line) => sum + line.total, 0);
+  const value = parseFloat(promotion.value);
+
+  switch (promotion.type) {
+    case "percent_off":
+      return scopedTotal * value;
+    case "fixed_off":
+      return Math.min(value, scopedTotal);
+    case "buy_x_get_y": {
+      // Every buyQty + getQty units, getQty of them are discounted at the cheapest line price
+      const qty = scoped.reduce((sum, line) => sum + line.qty, 0);
+      const groupSize = promotion.buyQty! + promotion.getQty!;
+      const discountedUnits = Math.floor(qty / groupSize) * promotion.getQty!;
+      if (discountedUnits === 0) {
+        return 0;
+      }
+      const cheapest = Math.min(...scoped.map(line => line.unitPrice));
+      return discountedUnits * cheapest * value;
+    }
+  }
+}
+
+// Automatic promotions that do not qualify are skipped; an entered code that does not
+// qualify is an error so the cashier can tell the customer why.
+export function discountsFromContext(
+  context: PromotionContext,
+  lines: PromotionLine[],
+  codes: string[],
+  now = new Date(),
+): DiscountLine[] {
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const entered = Array.from(new Set(codes.map(code => code.trim().toUpperCase()).filter(Boolean)));
+
+  const candidates: Array<{ promotion: Promotion; code: string | null }> = [];
+  for (const code of entered) {
+    const promotion = context.promotions.find(p => p.code === code);
+    if (!promotion) {
+      throw new Error(`Promotion code ${code} is not valid`);
+    }
+    candidates.push({ promotion, code });
+  }
+  for (const promotion of context.promotions) {
+    if (!promotion.code) {
+      candidates.push({ promotion, code: null });
+    }
+  }
+
+  const discounts: DiscountLine[] = [];
+  let remaining = subtotal;
+  for (const { promotion, code } of candidates) {
+    const reject = (reason: string) => {
+      if (code) {
+        throw new Error(`Promotion code ${code} ${reason}`);
+      }
+    };
+
+    if (promotion.startsAt > now || (promotion.endsAt && promotion.endsAt <= now)) {
+      reject(promotion.startsAt > now ? "has not started yet" : "has expired");
+      continue;
+    }
+    if (promotion.minSubtotal && subtotal < parseFloat(promotion.minSubtotal)) {
+      reject(`needs an order of at least ${money(parseFloat(promotion.minSubtotal))}`);
+      continue;
+    }
+    if (promotion.usageLimitPerCustomer !== null) {
+      if (!context.customerId) {
+        reject("is limited per customer; select the customer first");
+        continue;
+      }
+      if ((context.usage.get(promotion.id) ?? 0) >= promotion.usageLimitPerCustomer) {
+        reject("has already been used the maximum number of times by this customer");
+        continue;
+      }
+    }
+
+    // Discounts together never take the order below zero
+    const amount = Math.round(Math.min(discountForPromotion(promotion, lines), remaining) * 100) / 100;
+    if (amount <= 0) {
+      reject("does not apply to anything in this order");
+      continue;
+    }
+    remaining -= amount;
+    discounts.push({
+      promotionId: promotion.id,
+      code,
+      description: promotion.name,
+      amount: amount.toFixed(2),
+    });
+  }
+
+  return discounts;
+}
+
+export async function applyPromotions(
+  tenantId: string,
+  lines: PromotionLine[],
+  options: { customerId?: string | null; codes?: string[] } = {},
+): Promise<DiscountLine[]> {
+  const context = await storage.getPromotionContext(tenantId, options.customerId ?? null);
+  return discountsFromContext(context, lines, options.codes ?? []);
+}
@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { quote } from "./pricing";
+import { applyPromotions, type DiscountLine, type PromotionLine } from "./promotions";
+import { calculateTax, type TaxQuote } from "./tax";
+import { estimateDelivery, type DeliveryEstimate } from "./delivery";
+
+// Cart quote: everything an order charges, worked out one way for both the POS summary
+// and order creation, so what the cashier shows is what the order is created with
+
+// Where a delivery order goes; the address picks the tax jurisdiction and the
+// coordinates price the courier
+export const deliveryAddressSchema = z.object({
+  addressLine1: z.string().trim().min(1, "Address is required").max(255),
+  city: z.string().trim().min(1, "City is required").max(100),
+  state: z.string().trim().min(2, "State is required").max(50),
+  postalCode: z.string().trim().min(1, "Postal code is required").max(20),
+  lat: z.coerce.number().min(-90).max(90),
+  lon: z.coerce.number().min(-180).max(180),
+  priority: z.enum(["standard", "rush"]).default("standard"),
+});
+
+// With a packId, qty is per pack
+export const cartLineSchema = z.object({
+  productId: z.string().min(1),
+  packId: z.string().min(1).nullish(),
+  qty: z.number().int().positive(),
+});
+
+export const cartQuoteInputSchema = z.object({
+  items: z.array(cartLineSchema).min(1, "Add at least one item").max(500),
+  customerId: z.string().min(1).nullish(),
+  locationId: z.string().min(1).nullish(),
+  fulfillment: z.enum(["pickup", "delivery"]).default("pickup"),
+  delivery: deliveryAddressSchema.nullish(),
+  promotionCodes: z.array(z.string().trim().min(1).max(50)).max(5).default([]),
+  redeemPoints: z.number().int().min(0).default(0),
+}).refine(input => input.fulfillment === "pickup" || !!input.delivery, {
+  message: "A delivery address is required for delivery",
+  path: ["delivery"],
+}).refine(input => input.redeemPoints === 0 || !!input.customerId, {
+  message: "Select the customer to redeem loyalty points",
+  path: ["redeemPoints"],
+});
+
+export type CartQuoteInput = z.infer<typeof cartQuoteInputSchema>;
+
+export interface QuotedLine {
+  productId: string;
+  packId: string | null;
+  qty: number; // In the unit sold, packs or base units
+  unitPrice: string; // Per unit sold
+  total: string;
+  basis: "list_price" | "cost_plus" | "contract";
+  priceListId: string | null;
+}
+
+export interface CartQuote {
+  locationId: string;
+  lines: QuotedLine[];
+  subtotal: string;
+  discounts: DiscountLine[];
+  discount: string;
+  loyalty: {
+    pointsAvailable: number;
+    pointsRedeemed: number;
+    amount: string;
+  } | null; // Null without a customer
+  tax: TaxQuote;
+  fulfillment: "pickup" | "delivery";
+  delivery: DeliveryEstimate | null;
+  deliveryFee: string;
+  total: string;
+}
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+export async function quoteCart(tenantId: string, userId: string, input: CartQuoteInput): Promise<CartQuote> {
+  const customerId = input.customerId ?? null;
+  // Sell from the store the user is working at unless the cart names one
+  const location = input.locationId
+    ? await storage.getLocation(tenantId, input.locationId)
+    : await storage.getCurrentLocation(userId, tenantId);
+
+  const lines: QuotedLine[] = [];
+  const promotionLines: PromotionLine[] = [];
+  for (const item of input.items) {
+    const pack = item.packId ? (await storage.getProductPacks(tenantId, item.productId)).find(p => p.id === item.packId) : undefined;
+    if (item.packId && !pack) {
+      throw new Error("Pack not found for this product");
+    }
+    const unitsPerQty = pack?.qtyPerPack ?? 1;
+    const priceQuote = await quote(tenantId, item.productId, item.qty * unitsPerQty, customerId, unitsPerQty);
+    lines.push({
+      productId: item.productId,
+      packId: pack?.id ?? null,
+      qty: item.qty,
+      unitPrice: priceQuote.saleUnitPrice,
+      total: priceQuote.total,
+      basis: priceQuote.basis,
+      priceListId: priceQuote.priceListId,
+    });
+    promotionLines.push({
+      productId: item.productId,
+      qty: priceQuote.qty,
+      unitPrice: parseFloat(priceQuote.unitPrice),
+      total: parseFloat(priceQuote.total),
+    });
+  }
+  const subtotal = promotionLines.reduce((sum, line) => sum + line.total, 0);
+
+  const discounts = lines.length > 0
+    ? await applyPromotions(tenantId, promotionLines, { customerId, codes: input.promotionCodes })
+    : [];
+  const discount = discounts.reduce((sum, line) => sum + parseFloat(line.amount), 0);
+
+  // Points pay for goods only, never tax or delivery, and never more than is left after discounts
+  let loyalty: CartQuote["loyalty"] = null;
+  if (customerId) {
+    const pointsAvailable = await storage.getLoyaltyBalance(tenantId, customerId);
+    if (input.redeemPoints > pointsAvailable) {
+      throw new Error(`Loyalty points: the customer has only ${pointsAvailable} points`);
+    }
+    const pointValue = parseFloat((await storage.getTenantSettings(tenantId))?.loyaltyPointValue ?? "0.01");
+    const pointsRedeemed = pointValue > 0
+      ? Math.min(input.redeemPoints, Math.floor(cents(subtotal - discount) / pointValue))
+      : 0;
+    loyalty = { pointsAvailable, pointsRedeemed, amount: cents(pointsRedeemed * pointValue).toFixed(2) };
+  }
+  const loyaltyAmount = parseFloat(loyalty?.amount ?? "0");
+
+  // Redeemed points are a store discount, so they lower the taxable amount too
+  const delivery = input.fulfillment === "delivery" ? input.delivery! : null;
+  const tax = await calculateTax(tenantId, promotionLines, {
+    discount: discount + loyaltyAmount,
+    customerId,
+    locationId: location.id,
+    deliveryAddress: delivery,
+  });
+
+  let deliveryEstimate: DeliveryEstimate | null = null;
+  if (delivery) {
+    if (location.lat === null || location.lon === null) {
+      throw new Error(`Delivery: set the coordinates of ${location.name} on the Locations page to quote delivery`);
+    }
+    deliveryEstimate = estimateDelivery(
+      { lat: parseFloat(location.lat), lon: parseFloat(location.lon) },
+      { lat: delivery.lat, lon: delivery.lon },
+      delivery.priority,
+    );
+  }
+  const deliveryFee = parseFloat(deliveryEstimate?.fee ?? "0");
+
+  return {
+    locationId: location.id,
+    lines,
+    subtotal: subtotal.toFixed(2),
+    discounts,
+    discount: discount.toFixed(2),
+    loyalty,
+    tax,
+    fulfillment: input.fulfillment,
+    delivery: deliveryEstimate,
+    deliveryFee: deliveryFee.toFixed(2),
+    total: (subtotal - discount - loyaltyAmount + parseFloat(tax.tax) + deliveryFee).toFixed(2),
+  };
+}
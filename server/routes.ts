@@ -2,7 +2,13 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { Router } from "express";
 import express from "express";
-import { storage } from "./storage";
+import { storage, type CardRefundIssuer } from "./storage";
+import { toCsv } from "./csv";
+import { readImportFile, validateProductImport, productImportFields } from "./product-import";
+import { parseGs1 } from "./gs1";
+import { quote, quoteForAmount } from "./pricing";
+import { estimateDelivery } from "./delivery";
+import { cartQuoteInputSchema, quoteCart } from "./quote";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { z } from "zod";
 import Stripe from "stripe";
@@ -13,8 +19,24 @@ import fs from "fs";
 import {
   insertTenantSchema,
   insertProductSchema,
+  insertBatchSchema,
+  insertProductPackSchema,
+  insertPriceRuleSchema,
+  insertPriceListSchema,
+  insertPriceListItemSchema,
+  insertPromotionSchema,
+  insertLocationSchema,
+  insertTaxJurisdictionSchema,
+  insertTaxExemptionSchema,
+  insertAdjustmentSchema,
+  insertCountSessionSchema,
+  insertCountEntrySchema,
+  insertSupplierSchema,
+  insertPurchaseOrderSchema,
+  insertPurchaseOrderLineSchema,
   insertCustomerSchema,
   insertOrderSchema,
+  insertOrderItemSchema,
   insertCreditSchema,
   insertCreditTransactionSchema,
   insertPaymentSchema,
@@ -291,12 +313,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { tenantId } = req.params;
       const withInventory = req.query.with_inventory === 'true';
+      const includeArchived = req.query.include_archived === 'true';
+      // Stock for one location; without it stock is the total across locations
+      const locationId = typeof req.query.location_id === 'string' && req.query.location_id ? req.query.location_id : undefined;
       
       if (withInventory) {
-        const products = await storage.getProductsWithInventory(tenantId);
+        const products = await storage.getProductsWithInventory(tenantId, { includeArchived, locationId });
         res.json(products);
       } else {
-        const products = await storage.getProducts(tenantId);
+        const products = await storage.getProducts(tenantId, { includeArchived });
         res.json(products);
       }
     } catch (error) {
@@ -315,238 +340,2279 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const product = await storage.createProduct(productData);
       res.json(product);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid product data", 
+          errors: error.errors 
+        });
+      }
       console.error("Error creating product:", error);
       res.status(500).json({ message: "Failed to create product" });
     }
   });
 
-  // Customer routes
-  tenantRouter.get("/customers", async (req: any, res) => {
+  tenantRouter.patch("/products/:productId", async (req: any, res) => {
     try {
-      const { tenantId } = req.params;
-      const withDetails = req.query.with_details === 'true';
-      
-      if (withDetails) {
-        const customers = await storage.getCustomersWithDetails(tenantId);
-        res.json(customers);
-      } else {
-        const customers = await storage.getCustomers(tenantId);
-        res.json(customers);
+      const { tenantId, productId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const updates = insertProductSchema
+        .omit({ tenantId: true })
+        .partial()
+        .strict()
+        .parse(req.body);
+
+      const product = await storage.updateProduct(productId, tenantId, updates, userId);
+      res.json(product);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid product data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('archived')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating product:", error);
+      res.status(500).json({ message: "Failed to update product" });
+    }
+  });
+
+  tenantRouter.post("/products/:productId/archive", async (req: any, res) => {
+    try {
+      const { tenantId, productId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const product = await storage.archiveProduct(productId, tenantId, userId);
+      res.json(product);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('already archived')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error archiving product:", error);
+      res.status(500).json({ message: "Failed to archive product" });
+    }
+  });
+
+  tenantRouter.post("/products/:productId/restore", async (req: any, res) => {
+    try {
+      const { tenantId, productId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const product = await storage.restoreProduct(productId, tenantId, userId);
+      res.json(product);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('not archived')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error restoring product:", error);
+      res.status(500).json({ message: "Failed to restore product" });
+    }
+  });
+
+  tenantRouter.get("/products/:productId/history", async (req: any, res) => {
+    try {
+      const { tenantId, productId } = req.params;
+
+      const product = await storage.getProduct(productId, tenantId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
+
+      const history = await storage.getProductHistory(productId, tenantId);
+      res.json(history);
     } catch (error) {
-      console.error("Error fetching customers:", error);
-      res.status(500).json({ message: "Failed to fetch customers" });
+      console.error("Error fetching product history:", error);
+      res.status(500).json({ message: "Failed to fetch product history" });
     }
   });
 
-  tenantRouter.post("/customers", async (req: any, res) => {
+  // Stock ledger: every receipt, sale and adjustment for one product with running balance and WAC
+  tenantRouter.get("/products/:productId/ledger", async (req: any, res) => {
     try {
-      const { tenantId } = req.params;
-      const customerData = insertCustomerSchema.parse({
-        ...req.body,
-        tenantId,
-      });
-      // Use encrypted customer creation with dual-write support
-      const customer = await storage.createCustomerEncrypted(customerData);
-      res.json(customer);
+      const { tenantId, productId } = req.params;
+
+      const ledger = await storage.getStockLedger(productId, tenantId);
+      if (!ledger) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.json(ledger);
     } catch (error) {
-      console.error("Error creating customer:", error);
-      res.status(500).json({ message: "Failed to create customer" });
+      console.error("Error fetching stock ledger:", error);
+      res.status(500).json({ message: "Failed to fetch stock ledger" });
     }
   });
 
-  // Order routes (Sales module)
-  tenantRouter.get("/orders", async (req: any, res) => {
+  tenantRouter.get("/products/:productId/ledger.csv", async (req: any, res) => {
     try {
-      const { tenantId } = req.params;
-      const orders = await storage.getOrders(tenantId);
-      res.json(orders);
+      const { tenantId, productId } = req.params;
+
+      const ledger = await storage.getStockLedger(productId, tenantId);
+      if (!ledger) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const csv = toCsv(
+        ["date", "type", "reference", "lot_number", "qty_in", "qty_out", "unit_cost", "balance", "wac", "by", "notes", "source_id"],
+        ledger.entries.map(entry => [
+          entry.occurredAt,
+          entry.type,
+          entry.reference,
+          entry.lotNumber,
+          entry.qtyIn,
+          entry.qtyOut,
+          entry.unitCost,
+          entry.balance,
+          entry.wac,
+          entry.actorName,
+          entry.notes,
+          entry.sourceId,
+        ])
+      );
+
+      const slug = ledger.product.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="stock-ledger-${slug || productId}.csv"`);
+      res.send(csv);
     } catch (error) {
-      console.error("Error fetching orders:", error);
-      res.status(500).json({ message: "Failed to fetch orders" });
+      console.error("Error exporting stock ledger:", error);
+      res.status(500).json({ message: "Failed to export stock ledger" });
     }
   });
 
-  tenantRouter.post("/orders", async (req: any, res) => {
+  // Catalog import/export. Imports are validated in full first; with dry_run=true
+  // only the report is returned, otherwise nothing is written unless every row is valid.
+  const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+  });
+
+  tenantRouter.post("/products/import", importUpload.single('file'), async (req: any, res) => {
     try {
       const { tenantId } = req.params;
       const userId = req.user.claims.sub;
-      const orderData = insertOrderSchema.parse({
-        ...req.body,
-        tenantId,
-        createdBy: userId,
+
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a .csv or .xlsx file in the \"file\" field" });
+      }
+
+      const dryRun = req.body.dry_run === 'true' || req.query.dry_run === 'true';
+      const mapping = z
+        .record(z.enum(productImportFields), z.string())
+        .parse(req.body.mapping ? JSON.parse(req.body.mapping) : {});
+
+      const table = await readImportFile(req.file);
+      const existingProducts = await storage.getProducts(tenantId, { includeArchived: true });
+      const report = validateProductImport(table, mapping, existingProducts);
+
+      const summary = {
+        dryRun,
+        headers: report.headers,
+        mapping: report.mapping,
+        totalRows: report.totalRows,
+        validRows: report.rows.length,
+        errors: report.errors,
+        preview: report.rows.slice(0, 20),
+      };
+
+      if (dryRun) {
+        return res.json(summary);
+      }
+      if (report.errors.length > 0) {
+        return res.status(400).json({ ...summary, message: "Fix the row errors before importing" });
+      }
+
+      const result = await storage.importProducts(tenantId, report.rows.map(row => row.data), userId);
+      res.status(201).json({
+        ...summary,
+        imported: result.products.length,
+        openingStockLots: result.openingStockLots,
       });
-      const order = await storage.createOrder(orderData);
-      res.json(order);
-    } catch (error) {
-      console.error("Error creating order:", error);
-      res.status(500).json({ message: "Failed to create order" });
+    } catch (error: any) {
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Invalid column mapping" });
+      }
+      if (error.message?.startsWith('Unsupported file type')) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing products:", error);
+      res.status(500).json({ message: "Failed to import products" });
     }
   });
 
-  // Dashboard KPIs
-  tenantRouter.get("/dashboard/kpis", async (req: any, res) => {
+  tenantRouter.get("/products/export.csv", async (req: any, res) => {
     try {
       const { tenantId } = req.params;
-      const kpis = await storage.getDashboardKPIs(tenantId);
-      res.json(kpis);
+      const products = await storage.getProductsWithInventory(tenantId);
+
+      const csv = toCsv(
+        ["name", "ndc_code", "type", "unit", "description", "current_stock", "wac", "stock_value", "stock_status"],
+        products.map(product => [
+          product.name,
+          product.ndcCode,
+          product.type,
+          product.unit,
+          product.description,
+          product.currentStock,
+          product.wac,
+          (product.currentStock * parseFloat(product.wac)).toFixed(2),
+          product.stockStatus,
+        ])
+      );
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="catalog-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(csv);
     } catch (error) {
-      console.error("Error fetching dashboard KPIs:", error);
-      res.status(500).json({ message: "Failed to fetch dashboard KPIs" });
+      console.error("Error exporting products:", error);
+      res.status(500).json({ message: "Failed to export products" });
     }
   });
 
-  // Sales POS calculators
-  tenantRouter.post("/orders/assist/qty-to-price", async (req: any, res) => {
+  // Barcode scans: decode the GS1 payload and find the product by the NDC inside its GTIN
+  tenantRouter.post("/products/scan", async (req: any, res) => {
     try {
       const { tenantId } = req.params;
-      const { productId, quantity } = req.body;
-      
-      const product = await storage.getProduct(productId, tenantId);
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+      const { code } = z.object({ code: z.string().min(1).max(500) }).parse(req.body);
+
+      const scan = parseGs1(code);
+      const product = scan.ndc ? await storage.getProductByNdc(tenantId, scan.ndc) : undefined;
+      res.json({ scan, product: product ?? null });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid scan data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.startsWith('Invalid barcode')) {
+        return res.status(400).json({ message: error.message });
       }
+      console.error("Error resolving barcode scan:", error);
+      res.status(500).json({ message: "Failed to resolve barcode" });
+    }
+  });
+
+  // Pack sizes: purchase and sale units defined as a multiple of the product's base unit
+  tenantRouter.get("/product-packs", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const packs = await storage.getProductPacks(tenantId);
+      res.json(packs);
+    } catch (error) {
+      console.error("Error fetching product packs:", error);
+      res.status(500).json({ message: "Failed to fetch product packs" });
+    }
+  });
+
+  tenantRouter.get("/products/:productId/packs", async (req: any, res) => {
+    try {
+      const { tenantId, productId } = req.params;
+      const packs = await storage.getProductPacks(tenantId, productId);
+      res.json(packs);
+    } catch (error) {
+      console.error("Error fetching product packs:", error);
+      res.status(500).json({ message: "Failed to fetch product packs" });
+    }
+  });
 
-      // Get tenant settings for margin calculation
-      const tenantSettings = await storage.getTenantSettings(tenantId);
-      const targetMargin = parseFloat(tenantSettings?.targetMargin || "0.30");
+  tenantRouter.post("/products/:productId/packs", async (req: any, res) => {
+    try {
+      const { tenantId, productId } = req.params;
+      const userId = req.user.claims.sub;
 
-      // Calculate WAC from batches
-      const [wacResult] = await db
-        .select({
-          wac: sql<number>`COALESCE(SUM(${batches.totalCost}) / NULLIF(SUM(${batches.qtyAcquired}), 0), 8.50)`,
+      const packData = insertProductPackSchema
+        .extend({
+          name: z.string().trim().min(1, "Name is required").max(100),
+          qtyPerPack: z.number().int().min(1),
         })
-        .from(batches)
-        .innerJoin(products, eq(batches.productId, products.id))
-        .where(and(eq(batches.productId, productId), eq(products.tenantId, tenantId)));
+        .parse({ ...req.body, tenantId, productId });
+
+      const pack = await storage.createProductPack(packData, userId);
+      res.status(201).json(pack);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid pack data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('already exists')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating product pack:", error);
+      res.status(500).json({ message: "Failed to create product pack" });
+    }
+  });
 
-      const baseWAC = wacResult?.wac || 8.50; // fallback if no batches
-      const unitPrice = baseWAC * (1 + targetMargin); // Add target margin
-      const total = unitPrice * quantity;
+  tenantRouter.delete("/products/:productId/packs/:packId", async (req: any, res) => {
+    try {
+      const { tenantId, productId, packId } = req.params;
+      const userId = req.user.claims.sub;
 
-      res.json({
-        quantity,
-        unitPrice: parseFloat(unitPrice.toFixed(2)),
-        total: total.toFixed(2),
-      });
-    } catch (error) {
-      console.error("Error calculating qty to price:", error);
-      res.status(500).json({ message: "Failed to calculate price" });
+      await storage.archiveProductPack(packId, productId, tenantId, userId);
+      res.json({ message: "Pack removed" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error removing product pack:", error);
+      res.status(500).json({ message: "Failed to remove product pack" });
     }
   });
 
-  tenantRouter.post("/orders/assist/amount-to-qty", async (req: any, res) => {
+  // Batch receiving: creates the batch and its inventory lot atomically
+  tenantRouter.get("/products/:productId/batches", async (req: any, res) => {
     try {
-      const { tenantId } = req.params;
-      const { productId, targetAmount } = req.body;
-      
+      const { tenantId, productId } = req.params;
+
       const product = await storage.getProduct(productId, tenantId);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
 
-      // Get tenant settings for margin calculation
-      const tenantSettings = await storage.getTenantSettings(tenantId);
-      const targetMargin = parseFloat(tenantSettings?.targetMargin || "0.30");
-
-      // Calculate WAC from batches
-      const [wacResult] = await db
-        .select({
-          wac: sql<number>`COALESCE(SUM(${batches.totalCost}) / NULLIF(SUM(${batches.qtyAcquired}), 0), 8.50)`,
-        })
-        .from(batches)
-        .innerJoin(products, eq(batches.productId, products.id))
-        .where(and(eq(batches.productId, productId), eq(products.tenantId, tenantId)));
-
-      const baseWAC = wacResult?.wac || 8.50; // fallback if no batches
-      const unitPrice = baseWAC * (1 + targetMargin); // Add target margin
-      const maxQuantity = Math.floor(targetAmount / unitPrice);
-      const actualTotal = maxQuantity * unitPrice;
-      const change = targetAmount - actualTotal;
-
-      res.json({
-        suggestedQuantity: maxQuantity,
-        unitPrice: parseFloat(unitPrice.toFixed(2)),
-        actualTotal: actualTotal.toFixed(2),
-        change: change.toFixed(2),
-      });
+      const batches = await storage.getBatches(tenantId, productId);
+      res.json(batches);
     } catch (error) {
-      console.error("Error calculating amount to qty:", error);
-      res.status(500).json({ message: "Failed to calculate quantity" });
+      console.error("Error fetching batches:", error);
+      res.status(500).json({ message: "Failed to fetch batches" });
     }
   });
 
-  // Delivery fee estimation
-  tenantRouter.post("/delivery/estimate", async (req: any, res) => {
+  tenantRouter.post("/products/:productId/batches", async (req: any, res) => {
     try {
-      const { tenantId } = req.params;
-      
-      // Strict Zod validation
-      const deliveryEstimateSchema = z.object({
-        pickupLat: z.number(),
-        pickupLon: z.number(),
-        dropoffLat: z.number(),
-        dropoffLon: z.number(),
-        priority: z.enum(["standard", "rush"]).optional().default("standard"),
-      }).strict();
+      const { tenantId, productId } = req.params;
+      const userId = req.user.claims.sub;
 
-      const validatedInput = deliveryEstimateSchema.parse(req.body);
-      const { pickupLat, pickupLon, dropoffLat, dropoffLon, priority } = validatedInput;
-      
-      // Clamp lat/lon ranges
-      if (pickupLat < -90 || pickupLat > 90 || dropoffLat < -90 || dropoffLat > 90) {
-        return res.status(400).json({ message: "Invalid latitude: must be between -90 and 90" });
-      }
-      if (pickupLon < -180 || pickupLon > 180 || dropoffLon < -180 || dropoffLon > 180) {
-        return res.status(400).json({ message: "Invalid longitude: must be between -180 and 180" });
-      }
-      
-      // Proper haversine formula for distance calculation
-      const toRadians = (degrees: number) => degrees * (Math.PI / 180);
-      const earthRadiusMiles = 3959;
-      
-      const lat1Rad = toRadians(pickupLat);
-      const lat2Rad = toRadians(dropoffLat);
-      const deltaLatRad = toRadians(dropoffLat - pickupLat);
-      const deltaLonRad = toRadians(dropoffLon - pickupLon);
-      
-      const a = Math.sin(deltaLatRad / 2) * Math.sin(deltaLatRad / 2) +
-                Math.cos(lat1Rad) * Math.cos(lat2Rad) *
-                Math.sin(deltaLonRad / 2) * Math.sin(deltaLonRad / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      const distance = earthRadiusMiles * c;
-      
-      // Fee calculation: base=5.0, perMile=1.5, perMin=0.25, minFee=7.0
-      const baseFee = 5.0;
-      const perMileFee = 1.5;
-      const perMinFee = 0.25;
-      const minFee = 7.0;
-      
-      const estimatedMinutes = Math.max(15, Math.round(distance * 3)); // 3 minutes per mile, min 15
-      let fee = baseFee + (distance * perMileFee) + (estimatedMinutes * perMinFee);
-      
-      // Apply minimum fee
-      fee = Math.max(fee, minFee);
-      
-      // Rush adds +30%
-      if (priority === "rush") {
-        fee *= 1.3;
+      const product = await storage.getProduct(productId, tenantId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
 
-      res.json({
-        distance: `${distance.toFixed(1)} mi`,
-        estimatedMinutes: estimatedMinutes,
-        fee: fee.toFixed(2),
+      // qtyAcquired counts packs when packId is given
+      const receiveBatchSchema = insertBatchSchema.omit({ packQty: true }).extend({
+        supplier: z.string().trim().min(1, "Supplier is required").max(255),
+        acquiredAt: z.coerce.date(),
+        lotNumber: z.string().trim().max(100).nullish(),
+        expiresAt: z.coerce.date().nullish(),
+        packId: z.string().min(1).nullish(),
+        locationId: z.string().min(1).nullish(),
+        qtyAcquired: z.number().int().positive(),
+        totalCost: z.coerce.number().nonnegative().transform((value) => value.toFixed(2)),
       });
-    } catch (error) {
+
+      const batchData = receiveBatchSchema.parse({
+        ...req.body,
+        tenantId,
+        productId,
+      });
+
+      const result = await storage.receiveBatch(batchData, userId);
+      res.status(201).json(result);
+    } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
-          message: "Invalid request data", 
+          message: "Invalid batch data", 
           errors: error.errors 
         });
       }
-      console.error("Error estimating delivery fee:", error);
-      res.status(500).json({ message: "Failed to estimate delivery fee" });
+      if (error.message?.startsWith('Pack not found') || error.message === 'Location not found') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error receiving batch:", error);
+      res.status(500).json({ message: "Failed to receive batch" });
+    }
+  });
+
+  // Inventory planning
+  tenantRouter.get("/inventory/reorder-suggestions", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const lookbackDays = req.query.lookback_days ? parseInt(req.query.lookback_days as string) : undefined;
+      if (lookbackDays !== undefined && (isNaN(lookbackDays) || lookbackDays < 1 || lookbackDays > 365)) {
+        return res.status(400).json({ message: "lookback_days must be between 1 and 365" });
+      }
+      const locationId = typeof req.query.location_id === 'string' && req.query.location_id ? req.query.location_id : undefined;
+
+      const suggestions = await storage.getReorderSuggestions(tenantId, lookbackDays, locationId);
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error fetching reorder suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch reorder suggestions" });
+    }
+  });
+
+  tenantRouter.get("/inventory/expiring", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      if (isNaN(days) || days < 0 || days > 365) {
+        return res.status(400).json({ message: "days must be between 0 and 365" });
+      }
+
+      const lots = await storage.getExpiringLots(tenantId, days);
+      res.json(lots);
+    } catch (error) {
+      console.error("Error fetching expiring lots:", error);
+      res.status(500).json({ message: "Failed to fetch expiring lots" });
+    }
+  });
+
+  // Valuation of stock on hand at the end of an as_of date (YYYY-MM-DD, default today)
+  const parseValuationDate = (value: unknown): Date | null => {
+    const day = typeof value === 'string' && value ? value : new Date().toISOString().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      return null;
+    }
+    const endOfDay = new Date(`${day}T23:59:59.999Z`);
+    return isNaN(endOfDay.getTime()) ? null : endOfDay;
+  };
+
+  tenantRouter.get("/inventory/valuation", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const asOf = parseValuationDate(req.query.as_of);
+      if (!asOf) {
+        return res.status(400).json({ message: "as_of must be a date in YYYY-MM-DD format" });
+      }
+
+      const valuation = await storage.getInventoryValuation(tenantId, asOf);
+      res.json(valuation);
+    } catch (error) {
+      console.error("Error fetching inventory valuation:", error);
+      res.status(500).json({ message: "Failed to fetch inventory valuation" });
+    }
+  });
+
+  tenantRouter.get("/inventory/valuation.csv", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const asOf = parseValuationDate(req.query.as_of);
+      if (!asOf) {
+        return res.status(400).json({ message: "as_of must be a date in YYYY-MM-DD format" });
+      }
+
+      const valuation = await storage.getInventoryValuation(tenantId, asOf);
+      const day = asOf.toISOString().slice(0, 10);
+      const csv = toCsv(
+        ["as_of", "product", "ndc_code", "unit", "qty_on_hand", "fifo_value", "wac", "wac_value"],
+        [
+          ...valuation.products.map(product => [
+            day,
+            product.name,
+            product.ndcCode,
+            product.unit,
+            product.qtyOnHand,
+            product.fifoValue,
+            product.wac,
+            product.wacValue,
+          ]),
+          [day, "TOTAL", null, null, valuation.totals.qtyOnHand, valuation.totals.fifoValue, null, valuation.totals.wacValue],
+        ]
+      );
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="inventory-valuation-${day}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting inventory valuation:", error);
+      res.status(500).json({ message: "Failed to export inventory valuation" });
+    }
+  });
+
+  // Shrinkage between two dates (YYYY-MM-DD, inclusive); defaults to the last 30 days
+  tenantRouter.get("/inventory/shrinkage", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const to = parseValuationDate(req.query.to);
+      if (!to) {
+        return res.status(400).json({ message: "to must be a date in YYYY-MM-DD format" });
+      }
+      let from = new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000 + 1);
+      if (req.query.from) {
+        const fromEnd = parseValuationDate(req.query.from);
+        if (!fromEnd) {
+          return res.status(400).json({ message: "from must be a date in YYYY-MM-DD format" });
+        }
+        from = new Date(fromEnd.getTime() - 24 * 60 * 60 * 1000 + 1);
+      }
+      if (from > to) {
+        return res.status(400).json({ message: "from must not be after to" });
+      }
+      const period = z.enum(['day', 'week', 'month']).catch('week').parse(req.query.period);
+
+      const report = await storage.getShrinkageReport(tenantId, from, to, period);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching shrinkage report:", error);
+      res.status(500).json({ message: "Failed to fetch shrinkage report" });
+    }
+  });
+
+  tenantRouter.post("/inventory/lots/:lotId/write-off", async (req: any, res) => {
+    try {
+      const { tenantId, lotId } = req.params;
+      const userId = req.user.claims.sub;
+      const { notes } = z.object({ notes: z.string().trim().max(1000).nullish() }).parse(req.body ?? {});
+
+      const result = await storage.writeOffLot(lotId, tenantId, userId, notes);
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid write-off data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('already empty') || error.message?.startsWith('Insufficient stock')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error writing off lot:", error);
+      res.status(500).json({ message: "Failed to write off lot" });
+    }
+  });
+
+  // Recall routes
+  tenantRouter.get("/recalls", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const recalls = await storage.getRecalledBatches(tenantId);
+      res.json(recalls);
+    } catch (error) {
+      console.error("Error fetching recalls:", error);
+      res.status(500).json({ message: "Failed to fetch recalls" });
+    }
+  });
+
+  tenantRouter.get("/batches/:batchId/trace", async (req: any, res) => {
+    try {
+      const { tenantId, batchId } = req.params;
+      const trace = await storage.getBatchTrace(batchId, tenantId);
+      if (!trace) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      res.json(trace);
+    } catch (error) {
+      console.error("Error tracing batch:", error);
+      res.status(500).json({ message: "Failed to trace batch" });
+    }
+  });
+
+  tenantRouter.post("/batches/:batchId/recall", async (req: any, res) => {
+    try {
+      const { tenantId, batchId } = req.params;
+      const userId = req.user.claims.sub;
+      const { reason } = z.object({
+        reason: z.string().trim().min(1, "A recall reason is required").max(2000),
+      }).parse(req.body);
+
+      const trace = await storage.recallBatch(batchId, tenantId, reason, userId);
+      res.json(trace);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid recall data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('already been recalled')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error recalling batch:", error);
+      res.status(500).json({ message: "Failed to recall batch" });
+    }
+  });
+
+  tenantRouter.get("/batches/:batchId/recall/contacts.csv", async (req: any, res) => {
+    try {
+      const { tenantId, batchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const trace = await storage.getBatchTrace(batchId, tenantId);
+      if (!trace) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      await storage.recordRecallContactExport(batchId, tenantId, userId, trace.customers.length);
+
+      const csv = toCsv(
+        ["Customer", "Phone", "Email", "Orders", "Quantity Received", "Last Order", "Product", "Lot Number"],
+        trace.customers.map(customer => [
+          customer.name,
+          customer.phone,
+          customer.email,
+          customer.orderCount,
+          customer.qtyReceived,
+          customer.lastOrderAt,
+          trace.batch.productName,
+          trace.batch.lotNumber,
+        ])
+      );
+
+      const fileLot = (trace.batch.lotNumber || batchId).replace(/[^A-Za-z0-9_-]/g, '_');
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="recall-contacts-${fileLot}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting recall contacts:", error);
+      res.status(500).json({ message: "Failed to export recall contacts" });
+    }
+  });
+
+  // Adjustment routes
+  tenantRouter.get("/adjustments", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const productId = typeof req.query.product_id === 'string' ? req.query.product_id : undefined;
+      const adjustments = await storage.getAdjustments(tenantId, productId);
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Error fetching adjustments:", error);
+      res.status(500).json({ message: "Failed to fetch adjustments" });
+    }
+  });
+
+  tenantRouter.get("/products/:productId/adjustments", async (req: any, res) => {
+    try {
+      const { tenantId, productId } = req.params;
+
+      const product = await storage.getProduct(productId, tenantId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const adjustments = await storage.getAdjustments(tenantId, productId);
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Error fetching adjustments:", error);
+      res.status(500).json({ message: "Failed to fetch adjustments" });
+    }
+  });
+
+  tenantRouter.post("/products/:productId/adjustments", async (req: any, res) => {
+    try {
+      const { tenantId, productId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const product = await storage.getProduct(productId, tenantId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const createAdjustmentSchema = insertAdjustmentSchema
+        .omit({ batchId: true })
+        .extend({
+          qtyDelta: z.number().int().refine((value) => value !== 0, "Quantity change cannot be zero"),
+          notes: z.string().trim().max(1000).nullish(),
+          locationId: z.string().min(1).nullish(),
+        })
+        .refine((data) => data.qtyDelta < 0 || data.reason === 'recount', {
+          message: "Only recounts can add stock",
+          path: ["reason"],
+        });
+
+      const { locationId, ...adjustmentData } = createAdjustmentSchema.parse({
+        ...req.body,
+        tenantId,
+        productId,
+        createdBy: userId,
+      });
+
+      const result = await storage.createAdjustment(adjustmentData, { locationId: locationId ?? undefined });
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid adjustment data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.startsWith("Insufficient stock")) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message === 'Location not found') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating adjustment:", error);
+      res.status(500).json({ message: "Failed to create adjustment" });
+    }
+  });
+
+  // Locations: stores and stockrooms. Stock, receipts and POS sales are per location.
+  tenantRouter.get("/locations", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const includeArchived = req.query.include_archived === 'true';
+      const locations = await storage.getLocations(tenantId, { includeArchived });
+      res.json(locations);
+    } catch (error) {
+      console.error("Error fetching locations:", error);
+      res.status(500).json({ message: "Failed to fetch locations" });
+    }
+  });
+
+  tenantRouter.post("/locations", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const locationData = insertLocationSchema
+        .extend({
+          name: z.string().trim().min(1, "Name is required").max(255),
+          address: z.string().trim().max(1000).nullish(),
+          city: z.string().trim().max(100).nullish(),
+          state: z.string().trim().max(50).nullish(),
+          postalCode: z.string().trim().max(20).nullish(),
+          lat: z.coerce.number().min(-90).max(90).transform(value => value.toFixed(7)).nullish(),
+          lon: z.coerce.number().min(-180).max(180).transform(value => value.toFixed(7)).nullish(),
+        })
+        .parse({ ...req.body, tenantId });
+
+      const location = await storage.createLocation(locationData, userId);
+      res.status(201).json(location);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid location data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('already exists')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating location:", error);
+      res.status(500).json({ message: "Failed to create location" });
+    }
+  });
+
+  tenantRouter.get("/locations/current", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+      const location = await storage.getCurrentLocation(userId, tenantId);
+      res.json(location);
+    } catch (error) {
+      console.error("Error fetching current location:", error);
+      res.status(500).json({ message: "Failed to fetch current location" });
+    }
+  });
+
+  tenantRouter.put("/locations/current", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+      const { locationId } = z.object({ locationId: z.string().min(1) }).parse(req.body);
+
+      const location = await storage.setCurrentLocation(userId, tenantId, locationId);
+      res.json(location);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid location", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error setting current location:", error);
+      res.status(500).json({ message: "Failed to set current location" });
+    }
+  });
+
+  // The store address decides the tax jurisdiction for pickup sales, and its coordinates the delivery fee
+  tenantRouter.patch("/locations/:locationId", async (req: any, res) => {
+    try {
+      const { tenantId, locationId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const updates = z
+        .object({
+          address: z.string().trim().max(1000).nullable(),
+          city: z.string().trim().max(100).nullable(),
+          state: z.string().trim().max(50).nullable(),
+          postalCode: z.string().trim().max(20).nullable(),
+          lat: z.coerce.number().min(-90).max(90).transform(value => value.toFixed(7)).nullable(),
+          lon: z.coerce.number().min(-180).max(180).transform(value => value.toFixed(7)).nullable(),
+        })
+        .partial()
+        .parse(req.body);
+
+      const location = await storage.updateLocation(locationId, tenantId, updates, userId);
+      res.json(location);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid location data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error updating location:", error);
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  tenantRouter.delete("/locations/:locationId", async (req: any, res) => {
+    try {
+      const { tenantId, locationId } = req.params;
+      const userId = req.user.claims.sub;
+
+      await storage.archiveLocation(locationId, tenantId, userId);
+      res.json({ message: "Location archived" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('cannot be archived') || error.message?.includes('before archiving')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error archiving location:", error);
+      res.status(500).json({ message: "Failed to archive location" });
+    }
+  });
+
+  // Stock transfers between locations: dispatch puts stock in transit, receive or cancel settles it
+  tenantRouter.get("/stock-transfers", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const transfers = await storage.getStockTransfers(tenantId);
+      res.json(transfers);
+    } catch (error) {
+      console.error("Error fetching stock transfers:", error);
+      res.status(500).json({ message: "Failed to fetch stock transfers" });
+    }
+  });
+
+  tenantRouter.get("/stock-transfers/:transferId", async (req: any, res) => {
+    try {
+      const { tenantId, transferId } = req.params;
+      const transfer = await storage.getStockTransfer(transferId, tenantId);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error fetching stock transfer:", error);
+      res.status(500).json({ message: "Failed to fetch stock transfer" });
+    }
+  });
+
+  tenantRouter.post("/stock-transfers", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const transferSchema = z.object({
+        fromLocationId: z.string().min(1),
+        toLocationId: z.string().min(1),
+        notes: z.string().trim().max(1000).nullish(),
+        items: z.array(z.object({
+          productId: z.string().min(1),
+          qty: z.number().int().positive(),
+          lotId: z.string().min(1).nullish(),
+        })).min(1, "Transfer at least one product"),
+      }).refine((data) => data.fromLocationId !== data.toLocationId, {
+        message: "A transfer needs two different locations",
+        path: ["toLocationId"],
+      });
+      const { items, ...header } = transferSchema.parse(req.body);
+
+      const transfer = await storage.createStockTransfer({ ...header, tenantId, createdBy: userId }, items);
+      res.status(201).json(transfer);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid transfer data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message === 'Location not found') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Insufficient stock') || error.message?.startsWith('Quarantined lots')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating stock transfer:", error);
+      res.status(500).json({ message: "Failed to create stock transfer" });
+    }
+  });
+
+  tenantRouter.post("/stock-transfers/:transferId/receive", async (req: any, res) => {
+    try {
+      const { tenantId, transferId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const transfer = await storage.receiveStockTransfer(transferId, tenantId, userId);
+      res.json(transfer);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Only in-transit transfers')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error receiving stock transfer:", error);
+      res.status(500).json({ message: "Failed to receive stock transfer" });
+    }
+  });
+
+  tenantRouter.post("/stock-transfers/:transferId/cancel", async (req: any, res) => {
+    try {
+      const { tenantId, transferId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const transfer = await storage.cancelStockTransfer(transferId, tenantId, userId);
+      res.json(transfer);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Only in-transit transfers')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error cancelling stock transfer:", error);
+      res.status(500).json({ message: "Failed to cancel stock transfer" });
+    }
+  });
+
+  // Physical count routes
+  tenantRouter.get("/count-sessions", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const sessions = await storage.getCountSessions(tenantId);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching count sessions:", error);
+      res.status(500).json({ message: "Failed to fetch count sessions" });
+    }
+  });
+
+  tenantRouter.get("/count-sessions/:sessionId", async (req: any, res) => {
+    try {
+      const { tenantId, sessionId } = req.params;
+      const session = await storage.getCountSession(sessionId, tenantId);
+      if (!session) {
+        return res.status(404).json({ message: "Count session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error fetching count session:", error);
+      res.status(500).json({ message: "Failed to fetch count session" });
+    }
+  });
+
+  tenantRouter.post("/count-sessions", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const { productIds, ...body } = req.body ?? {};
+      const sessionData = insertCountSessionSchema
+        .extend({
+          name: z.string().trim().min(1, "Name is required").max(255),
+          locationId: z.string().min(1).nullish(),
+          notes: z.string().trim().max(1000).nullish(),
+        })
+        .parse({ ...body, tenantId, createdBy: userId });
+      // Omitting productIds counts the whole catalog
+      const scope = z.array(z.string().min(1)).optional().parse(productIds);
+
+      const session = await storage.createCountSession(sessionData, scope);
+      res.status(201).json(session);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid count session data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found') || error.message?.includes('no products') || error.message?.startsWith('Select at least')) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating count session:", error);
+      res.status(500).json({ message: "Failed to create count session" });
+    }
+  });
+
+  tenantRouter.post("/count-sessions/:sessionId/entries", async (req: any, res) => {
+    try {
+      const { tenantId, sessionId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const entryData = insertCountEntrySchema
+        .omit({ sessionId: true })
+        .extend({
+          qty: z.number().int().nonnegative(),
+          location: z.string().trim().max(255).nullish(),
+        })
+        .parse({ ...req.body, countedBy: userId });
+
+      const entry = await storage.addCountEntry(sessionId, tenantId, entryData);
+      res.status(201).json(entry);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid count entry data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Product is not part')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.includes('has been posted')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error adding count entry:", error);
+      res.status(500).json({ message: "Failed to add count entry" });
+    }
+  });
+
+  tenantRouter.delete("/count-sessions/:sessionId/entries/:entryId", async (req: any, res) => {
+    try {
+      const { tenantId, sessionId, entryId } = req.params;
+      await storage.deleteCountEntry(sessionId, entryId, tenantId);
+      res.json({ message: "Count entry deleted" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('has been posted')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error deleting count entry:", error);
+      res.status(500).json({ message: "Failed to delete count entry" });
+    }
+  });
+
+  tenantRouter.post("/count-sessions/:sessionId/post", async (req: any, res) => {
+    try {
+      const { tenantId, sessionId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const session = await storage.postCountSession(sessionId, tenantId, userId);
+      res.json(session);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('already been posted') || error.message?.startsWith('Insufficient stock')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error posting count session:", error);
+      res.status(500).json({ message: "Failed to post count session" });
+    }
+  });
+
+  // Supplier routes
+  tenantRouter.get("/suppliers", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const suppliers = await storage.getSuppliers(tenantId);
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  tenantRouter.post("/suppliers", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const supplierData = insertSupplierSchema
+        .extend({
+          name: z.string().trim().min(1, "Supplier name is required").max(255),
+          email: z.string().email().nullish(),
+        })
+        .parse({ ...req.body, tenantId });
+
+      const supplier = await storage.createSupplier(supplierData);
+      res.status(201).json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid supplier data", 
+          errors: error.errors 
+        });
+      }
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  // Purchase order routes
+  tenantRouter.get("/purchase-orders", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const purchaseOrders = await storage.getPurchaseOrders(tenantId);
+      res.json(purchaseOrders);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  tenantRouter.get("/purchase-orders/:purchaseOrderId", async (req: any, res) => {
+    try {
+      const { tenantId, purchaseOrderId } = req.params;
+      const purchaseOrder = await storage.getPurchaseOrder(purchaseOrderId, tenantId);
+      if (!purchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  tenantRouter.post("/purchase-orders", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+      const { lines = [], ...header } = req.body ?? {};
+
+      const purchaseOrderData = insertPurchaseOrderSchema
+        .extend({ expectedAt: z.coerce.date().nullish() })
+        .parse({ ...header, tenantId, createdBy: userId });
+
+      const lineData = z.array(
+        insertPurchaseOrderLineSchema.extend({
+          qtyOrdered: z.number().int().positive(),
+          unitCost: z.coerce.number().nonnegative().transform((value) => value.toFixed(2)),
+        })
+      ).min(1, "Add at least one line").parse(lines);
+
+      const purchaseOrder = await storage.createPurchaseOrder(purchaseOrderData, lineData);
+      res.status(201).json(purchaseOrder);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid purchase order data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  tenantRouter.post("/purchase-orders/:purchaseOrderId/send", async (req: any, res) => {
+    try {
+      const { tenantId, purchaseOrderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const purchaseOrder = await storage.sendPurchaseOrder(purchaseOrderId, tenantId, userId);
+      res.json(purchaseOrder);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot move purchase order')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error sending purchase order:", error);
+      res.status(500).json({ message: "Failed to send purchase order" });
+    }
+  });
+
+  tenantRouter.post("/purchase-orders/:purchaseOrderId/close", async (req: any, res) => {
+    try {
+      const { tenantId, purchaseOrderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const purchaseOrder = await storage.closePurchaseOrder(purchaseOrderId, tenantId, userId);
+      res.json(purchaseOrder);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot move purchase order')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error closing purchase order:", error);
+      res.status(500).json({ message: "Failed to close purchase order" });
+    }
+  });
+
+  tenantRouter.post("/purchase-orders/:purchaseOrderId/receive", async (req: any, res) => {
+    try {
+      const { tenantId, purchaseOrderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const receiptsSchema = z.object({
+        locationId: z.string().min(1).nullish(),
+        receipts: z.array(z.object({
+          lineId: z.string().min(1),
+          qtyReceived: z.number().int().positive(),
+          packId: z.string().min(1).nullish(),
+          totalCost: z.coerce.number().nonnegative().transform((value) => value.toFixed(2)),
+          acquiredAt: z.coerce.date().optional(),
+          lotNumber: z.string().trim().max(100).nullish(),
+          expiresAt: z.coerce.date().nullish(),
+          notes: z.string().trim().max(1000).nullish(),
+        })).min(1, "Receive at least one line"),
+        allowOverReceipt: z.boolean().default(false),
+      });
+      const { locationId, receipts, allowOverReceipt } = receiptsSchema.parse(req.body);
+
+      const purchaseOrder = await storage.receivePurchaseOrder(
+        purchaseOrderId,
+        tenantId,
+        receipts.map(receipt => ({ ...receipt, locationId })),
+        userId,
+        allowOverReceipt
+      );
+      res.json(purchaseOrder);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid receipt data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.startsWith('Pack not found') || error.message === 'Location not found') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Only sent purchase orders') || error.message?.startsWith('Receipt exceeds')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ message: "Failed to receive purchase order" });
+    }
+  });
+
+  // Customer routes
+  tenantRouter.get("/customers", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const withDetails = req.query.with_details === 'true';
+      
+      if (withDetails) {
+        const customers = await storage.getCustomersWithDetails(tenantId);
+        res.json(customers);
+      } else {
+        const customers = await storage.getCustomers(tenantId);
+        res.json(customers);
+      }
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      res.status(500).json({ message: "Failed to fetch customers" });
+    }
+  });
+
+  tenantRouter.post("/customers", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const customerData = insertCustomerSchema.parse({
+        ...req.body,
+        tenantId,
+      });
+      // Use encrypted customer creation with dual-write support
+      const customer = await storage.createCustomerEncrypted(customerData);
+      res.json(customer);
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      res.status(500).json({ message: "Failed to create customer" });
+    }
+  });
+
+  // Order routes (Sales module)
+  tenantRouter.get("/orders", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const orders = await storage.getOrders(tenantId);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  // Items, payments, delivery, loyalty, credit and audit trail for one order
+  tenantRouter.get("/orders/:orderId", async (req: any, res) => {
+    try {
+      const { tenantId, orderId } = req.params;
+      const order = await storage.getOrderDetail(orderId, tenantId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
+
+  // Cart quote errors a cashier can act on, shared by the quote and order creation
+  const sendCartError = (res: any, error: any): boolean => {
+    if (error.message?.includes('product that was not found') || error.message === 'Product not found' || error.message?.startsWith('Pack not found') || error.message === 'Location not found') {
+      res.status(400).json({ message: error.message });
+      return true;
+    }
+    if (error.message?.startsWith('No price for')) {
+      res.status(409).json({ message: error.message });
+      return true;
+    }
+    if (error.message?.startsWith('Promotion ') || error.message?.startsWith('Loyalty points') || error.message?.startsWith('Delivery:')) {
+      res.status(400).json({ message: error.message });
+      return true;
+    }
+    return false;
+  };
+
+  // Authoritative prices, discounts, loyalty redemption, tax, delivery fee and total for a cart
+  tenantRouter.post("/orders/quote", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const input = cartQuoteInputSchema.parse(req.body);
+      const cartQuote = await quoteCart(tenantId, userId, input);
+      res.json(cartQuote);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid cart", 
+          errors: error.errors 
+        });
+      }
+      if (sendCartError(res, error)) {
+        return;
+      }
+      console.error("Error quoting cart:", error);
+      res.status(500).json({ message: "Failed to quote cart" });
+    }
+  });
+
+  tenantRouter.post("/orders", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+      const { items = [], promotionCodes = [], fulfillment, delivery = null, redeemPoints, total, ...header } = req.body;
+      // The total the client showed the customer is required, so an order never charges an unseen amount
+      const shownTotal = z.coerce.number().nonnegative().parse(total);
+      const orderData = insertOrderSchema.parse({
+        ...header,
+        // Orders start as drafts, or confirmed when taken at the counter; payment and voiding have their own routes
+        status: z.enum(["draft", "confirmed"]).default("draft").parse(header.status),
+        paymentStatus: "pending",
+        tenantId,
+        createdBy: userId,
+      });
+
+      // Prices, discounts, points, tax and the delivery fee all come from a fresh quote,
+      // never from the client. Batch and cost are assigned later by FIFO allocation, and
+      // the contract list a price came from is kept on the item so later list changes
+      // leave the order as sold.
+      const cart = cartQuoteInputSchema.parse({
+        items,
+        customerId: orderData.customerId,
+        locationId: orderData.locationId,
+        fulfillment,
+        delivery,
+        promotionCodes,
+        redeemPoints,
+      });
+      const cartQuote = await quoteCart(tenantId, userId, cart);
+
+      // A total the client showed the customer must still be what the order charges
+      if (Math.abs(shownTotal - parseFloat(cartQuote.total)) >= 0.005) {
+        return res.status(409).json({
+          message: `The order total has changed to $${cartQuote.total}; review the cart and try again`,
+          quote: cartQuote,
+        });
+      }
+
+      Object.assign(orderData, {
+        locationId: cartQuote.locationId,
+        subtotal: cartQuote.subtotal,
+        discount: cartQuote.discount,
+        loyaltyPointsRedeemed: cartQuote.loyalty?.pointsRedeemed ?? 0,
+        loyaltyDiscount: cartQuote.loyalty?.amount ?? "0",
+        tax: cartQuote.tax.tax,
+        taxableAmount: cartQuote.tax.taxableAmount,
+        taxJurisdictionId: cartQuote.tax.jurisdictionId,
+        taxExemptionId: cartQuote.tax.exemptionId,
+        deliveryFee: cartQuote.deliveryFee,
+        total: cartQuote.total,
+      });
+      const itemsData = cartQuote.lines.map(line => ({
+        productId: line.productId,
+        packId: line.packId,
+        qty: line.qty,
+        unitPrice: line.unitPrice,
+        priceListId: line.priceListId,
+      }));
+
+      const deliveryData = cart.fulfillment === "delivery" && cart.delivery
+        ? {
+            tenantId,
+            method: 'manual_courier' as const,
+            addressLine1: cart.delivery.addressLine1,
+            city: cart.delivery.city,
+            state: cart.delivery.state,
+            postalCode: cart.delivery.postalCode,
+            lat: cart.delivery.lat.toFixed(7),
+            lon: cart.delivery.lon.toFixed(7),
+            fee: cartQuote.deliveryFee,
+          }
+        : null;
+
+      const order = await storage.createOrder(orderData, itemsData, cartQuote.discounts, deliveryData);
+      res.json(order);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid order data", 
+          errors: error.errors 
+        });
+      }
+
+      if (error.message?.includes('Insufficient stock')) {
+        return res.status(409).json({ message: error.message });
+      }
+
+      if (sendCartError(res, error)) {
+        return;
+      }
+
+      console.error("Error creating order:", error);
+      res.status(500).json({ message: "Failed to create order" });
+    }
+  });
+
+  // Status changes an order cannot make are conflicts with its current state
+  const sendOrderTransitionError = (res: any, error: any): boolean => {
+    if (error.message === 'Order not found') {
+      res.status(404).json({ message: error.message });
+      return true;
+    }
+    if (
+      error.message?.includes('Insufficient stock') ||
+      error.message?.startsWith('Only ') ||
+      error.message?.startsWith('Promotion ') ||
+      error.message?.startsWith('Paid orders can only be voided') ||
+      error.message?.startsWith('Voided orders')
+    ) {
+      res.status(409).json({ message: error.message });
+      return true;
+    }
+    return false;
+  };
+
+  // Confirm a draft order, depleting inventory lots FIFO
+  tenantRouter.post("/orders/:orderId/confirm", async (req: any, res) => {
+    try {
+      const { tenantId, orderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const order = await storage.confirmOrder(orderId, tenantId, userId);
+      res.json(order);
+    } catch (error: any) {
+      if (sendOrderTransitionError(res, error)) {
+        return;
+      }
+      console.error("Error confirming order:", error);
+      res.status(500).json({ message: "Failed to confirm order" });
+    }
+  });
+
+  // Record payment for a confirmed order
+  tenantRouter.post("/orders/:orderId/pay", async (req: any, res) => {
+    try {
+      const { tenantId, orderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const paySchema = z.object({
+        paymentMethod: z.string().max(50).nullish(),
+        paymentNotes: z.string().nullish(),
+      });
+      const payment = paySchema.parse(req.body ?? {});
+      const order = await storage.markOrderPaid(orderId, tenantId, userId, payment);
+      res.json(order);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid payment data", 
+          errors: error.errors 
+        });
+      }
+      if (sendOrderTransitionError(res, error)) {
+        return;
+      }
+      console.error("Error marking order paid:", error);
+      res.status(500).json({ message: "Failed to mark order paid" });
+    }
+  });
+
+  // Void a draft or confirmed order, returning any allocated stock to its lots
+  tenantRouter.post("/orders/:orderId/void", async (req: any, res) => {
+    try {
+      const { tenantId, orderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const voidSchema = z.object({
+        reason: z.string().trim().min(1, "Give a reason for voiding the order").max(500),
+      });
+      const { reason } = voidSchema.parse(req.body ?? {});
+      const order = await storage.voidOrder(orderId, tenantId, userId, reason);
+      res.json(order);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid void data", 
+          errors: error.errors 
+        });
+      }
+      if (sendOrderTransitionError(res, error)) {
+        return;
+      }
+      console.error("Error voiding order:", error);
+      res.status(500).json({ message: "Failed to void order" });
+    }
+  });
+
+  // Card refunds go back to the original Stripe charge
+  const issueStripeRefund: CardRefundIssuer | null = STRIPE_ENABLED && stripe
+    ? async (payment, amount, reason, idempotencyKey) => {
+        const refund = await stripe!.refunds.create({
+          charge: payment.chargeId!,
+          amount: Math.round(parseFloat(amount) * 100), // Convert to cents
+          reason: "requested_by_customer",
+          metadata: { orderId: payment.orderId ?? "", returnReason: reason },
+        }, { idempotencyKey });
+        return refund.id;
+      }
+    : null;
+
+  // Refund a paid order in full, which voids it, returns its stock and refunds the way it was paid
+  tenantRouter.post("/orders/:orderId/refund", async (req: any, res) => {
+    try {
+      const { tenantId, orderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const refundSchema = z.object({
+        reason: z.string().trim().min(1, "Give a reason for the refund").max(500),
+      });
+      const { reason } = refundSchema.parse(req.body ?? {});
+      const order = await storage.refundOrder(orderId, tenantId, userId, reason, issueStripeRefund);
+      res.json(order);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid refund data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.startsWith('Return:')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Refund:')) {
+        return res.status(503).json({ message: error.message });
+      }
+      if (sendOrderTransitionError(res, error)) {
+        return;
+      }
+      console.error("Error refunding order:", error);
+      res.status(500).json({ message: "Failed to refund order" });
+    }
+  });
+
+  // Return items from a paid order, restocking or writing off each line and refunding
+  // by the way the order was paid
+  tenantRouter.post("/orders/:orderId/returns", async (req: any, res) => {
+    try {
+      const { tenantId, orderId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const returnSchema = z.object({
+        reason: z.string().trim().min(1, "Give a reason for the return").max(500),
+        lines: z.array(z.object({
+          orderItemId: z.string().min(1),
+          qty: z.number().int().positive(),
+          disposition: z.enum(["restock", "waste"]),
+        })).min(1, "Select at least one item to return"),
+      });
+      const request = returnSchema.parse(req.body);
+
+      const orderReturn = await storage.createOrderReturn(orderId, tenantId, userId, request, issueStripeRefund);
+      res.json(orderReturn);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid return data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.startsWith('Return:')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Refund:')) {
+        return res.status(503).json({ message: error.message });
+      }
+      if (sendOrderTransitionError(res, error)) {
+        return;
+      }
+      console.error("Error creating return:", error);
+      res.status(500).json({ message: "Failed to create return" });
+    }
+  });
+
+  // Retry the card refund of a return whose refund failed
+  tenantRouter.post("/orders/:orderId/returns/:returnId/refund", async (req: any, res) => {
+    try {
+      const { tenantId, orderId, returnId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const orderReturn = await storage.issueReturnRefund(orderId, returnId, tenantId, userId, issueStripeRefund);
+      res.json(orderReturn);
+    } catch (error: any) {
+      if (error.message === 'Return not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Refund:')) {
+        return res.status(503).json({ message: error.message });
+      }
+      console.error("Error refunding return:", error);
+      res.status(500).json({ message: "Failed to refund return" });
+    }
+  });
+
+  // Dashboard KPIs
+  tenantRouter.get("/dashboard/kpis", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const kpis = await storage.getDashboardKPIs(tenantId);
+      res.json(kpis);
+    } catch (error) {
+      console.error("Error fetching dashboard KPIs:", error);
+      res.status(500).json({ message: "Failed to fetch dashboard KPIs" });
+    }
+  });
+
+  tenantRouter.get("/dashboard/kpis/drilldown", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const drilldown = await storage.getDashboardDrilldown(tenantId);
+      res.json(drilldown);
+    } catch (error) {
+      console.error("Error fetching dashboard drill-down:", error);
+      res.status(500).json({ message: "Failed to fetch dashboard drill-down" });
+    }
+  });
+
+  // Sales POS calculators
+  const assistSchema = z.object({
+    productId: z.string().min(1),
+    packId: z.string().nullish(),
+    customerId: z.string().nullish(),
+  });
+
+  tenantRouter.post("/orders/assist/qty-to-price", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const { productId, quantity, packId, customerId } = assistSchema.extend({
+        quantity: z.number().int().positive(),
+      }).parse(req.body);
+      
+      const product = await storage.getProduct(productId, tenantId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      // Quantities in a pack are priced as that many base units
+      const pack = packId ? (await storage.getProductPacks(tenantId, productId)).find(p => p.id === packId) : undefined;
+      if (packId && !pack) {
+        return res.status(404).json({ message: "Pack not found for this product" });
+      }
+      const unitsPerQty = pack?.qtyPerPack ?? 1;
+
+      const priceQuote = await quote(tenantId, productId, quantity * unitsPerQty, customerId, unitsPerQty);
+      const unitPrice = parseFloat(priceQuote.saleUnitPrice);
+
+      res.json({
+        quantity,
+        unitPrice: parseFloat(unitPrice.toFixed(2)),
+        total: priceQuote.total,
+        priceListId: priceQuote.priceListId,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid calculator input", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.startsWith('No price for')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error calculating qty to price:", error);
+      res.status(500).json({ message: "Failed to calculate price" });
+    }
+  });
+
+  tenantRouter.post("/orders/assist/amount-to-qty", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const { productId, targetAmount, packId, customerId } = assistSchema.extend({
+        targetAmount: z.number().positive(),
+      }).parse(req.body);
+      
+      const product = await storage.getProduct(productId, tenantId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      // Suggest whole packs when a pack is chosen
+      const pack = packId ? (await storage.getProductPacks(tenantId, productId)).find(p => p.id === packId) : undefined;
+      if (packId && !pack) {
+        return res.status(404).json({ message: "Pack not found for this product" });
+      }
+      const unitsPerQty = pack?.qtyPerPack ?? 1;
+
+      const priceQuote = await quoteForAmount(tenantId, productId, targetAmount, unitsPerQty, customerId);
+      const suggestedQuantity = priceQuote ? priceQuote.qty / unitsPerQty : 0;
+      const unitPrice = parseFloat((priceQuote ?? await quote(tenantId, productId, unitsPerQty, customerId, unitsPerQty)).saleUnitPrice);
+      const actualTotal = priceQuote ? parseFloat(priceQuote.total) : 0;
+      const change = targetAmount - actualTotal;
+
+      res.json({
+        suggestedQuantity,
+        unitPrice: parseFloat(unitPrice.toFixed(2)),
+        actualTotal: actualTotal.toFixed(2),
+        change: change.toFixed(2),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid calculator input", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.startsWith('No price for')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error calculating amount to qty:", error);
+      res.status(500).json({ message: "Failed to calculate quantity" });
+    }
+  });
+
+  // Delivery fee estimation
+  tenantRouter.post("/delivery/estimate", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      
+      // Strict Zod validation
+      const deliveryEstimateSchema = z.object({
+        pickupLat: z.number(),
+        pickupLon: z.number(),
+        dropoffLat: z.number(),
+        dropoffLon: z.number(),
+        priority: z.enum(["standard", "rush"]).optional().default("standard"),
+      }).strict();
+
+      const validatedInput = deliveryEstimateSchema.parse(req.body);
+      const { pickupLat, pickupLon, dropoffLat, dropoffLon, priority } = validatedInput;
+      
+      // Clamp lat/lon ranges
+      if (pickupLat < -90 || pickupLat > 90 || dropoffLat < -90 || dropoffLat > 90) {
+        return res.status(400).json({ message: "Invalid latitude: must be between -90 and 90" });
+      }
+      if (pickupLon < -180 || pickupLon > 180 || dropoffLon < -180 || dropoffLon > 180) {
+        return res.status(400).json({ message: "Invalid longitude: must be between -180 and 180" });
+      }
+      
+      const estimate = estimateDelivery(
+        { lat: pickupLat, lon: pickupLon },
+        { lat: dropoffLat, lon: dropoffLon },
+        priority,
+      );
+
+      res.json({
+        distance: `${estimate.distanceMiles.toFixed(1)} mi`,
+        estimatedMinutes: estimate.estimatedMinutes,
+        fee: estimate.fee,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: error.errors 
+        });
+      }
+      console.error("Error estimating delivery fee:", error);
+      res.status(500).json({ message: "Failed to estimate delivery fee" });
+    }
+  });
+
+  // Price rules used by the pricing engine
+  tenantRouter.get("/price-rules", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const rules = await storage.getPriceRules(tenantId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching price rules:", error);
+      res.status(500).json({ message: "Failed to fetch price rules" });
+    }
+  });
+
+  tenantRouter.post("/price-rules", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const ruleData = insertPriceRuleSchema.parse({ ...req.body, tenantId, createdBy: userId });
+      const rule = await storage.createPriceRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid price rule data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message === 'Product not found' || error.message?.includes('not both')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.includes('already exists')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating price rule:", error);
+      res.status(500).json({ message: "Failed to create price rule" });
+    }
+  });
+
+  tenantRouter.delete("/price-rules/:ruleId", async (req: any, res) => {
+    try {
+      const { tenantId, ruleId } = req.params;
+      const userId = req.user.claims.sub;
+
+      await storage.deletePriceRule(ruleId, tenantId, userId);
+      res.json({ message: "Price rule removed" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error removing price rule:", error);
+      res.status(500).json({ message: "Failed to remove price rule" });
+    }
+  });
+
+  // Contract price lists assigned to customers
+  tenantRouter.get("/price-lists", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const lists = await storage.getPriceLists(tenantId);
+      res.json(lists);
+    } catch (error) {
+      console.error("Error fetching price lists:", error);
+      res.status(500).json({ message: "Failed to fetch price lists" });
+    }
+  });
+
+  tenantRouter.post("/price-lists", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const listData = insertPriceListSchema.parse({ ...req.body, tenantId, createdBy: userId });
+      const list = await storage.createPriceList(listData);
+      res.status(201).json(list);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid price list data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('already exists')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating price list:", error);
+      res.status(500).json({ message: "Failed to create price list" });
+    }
+  });
+
+  tenantRouter.get("/price-lists/:priceListId", async (req: any, res) => {
+    try {
+      const { tenantId, priceListId } = req.params;
+      const list = await storage.getPriceList(priceListId, tenantId);
+      if (!list) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching price list:", error);
+      res.status(500).json({ message: "Failed to fetch price list" });
+    }
+  });
+
+  tenantRouter.delete("/price-lists/:priceListId", async (req: any, res) => {
+    try {
+      const { tenantId, priceListId } = req.params;
+      const userId = req.user.claims.sub;
+
+      await storage.archivePriceList(priceListId, tenantId, userId);
+      res.json({ message: "Price list archived" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error archiving price list:", error);
+      res.status(500).json({ message: "Failed to archive price list" });
+    }
+  });
+
+  tenantRouter.put("/price-lists/:priceListId/items/:productId", async (req: any, res) => {
+    try {
+      const { tenantId, priceListId, productId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const itemData = insertPriceListItemSchema.parse({ ...req.body, priceListId, productId });
+      const item = await storage.setPriceListItem(itemData, tenantId, userId);
+      res.json(item);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid price list item", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error saving price list item:", error);
+      res.status(500).json({ message: "Failed to save price list item" });
+    }
+  });
+
+  tenantRouter.delete("/price-lists/:priceListId/items/:productId", async (req: any, res) => {
+    try {
+      const { tenantId, priceListId, productId } = req.params;
+      const userId = req.user.claims.sub;
+
+      await storage.deletePriceListItem(priceListId, productId, tenantId, userId);
+      res.json({ message: "Price list item removed" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error removing price list item:", error);
+      res.status(500).json({ message: "Failed to remove price list item" });
+    }
+  });
+
+  tenantRouter.put("/customers/:customerId/price-list", async (req: any, res) => {
+    try {
+      const { tenantId, customerId } = req.params;
+      const userId = req.user.claims.sub;
+      const { priceListId } = z.object({ priceListId: z.string().min(1).nullable() }).parse(req.body);
+
+      const customer = await storage.setCustomerPriceList(customerId, tenantId, priceListId, userId);
+      res.json(customer);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid price list", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error assigning price list:", error);
+      res.status(500).json({ message: "Failed to assign price list" });
+    }
+  });
+
+  // Promotions applied at checkout
+  tenantRouter.get("/promotions", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const promotions = await storage.getPromotions(tenantId);
+      res.json(promotions);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
+
+  tenantRouter.post("/promotions", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const promotionData = insertPromotionSchema.parse({ ...req.body, tenantId, createdBy: userId });
+      const promotion = await storage.createPromotion(promotionData);
+      res.status(201).json(promotion);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid promotion data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message === 'Product not found') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.includes('already exists')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating promotion:", error);
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
+
+  // Redemptions and margin given away for orders placed between from and to (YYYY-MM-DD, default last 30 days)
+  tenantRouter.get("/promotions/report", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const to = parseValuationDate(req.query.to);
+      if (!to) {
+        return res.status(400).json({ message: "to must be a date in YYYY-MM-DD format" });
+      }
+      let from = new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000 + 1);
+      if (req.query.from) {
+        const fromEnd = parseValuationDate(req.query.from);
+        if (!fromEnd) {
+          return res.status(400).json({ message: "from must be a date in YYYY-MM-DD format" });
+        }
+        from = new Date(fromEnd.getTime() - 24 * 60 * 60 * 1000 + 1);
+      }
+      if (from > to) {
+        return res.status(400).json({ message: "from must not be after to" });
+      }
+
+      const report = await storage.getPromotionReport(tenantId, from, to);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching promotion report:", error);
+      res.status(500).json({ message: "Failed to fetch promotion report" });
+    }
+  });
+
+  tenantRouter.delete("/promotions/:promotionId", async (req: any, res) => {
+    try {
+      const { tenantId, promotionId } = req.params;
+      const userId = req.user.claims.sub;
+
+      await storage.archivePromotion(promotionId, tenantId, userId);
+      res.json({ message: "Promotion archived" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error archiving promotion:", error);
+      res.status(500).json({ message: "Failed to archive promotion" });
+    }
+  });
+
+  // Sales tax: jurisdictions, customer exemption certificates and the filing report
+  tenantRouter.get("/tax-jurisdictions", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const jurisdictions = await storage.getTaxJurisdictions(tenantId);
+      res.json(jurisdictions);
+    } catch (error) {
+      console.error("Error fetching tax jurisdictions:", error);
+      res.status(500).json({ message: "Failed to fetch tax jurisdictions" });
+    }
+  });
+
+  tenantRouter.post("/tax-jurisdictions", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const jurisdictionData = insertTaxJurisdictionSchema.parse({ ...req.body, tenantId, createdBy: userId });
+      const jurisdiction = await storage.createTaxJurisdiction(jurisdictionData);
+      res.status(201).json(jurisdiction);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid tax jurisdiction data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('already exists')) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating tax jurisdiction:", error);
+      res.status(500).json({ message: "Failed to create tax jurisdiction" });
+    }
+  });
+
+  tenantRouter.delete("/tax-jurisdictions/:jurisdictionId", async (req: any, res) => {
+    try {
+      const { tenantId, jurisdictionId } = req.params;
+      const userId = req.user.claims.sub;
+
+      await storage.archiveTaxJurisdiction(jurisdictionId, tenantId, userId);
+      res.json({ message: "Tax jurisdiction archived" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error archiving tax jurisdiction:", error);
+      res.status(500).json({ message: "Failed to archive tax jurisdiction" });
+    }
+  });
+
+  tenantRouter.get("/customers/:customerId/tax-exemptions", async (req: any, res) => {
+    try {
+      const { tenantId, customerId } = req.params;
+      const exemptions = await storage.getTaxExemptions(tenantId, customerId);
+      res.json(exemptions);
+    } catch (error) {
+      console.error("Error fetching tax exemptions:", error);
+      res.status(500).json({ message: "Failed to fetch tax exemptions" });
+    }
+  });
+
+  tenantRouter.post("/customers/:customerId/tax-exemptions", async (req: any, res) => {
+    try {
+      const { tenantId, customerId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const exemptionData = insertTaxExemptionSchema.parse({ ...req.body, tenantId, customerId, createdBy: userId });
+      const exemption = await storage.createTaxExemption(exemptionData);
+      res.status(201).json(exemption);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid tax exemption data", 
+          errors: error.errors 
+        });
+      }
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error creating tax exemption:", error);
+      res.status(500).json({ message: "Failed to create tax exemption" });
+    }
+  });
+
+  tenantRouter.delete("/customers/:customerId/tax-exemptions/:exemptionId", async (req: any, res) => {
+    try {
+      const { tenantId, exemptionId } = req.params;
+      const userId = req.user.claims.sub;
+
+      await storage.revokeTaxExemption(exemptionId, tenantId, userId);
+      res.json({ message: "Tax exemption revoked" });
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error revoking tax exemption:", error);
+      res.status(500).json({ message: "Failed to revoke tax exemption" });
+    }
+  });
+
+  // Sales tax by jurisdiction between from and to (YYYY-MM-DD, default last 30 days)
+  const parseTaxReportRange = (query: any): { from: Date; to: Date } | { error: string } => {
+    const to = parseValuationDate(query.to);
+    if (!to) {
+      return { error: "to must be a date in YYYY-MM-DD format" };
+    }
+    let from = new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000 + 1);
+    if (query.from) {
+      const fromEnd = parseValuationDate(query.from);
+      if (!fromEnd) {
+        return { error: "from must be a date in YYYY-MM-DD format" };
+      }
+      from = new Date(fromEnd.getTime() - 24 * 60 * 60 * 1000 + 1);
+    }
+    if (from > to) {
+      return { error: "from must not be after to" };
+    }
+    return { from, to };
+  };
+
+  tenantRouter.get("/tax/report", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const range = parseTaxReportRange(req.query);
+      if ('error' in range) {
+        return res.status(400).json({ message: range.error });
+      }
+
+      const report = await storage.getSalesTaxReport(tenantId, range.from, range.to);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching sales tax report:", error);
+      res.status(500).json({ message: "Failed to fetch sales tax report" });
+    }
+  });
+
+  tenantRouter.get("/tax/report.csv", async (req: any, res) => {
+    try {
+      const { tenantId } = req.params;
+      const range = parseTaxReportRange(req.query);
+      if ('error' in range) {
+        return res.status(400).json({ message: range.error });
+      }
+
+      const report = await storage.getSalesTaxReport(tenantId, range.from, range.to);
+      const from = range.from.toISOString().slice(0, 10);
+      const to = range.to.toISOString().slice(0, 10);
+      const csv = toCsv(
+        ["from", "to", "jurisdiction", "state", "orders", "gross_sales", "taxable_sales", "exempt_sales", "certificate_exempt_sales", "tax_collected"],
+        [
+          ...report.jurisdictions.map(row => [
+            from,
+            to,
+            row.name,
+            row.state,
+            row.orders,
+            row.grossSales,
+            row.taxableSales,
+            row.exemptSales,
+            row.certificateExemptSales,
+            row.taxCollected,
+          ]),
+          [from, to, "TOTAL", null, report.totals.orders, report.totals.grossSales, report.totals.taxableSales, report.totals.exemptSales, null, report.totals.taxCollected],
+        ]
+      );
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="sales-tax-${from}-to-${to}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting sales tax report:", error);
+      res.status(500).json({ message: "Failed to export sales tax report" });
     }
   });
 
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { orderMovements, runLedger, valueStock, type LedgerMovement, type LedgerReturn, type LedgerSale } from "./stock-ledger";
+
+const receivedAt = new Date("2026-03-02T09:00:00Z");
+const soldAt = new Date("2026-03-03T10:00:00Z");
+const refundedAt = new Date("2026-03-04T11:00:00Z");
+
+const receipt: LedgerMovement = {
+  occurredAt: receivedAt,
+  type: "receipt",
+  sourceId: "batch-1",
+  reference: "PO-1",
+  batchId: "batch-1",
+  lotNumber: "LOT1",
+  qtyIn: 10,
+  qtyOut: 0,
+  unitCost: "5.0000",
+  actorName: null,
+  notes: null,
+  cost: 50,
+  sortKey: receivedAt.getTime(),
+};
+
+function sale(fields: Partial<LedgerSale> = {}): LedgerSale {
+  return {
+    orderId: "order-1",
+    soldAt,
+    voidedAt: null,
+    batchId: "batch-1",
+    lotNumber: "LOT1",
+    unitCost: "5.0000",
+    qty: 4,
+    actorName: null,
+    ...fields,
+  };
+}
+
+function restock(fields: Partial<LedgerReturn> = {}): LedgerReturn {
+  return {
+    orderId: "order-1",
+    orderVoidedAt: null,
+    createdAt: refundedAt,
+    reason: "Damaged box",
+    batchId: "batch-1",
+    lotNumber: "LOT1",
+    unitCost: "5.0000",
+    qty: 4,
+    actorName: null,
+    ...fields,
+  };
+}
+
+const batch = { id: "batch-1", productId: "product-1", qtyAcquired: 10, totalCost: "50.00" };
+
+describe("stock after a full refund", () => {
+  // A full refund voids the order and records a return of every item in the same transaction
+  const refundedSale = sale({ voidedAt: refundedAt });
+  const refundReturn = restock({ orderVoidedAt: refundedAt, reason: "Refunded" });
+
+  it("puts the stock back in the ledger once", () => {
+    const entries = runLedger([receipt, ...orderMovements([refundedSale], [refundReturn])]);
+    assert.deepEqual(entries.map(entry => [entry.type, entry.balance]), [
+      ["receipt", 10],
+      ["sale", 6],
+      ["void", 10],
+    ]);
+    assert.equal(entries[entries.length - 1].wac, "5.0000");
+  });
+
+  it("values the stock once", () => {
+    const value = valueStock([batch], {
+      // The voided sale is already left out of what was sold
+      sold: [],
+      removed: [],
+      restocked: [{ batchId: "batch-1", qty: 4, orderVoidedAt: refundedAt }],
+    }).get("product-1")!;
+    assert.equal(value.qtyOnHand, 10);
+    assert.equal(value.fifoValue, 50);
+  });
+});
+
+describe("stock after a partial return", () => {
+  it("puts restocked units back in the ledger", () => {
+    const entries = runLedger([receipt, ...orderMovements([sale()], [restock({ qty: 1 })])]);
+    assert.deepEqual(entries.map(entry => [entry.type, entry.balance]), [
+      ["receipt", 10],
+      ["sale", 6],
+      ["return", 7],
+    ]);
+  });
+
+  it("values restocked units", () => {
+    const value = valueStock([batch], {
+      sold: [{ batchId: "batch-1", qty: 4 }],
+      removed: [{ batchId: "batch-1", qty: 1 }],
+      restocked: [{ batchId: "batch-1", qty: 1, orderVoidedAt: null }],
+    }).get("product-1")!;
+    assert.equal(value.qtyOnHand, 6);
+    assert.equal(value.fifoValue, 30);
+  });
+});
@@ -0,0 +1,175 @@
+import type { StockLedgerEntry } from "./storage";
+
+// Stock ledger and valuation arithmetic over rows already read from the database, so the
+// reports agree on what moves stock and can be checked without one
+
+export type LedgerMovement = Omit<StockLedgerEntry, 'balance' | 'wac'> & { cost: number; sortKey: number };
+
+// Allocated items of one order, per batch
+export interface LedgerSale {
+  orderId: string;
+  soldAt: Date;
+  voidedAt: Date | null;
+  batchId: string | null;
+  lotNumber: string | null;
+  unitCost: string | null;
+  qty: number;
+  actorName: string | null;
+}
+
+// Units of one return put back on the shelf, per batch
+export interface LedgerReturn {
+  orderId: string;
+  orderVoidedAt: Date | null;
+  createdAt: Date;
+  reason: string | null;
+  batchId: string | null;
+  lotNumber: string | null;
+  unitCost: string | null;
+  qty: number;
+  actorName: string | null;
+}
+
+// A full refund voids the order, and the void already puts its stock back; the return
+// recorded alongside it carries the money, not a second restock
+function restocksOnItsOwn(orderVoidedAt: Date | null): boolean {
+  return orderVoidedAt === null;
+}
+
+// Stock leaves at confirmation, comes back when the order is voided, and returned units
+// come back as they are restocked
+export function orderMovements(sales: LedgerSale[], returns: LedgerReturn[]): LedgerMovement[] {
+  const movements: LedgerMovement[] = [];
+
+  for (const sale of sales) {
+    movements.push({
+      occurredAt: sale.soldAt,
+      type: 'sale',
+      sourceId: sale.orderId,
+      reference: `Order ${sale.orderId.slice(0, 8)}`,
+      batchId: sale.batchId,
+      lotNumber: sale.lotNumber,
+      qtyIn: 0,
+      qtyOut: sale.qty,
+      unitCost: sale.unitCost ?? "0.00",
+      actorName: sale.actorName,
+      notes: null,
+      cost: 0,
+      sortKey: sale.soldAt.getTime(),
+    });
+
+    // A voided order's stock went back to the lots it came from
+    if (sale.voidedAt) {
+      movements.push({
+        occurredAt: sale.voidedAt,
+        type: 'void',
+        sourceId: sale.orderId,
+        reference: `Order ${sale.orderId.slice(0, 8)} voided`,
+        batchId: sale.batchId,
+        lotNumber: sale.lotNumber,
+        qtyIn: sale.qty,
+        qtyOut: 0,
+        unitCost: sale.unitCost ?? "0.00",
+        actorName: null,
+        notes: null,
+        cost: 0,
+        sortKey: sale.voidedAt.getTime(),
+      });
+    }
+  }
+
+  for (const orderReturn of returns) {
+    if (!restocksOnItsOwn(orderReturn.orderVoidedAt)) continue;
+    movements.push({
+      occurredAt: orderReturn.createdAt,
+      type: 'return',
+      sourceId: orderReturn.orderId,
+      reference: `Return on order ${orderReturn.orderId.slice(0, 8)}`,
+      batchId: orderReturn.batchId,
+      lotNumber: orderReturn.lotNumber,
+      qtyIn: orderReturn.qty,
+      qtyOut: 0,
+      unitCost: orderReturn.unitCost ?? "0.00",
+      actorName: orderReturn.actorName,
+      notes: orderReturn.reason,
+      cost: 0,
+      sortKey: orderReturn.createdAt.getTime(),
+    });
+  }
+
+  return movements;
+}
+
+// WAC is cumulative cost over cumulative quantity received, matching _getStockAndWac;
+// outflows, and voids and returns putting them back, change the balance but not the average
+export function runLedger(movements: LedgerMovement[]): StockLedgerEntry[] {
+  const sorted = [...movements].sort((a, b) =>
+    a.occurredAt.getTime() - b.occurredAt.getTime() ||
+    a.sortKey - b.sortKey ||
+    b.qtyIn - a.qtyIn
+  );
+
+  let balance = 0;
+  let pooledCost = 0;
+  let pooledQty = 0;
+  return sorted.map(({ cost, sortKey, ...movement }) => {
+    balance += movement.qtyIn - movement.qtyOut;
+    if (movement.qtyIn > 0 && movement.type !== 'void' && movement.type !== 'return') {
+      pooledCost += cost;
+      pooledQty += movement.qtyIn;
+    }
+    return {
+      ...movement,
+      balance,
+      wac: (pooledQty > 0 ? pooledCost / pooledQty : 0).toFixed(4),
+    };
+  });
+}
+
+export interface ValuationBatch {
+  id: string;
+  productId: string;
+  qtyAcquired: number;
+  totalCost: string;
+}
+
+export interface BatchOutflow {
+  batchId: string | null;
+  qty: number;
+}
+
+export interface StockValue {
+  qtyOnHand: number;
+  fifoValue: number;
+  receivedQty: number;
+  receivedCost: number;
+}
+
+// Each batch's remaining quantity is what was received less what was sold and adjusted
+// out, plus what came back through returns; products total their batches
+export function valueStock(
+  batchRows: ValuationBatch[],
+  outflows: { sold: BatchOutflow[]; removed: BatchOutflow[]; restocked: Array<BatchOutflow & { orderVoidedAt: Date | null }> }
+): Map<string, StockValue> {
+  const outByBatch = new Map<string, number>();
+  const restocked = outflows.restocked
+    .filter(row => restocksOnItsOwn(row.orderVoidedAt))
+    .map(row => ({ batchId: row.batchId, qty: -row.qty }));
+  for (const row of [...outflows.sold, ...outflows.removed, ...restocked]) {
+    if (!row.batchId) continue;
+    outByBatch.set(row.batchId, (outByBatch.get(row.batchId) ?? 0) + row.qty);
+  }
+
+  const byProduct = new Map<string, StockValue>();
+  for (const batch of batchRows) {
+    const entry = byProduct.get(batch.productId) ?? { qtyOnHand: 0, fifoValue: 0, receivedQty: 0, receivedCost: 0 };
+    const totalCost = parseFloat(batch.totalCost);
+    const remaining = Math.max(batch.qtyAcquired - (outByBatch.get(batch.id) ?? 0), 0);
+    entry.qtyOnHand += remaining;
+    entry.fifoValue += batch.qtyAcquired > 0 ? remaining * totalCost / batch.qtyAcquired : 0;
+    entry.receivedQty += batch.qtyAcquired;
+    entry.receivedCost += totalCost;
+    byProduct.set(batch.productId, entry);
+  }
+  return byProduct;
+}
@@ -5,12 +5,36 @@ import {
   featureFlags,
   featureFlagOverrides,
   products,
+  productHistory,
+  productHistoryFields,
+  productPacks,
+  priceRules,
+  priceLists,
+  priceListItems,
+  promotions,
+  orderDiscounts,
+  orderReturns,
+  orderReturnLines,
+  taxJurisdictions,
+  taxExemptions,
+  locations,
   batches,
   inventoryLots,
+  stockTransfers,
+  stockTransferLines,
+  adjustments,
+  countSessions,
+  countSessionProducts,
+  countEntries,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderLines,
+  purchaseOrderCounters,
   customers,
   orders,
   orderItems,
   loyaltyAccounts,
+  loyaltyEvents,
   credits,
   creditTransactions,
   settingsTenant,
@@ -26,20 +50,63 @@ import {
   type InsertUserTenant,
   type Product,
   type InsertProduct,
+  type ProductHistoryEntry,
+  type ProductPack,
+  type InsertProductPack,
+  type PriceRule,
+  type InsertPriceRule,
+  type PriceList,
+  type InsertPriceList,
+  type PriceListItem,
+  type InsertPriceListItem,
+  type Promotion,
+  type InsertPromotion,
+  type InsertOrderDiscount,
+  type TaxJurisdiction,
+  type InsertTaxJurisdiction,
+  type TaxExemption,
+  type InsertTaxExemption,
+  type Location,
+  type InsertLocation,
+  type Batch,
+  type InsertBatch,
+  type InventoryLot,
+  type StockTransfer,
+  type StockTransferLine,
+  type Adjustment,
+  type InsertAdjustment,
+  type CountSession,
+  type InsertCountSession,
+  type CountEntry,
+  type InsertCountEntry,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PurchaseOrderLine,
+  type InsertPurchaseOrderLine,
   type Customer,
   type InsertCustomer,
   type Order,
   type InsertOrder,
+  type InsertOrderItem,
+  type OrderItem,
+  type OrderDiscount,
+  type OrderReturn,
+  type OrderReturnLine,
   type FeatureFlag,
   type FeatureFlagOverride,
   type InsertFeatureFlagOverride,
   type LoyaltyAccount,
+  type LoyaltyEvent,
   type Credit,
   type InsertCredit,
   type CreditTransaction,
   type InsertCreditTransaction,
   type Payment,
   type InsertPayment,
+  type Delivery,
+  type InsertDelivery,
   type TenantSettings,
   type KbArticle,
   type InsertKbArticle,
@@ -71,8 +138,300 @@ import {
   type InsertActivityEvent,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, or, like, ilike, isNull } from "drizzle-orm";
+import { eq, ne, and, asc, desc, sql, or, like, ilike, isNull, gt, gte, lt, lte, inArray } from "drizzle-orm";
 import { encrypt, decrypt, encryptOptional, decryptOptional, type EncryptedBlob } from "./crypto";
+import type { ProductImportRow } from "./product-import";
+import { ndcMatchKeys } from "./gs1";
+import { matchJurisdiction, type TaxAddress } from "./tax-jurisdictions";
+import { orderMovements, runLedger, valueStock, type LedgerMovement } from "./stock-ledger";
+import type { PricingContext } from "./pricing";
+import type { PromotionContext } from "./promotions";
+import type { TaxContext } from "./tax";
+
+export type PurchaseOrderLineDetail = PurchaseOrderLine & {
+  productName: string;
+  unit: string;
+  qtyOutstanding: number;
+  expectedCost: string; // qtyReceived at the agreed unitCost
+  costVariance: string; // receivedCost minus expectedCost; positive means we paid more than agreed
+};
+
+export type PurchaseOrderWithLines = PurchaseOrder & {
+  supplier: Supplier;
+  lines: PurchaseOrderLineDetail[];
+  orderedCost: string;
+  receivedCost: string;
+  costVariance: string;
+};
+
+export interface PurchaseOrderReceipt {
+  lineId: string;
+  qtyReceived: number; // In packs when packId is given
+  packId?: string | null;
+  locationId?: string | null; // Defaults to the tenant's default location
+  totalCost: string;
+  acquiredAt?: Date;
+  lotNumber?: string | null;
+  expiresAt?: Date | null;
+  notes?: string | null;
+}
+
+export type CountSessionDetail = CountSession & {
+  createdByName: string | null;
+  postedByName: string | null;
+  lines: Array<{
+    productId: string;
+    productName: string;
+    unit: string;
+    systemQty: number; // Live stock until the product's first count, then the snapshot taken then
+    countedQty: number | null; // Sum of entries; null until someone counts the product
+    varianceQty: number | null;
+    entries: Array<CountEntry & { countedByName: string | null }>;
+  }>;
+};
+
+export interface BatchTrace {
+  batch: Batch & { productName: string; unit: string };
+  lots: Array<{
+    id: string;
+    lotNumber: string | null;
+    qtyRemaining: number;
+    quarantinedAt: Date | null;
+  }>;
+  orders: Array<{
+    orderId: string;
+    status: Order['status'];
+    createdAt: Date | null;
+    customerId: string | null;
+    qty: number;
+  }>;
+  customers: Array<{
+    customerId: string;
+    name: string;
+    phone: string | null;
+    email: string | null;
+    orderCount: number;
+    qtyReceived: number;
+    lastOrderAt: Date | null;
+  }>;
+  qtySold: number;
+  qtyOnHand: number;
+}
+
+export interface ExpiringLot {
+  lotId: string;
+  batchId: string;
+  locationId: string | null;
+  locationName: string | null;
+  productId: string;
+  productName: string;
+  unit: string;
+  lotNumber: string | null;
+  expiresAt: Date;
+  qtyRemaining: number;
+  unitCost: string;
+  daysUntilExpiry: number; // Negative once expired
+  isExpired: boolean;
+}
+
+export type ProductWithInventory = Product & {
+  currentStock: number; // Sellable stock at the requested location, or across all locations
+  unavailableStock: number; // Expired or quarantined stock still on hand, in the same scope
+  wac: string;
+  minStockThreshold: number;
+  stockStatus: StockStatus;
+  locationStock: Array<{ locationId: string; currentStock: number; stockStatus: StockStatus }>;
+};
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+export type StockTransferDetail = StockTransfer & {
+  fromLocationName: string;
+  toLocationName: string;
+  createdByName: string | null;
+  completedByName: string | null;
+  totalQty: number;
+  lines: Array<StockTransferLine & { productName: string; unit: string; lotNumber: string | null; expiresAt: Date | null }>;
+};
+
+export type PriceListSummary = PriceList & {
+  itemCount: number;
+  customerCount: number;
+};
+
+export type PriceListDetail = PriceList & {
+  items: Array<PriceListItem & { productName: string; unit: string }>;
+};
+
+export interface PromotionReport {
+  from: Date;
+  to: Date;
+  promotions: Array<{
+    promotionId: string;
+    name: string;
+    code: string | null;
+    type: Promotion['type'];
+    archived: boolean;
+    redemptions: number;
+    customers: number; // Distinct named customers
+    salesValue: string; // Sales of the items it applies to on those orders, before discounts
+    discountValue: string; // Margin given away
+    costValue: string; // Cost of the same items, from FIFO allocation
+    marginAfterDiscount: string;
+  }>;
+  totals: { redemptions: number; salesValue: string; discountValue: string; marginAfterDiscount: string };
+}
+
+// Sales and tax by jurisdiction for filing; orders without a jurisdiction are grouped under null
+export interface SalesTaxReport {
+  from: Date;
+  to: Date;
+  jurisdictions: Array<{
+    jurisdictionId: string | null;
+    name: string;
+    state: string | null;
+    orders: number;
+    grossSales: string; // After discounts
+    taxableSales: string;
+    exemptSales: string; // Exempt products and certificate holders
+    certificateExemptSales: string;
+    taxCollected: string;
+  }>;
+  totals: { orders: number; grossSales: string; taxableSales: string; exemptSales: string; taxCollected: string };
+}
+
+export interface StockTransferItem {
+  productId: string;
+  qty: number;
+  lotId?: string | null; // Draw from this lot; otherwise FEFO across the source location's lots
+}
+
+// One stock movement for a product. Quantities are in the product's base unit;
+// balance and wac are running values after this movement.
+export interface StockLedgerEntry {
+  occurredAt: Date;
+  type: 'receipt' | 'sale' | 'void' | 'return' | 'adjustment';
+  sourceId: string; // Batch, order or adjustment id
+  reference: string | null; // PO number, supplier, or adjustment reason
+  batchId: string | null;
+  lotNumber: string | null;
+  qtyIn: number;
+  qtyOut: number;
+  unitCost: string;
+  balance: number;
+  wac: string;
+  actorName: string | null;
+  notes: string | null;
+}
+
+export interface StockLedger {
+  product: Product;
+  entries: StockLedgerEntry[];
+  currentStock: number; // Live lot stock; differs from the final balance only if lots were edited outside the ledger
+  wac: string;
+}
+
+// Stock on hand at a point in time, valued at actual lot cost (FIFO) and at the
+// weighted average cost of everything received up to that time (WAC)
+export interface InventoryValuation {
+  asOf: Date;
+  products: Array<{
+    productId: string;
+    name: string;
+    ndcCode: string | null;
+    unit: string;
+    qtyOnHand: number;
+    fifoValue: string;
+    wac: string;
+    wacValue: string;
+  }>;
+  totals: {
+    qtyOnHand: number;
+    fifoValue: string;
+    wacValue: string;
+  };
+}
+
+export type ShrinkagePeriod = 'day' | 'week' | 'month';
+
+interface ShrinkageTotals {
+  count: number;
+  qty: number;
+  value: string; // Loss at the cost of the lot each unit came out of
+}
+
+export interface ShrinkageReport {
+  from: Date;
+  to: Date;
+  period: ShrinkagePeriod;
+  totals: ShrinkageTotals & { salesValue: string; shrinkRate: number }; // Rate is loss value over sales, 0-1
+  byReason: Array<ShrinkageTotals & { reason: Adjustment['reason'] }>;
+  byProduct: Array<ShrinkageTotals & { productId: string; name: string; unit: string }>;
+  byUser: Array<ShrinkageTotals & { userId: string; name: string | null; personalOrSampleCount: number }>;
+  byPeriod: Array<ShrinkageTotals & { periodStart: Date; salesValue: string; shrinkRate: number }>;
+  flags: Array<{
+    kind: 'staff_personal_sample' | 'shrink_rate';
+    message: string;
+    userId?: string;
+    periodStart?: Date;
+  }>;
+}
+
+// Statuses a purchase order may move to by hand; receiving sets partially_received/received
+const purchaseOrderTransitions: Record<PurchaseOrder['status'], PurchaseOrder['status'][]> = {
+  draft: ['sent', 'closed'],
+  sent: ['closed'],
+  partially_received: ['closed'],
+  received: ['closed'],
+  closed: [],
+};
+
+export interface OrderReturnRequest {
+  reason: string;
+  lines: Array<{
+    orderItemId: string;
+    qty: number; // Base units
+    disposition: OrderReturnLine['disposition'];
+  }>;
+}
+
+// Issues a card refund for part of a payment and returns the processor's refund id. The
+// key is the same on every attempt for one refund, so a retry never refunds twice.
+export type CardRefundIssuer = (payment: Payment, amount: string, reason: string, idempotencyKey: string) => Promise<string>;
+
+// Refunds for payments taken outside Stripe are given at the counter, by the same method where there is one
+const counterRefundMethods: Record<string, OrderReturn['refundMethod']> = {
+  cash: 'cash',
+  card: 'card',
+};
+
+export type OrderReturnDetail = OrderReturn & {
+  createdByName: string | null;
+  lines: Array<OrderReturnLine & { productName: string; unit: string; lotNumber: string | null }>;
+};
+
+// Everything that happened to one order, for answering questions about it in one place
+export type OrderDetail = Order & {
+  customer: { id: string; name: string | null; phone: string | null; email: string | null } | null;
+  locationName: string | null;
+  createdByName: string | null;
+  items: Array<OrderItem & { productName: string; unit: string; packName: string | null; lotNumber: string | null }>;
+  discounts: OrderDiscount[];
+  payments: Payment[];
+  delivery: Omit<Delivery, 'addressLine1Enc' | 'cityEnc' | 'stateEnc' | 'postalCodeEnc'> | null;
+  loyaltyEvents: LoyaltyEvent[];
+  creditTransactions: CreditTransaction[];
+  returns: OrderReturnDetail[];
+  auditTrail: Array<AuditLog & { actorName: string | null }>;
+};
+
+// Statuses a sales order may move to. Paid orders are voided only by a refund, and voided is final.
+const orderTransitions: Record<Order['status'], Order['status'][]> = {
+  draft: ['confirmed', 'voided'],
+  confirmed: ['paid', 'voided'],
+  paid: ['voided'],
+  voided: [],
+};
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -91,15 +450,139 @@ export interface IStorage {
   updateFeatureFlagOverride(data: InsertFeatureFlagOverride): Promise<FeatureFlagOverride>;
   
   // Products
-  getProducts(tenantId: string): Promise<Product[]>;
-  getProductsWithInventory(tenantId: string): Promise<Array<Product & { 
-    currentStock: number; 
-    wac: string; 
-    minStockThreshold: number;
-    stockStatus: 'in_stock' | 'low_stock' | 'out_of_stock';
-  }>>;
+  getProducts(tenantId: string, options?: { includeArchived?: boolean }): Promise<Product[]>;
+  getProductsWithInventory(tenantId: string, options?: { includeArchived?: boolean; locationId?: string }): Promise<ProductWithInventory[]>;
   createProduct(product: InsertProduct): Promise<Product>;
+  importProducts(tenantId: string, rows: ProductImportRow[], importedBy: string): Promise<{ products: Product[]; openingStockLots: number }>;
   getProduct(id: string, tenantId: string): Promise<Product | undefined>;
+  getProductByNdc(tenantId: string, ndc: string): Promise<Product | undefined>;
+  updateProduct(id: string, tenantId: string, updates: Partial<Omit<InsertProduct, 'tenantId'>>, updatedBy: string): Promise<Product>;
+  archiveProduct(id: string, tenantId: string, archivedBy: string): Promise<Product>;
+  restoreProduct(id: string, tenantId: string, restoredBy: string): Promise<Product>;
+  getProductHistory(productId: string, tenantId: string): Promise<Array<ProductHistoryEntry & { changedByName: string | null }>>;
+  getReorderSuggestions(tenantId: string, lookbackDays?: number, locationId?: string): Promise<Array<{
+    productId: string;
+    name: string;
+    unit: string;
+    currentStock: number;
+    avgDailySales: number;
+    daysOfCover: number;
+    reorderPoint: number;
+    suggestedQty: number;
+    needsReorder: boolean;
+  }>>;
+  
+  // Product Packs
+  getProductPacks(tenantId: string, productId?: string): Promise<ProductPack[]>;
+  createProductPack(pack: InsertProductPack, createdBy: string): Promise<ProductPack>;
+  archiveProductPack(id: string, productId: string, tenantId: string, archivedBy: string): Promise<ProductPack>;
+  
+  // Pricing
+  getPriceRules(tenantId: string): Promise<Array<PriceRule & { productName: string | null }>>;
+  createPriceRule(rule: InsertPriceRule): Promise<PriceRule>;
+  deletePriceRule(id: string, tenantId: string, deletedBy: string): Promise<void>;
+  getPriceLists(tenantId: string): Promise<PriceListSummary[]>;
+  getPriceList(id: string, tenantId: string): Promise<PriceListDetail | undefined>;
+  createPriceList(list: InsertPriceList): Promise<PriceList>;
+  archivePriceList(id: string, tenantId: string, archivedBy: string): Promise<PriceList>;
+  setPriceListItem(item: InsertPriceListItem, tenantId: string, updatedBy: string): Promise<PriceListItem>;
+  deletePriceListItem(priceListId: string, productId: string, tenantId: string, deletedBy: string): Promise<void>;
+  setCustomerPriceList(customerId: string, tenantId: string, priceListId: string | null, updatedBy: string): Promise<Customer>;
+  getPricingContext(tenantId: string, productId: string, customerId?: string | null): Promise<PricingContext>;
+  
+  // Promotions
+  getPromotions(tenantId: string): Promise<Array<Promotion & { productName: string | null; redemptions: number }>>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  archivePromotion(id: string, tenantId: string, archivedBy: string): Promise<Promotion>;
+  getPromotionContext(tenantId: string, customerId: string | null): Promise<PromotionContext>;
+  getPromotionReport(tenantId: string, from: Date, to: Date): Promise<PromotionReport>;
+  
+  // Sales Tax
+  getTaxJurisdictions(tenantId: string): Promise<TaxJurisdiction[]>;
+  createTaxJurisdiction(jurisdiction: InsertTaxJurisdiction): Promise<TaxJurisdiction>;
+  archiveTaxJurisdiction(id: string, tenantId: string, archivedBy: string): Promise<TaxJurisdiction>;
+  getTaxExemptions(tenantId: string, customerId: string): Promise<TaxExemption[]>;
+  createTaxExemption(exemption: InsertTaxExemption): Promise<TaxExemption>;
+  revokeTaxExemption(id: string, tenantId: string, revokedBy: string): Promise<TaxExemption>;
+  getTaxContext(tenantId: string, options: { productIds: string[]; customerId: string | null; locationId: string | null; deliveryAddress: TaxAddress | null }): Promise<TaxContext>;
+  getSalesTaxReport(tenantId: string, from: Date, to: Date): Promise<SalesTaxReport>;
+  
+  // Locations
+  getLocations(tenantId: string, options?: { includeArchived?: boolean }): Promise<Location[]>;
+  createLocation(location: InsertLocation, createdBy: string): Promise<Location>;
+  archiveLocation(id: string, tenantId: string, archivedBy: string): Promise<Location>;
+  updateLocation(id: string, tenantId: string, updates: Partial<Pick<InsertLocation, 'address' | 'city' | 'state' | 'postalCode' | 'lat' | 'lon'>>, updatedBy: string): Promise<Location>;
+  getLocation(tenantId: string, locationId: string): Promise<Location>;
+  getCurrentLocation(userId: string, tenantId: string): Promise<Location>;
+  setCurrentLocation(userId: string, tenantId: string, locationId: string): Promise<Location>;
+  backfillDefaultLocations(): Promise<number>;
+  
+  // Stock Transfers
+  getStockTransfers(tenantId: string): Promise<StockTransferDetail[]>;
+  getStockTransfer(id: string, tenantId: string): Promise<StockTransferDetail | undefined>;
+  createStockTransfer(transfer: { tenantId: string; fromLocationId: string; toLocationId: string; notes?: string | null; createdBy: string }, items: StockTransferItem[]): Promise<StockTransferDetail>;
+  receiveStockTransfer(id: string, tenantId: string, receivedBy: string): Promise<StockTransferDetail>;
+  cancelStockTransfer(id: string, tenantId: string, cancelledBy: string): Promise<StockTransferDetail>;
+  
+  // Batches
+  getBatches(tenantId: string, productId: string): Promise<Array<Batch & { qtyOnHand: number }>>;
+  receiveBatch(batch: InsertBatch, receivedBy: string): Promise<{
+    batch: Batch;
+    currentStock: number;
+    wac: string;
+  }>;
+  
+  // Adjustments
+  createAdjustment(adjustment: InsertAdjustment, options?: { lotId?: string; locationId?: string }): Promise<{
+    adjustments: Adjustment[];
+    currentStock: number;
+  }>;
+  writeOffLot(lotId: string, tenantId: string, writtenOffBy: string, notes?: string | null): Promise<{
+    adjustments: Adjustment[];
+    currentStock: number;
+  }>;
+  getExpiringLots(tenantId: string, withinDays: number): Promise<ExpiringLot[]>;
+  
+  // Recalls
+  getBatchTrace(batchId: string, tenantId: string): Promise<BatchTrace | undefined>;
+  recallBatch(batchId: string, tenantId: string, reason: string, recalledBy: string): Promise<BatchTrace>;
+  getRecalledBatches(tenantId: string): Promise<Array<Batch & { productName: string; qtyQuarantined: number }>>;
+  recordRecallContactExport(batchId: string, tenantId: string, exportedBy: string, contactCount: number): Promise<void>;
+  getAdjustments(tenantId: string, productId?: string): Promise<Array<Adjustment & {
+    productName: string;
+    createdByName: string | null;
+  }>>;
+  
+  // Stock Ledger
+  getStockLedger(productId: string, tenantId: string): Promise<StockLedger | undefined>;
+  getInventoryValuation(tenantId: string, asOf: Date): Promise<InventoryValuation>;
+  getShrinkageReport(tenantId: string, from: Date, to: Date, period?: ShrinkagePeriod): Promise<ShrinkageReport>;
+  
+  // Physical Counts
+  getCountSessions(tenantId: string): Promise<Array<CountSession & { productCount: number; countedCount: number }>>;
+  getCountSession(id: string, tenantId: string): Promise<CountSessionDetail | undefined>;
+  createCountSession(session: InsertCountSession, productIds?: string[]): Promise<CountSession>;
+  addCountEntry(sessionId: string, tenantId: string, entry: Omit<InsertCountEntry, 'sessionId'>): Promise<CountEntry>;
+  deleteCountEntry(sessionId: string, entryId: string, tenantId: string): Promise<void>;
+  postCountSession(id: string, tenantId: string, postedBy: string): Promise<CountSessionDetail>;
+  
+  // Suppliers
+  getSuppliers(tenantId: string): Promise<Supplier[]>;
+  getSupplier(id: string, tenantId: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  
+  // Purchase Orders
+  getPurchaseOrders(tenantId: string): Promise<Array<PurchaseOrder & {
+    supplierName: string;
+    lineCount: number;
+    orderedCost: string;
+    receivedCost: string;
+  }>>;
+  getPurchaseOrder(id: string, tenantId: string): Promise<PurchaseOrderWithLines | undefined>;
+  createPurchaseOrder(purchaseOrder: Omit<InsertPurchaseOrder, 'poNumber'>, lines: Omit<InsertPurchaseOrderLine, 'purchaseOrderId'>[]): Promise<PurchaseOrderWithLines>;
+  sendPurchaseOrder(id: string, tenantId: string, sentBy: string): Promise<PurchaseOrder>;
+  closePurchaseOrder(id: string, tenantId: string, closedBy: string): Promise<PurchaseOrder>;
+  receivePurchaseOrder(id: string, tenantId: string, receipts: PurchaseOrderReceipt[], receivedBy: string, allowOverReceipt?: boolean): Promise<PurchaseOrderWithLines>;
   
   // Customers
   getCustomers(tenantId: string): Promise<Customer[]>;
@@ -115,8 +598,15 @@ export interface IStorage {
   
   // Orders
   getOrders(tenantId: string): Promise<Order[]>;
-  createOrder(order: InsertOrder): Promise<Order>;
+  createOrder(order: InsertOrder, items?: Omit<InsertOrderItem, 'orderId'>[], discounts?: Omit<InsertOrderDiscount, 'orderId'>[], delivery?: Omit<InsertDelivery, 'orderId'> | null): Promise<Order>;
   getOrder(id: string, tenantId: string): Promise<Order | undefined>;
+  getOrderDetail(id: string, tenantId: string): Promise<OrderDetail | undefined>;
+  confirmOrder(id: string, tenantId: string, confirmedBy: string): Promise<Order>;
+  markOrderPaid(id: string, tenantId: string, paidBy: string, payment?: { paymentMethod?: string | null; paymentNotes?: string | null }): Promise<Order>;
+  voidOrder(id: string, tenantId: string, voidedBy: string, reason: string): Promise<Order>;
+  refundOrder(id: string, tenantId: string, refundedBy: string, reason: string, issueCardRefund: CardRefundIssuer | null): Promise<Order>;
+  createOrderReturn(orderId: string, tenantId: string, createdBy: string, request: OrderReturnRequest, issueCardRefund: CardRefundIssuer | null): Promise<OrderReturnDetail>;
+  issueReturnRefund(orderId: string, returnId: string, tenantId: string, actor: string, issueCardRefund: CardRefundIssuer | null): Promise<OrderReturnDetail>;
   
   // Dashboard KPIs
   getDashboardKPIs(tenantId: string): Promise<{
@@ -124,6 +614,24 @@ export interface IStorage {
     ordersToday: number;
     lowStockItems: number;
     overdueCredits: string;
+    overdueCustomers: number;
+  }>;
+  getDashboardDrilldown(tenantId: string): Promise<{
+    lowStockProducts: Array<{
+      id: string;
+      name: string;
+      unit: string;
+      currentStock: number;
+      minStockThreshold: number;
+      stockStatus: 'low_stock' | 'out_of_stock';
+    }>;
+    overdueCustomers: Array<{
+      customerId: string;
+      customerName: string;
+      overdueAmount: string;
+      transactionCount: number;
+      oldestDueDate: Date | null;
+    }>;
   }>;
   
   // Settings
@@ -134,6 +642,7 @@ export interface IStorage {
   
   // Loyalty
   getLoyaltyAccounts(tenantId: string): Promise<(LoyaltyAccount & { customerName: string })[]>;
+  getLoyaltyBalance(tenantId: string, customerId: string): Promise<number>;
   
   // Credit
   getCreditAccounts(tenantId: string): Promise<(Credit & { customerName: string })[]>;
@@ -337,8 +846,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createTenant(tenant: InsertTenant): Promise<Tenant> {
-    const [newTenant] = await db.insert(tenants).values(tenant).returning();
-    return newTenant;
+    return await db.transaction(async (tx) => {
+      const [newTenant] = await tx.insert(tenants).values(tenant).returning();
+      await tx.insert(locations).values({ tenantId: newTenant.id, name: "Main Store", isDefault: true });
+      return newTenant;
+    });
   }
 
   async getUserTenants(userId: string): Promise<(UserTenant & { tenant: Tenant })[]> {
@@ -400,33 +912,37 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Products
-  async getProducts(tenantId: string): Promise<Product[]> {
-    return await db.select().from(products).where(eq(products.tenantId, tenantId));
+  // Archived products are left out unless asked for; getProduct still resolves them for old orders
+  async getProducts(tenantId: string, options: { includeArchived?: boolean } = {}): Promise<Product[]> {
+    const conditions = [eq(products.tenantId, tenantId)];
+    if (!options.includeArchived) {
+      conditions.push(isNull(products.archivedAt));
+    }
+    return await db.select().from(products).where(and(...conditions));
   }
 
-  async getProductsWithInventory(tenantId: string): Promise<Array<Product & { 
-    currentStock: number; 
-    wac: string; 
-    minStockThreshold: number;
-    stockStatus: 'in_stock' | 'low_stock' | 'out_of_stock';
-  }>> {
+  async getProductsWithInventory(tenantId: string, options: { includeArchived?: boolean; locationId?: string } = {}): Promise<ProductWithInventory[]> {
     // Get tenant settings for min stock threshold
     const tenantSettings = await this.getTenantSettings(tenantId);
     const minStockThreshold = tenantSettings?.minStockThreshold || 10;
 
     // Get all products for the tenant
-    const productList = await this.getProducts(tenantId);
-    
-    // Efficient bulk queries: get stock aggregates for all products at once
+    const productList = await this.getProducts(tenantId, options);
+
+    // Efficient bulk queries: get stock aggregates for all products and locations at once.
+    // Expired and quarantined lots cannot be sold, so they are totalled separately.
+    const unavailable = sql`(${inventoryLots.quarantinedAt} IS NOT NULL OR ${inventoryLots.expiresAt} <= NOW())`;
     const stockAggregates = await db
       .select({
         productId: inventoryLots.productId,
-        totalStock: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}), 0)`,
+        locationId: inventoryLots.locationId,
+        totalStock: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}) FILTER (WHERE NOT ${unavailable}), 0)`,
+        unavailableStock: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}) FILTER (WHERE ${unavailable}), 0)`,
       })
       .from(inventoryLots)
       .innerJoin(products, eq(inventoryLots.productId, products.id))
       .where(eq(products.tenantId, tenantId))
-      .groupBy(inventoryLots.productId);
+      .groupBy(inventoryLots.productId, inventoryLots.locationId);
 
     // Get WAC aggregates for all products at once (proper weighted average)
     const wacAggregates = await db
@@ -440,169 +956,4498 @@ export class DatabaseStorage implements IStorage {
       .groupBy(batches.productId);
 
     // Create lookup maps for efficient access
-    const stockMap = new Map(stockAggregates.map(s => [s.productId, s.totalStock]));
+    const stockMap = new Map<string, Array<{ locationId: string; currentStock: number; unavailableStock: number }>>();
+    for (const row of stockAggregates) {
+      const entries = stockMap.get(row.productId) ?? [];
+      entries.push({ locationId: row.locationId!, currentStock: Number(row.totalStock), unavailableStock: Number(row.unavailableStock) });
+      stockMap.set(row.productId, entries);
+    }
     const wacMap = new Map(wacAggregates.map(w => [w.productId, w.wac]));
+
+    // The same threshold applies to each location and to the total
+    const stockStatus = (stock: number): StockStatus => {
+      if (stock === 0) return 'out_of_stock';
+      return stock <= minStockThreshold ? 'low_stock' : 'in_stock';
+    };
     
     // Combine data for each product
     const productsWithInventory = productList.map(product => {
-      const currentStock = stockMap.get(product.id) || 0;
-      const wac = wacMap.get(product.id) || 0;
-
-      // Determine stock status
-      let stockStatus: 'in_stock' | 'low_stock' | 'out_of_stock';
-      if (currentStock === 0) {
-        stockStatus = 'out_of_stock';
-      } else if (currentStock <= minStockThreshold) {
-        stockStatus = 'low_stock';
-      } else {
-        stockStatus = 'in_stock';
+      const byLocation = stockMap.get(product.id) ?? [];
+      const inScope = options.locationId ? byLocation.filter(entry => entry.locationId === options.locationId) : byLocation;
+      const currentStock = inScope.reduce((sum, entry) => sum + entry.currentStock, 0);
+      const unavailableStock = inScope.reduce((sum, entry) => sum + entry.unavailableStock, 0);
+      const wac = Number(wacMap.get(product.id) || 0);
+
+      return {
+        ...product,
+        currentStock,
+        unavailableStock,
+        wac: wac.toFixed(4),
+        minStockThreshold,
+        stockStatus: stockStatus(currentStock),
+        locationStock: byLocation.map(({ locationId, currentStock }) => ({ locationId, currentStock, stockStatus: stockStatus(currentStock) })),
+      };
+    });
+
+    return productsWithInventory;
+  }
+
+  // Velocity-based reorder suggestions. Demand over the lead time plus safety days sets
+  // the reorder point; a suggested order tops stock up to that point plus one more lead
+  // time of demand so the next receipt is not immediately back at the reorder point.
+  async getReorderSuggestions(tenantId: string, lookbackDays: number = 30, locationId?: string): Promise<Array<{
+    productId: string;
+    name: string;
+    unit: string;
+    currentStock: number;
+    avgDailySales: number;
+    daysOfCover: number;
+    reorderPoint: number;
+    suggestedQty: number;
+    needsReorder: boolean;
+  }>> {
+    const tenantSettings = await this.getTenantSettings(tenantId);
+    const leadTimeDays = tenantSettings?.leadTimeDays ?? 7;
+    const safetyDays = tenantSettings?.safetyDays ?? 3;
+
+    const since = new Date();
+    since.setDate(since.getDate() - lookbackDays);
+
+    const conditions = [
+      eq(orders.tenantId, tenantId),
+      inArray(orders.status, ['confirmed', 'paid']),
+      sql`${orders.createdAt} >= ${since}`,
+    ];
+    if (locationId) {
+      // Orders from before locations existed count towards the default location
+      const defaultLocation = await this._getDefaultLocation(db, tenantId);
+      conditions.push(sql`COALESCE(${orders.locationId}, ${defaultLocation.id}) = ${locationId}`);
+    }
+
+    // Units sold per product on orders that actually consumed stock
+    const salesAggregates = await db
+      .select({
+        productId: orderItems.productId,
+        unitsSold: sql<number>`COALESCE(SUM(${orderItems.qty}), 0)`,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(...conditions))
+      .groupBy(orderItems.productId);
+
+    const salesMap = new Map(salesAggregates.map(s => [s.productId, Number(s.unitsSold)]));
+    const productsWithInventory = await this.getProductsWithInventory(tenantId, { locationId });
+
+    const suggestions = productsWithInventory
+      .filter(product => (salesMap.get(product.id) || 0) > 0)
+      .map(product => {
+        const avgDailySales = (salesMap.get(product.id) || 0) / lookbackDays;
+        const reorderPoint = Math.ceil(avgDailySales * (leadTimeDays + safetyDays));
+        const targetStock = reorderPoint + Math.ceil(avgDailySales * leadTimeDays);
+
+        return {
+          productId: product.id,
+          name: product.name,
+          unit: product.unit,
+          currentStock: product.currentStock,
+          avgDailySales: Math.round(avgDailySales * 100) / 100,
+          daysOfCover: Math.round((product.currentStock / avgDailySales) * 10) / 10,
+          reorderPoint,
+          suggestedQty: Math.max(0, targetStock - product.currentStock),
+          needsReorder: product.currentStock <= reorderPoint,
+        };
+      });
+
+    // Least cover first
+    return suggestions.sort((a, b) => a.daysOfCover - b.daysOfCover);
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const [newProduct] = await db.insert(products).values(product).returning();
+    return newProduct;
+  }
+
+  // All-or-nothing: products and their opening stock lots land in one transaction
+  async importProducts(tenantId: string, rows: ProductImportRow[], importedBy: string): Promise<{
+    products: Product[];
+    openingStockLots: number;
+  }> {
+    return await db.transaction(async (tx) => {
+      const created: Product[] = [];
+      let openingStockLots = 0;
+      const acquiredAt = new Date();
+
+      for (const row of rows) {
+        const [product] = await tx
+          .insert(products)
+          .values({
+            tenantId,
+            name: row.name,
+            ndcCode: row.ndcCode ?? null,
+            type: row.type,
+            unit: row.unit,
+            description: row.description ?? null,
+          })
+          .returning();
+        created.push(product);
+
+        if (row.openingQty > 0) {
+          await this._insertBatchWithLot(tx, {
+            tenantId,
+            productId: product.id,
+            acquiredAt,
+            qtyAcquired: row.openingQty,
+            totalCost: ((row.unitCost ?? 0) * row.openingQty).toFixed(2),
+            lotNumber: row.lotNumber ?? null,
+            expiresAt: row.expiresAt ?? null,
+            notes: "Opening stock (catalog import)",
+          }, importedBy, { source: 'product_import' });
+          openingStockLots++;
+        }
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'products',
+        targetId: tenantId,
+        action: 'create',
+        actor: importedBy,
+        actorType: 'user',
+        changes: { imported: created.length, openingStockLots },
+        metadata: { source: 'product_import', productIds: created.map(p => p.id) },
+      });
+
+      return { products: created, openingStockLots };
+    });
+  }
+
+  async getProduct(id: string, tenantId: string): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, id), eq(products.tenantId, tenantId)));
+    return product;
+  }
+
+  // Match a scanned NDC against the catalog whatever hyphenation or 10/11-digit form it was entered in
+  async getProductByNdc(tenantId: string, ndc: string): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(
+        eq(products.tenantId, tenantId),
+        isNull(products.archivedAt),
+        inArray(sql<string>`regexp_replace(${products.ndcCode}, '[^0-9]', '', 'g')`, ndcMatchKeys(ndc)),
+      ))
+      .limit(1);
+    return product;
+  }
+
+  async updateProduct(id: string, tenantId: string, updates: Partial<Omit<InsertProduct, 'tenantId'>>, updatedBy: string): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      const [product] = await tx
+        .select()
+        .from(products)
+        .where(and(eq(products.id, id), eq(products.tenantId, tenantId)))
+        .for('update');
+
+      if (!product) {
+        throw new Error("Product not found");
+      }
+      if (product.archivedAt) {
+        throw new Error("Product is archived; restore it before editing");
+      }
+
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      for (const [field, value] of Object.entries(updates)) {
+        if (value === undefined) continue;
+        const current = (product as Record<string, unknown>)[field];
+        if ((current ?? null) !== (value ?? null)) {
+          changes[field] = { from: current ?? null, to: value ?? null };
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return product;
+      }
+
+      const now = new Date();
+      const [updated] = await tx
+        .update(products)
+        .set({
+          ...Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.to])),
+          updatedAt: now,
+        })
+        .where(eq(products.id, id))
+        .returning();
+
+      const tracked = Object.entries(changes)
+        .filter(([field]) => (productHistoryFields as readonly string[]).includes(field));
+      if (tracked.length > 0) {
+        await tx.insert(productHistory).values(
+          tracked.map(([field, change]) => ({
+            tenantId,
+            productId: id,
+            field,
+            oldValue: change.from === null ? null : String(change.from),
+            newValue: change.to === null ? null : String(change.to),
+            changedBy: updatedBy,
+            changedAt: now,
+          }))
+        );
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'products',
+        targetId: id,
+        action: 'update',
+        actor: updatedBy,
+        actorType: 'user',
+        changes,
+      });
+
+      return updated;
+    });
+  }
+
+  async archiveProduct(id: string, tenantId: string, archivedBy: string): Promise<Product> {
+    return await this._setProductArchived(id, tenantId, archivedBy, true);
+  }
+
+  async restoreProduct(id: string, tenantId: string, restoredBy: string): Promise<Product> {
+    return await this._setProductArchived(id, tenantId, restoredBy, false);
+  }
+
+  private async _setProductArchived(id: string, tenantId: string, actor: string, archived: boolean): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      const [product] = await tx
+        .select()
+        .from(products)
+        .where(and(eq(products.id, id), eq(products.tenantId, tenantId)))
+        .for('update');
+
+      if (!product) {
+        throw new Error("Product not found");
+      }
+      if (!!product.archivedAt === archived) {
+        throw new Error(archived ? "Product is already archived" : "Product is not archived");
+      }
+
+      const now = new Date();
+      const [updated] = await tx
+        .update(products)
+        .set({
+          archivedAt: archived ? now : null,
+          archivedBy: archived ? actor : null,
+          updatedAt: now,
+        })
+        .where(eq(products.id, id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'products',
+        targetId: id,
+        action: 'update',
+        actor,
+        actorType: 'user',
+        changes: { archived: { from: !archived, to: archived } },
+      });
+
+      return updated;
+    });
+  }
+
+  async getProductHistory(productId: string, tenantId: string): Promise<Array<ProductHistoryEntry & { changedByName: string | null }>> {
+    const rows = await db
+      .select({
+        entry: productHistory,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(productHistory)
+      .leftJoin(users, eq(productHistory.changedBy, users.id))
+      .where(and(eq(productHistory.productId, productId), eq(productHistory.tenantId, tenantId)))
+      .orderBy(desc(productHistory.changedAt));
+
+    return rows.map(row => ({
+      ...row.entry,
+      changedByName: this._displayName(row),
+    }));
+  }
+
+  // Product Packs
+  async getProductPacks(tenantId: string, productId?: string): Promise<ProductPack[]> {
+    const conditions = [eq(productPacks.tenantId, tenantId), isNull(productPacks.archivedAt)];
+    if (productId) {
+      conditions.push(eq(productPacks.productId, productId));
+    }
+    return await db
+      .select()
+      .from(productPacks)
+      .where(and(...conditions))
+      .orderBy(asc(productPacks.qtyPerPack));
+  }
+
+  async createProductPack(pack: InsertProductPack, createdBy: string): Promise<ProductPack> {
+    if (!Number.isInteger(pack.qtyPerPack) || pack.qtyPerPack < 1) {
+      throw new Error("A pack must hold a whole number of base units");
+    }
+
+    return await db.transaction(async (tx) => {
+      const [product] = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.id, pack.productId), eq(products.tenantId, pack.tenantId)));
+      if (!product) {
+        throw new Error("Product not found");
+      }
+
+      const [existing] = await tx
+        .select({ id: productPacks.id })
+        .from(productPacks)
+        .where(and(eq(productPacks.productId, pack.productId), eq(productPacks.name, pack.name)));
+      if (existing) {
+        throw new Error(`A pack named "${pack.name}" already exists for this product`);
+      }
+
+      const [newPack] = await tx.insert(productPacks).values(pack).returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId: newPack.tenantId,
+        targetTable: 'product_packs',
+        targetId: newPack.id,
+        action: 'create',
+        actor: createdBy,
+        actorType: 'user',
+        changes: { productId: newPack.productId, name: newPack.name, qtyPerPack: newPack.qtyPerPack },
+      });
+
+      return newPack;
+    });
+  }
+
+  // Packs are archived rather than deleted so batches and order lines keep their purchase/sale unit
+  async archiveProductPack(id: string, productId: string, tenantId: string, archivedBy: string): Promise<ProductPack> {
+    return await db.transaction(async (tx) => {
+      const [pack] = await tx
+        .update(productPacks)
+        .set({ archivedAt: new Date() })
+        .where(and(
+          eq(productPacks.id, id),
+          eq(productPacks.productId, productId),
+          eq(productPacks.tenantId, tenantId),
+          isNull(productPacks.archivedAt)
+        ))
+        .returning();
+      if (!pack) {
+        throw new Error("Pack not found");
       }
 
-      return {
-        ...product,
-        currentStock,
-        wac: wac.toFixed(2),
-        minStockThreshold,
-        stockStatus,
-      };
-    });
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'product_packs',
+        targetId: id,
+        action: 'delete',
+        actor: archivedBy,
+        actorType: 'user',
+        changes: { name: pack.name, qtyPerPack: pack.qtyPerPack },
+      });
+
+      return pack;
+    });
+  }
+
+  // Resolve packs for a product, keyed by id; throws if any id is not an active pack of that product
+  private async _getPacks(executor: any, tenantId: string, productId: string, packIds: string[]): Promise<Map<string, ProductPack>> {
+    const ids = Array.from(new Set(packIds));
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const rows: ProductPack[] = await executor
+      .select()
+      .from(productPacks)
+      .where(and(
+        eq(productPacks.tenantId, tenantId),
+        eq(productPacks.productId, productId),
+        inArray(productPacks.id, ids),
+        isNull(productPacks.archivedAt)
+      ));
+    if (rows.length !== ids.length) {
+      throw new Error("Pack not found for this product");
+    }
+    return new Map(rows.map(pack => [pack.id, pack]));
+  }
+
+  // A batch received in packs carries its pack count; stock is always stored in base units
+  private async _normalizeBatchUnits(executor: any, batch: InsertBatch): Promise<InsertBatch> {
+    if (!batch.packId) {
+      return { ...batch, packId: null, packQty: null };
+    }
+
+    const packs = await this._getPacks(executor, batch.tenantId, batch.productId, [batch.packId]);
+    const pack = packs.get(batch.packId)!;
+    return {
+      ...batch,
+      packQty: batch.qtyAcquired,
+      qtyAcquired: batch.qtyAcquired * pack.qtyPerPack,
+    };
+  }
+
+  // Pricing
+  async getPriceRules(tenantId: string): Promise<Array<PriceRule & { productName: string | null }>> {
+    const rows = await db
+      .select({ rule: priceRules, productName: products.name })
+      .from(priceRules)
+      .leftJoin(products, eq(priceRules.productId, products.id))
+      .where(eq(priceRules.tenantId, tenantId))
+      .orderBy(asc(priceRules.type), asc(priceRules.category), asc(products.name), asc(priceRules.minQty));
+
+    return rows.map(row => ({ ...row.rule, productName: row.productName }));
+  }
+
+  // One list price per product, one margin per category and one rounding rule per scope;
+  // quantity breaks are unique per scope and minimum quantity
+  async createPriceRule(rule: InsertPriceRule): Promise<PriceRule> {
+    return await db.transaction(async (tx) => {
+      if (rule.productId && rule.category) {
+        throw new Error("A price rule applies to a product or a category, not both");
+      }
+      if (rule.productId) {
+        const [product] = await tx
+          .select({ id: products.id })
+          .from(products)
+          .where(and(eq(products.id, rule.productId), eq(products.tenantId, rule.tenantId)));
+        if (!product) {
+          throw new Error("Product not found");
+        }
+      }
+
+      const conditions = [
+        eq(priceRules.tenantId, rule.tenantId),
+        eq(priceRules.type, rule.type),
+        rule.productId ? eq(priceRules.productId, rule.productId) : isNull(priceRules.productId),
+        rule.category ? sql`LOWER(${priceRules.category}) = LOWER(${rule.category})` : isNull(priceRules.category),
+      ];
+      if (rule.type === 'quantity_break') {
+        conditions.push(eq(priceRules.minQty, rule.minQty!));
+      }
+      const [existing] = await tx
+        .select({ id: priceRules.id })
+        .from(priceRules)
+        .where(and(...conditions));
+      if (existing) {
+        throw new Error("A matching price rule already exists; remove it before adding another");
+      }
+
+      const [newRule] = await tx.insert(priceRules).values(rule).returning();
+      await this._recordListPriceHistory(tx, newRule, null, newRule.price);
+
+      await tx.insert(auditLogs).values({
+        tenantId: newRule.tenantId,
+        targetTable: 'price_rules',
+        targetId: newRule.id,
+        action: 'create',
+        actor: rule.createdBy!,
+        actorType: 'user',
+        changes: rule,
+      });
+
+      return newRule;
+    });
+  }
+
+  async deletePriceRule(id: string, tenantId: string, deletedBy: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [rule] = await tx
+        .delete(priceRules)
+        .where(and(eq(priceRules.id, id), eq(priceRules.tenantId, tenantId)))
+        .returning();
+      if (!rule) {
+        throw new Error("Price rule not found");
+      }
+      await this._recordListPriceHistory(tx, rule, rule.price, null, deletedBy);
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'price_rules',
+        targetId: id,
+        action: 'delete',
+        actor: deletedBy,
+        actorType: 'user',
+        changes: rule,
+      });
+    });
+  }
+
+  // A product's list price is a price rule, so its changes go into the product's history
+  private async _recordListPriceHistory(tx: any, rule: PriceRule, oldValue: string | null, newValue: string | null, changedBy = rule.createdBy): Promise<void> {
+    if (rule.type !== 'list_price' || !rule.productId) {
+      return;
+    }
+    await tx.insert(productHistory).values({
+      tenantId: rule.tenantId,
+      productId: rule.productId,
+      field: 'listPrice',
+      oldValue,
+      newValue,
+      changedBy,
+    });
+  }
+
+  async getPriceLists(tenantId: string): Promise<PriceListSummary[]> {
+    const lists = await db
+      .select({
+        list: priceLists,
+        itemCount: sql<number>`(SELECT COUNT(*) FROM ${priceListItems} WHERE ${priceListItems.priceListId} = ${priceLists.id})`,
+        customerCount: sql<number>`(SELECT COUNT(*) FROM ${customers} WHERE ${customers.priceListId} = ${priceLists.id})`,
+      })
+      .from(priceLists)
+      .where(and(eq(priceLists.tenantId, tenantId), isNull(priceLists.archivedAt)))
+      .orderBy(asc(priceLists.name));
+
+    return lists.map(row => ({
+      ...row.list,
+      itemCount: Number(row.itemCount),
+      customerCount: Number(row.customerCount),
+    }));
+  }
+
+  async getPriceList(id: string, tenantId: string): Promise<PriceListDetail | undefined> {
+    const [list] = await db
+      .select()
+      .from(priceLists)
+      .where(and(eq(priceLists.id, id), eq(priceLists.tenantId, tenantId)));
+    if (!list) {
+      return undefined;
+    }
+
+    const items = await db
+      .select({ item: priceListItems, productName: products.name, unit: products.unit })
+      .from(priceListItems)
+      .innerJoin(products, eq(priceListItems.productId, products.id))
+      .where(eq(priceListItems.priceListId, id))
+      .orderBy(asc(products.name));
+
+    return {
+      ...list,
+      items: items.map(row => ({ ...row.item, productName: row.productName, unit: row.unit })),
+    };
+  }
+
+  async createPriceList(list: InsertPriceList): Promise<PriceList> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: priceLists.id })
+        .from(priceLists)
+        .where(and(eq(priceLists.tenantId, list.tenantId), eq(priceLists.name, list.name)));
+      if (existing) {
+        throw new Error(`A price list named "${list.name}" already exists`);
+      }
+
+      const [newList] = await tx.insert(priceLists).values(list).returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId: newList.tenantId,
+        targetTable: 'price_lists',
+        targetId: newList.id,
+        action: 'create',
+        actor: list.createdBy!,
+        actorType: 'user',
+        changes: list,
+      });
+
+      return newList;
+    });
+  }
+
+  // Archived lists stop applying; customers on them go back to regular prices
+  async archivePriceList(id: string, tenantId: string, archivedBy: string): Promise<PriceList> {
+    return await db.transaction(async (tx) => {
+      const [archived] = await tx
+        .update(priceLists)
+        .set({ archivedAt: new Date() })
+        .where(and(eq(priceLists.id, id), eq(priceLists.tenantId, tenantId), isNull(priceLists.archivedAt)))
+        .returning();
+      if (!archived) {
+        throw new Error("Price list not found");
+      }
+
+      const released = await tx
+        .update(customers)
+        .set({ priceListId: null })
+        .where(and(eq(customers.tenantId, tenantId), eq(customers.priceListId, id)))
+        .returning({ id: customers.id });
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'price_lists',
+        targetId: id,
+        action: 'delete',
+        actor: archivedBy,
+        actorType: 'user',
+        changes: { name: archived.name, customersReleased: released.length },
+      });
+
+      return archived;
+    });
+  }
+
+  // One item per product and list; setting it again replaces the price or discount
+  async setPriceListItem(item: InsertPriceListItem, tenantId: string, updatedBy: string): Promise<PriceListItem> {
+    return await db.transaction(async (tx) => {
+      const [list] = await tx
+        .select({ id: priceLists.id })
+        .from(priceLists)
+        .where(and(eq(priceLists.id, item.priceListId), eq(priceLists.tenantId, tenantId), isNull(priceLists.archivedAt)));
+      if (!list) {
+        throw new Error("Price list not found");
+      }
+      const [product] = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.id, item.productId), eq(products.tenantId, tenantId)));
+      if (!product) {
+        throw new Error("Product not found");
+      }
+
+      const values = { price: item.price ?? null, discountRate: item.discountRate ?? null };
+      const [saved] = await tx
+        .insert(priceListItems)
+        .values({ ...item, ...values })
+        .onConflictDoUpdate({
+          target: [priceListItems.priceListId, priceListItems.productId],
+          set: values,
+        })
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'price_list_items',
+        targetId: saved.id,
+        action: 'update',
+        actor: updatedBy,
+        actorType: 'user',
+        changes: { priceListId: item.priceListId, productId: item.productId, ...values },
+      });
+
+      return saved;
+    });
+  }
+
+  async deletePriceListItem(priceListId: string, productId: string, tenantId: string, deletedBy: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [list] = await tx
+        .select({ id: priceLists.id })
+        .from(priceLists)
+        .where(and(eq(priceLists.id, priceListId), eq(priceLists.tenantId, tenantId)));
+      if (!list) {
+        throw new Error("Price list not found");
+      }
+
+      const [item] = await tx
+        .delete(priceListItems)
+        .where(and(eq(priceListItems.priceListId, priceListId), eq(priceListItems.productId, productId)))
+        .returning();
+      if (!item) {
+        throw new Error("Price list item not found");
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'price_list_items',
+        targetId: item.id,
+        action: 'delete',
+        actor: deletedBy,
+        actorType: 'user',
+        changes: item,
+      });
+    });
+  }
+
+  async setCustomerPriceList(customerId: string, tenantId: string, priceListId: string | null, updatedBy: string): Promise<Customer> {
+    await db.transaction(async (tx) => {
+      if (priceListId) {
+        const [list] = await tx
+          .select({ id: priceLists.id })
+          .from(priceLists)
+          .where(and(eq(priceLists.id, priceListId), eq(priceLists.tenantId, tenantId), isNull(priceLists.archivedAt)));
+        if (!list) {
+          throw new Error("Price list not found");
+        }
+      }
+
+      const [customer] = await tx
+        .update(customers)
+        .set({ priceListId })
+        .where(and(eq(customers.id, customerId), eq(customers.tenantId, tenantId)))
+        .returning({ id: customers.id });
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'customers',
+        targetId: customerId,
+        action: 'update',
+        actor: updatedBy,
+        actorType: 'user',
+        changes: { priceListId },
+      });
+    });
+
+    return (await this.getCustomerDecrypted(customerId, tenantId))!;
+  }
+
+  // Everything the pricing engine needs for one product; WAC stays null until stock is received.
+  // With a customer, includes their price list's terms for the product if the list is in effect.
+  async getPricingContext(tenantId: string, productId: string, customerId?: string | null): Promise<PricingContext> {
+    const product = await this.getProduct(productId, tenantId);
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const [wacResult] = await db
+      .select({
+        wac: sql<string | null>`SUM(${batches.totalCost}) / NULLIF(SUM(${batches.qtyAcquired}), 0)`,
+      })
+      .from(batches)
+      .where(and(eq(batches.tenantId, tenantId), eq(batches.productId, productId)));
+
+    const tenantSettings = await this.getTenantSettings(tenantId);
+    const rules = await db.select().from(priceRules).where(eq(priceRules.tenantId, tenantId));
+
+    let contract: PricingContext['contract'] = null;
+    if (customerId) {
+      const now = new Date();
+      const [row] = await db
+        .select({ list: priceLists, item: priceListItems })
+        .from(customers)
+        .innerJoin(priceLists, eq(customers.priceListId, priceLists.id))
+        .leftJoin(priceListItems, and(eq(priceListItems.priceListId, priceLists.id), eq(priceListItems.productId, productId)))
+        .where(and(
+          eq(customers.id, customerId),
+          eq(customers.tenantId, tenantId),
+          isNull(priceLists.archivedAt),
+          lte(priceLists.effectiveFrom, now),
+          or(isNull(priceLists.effectiveTo), gt(priceLists.effectiveTo, now))
+        ));
+      const discountRate = row?.item ? row.item.discountRate : row?.list.discountRate;
+      if (row && (row.item?.price || discountRate)) {
+        contract = {
+          priceListId: row.list.id,
+          name: row.list.name,
+          price: row.item?.price ? parseFloat(row.item.price) : null,
+          discountRate: discountRate ? parseFloat(discountRate) : null,
+        };
+      }
+    }
+
+    return {
+      product,
+      wac: wacResult?.wac === null || wacResult?.wac === undefined ? null : parseFloat(wacResult.wac),
+      targetMargin: parseFloat(tenantSettings?.targetMargin || "0.30"),
+      rules,
+      contract,
+    };
+  }
+
+  // Promotions
+  async getPromotions(tenantId: string): Promise<Array<Promotion & { productName: string | null; redemptions: number }>> {
+    const rows = await db
+      .select({
+        promotion: promotions,
+        productName: products.name,
+        // Counted like the per-customer limits: drafts have not taken the discount and voided orders gave it back
+        redemptions: sql<number>`(
+          SELECT COUNT(*) FROM ${orderDiscounts}
+          INNER JOIN ${orders} ON ${orders.id} = ${orderDiscounts.orderId}
+          WHERE ${orderDiscounts.promotionId} = ${promotions.id} AND ${orders.status} IN ('confirmed', 'paid')
+        )`,
+      })
+      .from(promotions)
+      .leftJoin(products, eq(promotions.productId, products.id))
+      .where(and(eq(promotions.tenantId, tenantId), isNull(promotions.archivedAt)))
+      .orderBy(desc(promotions.startsAt));
+
+    return rows.map(row => ({ ...row.promotion, productName: row.productName, redemptions: Number(row.redemptions) }));
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    return await db.transaction(async (tx) => {
+      if (promotion.productId) {
+        const [product] = await tx
+          .select({ id: products.id })
+          .from(products)
+          .where(and(eq(products.id, promotion.productId), eq(products.tenantId, promotion.tenantId)));
+        if (!product) {
+          throw new Error("Product not found");
+        }
+      }
+      if (promotion.code) {
+        const [existing] = await tx
+          .select({ id: promotions.id })
+          .from(promotions)
+          .where(and(eq(promotions.tenantId, promotion.tenantId), eq(promotions.code, promotion.code)));
+        if (existing) {
+          throw new Error(`The code ${promotion.code} already exists`);
+        }
+      }
+
+      const [newPromotion] = await tx.insert(promotions).values(promotion).returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId: newPromotion.tenantId,
+        targetTable: 'promotions',
+        targetId: newPromotion.id,
+        action: 'create',
+        actor: promotion.createdBy!,
+        actorType: 'user',
+        changes: promotion,
+      });
+
+      return newPromotion;
+    });
+  }
+
+  // Archived promotions stop applying but keep their discount lines for reporting
+  async archivePromotion(id: string, tenantId: string, archivedBy: string): Promise<Promotion> {
+    return await db.transaction(async (tx) => {
+      const [archived] = await tx
+        .update(promotions)
+        .set({ archivedAt: new Date() })
+        .where(and(eq(promotions.id, id), eq(promotions.tenantId, tenantId), isNull(promotions.archivedAt)))
+        .returning();
+      if (!archived) {
+        throw new Error("Promotion not found");
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'promotions',
+        targetId: id,
+        action: 'delete',
+        actor: archivedBy,
+        actorType: 'user',
+        changes: { name: archived.name, code: archived.code },
+      });
+
+      return archived;
+    });
+  }
+
+  // Uses on voided orders do not count against a customer's limit
+  async getPromotionContext(tenantId: string, customerId: string | null): Promise<PromotionContext> {
+    const activePromotions = await db
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.tenantId, tenantId), isNull(promotions.archivedAt)))
+      .orderBy(asc(promotions.createdAt));
+
+    const usage = customerId ? await this._getPromotionUsage(db, tenantId, customerId) : new Map<string, number>();
+
+    return { promotions: activePromotions, usage, customerId };
+  }
+
+  // Uses of each promotion by a customer. Only confirmed and paid orders count: a draft has
+  // not taken its discount yet and a voided order gave it back.
+  private async _getPromotionUsage(executor: any, tenantId: string, customerId: string, excludeOrderId?: string): Promise<Map<string, number>> {
+    const conditions = [
+      eq(orders.tenantId, tenantId),
+      eq(orders.customerId, customerId),
+      inArray(orders.status, ['confirmed', 'paid']),
+    ];
+    if (excludeOrderId) {
+      conditions.push(sql`${orders.id} <> ${excludeOrderId}`);
+    }
+
+    const uses: Array<{ promotionId: string; count: number }> = await executor
+      .select({ promotionId: orderDiscounts.promotionId, count: sql<number>`COUNT(*)` })
+      .from(orderDiscounts)
+      .innerJoin(orders, eq(orderDiscounts.orderId, orders.id))
+      .where(and(...conditions))
+      .groupBy(orderDiscounts.promotionId);
+    return new Map(uses.map(use => [use.promotionId, Number(use.count)]));
+  }
+
+  // Per-customer limits are checked again when an order takes its discounts, with the customer
+  // row locked so two tills cannot both spend the customer's last use
+  private async _assertPromotionLimits(tx: any, order: Order): Promise<void> {
+    if (!order.customerId) {
+      return;
+    }
+
+    const limited: Array<{ id: string; name: string; code: string | null; usageLimitPerCustomer: number }> = await tx
+      .select({ id: promotions.id, name: promotions.name, code: promotions.code, usageLimitPerCustomer: promotions.usageLimitPerCustomer })
+      .from(orderDiscounts)
+      .innerJoin(promotions, eq(orderDiscounts.promotionId, promotions.id))
+      .where(and(eq(orderDiscounts.orderId, order.id), sql`${promotions.usageLimitPerCustomer} IS NOT NULL`));
+    if (limited.length === 0) {
+      return;
+    }
+
+    await tx
+      .select({ id: customers.id })
+      .from(customers)
+      .where(eq(customers.id, order.customerId))
+      .for('update');
+
+    const usage = await this._getPromotionUsage(tx, order.tenantId, order.customerId, order.id);
+    for (const promotion of limited) {
+      if ((usage.get(promotion.id) ?? 0) >= promotion.usageLimitPerCustomer) {
+        const label = promotion.code ? `code ${promotion.code}` : promotion.name;
+        throw new Error(`Promotion ${label} has already been used the maximum number of times by this customer`);
+      }
+    }
+  }
+
+  async getPromotionReport(tenantId: string, from: Date, to: Date): Promise<PromotionReport> {
+    const orderFilter = and(
+      eq(orders.tenantId, tenantId),
+      inArray(orders.status, ['confirmed', 'paid']),
+      gte(orders.createdAt, from),
+      lte(orders.createdAt, to)
+    );
+
+    const redemptions = await db
+      .select({
+        promotion: promotions,
+        redemptions: sql<number>`COUNT(*)`,
+        customers: sql<number>`COUNT(DISTINCT ${orders.customerId})`,
+        discountValue: sql<string>`COALESCE(SUM(${orderDiscounts.amount}), 0)`,
+      })
+      .from(orderDiscounts)
+      .innerJoin(orders, eq(orderDiscounts.orderId, orders.id))
+      .innerJoin(promotions, eq(orderDiscounts.promotionId, promotions.id))
+      .where(orderFilter)
+      .groupBy(promotions.id);
+
+    // A promotion applies at most once per order, so each order's items are counted once.
+    // Only items in the promotion's scope count: its product, or every item when it has none.
+    const scopedItems = await db
+      .select({
+        promotionId: orderDiscounts.promotionId,
+        salesValue: sql<string>`COALESCE(SUM(${orderItems.qty} * ${orderItems.unitPrice}), 0)`,
+        costValue: sql<string>`COALESCE(SUM(${orderItems.qty} * ${orderItems.unitCostSnapshot}), 0)`,
+      })
+      .from(orderDiscounts)
+      .innerJoin(orders, eq(orderDiscounts.orderId, orders.id))
+      .innerJoin(promotions, eq(orderDiscounts.promotionId, promotions.id))
+      .innerJoin(orderItems, eq(orderItems.orderId, orders.id))
+      .where(and(
+        orderFilter,
+        or(isNull(promotions.productId), eq(orderItems.productId, promotions.productId))
+      ))
+      .groupBy(orderDiscounts.promotionId);
+    const scopedMap = new Map(scopedItems.map(row => [row.promotionId, row]));
+
+    const rows = redemptions
+      .map(row => {
+        const scoped = scopedMap.get(row.promotion.id);
+        const salesValue = parseFloat(scoped?.salesValue ?? "0");
+        const discountValue = parseFloat(row.discountValue);
+        const costValue = parseFloat(scoped?.costValue ?? "0");
+        return {
+          promotionId: row.promotion.id,
+          name: row.promotion.name,
+          code: row.promotion.code,
+          type: row.promotion.type,
+          archived: row.promotion.archivedAt !== null,
+          redemptions: Number(row.redemptions),
+          customers: Number(row.customers),
+          salesValue: salesValue.toFixed(2),
+          discountValue: discountValue.toFixed(2),
+          costValue: costValue.toFixed(2),
+          marginAfterDiscount: (salesValue - discountValue - costValue).toFixed(2),
+        };
+      })
+      .sort((a, b) => parseFloat(b.discountValue) - parseFloat(a.discountValue));
+
+    const sum = (field: 'salesValue' | 'discountValue' | 'marginAfterDiscount') =>
+      rows.reduce((total, row) => total + parseFloat(row[field]), 0).toFixed(2);
+
+    return {
+      from,
+      to,
+      promotions: rows,
+      totals: {
+        redemptions: rows.reduce((total, row) => total + row.redemptions, 0),
+        salesValue: sum('salesValue'),
+        discountValue: sum('discountValue'),
+        marginAfterDiscount: sum('marginAfterDiscount'),
+      },
+    };
+  }
+
+  // Sales Tax
+  async getTaxJurisdictions(tenantId: string): Promise<TaxJurisdiction[]> {
+    return await db
+      .select()
+      .from(taxJurisdictions)
+      .where(and(eq(taxJurisdictions.tenantId, tenantId), isNull(taxJurisdictions.archivedAt)))
+      .orderBy(asc(taxJurisdictions.state), asc(taxJurisdictions.city), asc(taxJurisdictions.postalCode));
+  }
+
+  // One active jurisdiction per state, city and postal code combination
+  async createTaxJurisdiction(jurisdiction: InsertTaxJurisdiction): Promise<TaxJurisdiction> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: taxJurisdictions.id })
+        .from(taxJurisdictions)
+        .where(and(
+          eq(taxJurisdictions.tenantId, jurisdiction.tenantId),
+          isNull(taxJurisdictions.archivedAt),
+          sql`LOWER(${taxJurisdictions.state}) = LOWER(${jurisdiction.state})`,
+          jurisdiction.city ? sql`LOWER(${taxJurisdictions.city}) = LOWER(${jurisdiction.city})` : isNull(taxJurisdictions.city),
+          jurisdiction.postalCode ? eq(taxJurisdictions.postalCode, jurisdiction.postalCode) : isNull(taxJurisdictions.postalCode)
+        ));
+      if (existing) {
+        throw new Error("A jurisdiction for this area already exists; archive it before adding another");
+      }
+
+      const [newJurisdiction] = await tx.insert(taxJurisdictions).values(jurisdiction).returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId: newJurisdiction.tenantId,
+        targetTable: 'tax_jurisdictions',
+        targetId: newJurisdiction.id,
+        action: 'create',
+        actor: jurisdiction.createdBy!,
+        actorType: 'user',
+        changes: jurisdiction,
+      });
+
+      return newJurisdiction;
+    });
+  }
+
+  // Archived jurisdictions stay on past orders for filing
+  async archiveTaxJurisdiction(id: string, tenantId: string, archivedBy: string): Promise<TaxJurisdiction> {
+    return await db.transaction(async (tx) => {
+      const [archived] = await tx
+        .update(taxJurisdictions)
+        .set({ archivedAt: new Date() })
+        .where(and(eq(taxJurisdictions.id, id), eq(taxJurisdictions.tenantId, tenantId), isNull(taxJurisdictions.archivedAt)))
+        .returning();
+      if (!archived) {
+        throw new Error("Tax jurisdiction not found");
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'tax_jurisdictions',
+        targetId: id,
+        action: 'delete',
+        actor: archivedBy,
+        actorType: 'user',
+        changes: { name: archived.name, rate: archived.rate },
+      });
+
+      return archived;
+    });
+  }
+
+  async getTaxExemptions(tenantId: string, customerId: string): Promise<TaxExemption[]> {
+    return await db
+      .select()
+      .from(taxExemptions)
+      .where(and(
+        eq(taxExemptions.tenantId, tenantId),
+        eq(taxExemptions.customerId, customerId),
+        isNull(taxExemptions.revokedAt)
+      ))
+      .orderBy(desc(taxExemptions.expiresAt));
+  }
+
+  async createTaxExemption(exemption: InsertTaxExemption): Promise<TaxExemption> {
+    return await db.transaction(async (tx) => {
+      const [customer] = await tx
+        .select({ id: customers.id })
+        .from(customers)
+        .where(and(eq(customers.id, exemption.customerId), eq(customers.tenantId, exemption.tenantId)));
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+
+      const [newExemption] = await tx.insert(taxExemptions).values(exemption).returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId: newExemption.tenantId,
+        targetTable: 'tax_exemptions',
+        targetId: newExemption.id,
+        action: 'create',
+        actor: exemption.createdBy!,
+        actorType: 'user',
+        changes: exemption,
+      });
+
+      return newExemption;
+    });
+  }
+
+  async revokeTaxExemption(id: string, tenantId: string, revokedBy: string): Promise<TaxExemption> {
+    return await db.transaction(async (tx) => {
+      const [revoked] = await tx
+        .update(taxExemptions)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(taxExemptions.id, id), eq(taxExemptions.tenantId, tenantId), isNull(taxExemptions.revokedAt)))
+        .returning();
+      if (!revoked) {
+        throw new Error("Tax exemption not found");
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'tax_exemptions',
+        targetId: id,
+        action: 'delete',
+        actor: revokedBy,
+        actorType: 'user',
+        changes: { customerId: revoked.customerId, certificateNumber: revoked.certificateNumber },
+      });
+
+      return revoked;
+    });
+  }
+
+  // Delivery orders are taxed where they are delivered; everything else where it is picked up
+  async getTaxContext(
+    tenantId: string,
+    options: { productIds: string[]; customerId: string | null; locationId: string | null; deliveryAddress: TaxAddress | null },
+  ): Promise<TaxContext> {
+    const address: TaxAddress = options.deliveryAddress ?? (options.locationId
+      ? await this._getLocation(db, tenantId, options.locationId, { includeArchived: true })
+      : await this._getDefaultLocation(db, tenantId));
+
+    const jurisdiction = matchJurisdiction(await this.getTaxJurisdictions(tenantId), address);
+
+    let exemption: TaxExemption | null = null;
+    if (jurisdiction && options.customerId) {
+      const now = new Date();
+      const certificates = await this.getTaxExemptions(tenantId, options.customerId);
+      exemption = certificates.find(certificate =>
+        certificate.expiresAt > now &&
+        (!certificate.state || certificate.state.trim().toLowerCase() === jurisdiction.state.trim().toLowerCase())
+      ) ?? null;
+    }
+
+    const productRows = options.productIds.length > 0
+      ? await db
+          .select({ id: products.id, taxCategory: products.taxCategory })
+          .from(products)
+          .where(and(eq(products.tenantId, tenantId), inArray(products.id, options.productIds)))
+      : [];
+
+    return {
+      jurisdiction,
+      exemption,
+      categories: new Map(productRows.map(row => [row.id, row.taxCategory])),
+    };
+  }
+
+  async getSalesTaxReport(tenantId: string, from: Date, to: Date): Promise<SalesTaxReport> {
+    const rows = await db
+      .select({
+        jurisdictionId: orders.taxJurisdictionId,
+        name: taxJurisdictions.name,
+        state: taxJurisdictions.state,
+        orders: sql<number>`COUNT(*)`,
+        grossSales: sql<string>`COALESCE(SUM(${orders.subtotal} - ${orders.discount}), 0)`,
+        taxableSales: sql<string>`COALESCE(SUM(${orders.taxableAmount}), 0)`,
+        certificateExemptSales: sql<string>`COALESCE(SUM(CASE WHEN ${orders.taxExemptionId} IS NOT NULL THEN ${orders.subtotal} - ${orders.discount} ELSE 0 END), 0)`,
+        taxCollected: sql<string>`COALESCE(SUM(${orders.tax}), 0)`,
+      })
+      .from(orders)
+      .leftJoin(taxJurisdictions, eq(orders.taxJurisdictionId, taxJurisdictions.id))
+      .where(and(
+        eq(orders.tenantId, tenantId),
+        inArray(orders.status, ['confirmed', 'paid']),
+        gte(orders.createdAt, from),
+        lte(orders.createdAt, to)
+      ))
+      .groupBy(orders.taxJurisdictionId, taxJurisdictions.name, taxJurisdictions.state)
+      .orderBy(asc(taxJurisdictions.state), asc(taxJurisdictions.name));
+
+    const jurisdictionRows = rows.map(row => {
+      const grossSales = parseFloat(row.grossSales);
+      const taxableSales = parseFloat(row.taxableSales);
+      return {
+        jurisdictionId: row.jurisdictionId,
+        name: row.name ?? "No jurisdiction",
+        state: row.state,
+        orders: Number(row.orders),
+        grossSales: grossSales.toFixed(2),
+        taxableSales: taxableSales.toFixed(2),
+        exemptSales: (grossSales - taxableSales).toFixed(2),
+        certificateExemptSales: parseFloat(row.certificateExemptSales).toFixed(2),
+        taxCollected: parseFloat(row.taxCollected).toFixed(2),
+      };
+    });
+
+    const sum = (field: 'grossSales' | 'taxableSales' | 'exemptSales' | 'taxCollected') =>
+      jurisdictionRows.reduce((total, row) => total + parseFloat(row[field]), 0).toFixed(2);
+
+    return {
+      from,
+      to,
+      jurisdictions: jurisdictionRows,
+      totals: {
+        orders: jurisdictionRows.reduce((total, row) => total + row.orders, 0),
+        grossSales: sum('grossSales'),
+        taxableSales: sum('taxableSales'),
+        exemptSales: sum('exemptSales'),
+        taxCollected: sum('taxCollected'),
+      },
+    };
+  }
+
+  // Locations
+  async getLocations(tenantId: string, options: { includeArchived?: boolean } = {}): Promise<Location[]> {
+    const conditions = [eq(locations.tenantId, tenantId)];
+    if (!options.includeArchived) {
+      conditions.push(isNull(locations.archivedAt));
+    }
+    return await db
+      .select()
+      .from(locations)
+      .where(and(...conditions))
+      .orderBy(desc(locations.isDefault), asc(locations.name));
+  }
+
+  async createLocation(location: InsertLocation, createdBy: string): Promise<Location> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: locations.id })
+        .from(locations)
+        .where(and(eq(locations.tenantId, location.tenantId), eq(locations.name, location.name)));
+      if (existing) {
+        throw new Error(`A location named "${location.name}" already exists`);
+      }
+
+      const [newLocation] = await tx.insert(locations).values(location).returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId: newLocation.tenantId,
+        targetTable: 'locations',
+        targetId: newLocation.id,
+        action: 'create',
+        actor: createdBy,
+        actorType: 'user',
+        changes: { name: newLocation.name, address: newLocation.address },
+      });
+
+      return newLocation;
+    });
+  }
+
+  async getLocation(tenantId: string, locationId: string): Promise<Location> {
+    return await this._getLocation(db, tenantId, locationId);
+  }
+
+  // Address fields only; the name and default flag do not change after creation
+  async updateLocation(id: string, tenantId: string, updates: Partial<Pick<InsertLocation, 'address' | 'city' | 'state' | 'postalCode' | 'lat' | 'lon'>>, updatedBy: string): Promise<Location> {
+    return await db.transaction(async (tx) => {
+      const location = await this._getLocation(tx, tenantId, id);
+
+      const [updated] = await tx
+        .update(locations)
+        .set(updates)
+        .where(eq(locations.id, location.id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'locations',
+        targetId: id,
+        action: 'update',
+        actor: updatedBy,
+        actorType: 'user',
+        changes: updates,
+      });
+
+      return updated;
+    });
+  }
+
+  // Only empty locations can be archived; stock must be transferred out first
+  async archiveLocation(id: string, tenantId: string, archivedBy: string): Promise<Location> {
+    return await db.transaction(async (tx) => {
+      const [location] = await tx
+        .select()
+        .from(locations)
+        .where(and(eq(locations.id, id), eq(locations.tenantId, tenantId), isNull(locations.archivedAt)))
+        .for('update');
+      if (!location) {
+        throw new Error("Location not found");
+      }
+      if (location.isDefault) {
+        throw new Error("The default location cannot be archived");
+      }
+
+      const [stock] = await tx
+        .select({ qty: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}), 0)` })
+        .from(inventoryLots)
+        .where(eq(inventoryLots.locationId, id));
+      if (Number(stock?.qty || 0) > 0) {
+        throw new Error(`${location.name} still holds ${stock.qty} units; transfer them out before archiving`);
+      }
+
+      const [pending] = await tx
+        .select({ id: stockTransfers.id })
+        .from(stockTransfers)
+        .where(and(
+          eq(stockTransfers.status, 'in_transit'),
+          or(eq(stockTransfers.fromLocationId, id), eq(stockTransfers.toLocationId, id))
+        ))
+        .limit(1);
+      if (pending) {
+        throw new Error(`${location.name} has transfers in transit; receive or cancel them before archiving`);
+      }
+
+      const [archived] = await tx
+        .update(locations)
+        .set({ archivedAt: new Date() })
+        .where(eq(locations.id, id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'locations',
+        targetId: id,
+        action: 'delete',
+        actor: archivedBy,
+        actorType: 'user',
+        changes: { name: location.name },
+      });
+
+      return archived;
+    });
+  }
+
+  // The location the user last chose, falling back to the default if it was never set or is archived
+  async getCurrentLocation(userId: string, tenantId: string): Promise<Location> {
+    const [row] = await db
+      .select({ location: locations })
+      .from(usersTenants)
+      .innerJoin(locations, eq(usersTenants.currentLocationId, locations.id))
+      .where(and(
+        eq(usersTenants.userId, userId),
+        eq(usersTenants.tenantId, tenantId),
+        isNull(locations.archivedAt)
+      ));
+
+    return row?.location ?? await this._getDefaultLocation(db, tenantId);
+  }
+
+  async setCurrentLocation(userId: string, tenantId: string, locationId: string): Promise<Location> {
+    const location = await this._getLocation(db, tenantId, locationId);
+    await db
+      .update(usersTenants)
+      .set({ currentLocationId: location.id })
+      .where(and(eq(usersTenants.userId, userId), eq(usersTenants.tenantId, tenantId)));
+    return location;
+  }
+
+  // Startup step: give every tenant without one a default location, and assign it the stock
+  // received before locations existed. Returns how many tenants were set up; safe to re-run.
+  async backfillDefaultLocations(): Promise<number> {
+    const missing = await db
+      .select({ id: tenants.id })
+      .from(tenants)
+      .leftJoin(locations, and(eq(locations.tenantId, tenants.id), eq(locations.isDefault, true)))
+      .where(isNull(locations.id));
+
+    for (const tenant of missing) {
+      await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(locations)
+          .values({ tenantId: tenant.id, name: "Main Store", isDefault: true })
+          .onConflictDoNothing()
+          .returning();
+        if (!created) {
+          return; // Another instance set this tenant up first
+        }
+
+        await tx
+          .update(inventoryLots)
+          .set({ locationId: created.id })
+          .where(and(eq(inventoryLots.tenantId, tenant.id), isNull(inventoryLots.locationId)));
+        await tx
+          .update(batches)
+          .set({ locationId: created.id })
+          .where(and(eq(batches.tenantId, tenant.id), isNull(batches.locationId)));
+      });
+    }
+
+    return missing.length;
+  }
+
+  // Read-only: tenants get their default at creation, or from backfillDefaultLocations at startup
+  private async _getDefaultLocation(executor: any, tenantId: string): Promise<Location> {
+    const [location] = await executor
+      .select()
+      .from(locations)
+      .where(and(eq(locations.tenantId, tenantId), eq(locations.isDefault, true)));
+    if (!location) {
+      throw new Error("Default location not found");
+    }
+    return location;
+  }
+
+  private async _getLocation(executor: any, tenantId: string, locationId: string, options: { includeArchived?: boolean } = {}): Promise<Location> {
+    const conditions = [eq(locations.id, locationId), eq(locations.tenantId, tenantId)];
+    if (!options.includeArchived) {
+      conditions.push(isNull(locations.archivedAt));
+    }
+    const [location] = await executor.select().from(locations).where(and(...conditions));
+    if (!location) {
+      throw new Error("Location not found");
+    }
+    return location;
+  }
+
+  // Stock Transfers
+  async getStockTransfers(tenantId: string): Promise<StockTransferDetail[]> {
+    return await this._getStockTransferDetails(db, tenantId);
+  }
+
+  async getStockTransfer(id: string, tenantId: string): Promise<StockTransferDetail | undefined> {
+    const [transfer] = await this._getStockTransferDetails(db, tenantId, id);
+    return transfer;
+  }
+
+  // Dispatch: stock leaves the source location's lots now and is in transit until received
+  async createStockTransfer(
+    transfer: { tenantId: string; fromLocationId: string; toLocationId: string; notes?: string | null; createdBy: string },
+    items: StockTransferItem[],
+  ): Promise<StockTransferDetail> {
+    if (items.length === 0) {
+      throw new Error("Transfer at least one product");
+    }
+    if (transfer.fromLocationId === transfer.toLocationId) {
+      throw new Error("A transfer needs two different locations");
+    }
+
+    return await db.transaction(async (tx) => {
+      const { tenantId } = transfer;
+      const from = await this._getLocation(tx, tenantId, transfer.fromLocationId);
+      await this._getLocation(tx, tenantId, transfer.toLocationId);
+
+      const [newTransfer] = await tx.insert(stockTransfers).values(transfer).returning();
+
+      for (const item of items) {
+        // A targeted lot may be expired (e.g. sent back to a central store) but never quarantined
+        const lots = await this._lockAvailableLots(tx, tenantId, item.productId, {
+          locationId: from.id,
+          lotId: item.lotId ?? undefined,
+          includeExpired: !!item.lotId,
+        });
+        if (lots.some(lot => lot.quarantinedAt)) {
+          throw new Error("Quarantined lots cannot be transferred");
+        }
+
+        const available = lots.reduce((sum, lot) => sum + lot.qtyRemaining, 0);
+        if (available < item.qty) {
+          const [product] = await tx
+            .select({ name: products.name })
+            .from(products)
+            .where(eq(products.id, item.productId));
+          throw new Error(`Insufficient stock for ${product?.name ?? item.productId} at ${from.name}: requested ${item.qty}, available ${available}`);
+        }
+
+        let remaining = item.qty;
+        for (const lot of lots) {
+          if (remaining === 0) break;
+
+          const take = Math.min(remaining, lot.qtyRemaining);
+          await tx
+            .update(inventoryLots)
+            .set({ qtyRemaining: lot.qtyRemaining - take })
+            .where(eq(inventoryLots.id, lot.id));
+
+          await tx.insert(stockTransferLines).values({
+            transferId: newTransfer.id,
+            productId: item.productId,
+            batchId: lot.batchId,
+            sourceLotId: lot.id,
+            qty: take,
+          });
+          remaining -= take;
+        }
+      }
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'stock_transfers',
+        targetId: newTransfer.id,
+        action: 'create',
+        actor: transfer.createdBy,
+        actorType: 'user',
+        changes: {
+          fromLocationId: newTransfer.fromLocationId,
+          toLocationId: newTransfer.toLocationId,
+          items: items.map(item => ({ productId: item.productId, qty: item.qty, lotId: item.lotId ?? null })),
+        },
+      });
+
+      const [detail] = await this._getStockTransferDetails(tx, tenantId, newTransfer.id);
+      return detail;
+    });
+  }
+
+  // Receipt opens a lot per line at the destination, on the same batch so cost, expiry
+  // and recall tracing carry over
+  async receiveStockTransfer(id: string, tenantId: string, receivedBy: string): Promise<StockTransferDetail> {
+    return await db.transaction(async (tx) => {
+      const transfer = await this._lockInTransitTransfer(tx, id, tenantId, 'received');
+
+      const lines = await tx
+        .select({
+          line: stockTransferLines,
+          lotNumber: inventoryLots.lotNumber,
+          expiresAt: inventoryLots.expiresAt,
+          recalledAt: batches.recalledAt,
+        })
+        .from(stockTransferLines)
+        .innerJoin(inventoryLots, eq(stockTransferLines.sourceLotId, inventoryLots.id))
+        .innerJoin(batches, eq(stockTransferLines.batchId, batches.id))
+        .where(eq(stockTransferLines.transferId, id));
+
+      for (const { line, lotNumber, expiresAt, recalledAt } of lines) {
+        const [lot] = await tx
+          .insert(inventoryLots)
+          .values({
+            tenantId,
+            productId: line.productId,
+            batchId: line.batchId,
+            locationId: transfer.toLocationId,
+            lotNumber,
+            expiresAt,
+            // A batch recalled while in transit arrives quarantined
+            quarantinedAt: recalledAt,
+            qtyRemaining: line.qty,
+          })
+          .returning();
+
+        await tx
+          .update(stockTransferLines)
+          .set({ destinationLotId: lot.id })
+          .where(eq(stockTransferLines.id, line.id));
+      }
+
+      return await this._completeStockTransfer(tx, transfer, 'received', receivedBy);
+    });
+  }
+
+  // Cancelling returns each line to the lot it was drawn from
+  async cancelStockTransfer(id: string, tenantId: string, cancelledBy: string): Promise<StockTransferDetail> {
+    return await db.transaction(async (tx) => {
+      const transfer = await this._lockInTransitTransfer(tx, id, tenantId, 'cancelled');
+
+      const lines = await tx
+        .select()
+        .from(stockTransferLines)
+        .where(eq(stockTransferLines.transferId, id));
+
+      for (const line of lines) {
+        await tx
+          .update(inventoryLots)
+          .set({ qtyRemaining: sql`${inventoryLots.qtyRemaining} + ${line.qty}` })
+          .where(eq(inventoryLots.id, line.sourceLotId));
+      }
+
+      return await this._completeStockTransfer(tx, transfer, 'cancelled', cancelledBy);
+    });
+  }
+
+  private async _lockInTransitTransfer(tx: any, id: string, tenantId: string, to: StockTransfer['status']): Promise<StockTransfer> {
+    const [transfer] = await tx
+      .select()
+      .from(stockTransfers)
+      .where(and(eq(stockTransfers.id, id), eq(stockTransfers.tenantId, tenantId)))
+      .for('update');
+
+    if (!transfer) {
+      throw new Error("Transfer not found");
+    }
+    if (transfer.status !== 'in_transit') {
+      throw new Error(`Only in-transit transfers can be ${to} (current status: ${transfer.status})`);
+    }
+    return transfer;
+  }
+
+  private async _completeStockTransfer(tx: any, transfer: StockTransfer, status: StockTransfer['status'], actor: string): Promise<StockTransferDetail> {
+    await tx
+      .update(stockTransfers)
+      .set({ status, completedBy: actor, completedAt: new Date() })
+      .where(eq(stockTransfers.id, transfer.id));
+
+    await tx.insert(auditLogs).values({
+      tenantId: transfer.tenantId,
+      targetTable: 'stock_transfers',
+      targetId: transfer.id,
+      action: 'update',
+      actor,
+      actorType: 'user',
+      changes: { status: { from: transfer.status, to: status } },
+    });
+
+    const [detail] = await this._getStockTransferDetails(tx, transfer.tenantId, transfer.id);
+    return detail;
+  }
+
+  private async _getStockTransferDetails(executor: any, tenantId: string, id?: string): Promise<StockTransferDetail[]> {
+    const conditions = [eq(stockTransfers.tenantId, tenantId)];
+    if (id) {
+      conditions.push(eq(stockTransfers.id, id));
+    }
+
+    const transfers: StockTransfer[] = await executor
+      .select()
+      .from(stockTransfers)
+      .where(and(...conditions))
+      .orderBy(desc(stockTransfers.createdAt));
+    if (transfers.length === 0) {
+      return [];
+    }
+
+    const lineRows = await executor
+      .select({
+        line: stockTransferLines,
+        productName: products.name,
+        unit: products.unit,
+        lotNumber: inventoryLots.lotNumber,
+        expiresAt: inventoryLots.expiresAt,
+      })
+      .from(stockTransferLines)
+      .innerJoin(products, eq(stockTransferLines.productId, products.id))
+      .innerJoin(inventoryLots, eq(stockTransferLines.sourceLotId, inventoryLots.id))
+      .where(inArray(stockTransferLines.transferId, transfers.map(transfer => transfer.id)))
+      .orderBy(asc(products.name));
+
+    const locationRows: Array<{ id: string; name: string }> = await executor
+      .select({ id: locations.id, name: locations.name })
+      .from(locations)
+      .where(eq(locations.tenantId, tenantId));
+    const locationNames = new Map(locationRows.map(location => [location.id, location.name]));
+
+    const userIds = Array.from(new Set(transfers.flatMap(transfer => [transfer.createdBy, transfer.completedBy]).filter(Boolean))) as string[];
+    const userRows: Array<{ id: string; firstName: string | null; lastName: string | null; email: string | null }> = await executor
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const userNames = new Map(userRows.map(user => [user.id, this._displayName(user)]));
+
+    return transfers.map(transfer => {
+      const lines = lineRows
+        .filter((row: any) => row.line.transferId === transfer.id)
+        .map((row: any) => ({
+          ...row.line,
+          productName: row.productName,
+          unit: row.unit,
+          lotNumber: row.lotNumber,
+          expiresAt: row.expiresAt,
+        }));
+      return {
+        ...transfer,
+        fromLocationName: locationNames.get(transfer.fromLocationId) ?? '',
+        toLocationName: locationNames.get(transfer.toLocationId) ?? '',
+        createdByName: userNames.get(transfer.createdBy) ?? null,
+        completedByName: transfer.completedBy ? userNames.get(transfer.completedBy) ?? null : null,
+        totalQty: lines.reduce((sum: number, line: StockTransferLine) => sum + line.qty, 0),
+        lines,
+      };
+    });
+  }
+
+  // Batches
+  async getBatches(tenantId: string, productId: string): Promise<Array<Batch & { qtyOnHand: number }>> {
+    const rows = await db
+      .select({
+        batch: batches,
+        qtyOnHand: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}), 0)`,
+      })
+      .from(batches)
+      .leftJoin(inventoryLots, eq(inventoryLots.batchId, batches.id))
+      .where(and(eq(batches.tenantId, tenantId), eq(batches.productId, productId)))
+      .groupBy(batches.id)
+      .orderBy(desc(batches.acquiredAt));
+
+    return rows.map(row => ({ ...row.batch, qtyOnHand: Number(row.qtyOnHand) }));
+  }
+
+  // With a packId, qtyAcquired is a number of packs and is converted to base units
+  async receiveBatch(batch: InsertBatch, receivedBy: string): Promise<{
+    batch: Batch;
+    currentStock: number;
+    wac: string;
+  }> {
+    return await db.transaction(async (tx) => {
+      const normalized = await this._normalizeBatchUnits(tx, batch);
+      const { batch: newBatch } = await this._insertBatchWithLot(tx, normalized, receivedBy);
+
+      // Read stock and WAC inside the transaction so the response reflects this receipt
+      const { currentStock, wac } = await this._getStockAndWac(tx, newBatch.tenantId, newBatch.productId);
+
+      return {
+        batch: newBatch,
+        currentStock,
+        wac: wac.toFixed(4),
+      };
+    });
+  }
+
+  // Insert a batch with the lot that holds its stock, and audit the receipt
+  private async _insertBatchWithLot(tx: any, batch: InsertBatch, receivedBy: string, metadata: Record<string, unknown> = {}): Promise<{
+    batch: Batch;
+    lot: InventoryLot;
+  }> {
+    const location = batch.locationId
+      ? await this._getLocation(tx, batch.tenantId, batch.locationId)
+      : await this._getDefaultLocation(tx, batch.tenantId);
+    const [newBatch] = await tx.insert(batches).values({ ...batch, locationId: location.id }).returning();
+
+    // Every received batch opens a lot holding its full quantity
+    const [lot] = await tx
+      .insert(inventoryLots)
+      .values({
+        tenantId: newBatch.tenantId,
+        productId: newBatch.productId,
+        batchId: newBatch.id,
+        locationId: location.id,
+        lotNumber: newBatch.lotNumber,
+        expiresAt: newBatch.expiresAt,
+        qtyRemaining: newBatch.qtyAcquired,
+      })
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      tenantId: newBatch.tenantId,
+      targetTable: 'batches',
+      targetId: newBatch.id,
+      action: 'create',
+      actor: receivedBy,
+      actorType: 'user',
+      changes: {
+        productId: newBatch.productId,
+        supplier: newBatch.supplier,
+        lotNumber: newBatch.lotNumber,
+        expiresAt: newBatch.expiresAt,
+        packId: newBatch.packId,
+        packQty: newBatch.packQty,
+        locationId: newBatch.locationId,
+        qtyAcquired: newBatch.qtyAcquired,
+        totalCost: newBatch.totalCost,
+      },
+      metadata: { ...metadata, inventoryLotId: lot.id },
+    });
+
+    return { batch: newBatch, lot };
+  }
+
+  // Adjustments
+  async createAdjustment(adjustment: InsertAdjustment, options: { lotId?: string; locationId?: string } = {}): Promise<{
+    adjustments: Adjustment[];
+    currentStock: number;
+  }> {
+    if (!Number.isInteger(adjustment.qtyDelta) || adjustment.qtyDelta === 0) {
+      throw new Error("Adjustment quantity must be a non-zero whole number");
+    }
+
+    return await db.transaction(async (tx) => this._applyAdjustment(tx, adjustment, options));
+  }
+
+  // Apply an adjustment to inventory lots inside the caller's transaction. With a locationId,
+  // found stock is placed there and removed stock only comes from there.
+  private async _applyAdjustment(tx: any, adjustment: InsertAdjustment, options: { lotId?: string; locationId?: string } = {}): Promise<{
+    adjustments: Adjustment[];
+    currentStock: number;
+  }> {
+    const { tenantId, productId, qtyDelta } = adjustment;
+    const created: Adjustment[] = [];
+
+    if (qtyDelta > 0) {
+      // Found stock opens its own lot, costed at the current WAC so valuation is unchanged
+      const { wac } = await this._getStockAndWac(tx, tenantId, productId);
+      const location = options.locationId
+        ? await this._getLocation(tx, tenantId, options.locationId)
+        : await this._getDefaultLocation(tx, tenantId);
+
+      const [recountBatch] = await tx
+        .insert(batches)
+        .values({
+          tenantId,
+          productId,
+          locationId: location.id,
+          acquiredAt: new Date(),
+          qtyAcquired: qtyDelta,
+          totalCost: (wac * qtyDelta).toFixed(2),
+          notes: `Recount adjustment (${adjustment.reason})`,
+        })
+        .returning();
+
+      const [lot] = await tx
+        .insert(inventoryLots)
+        .values({ tenantId, productId, batchId: recountBatch.id, locationId: location.id, qtyRemaining: qtyDelta })
+        .returning();
+
+      const [row] = await tx
+        .insert(adjustments)
+        .values({ ...adjustment, batchId: recountBatch.id })
+        .returning();
+      created.push(row);
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'adjustments',
+        targetId: row.id,
+        action: 'create',
+        actor: adjustment.createdBy,
+        actorType: 'user',
+        changes: { productId, qtyDelta, reason: row.reason },
+        metadata: { batchId: recountBatch.id, inventoryLotId: lot.id },
+      });
+    } else {
+      // Removed stock comes out in allocation order, expired lots included since they
+      // sort first, one adjustment row per lot
+      const lots = await this._lockAvailableLots(tx, tenantId, productId, {
+        includeExpired: true,
+        lotId: options.lotId,
+        locationId: options.locationId,
+      });
+      const requested = -qtyDelta;
+      const available = lots.reduce((sum, lot) => sum + lot.qtyRemaining, 0);
+      if (available < requested) {
+        const [product] = await tx
+          .select({ name: products.name })
+          .from(products)
+          .where(eq(products.id, productId));
+        throw new Error(`Insufficient stock for ${product?.name ?? productId}: requested ${requested}, available ${available}`);
+      }
+
+      let remaining = requested;
+      for (const lot of lots) {
+        if (remaining === 0) break;
+
+        const take = Math.min(remaining, lot.qtyRemaining);
+        await tx
+          .update(inventoryLots)
+          .set({ qtyRemaining: lot.qtyRemaining - take })
+          .where(eq(inventoryLots.id, lot.id));
+
+        const [row] = await tx
+          .insert(adjustments)
+          .values({ ...adjustment, batchId: lot.batchId, qtyDelta: -take })
+          .returning();
+        created.push(row);
+
+        await tx.insert(auditLogs).values({
+          tenantId,
+          targetTable: 'adjustments',
+          targetId: row.id,
+          action: 'create',
+          actor: adjustment.createdBy,
+          actorType: 'user',
+          changes: { productId, qtyDelta: -take, reason: row.reason },
+          metadata: { batchId: lot.batchId, inventoryLotId: lot.id, qtyRemaining: lot.qtyRemaining - take },
+        });
+
+        remaining -= take;
+      }
+    }
+
+    const { currentStock } = await this._getStockAndWac(tx, tenantId, productId);
+    return { adjustments: created, currentStock };
+  }
+
+  async getAdjustments(tenantId: string, productId?: string): Promise<Array<Adjustment & {
+    productName: string;
+    createdByName: string | null;
+  }>> {
+    const conditions = [eq(adjustments.tenantId, tenantId)];
+    if (productId) {
+      conditions.push(eq(adjustments.productId, productId));
+    }
+
+    const rows = await db
+      .select({
+        adjustment: adjustments,
+        productName: products.name,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(adjustments)
+      .innerJoin(products, eq(adjustments.productId, products.id))
+      .leftJoin(users, eq(adjustments.createdBy, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(adjustments.createdAt));
+
+    return rows.map(row => ({
+      ...row.adjustment,
+      productName: row.productName,
+      createdByName: this._displayName(row),
+    }));
+  }
+
+  async writeOffLot(lotId: string, tenantId: string, writtenOffBy: string, notes?: string | null): Promise<{
+    adjustments: Adjustment[];
+    currentStock: number;
+  }> {
+    const [lot] = await db
+      .select()
+      .from(inventoryLots)
+      .where(and(eq(inventoryLots.id, lotId), eq(inventoryLots.tenantId, tenantId)));
+
+    if (!lot) {
+      throw new Error("Inventory lot not found");
+    }
+    if (lot.qtyRemaining <= 0) {
+      throw new Error("Inventory lot is already empty");
+    }
+
+    const expiryNote = lot.expiresAt ? `expired ${lot.expiresAt.toISOString().slice(0, 10)}` : 'no expiry recorded';
+    return await this.createAdjustment({
+      tenantId,
+      productId: lot.productId,
+      qtyDelta: -lot.qtyRemaining,
+      reason: 'waste',
+      notes: notes || `Write-off of lot ${lot.lotNumber ?? lot.id} (${expiryNote})`,
+      createdBy: writtenOffBy,
+    }, { lotId });
+  }
+
+  // Lots with stock that expire within the window, already-expired lots included
+  async getExpiringLots(tenantId: string, withinDays: number): Promise<ExpiringLot[]> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() + withinDays);
+
+    const rows = await db
+      .select({
+        lotId: inventoryLots.id,
+        batchId: inventoryLots.batchId,
+        locationId: inventoryLots.locationId,
+        locationName: locations.name,
+        productId: inventoryLots.productId,
+        productName: products.name,
+        unit: products.unit,
+        lotNumber: inventoryLots.lotNumber,
+        expiresAt: inventoryLots.expiresAt,
+        qtyRemaining: inventoryLots.qtyRemaining,
+        totalCost: batches.totalCost,
+        qtyAcquired: batches.qtyAcquired,
+      })
+      .from(inventoryLots)
+      .innerJoin(products, eq(inventoryLots.productId, products.id))
+      .innerJoin(batches, eq(inventoryLots.batchId, batches.id))
+      .leftJoin(locations, eq(inventoryLots.locationId, locations.id))
+      .where(
+        and(
+          eq(inventoryLots.tenantId, tenantId),
+          gt(inventoryLots.qtyRemaining, 0),
+          sql`${inventoryLots.expiresAt} <= ${cutoff}`
+        )
+      )
+      .orderBy(asc(inventoryLots.expiresAt));
+
+    const now = Date.now();
+    return rows.map(row => {
+      const expiresAt = row.expiresAt!;
+      return {
+        lotId: row.lotId,
+        batchId: row.batchId,
+        locationId: row.locationId,
+        locationName: row.locationName,
+        productId: row.productId,
+        productName: row.productName,
+        unit: row.unit,
+        lotNumber: row.lotNumber,
+        expiresAt,
+        qtyRemaining: row.qtyRemaining,
+        unitCost: (parseFloat(row.totalCost) / row.qtyAcquired).toFixed(4),
+        daysUntilExpiry: Math.ceil((expiresAt.getTime() - now) / (24 * 60 * 60 * 1000)),
+        isExpired: expiresAt.getTime() <= now,
+      };
+    });
+  }
+
+  // Recalls
+  // Trace a batch forward to the orders and customers that received it. Customer
+  // contact details are decrypted and armed customers are left out.
+  async getBatchTrace(batchId: string, tenantId: string): Promise<BatchTrace | undefined> {
+    const [batchRow] = await db
+      .select({ batch: batches, productName: products.name, unit: products.unit })
+      .from(batches)
+      .innerJoin(products, eq(batches.productId, products.id))
+      .where(and(eq(batches.id, batchId), eq(batches.tenantId, tenantId)));
+
+    if (!batchRow) {
+      return undefined;
+    }
+
+    const lots = await db
+      .select({
+        id: inventoryLots.id,
+        lotNumber: inventoryLots.lotNumber,
+        qtyRemaining: inventoryLots.qtyRemaining,
+        quarantinedAt: inventoryLots.quarantinedAt,
+      })
+      .from(inventoryLots)
+      .where(and(eq(inventoryLots.batchId, batchId), eq(inventoryLots.tenantId, tenantId)));
+
+    const orderRows = await db
+      .select({
+        orderId: orders.id,
+        status: orders.status,
+        createdAt: orders.createdAt,
+        customerId: orders.customerId,
+        qty: sql<number>`SUM(${orderItems.qty})`,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(eq(orderItems.batchId, batchId), eq(orders.tenantId, tenantId)))
+      .groupBy(orders.id)
+      .orderBy(desc(orders.createdAt));
+
+    const traceOrders = orderRows.map(row => ({ ...row, qty: Number(row.qty) }));
+
+    // Roll orders up per customer, then decrypt each customer once
+    const byCustomer = new Map<string, { orderCount: number; qtyReceived: number; lastOrderAt: Date | null }>();
+    for (const order of traceOrders) {
+      if (!order.customerId || order.status === 'voided') continue;
+      const entry = byCustomer.get(order.customerId) ?? { orderCount: 0, qtyReceived: 0, lastOrderAt: null };
+      entry.orderCount += 1;
+      entry.qtyReceived += order.qty;
+      if (order.createdAt && (!entry.lastOrderAt || order.createdAt > entry.lastOrderAt)) {
+        entry.lastOrderAt = order.createdAt;
+      }
+      byCustomer.set(order.customerId, entry);
+    }
+
+    const visibleCustomers = await this.filterOutArmed(
+      tenantId,
+      'customers',
+      Array.from(byCustomer.keys()).map(id => ({ id }))
+    );
+
+    const traceCustomers: BatchTrace['customers'] = [];
+    for (const { id } of visibleCustomers) {
+      const customer = await this.getCustomerDecrypted(id, tenantId);
+      if (!customer) continue;
+      traceCustomers.push({
+        customerId: id,
+        name: customer.name,
+        phone: customer.phone,
+        email: customer.email,
+        ...byCustomer.get(id)!,
+      });
+    }
+    traceCustomers.sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      batch: { ...batchRow.batch, productName: batchRow.productName, unit: batchRow.unit },
+      lots,
+      orders: traceOrders,
+      customers: traceCustomers,
+      qtySold: traceOrders.filter(o => o.status !== 'voided').reduce((sum, o) => sum + o.qty, 0),
+      qtyOnHand: lots.reduce((sum, lot) => sum + lot.qtyRemaining, 0),
+    };
+  }
+
+  async recallBatch(batchId: string, tenantId: string, reason: string, recalledBy: string): Promise<BatchTrace> {
+    await db.transaction(async (tx) => {
+      const [batch] = await tx
+        .select()
+        .from(batches)
+        .where(and(eq(batches.id, batchId), eq(batches.tenantId, tenantId)))
+        .for('update');
+
+      if (!batch) {
+        throw new Error("Batch not found");
+      }
+      if (batch.recalledAt) {
+        throw new Error("Batch has already been recalled");
+      }
+
+      const now = new Date();
+      await tx
+        .update(batches)
+        .set({ recalledAt: now, recallReason: reason, recalledBy })
+        .where(eq(batches.id, batchId));
+
+      const quarantinedLots = await tx
+        .update(inventoryLots)
+        .set({ quarantinedAt: now })
+        .where(and(eq(inventoryLots.batchId, batchId), isNull(inventoryLots.quarantinedAt)))
+        .returning({ id: inventoryLots.id, qtyRemaining: inventoryLots.qtyRemaining });
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'batches',
+        targetId: batchId,
+        action: 'recall_batch',
+        actor: recalledBy,
+        actorType: 'user',
+        changes: { recalledAt: now, recallReason: reason },
+        metadata: {
+          productId: batch.productId,
+          lotNumber: batch.lotNumber,
+          quarantinedLots,
+        },
+      });
+    });
+
+    const trace = await this.getBatchTrace(batchId, tenantId);
+    return trace!;
+  }
+
+  async getRecalledBatches(tenantId: string): Promise<Array<Batch & { productName: string; qtyQuarantined: number }>> {
+    const rows = await db
+      .select({
+        batch: batches,
+        productName: products.name,
+        qtyQuarantined: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}), 0)`,
+      })
+      .from(batches)
+      .innerJoin(products, eq(batches.productId, products.id))
+      .leftJoin(inventoryLots, eq(inventoryLots.batchId, batches.id))
+      .where(and(eq(batches.tenantId, tenantId), sql`${batches.recalledAt} IS NOT NULL`))
+      .groupBy(batches.id, products.name)
+      .orderBy(desc(batches.recalledAt));
+
+    return rows.map(row => ({
+      ...row.batch,
+      productName: row.productName,
+      qtyQuarantined: Number(row.qtyQuarantined),
+    }));
+  }
+
+  async recordRecallContactExport(batchId: string, tenantId: string, exportedBy: string, contactCount: number): Promise<void> {
+    await db.insert(auditLogs).values({
+      tenantId,
+      targetTable: 'batches',
+      targetId: batchId,
+      action: 'export_recall_contacts',
+      actor: exportedBy,
+      actorType: 'user',
+      metadata: { contactCount },
+    });
+  }
+
+  // Lock a product's lots that still hold stock in allocation order: earliest expiry first
+  // (FEFO), then oldest batch (FIFO) for lots without an expiry. Expired lots are skipped
+  // unless includeExpired is set, quarantined lots unless lotId targets a single lot.
+  private async _lockAvailableLots(tx: any, tenantId: string, productId: string, options: {
+    includeExpired?: boolean;
+    lotId?: string;
+    locationId?: string | null;
+  } = {}): Promise<Array<{
+    id: string;
+    batchId: string;
+    locationId: string | null;
+    lotNumber: string | null;
+    expiresAt: Date | null;
+    quarantinedAt: Date | null;
+    qtyRemaining: number;
+    totalCost: string;
+    qtyAcquired: number;
+  }>> {
+    const conditions = [
+      eq(inventoryLots.tenantId, tenantId),
+      eq(inventoryLots.productId, productId),
+      gt(inventoryLots.qtyRemaining, 0),
+    ];
+    if (!options.includeExpired) {
+      conditions.push(sql`(${inventoryLots.expiresAt} IS NULL OR ${inventoryLots.expiresAt} > NOW())`);
+    }
+    if (options.locationId) {
+      conditions.push(eq(inventoryLots.locationId, options.locationId));
+    }
+    if (options.lotId) {
+      conditions.push(eq(inventoryLots.id, options.lotId));
+    } else {
+      // Quarantined (recalled) lots only move when targeted explicitly, e.g. a write-off
+      conditions.push(isNull(inventoryLots.quarantinedAt));
+    }
+
+    return await tx
+      .select({
+        id: inventoryLots.id,
+        batchId: inventoryLots.batchId,
+        locationId: inventoryLots.locationId,
+        lotNumber: inventoryLots.lotNumber,
+        expiresAt: inventoryLots.expiresAt,
+        quarantinedAt: inventoryLots.quarantinedAt,
+        qtyRemaining: inventoryLots.qtyRemaining,
+        totalCost: batches.totalCost,
+        qtyAcquired: batches.qtyAcquired,
+      })
+      .from(inventoryLots)
+      .innerJoin(batches, eq(inventoryLots.batchId, batches.id))
+      .where(and(...conditions))
+      .orderBy(sql`${inventoryLots.expiresAt} ASC NULLS LAST`, asc(batches.acquiredAt), asc(inventoryLots.createdAt))
+      .for('update', { of: inventoryLots });
+  }
+
+  // Current on-hand quantity (from lots) and weighted average cost (from batches)
+  private async _getStockAndWac(executor: any, tenantId: string, productId: string): Promise<{
+    currentStock: number;
+    wac: number;
+  }> {
+    const [stockResult] = await executor
+      .select({
+        totalStock: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}), 0)`,
+      })
+      .from(inventoryLots)
+      .where(
+        and(
+          eq(inventoryLots.tenantId, tenantId),
+          eq(inventoryLots.productId, productId)
+        )
+      );
+
+    const [wacResult] = await executor
+      .select({
+        wac: sql<number>`COALESCE(SUM(${batches.totalCost}) / NULLIF(SUM(${batches.qtyAcquired}), 0), 0)`,
+      })
+      .from(batches)
+      .where(
+        and(
+          eq(batches.tenantId, tenantId),
+          eq(batches.productId, productId)
+        )
+      );
+
+    return {
+      currentStock: Number(stockResult?.totalStock || 0),
+      wac: Number(wacResult?.wac || 0),
+    };
+  }
+
+  // Stock Ledger
+  async getStockLedger(productId: string, tenantId: string): Promise<StockLedger | undefined> {
+    const product = await this.getProduct(productId, tenantId);
+    if (!product) {
+      return undefined;
+    }
+
+    const adjustmentRows = await db
+      .select({
+        adjustment: adjustments,
+        lotNumber: batches.lotNumber,
+        qtyAcquired: batches.qtyAcquired,
+        totalCost: batches.totalCost,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(adjustments)
+      .leftJoin(batches, eq(adjustments.batchId, batches.id))
+      .leftJoin(users, eq(adjustments.createdBy, users.id))
+      .where(and(eq(adjustments.productId, productId), eq(adjustments.tenantId, tenantId)));
+
+    // Found stock opens its own batch; the adjustment row already represents it
+    const recountBatchIds = new Set(
+      adjustmentRows.filter(row => row.adjustment.qtyDelta > 0 && row.adjustment.batchId).map(row => row.adjustment.batchId!)
+    );
+
+    const batchRows = await db
+      .select({
+        batch: batches,
+        poNumber: purchaseOrders.poNumber,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(batches)
+      .leftJoin(purchaseOrderLines, eq(batches.purchaseOrderLineId, purchaseOrderLines.id))
+      .leftJoin(purchaseOrders, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(auditLogs, and(
+        eq(auditLogs.targetTable, 'batches'),
+        eq(auditLogs.targetId, batches.id),
+        eq(auditLogs.action, 'create')
+      ))
+      .leftJoin(users, eq(auditLogs.actor, users.id))
+      .where(and(eq(batches.productId, productId), eq(batches.tenantId, tenantId)));
+
+    // Stock leaves at confirmation, when FIFO allocation stamps each item with its batch
+    const saleRows = await db
+      .select({
+        orderId: orders.id,
+        createdAt: orders.createdAt,
+        confirmedAt: orders.confirmedAt,
+        voidedAt: orders.voidedAt,
+        batchId: orderItems.batchId,
+        lotNumber: batches.lotNumber,
+        unitCost: orderItems.unitCostSnapshot,
+        qty: sql<number>`SUM(${orderItems.qty})`,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(batches, eq(orderItems.batchId, batches.id))
+      .leftJoin(users, eq(orders.createdBy, users.id))
+      .where(and(
+        eq(orderItems.productId, productId),
+        eq(orders.tenantId, tenantId),
+        sql`${orderItems.batchId} IS NOT NULL`
+      ))
+      .groupBy(orders.id, orderItems.batchId, batches.lotNumber, orderItems.unitCostSnapshot, users.firstName, users.lastName, users.email);
+
+    // Returns written off as waste never come back into stock, so only restocks appear
+    const returnRows = await db
+      .select({
+        returnId: orderReturns.id,
+        orderId: orderReturns.orderId,
+        orderVoidedAt: orders.voidedAt,
+        createdAt: orderReturns.createdAt,
+        reason: orderReturns.reason,
+        batchId: orderItems.batchId,
+        lotNumber: batches.lotNumber,
+        unitCost: orderItems.unitCostSnapshot,
+        qty: sql<number>`SUM(${orderReturnLines.qty})`,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(orderReturnLines)
+      .innerJoin(orderReturns, eq(orderReturnLines.returnId, orderReturns.id))
+      .innerJoin(orders, eq(orderReturns.orderId, orders.id))
+      .innerJoin(orderItems, eq(orderReturnLines.orderItemId, orderItems.id))
+      .leftJoin(batches, eq(orderItems.batchId, batches.id))
+      .leftJoin(users, eq(orderReturns.createdBy, users.id))
+      .where(and(
+        eq(orderReturnLines.productId, productId),
+        eq(orderReturns.tenantId, tenantId),
+        eq(orderReturnLines.disposition, 'restock')
+      ))
+      .groupBy(orderReturns.id, orders.voidedAt, orderItems.batchId, batches.lotNumber, orderItems.unitCostSnapshot, users.firstName, users.lastName, users.email);
+
+    const movements: LedgerMovement[] = orderMovements(
+      saleRows.map(row => ({
+        orderId: row.orderId,
+        // Orders confirmed before confirmedAt was recorded fall back to when they were created
+        soldAt: row.confirmedAt ?? row.createdAt ?? new Date(0),
+        voidedAt: row.voidedAt,
+        batchId: row.batchId,
+        lotNumber: row.lotNumber,
+        unitCost: row.unitCost,
+        qty: Number(row.qty),
+        actorName: this._displayName(row),
+      })),
+      returnRows.map(row => ({
+        orderId: row.orderId,
+        orderVoidedAt: row.orderVoidedAt,
+        createdAt: row.createdAt ?? new Date(0),
+        reason: row.reason,
+        batchId: row.batchId,
+        lotNumber: row.lotNumber,
+        unitCost: row.unitCost,
+        qty: Number(row.qty),
+        actorName: this._displayName(row),
+      }))
+    );
+
+    for (const row of batchRows) {
+      const { batch } = row;
+      if (recountBatchIds.has(batch.id)) continue;
+      const cost = parseFloat(batch.totalCost);
+      movements.push({
+        occurredAt: batch.acquiredAt,
+        type: 'receipt',
+        sourceId: batch.id,
+        reference: row.poNumber ?? batch.supplier,
+        batchId: batch.id,
+        lotNumber: batch.lotNumber,
+        qtyIn: batch.qtyAcquired,
+        qtyOut: 0,
+        unitCost: (batch.qtyAcquired > 0 ? cost / batch.qtyAcquired : 0).toFixed(4),
+        actorName: this._displayName(row),
+        notes: batch.notes,
+        cost,
+        sortKey: batch.createdAt?.getTime() ?? 0,
+      });
+    }
+
+    for (const row of adjustmentRows) {
+      const { adjustment } = row;
+      const batchUnitCost = row.qtyAcquired ? parseFloat(row.totalCost!) / row.qtyAcquired : 0;
+      const isIncrease = adjustment.qtyDelta > 0;
+      movements.push({
+        occurredAt: adjustment.createdAt ?? new Date(0),
+        type: 'adjustment',
+        sourceId: adjustment.id,
+        reference: adjustment.reason,
+        batchId: adjustment.batchId,
+        lotNumber: row.lotNumber,
+        qtyIn: isIncrease ? adjustment.qtyDelta : 0,
+        qtyOut: isIncrease ? 0 : -adjustment.qtyDelta,
+        unitCost: batchUnitCost.toFixed(4),
+        actorName: this._displayName(row),
+        notes: adjustment.notes,
+        // Found stock adds its recount batch's cost to the WAC pool, like any receipt
+        cost: isIncrease ? parseFloat(row.totalCost ?? "0") : 0,
+        sortKey: adjustment.createdAt?.getTime() ?? 0,
+      });
+    }
+
+    const entries = runLedger(movements);
+
+    const { currentStock, wac } = await this._getStockAndWac(db, tenantId, productId);
+
+    return { product, entries, currentStock, wac: wac.toFixed(4) };
+  }
+
+  // Rebuild each batch's remaining quantity as of a moment from what was received by
+  // then, less sales allocated (and not yet voided or returned to stock) and stock
+  // adjusted out before it
+  async getInventoryValuation(tenantId: string, asOf: Date): Promise<InventoryValuation> {
+    const batchRows = await db
+      .select({
+        id: batches.id,
+        productId: batches.productId,
+        qtyAcquired: batches.qtyAcquired,
+        totalCost: batches.totalCost,
+      })
+      .from(batches)
+      .where(and(eq(batches.tenantId, tenantId), lte(batches.acquiredAt, asOf)));
+
+    const soldRows = await db
+      .select({
+        batchId: orderItems.batchId,
+        qty: sql<number>`SUM(${orderItems.qty})`,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(
+        eq(orders.tenantId, tenantId),
+        sql`${orderItems.batchId} IS NOT NULL`,
+        // Stock left when the order was confirmed; older orders only have their creation time
+        sql`COALESCE(${orders.confirmedAt}, ${orders.createdAt}) <= ${asOf}`,
+        sql`(${orders.voidedAt} IS NULL OR ${orders.voidedAt} > ${asOf})`
+      ))
+      .groupBy(orderItems.batchId);
+
+    // Found stock is already counted through its recount batch
+    const removedRows = await db
+      .select({
+        batchId: adjustments.batchId,
+        qty: sql<number>`SUM(-${adjustments.qtyDelta})`,
+      })
+      .from(adjustments)
+      .where(and(
+        eq(adjustments.tenantId, tenantId),
+        lt(adjustments.qtyDelta, 0),
+        lte(adjustments.createdAt, asOf)
+      ))
+      .groupBy(adjustments.batchId);
+
+    // Returned units put back on the shelf undo part of their sale
+    const restockedRows = await db
+      .select({
+        batchId: orderItems.batchId,
+        orderVoidedAt: orders.voidedAt,
+        qty: sql<number>`SUM(${orderReturnLines.qty})`,
+      })
+      .from(orderReturnLines)
+      .innerJoin(orderReturns, eq(orderReturnLines.returnId, orderReturns.id))
+      .innerJoin(orders, eq(orderReturns.orderId, orders.id))
+      .innerJoin(orderItems, eq(orderReturnLines.orderItemId, orderItems.id))
+      .where(and(
+        eq(orderReturns.tenantId, tenantId),
+        eq(orderReturnLines.disposition, 'restock'),
+        lte(orderReturns.createdAt, asOf)
+      ))
+      .groupBy(orderItems.batchId, orders.voidedAt);
+
+    const toOutflows = (rows: Array<{ batchId: string | null; qty: number }>) =>
+      rows.map(row => ({ batchId: row.batchId, qty: Number(row.qty) }));
+    const byProduct = valueStock(batchRows, {
+      sold: toOutflows(soldRows),
+      removed: toOutflows(removedRows),
+      restocked: restockedRows.map(row => ({ ...row, qty: Number(row.qty) })),
+    });
+
+    const productRows = byProduct.size === 0 ? [] : await db
+      .select({ id: products.id, name: products.name, ndcCode: products.ndcCode, unit: products.unit })
+      .from(products)
+      .where(and(eq(products.tenantId, tenantId), inArray(products.id, Array.from(byProduct.keys()))))
+      .orderBy(asc(products.name));
+
+    const valuationProducts: InventoryValuation['products'] = [];
+    let totalQty = 0;
+    let totalFifo = 0;
+    let totalWac = 0;
+    for (const product of productRows) {
+      const entry = byProduct.get(product.id)!;
+      if (entry.qtyOnHand === 0) continue;
+
+      const wac = entry.receivedQty > 0 ? entry.receivedCost / entry.receivedQty : 0;
+      const wacValue = entry.qtyOnHand * wac;
+      valuationProducts.push({
+        productId: product.id,
+        name: product.name,
+        ndcCode: product.ndcCode,
+        unit: product.unit,
+        qtyOnHand: entry.qtyOnHand,
+        fifoValue: entry.fifoValue.toFixed(2),
+        wac: wac.toFixed(4),
+        wacValue: wacValue.toFixed(2),
+      });
+      totalQty += entry.qtyOnHand;
+      totalFifo += entry.fifoValue;
+      totalWac += wacValue;
+    }
+
+    return {
+      asOf,
+      products: valuationProducts,
+      totals: {
+        qtyOnHand: totalQty,
+        fifoValue: totalFifo.toFixed(2),
+        wacValue: totalWac.toFixed(2),
+      },
+    };
+  }
+
+  // Stock removed by adjustment, valued at the cost of the lot it came out of. Found stock
+  // from recounts is not netted off; it shows up in the valuation instead.
+  async getShrinkageReport(tenantId: string, from: Date, to: Date, period: ShrinkagePeriod = 'week'): Promise<ShrinkageReport> {
+    const tenantSettings = await this.getTenantSettings(tenantId);
+    const alertRate = parseFloat(tenantSettings?.shrinkAlertRate ?? "0.0200");
+    const staffAlertCount = tenantSettings?.shrinkStaffAlertCount ?? 5;
+
+    // Removals without a batch predate lot tracking; fall back to the product's WAC
+    const lossRows = await db
+      .select({
+        productId: adjustments.productId,
+        productName: products.name,
+        unit: products.unit,
+        reason: adjustments.reason,
+        qty: sql<number>`-${adjustments.qtyDelta}`,
+        unitCost: sql<string>`COALESCE(
+          ${batches.totalCost} / NULLIF(${batches.qtyAcquired}, 0),
+          (SELECT SUM(b.total_cost) / NULLIF(SUM(b.qty_acquired), 0) FROM batches b WHERE b.tenant_id = ${tenantId} AND b.product_id = ${adjustments.productId}),
+          0
+        )`,
+        createdBy: adjustments.createdBy,
+        createdAt: adjustments.createdAt,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(adjustments)
+      .innerJoin(products, eq(adjustments.productId, products.id))
+      .leftJoin(batches, eq(adjustments.batchId, batches.id))
+      .leftJoin(users, eq(adjustments.createdBy, users.id))
+      .where(and(
+        eq(adjustments.tenantId, tenantId),
+        lt(adjustments.qtyDelta, 0),
+        gte(adjustments.createdAt, from),
+        lte(adjustments.createdAt, to)
+      ));
+
+    const salesRows = await db
+      .select({
+        createdAt: orders.createdAt,
+        value: sql<string>`SUM(${orderItems.qty} * ${orderItems.unitPrice})`,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(
+        eq(orders.tenantId, tenantId),
+        inArray(orders.status, ['confirmed', 'paid']),
+        gte(orders.createdAt, from),
+        lte(orders.createdAt, to)
+      ))
+      .groupBy(orders.id, orders.createdAt);
+
+    const periodStart = (date: Date): Date => {
+      const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), period === 'month' ? 1 : date.getUTCDate()));
+      if (period === 'week') {
+        // Weeks start on Monday
+        start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      }
+      return start;
+    };
+
+    type Bucket = { count: number; qty: number; value: number };
+    const add = <K>(map: Map<K, Bucket>, key: K, qty: number, value: number) => {
+      const bucket = map.get(key) ?? { count: 0, qty: 0, value: 0 };
+      bucket.count += 1;
+      bucket.qty += qty;
+      bucket.value += value;
+      map.set(key, bucket);
+    };
+    const toTotals = (bucket: Bucket): ShrinkageTotals => ({ count: bucket.count, qty: bucket.qty, value: bucket.value.toFixed(2) });
+
+    const total: Bucket = { count: 0, qty: 0, value: 0 };
+    const byReason = new Map<Adjustment['reason'], Bucket>();
+    const byProduct = new Map<string, Bucket>();
+    const byUser = new Map<string, Bucket>();
+    const byPeriod = new Map<number, Bucket>();
+    const productInfo = new Map<string, { name: string; unit: string }>();
+    const userInfo = new Map<string, { name: string | null; personalOrSampleCount: number }>();
+
+    for (const row of lossRows) {
+      const qty = Number(row.qty);
+      const value = qty * parseFloat(row.unitCost);
+      total.count += 1;
+      total.qty += qty;
+      total.value += value;
+      add(byReason, row.reason, qty, value);
+      add(byProduct, row.productId, qty, value);
+      add(byUser, row.createdBy, qty, value);
+      add(byPeriod, periodStart(row.createdAt ?? from).getTime(), qty, value);
+
+      productInfo.set(row.productId, { name: row.productName, unit: row.unit });
+      const user = userInfo.get(row.createdBy) ?? { name: this._displayName(row), personalOrSampleCount: 0 };
+      if (row.reason === 'personal' || row.reason === 'sample') {
+        user.personalOrSampleCount += 1;
+      }
+      userInfo.set(row.createdBy, user);
+    }
+
+    let salesTotal = 0;
+    const salesByPeriod = new Map<number, number>();
+    for (const row of salesRows) {
+      const value = parseFloat(row.value);
+      salesTotal += value;
+      const key = periodStart(row.createdAt ?? from).getTime();
+      salesByPeriod.set(key, (salesByPeriod.get(key) ?? 0) + value);
+    }
+
+    const rate = (loss: number, sales: number) => sales > 0 ? loss / sales : 0;
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const byValue = (a: { value: string }, b: { value: string }) => parseFloat(b.value) - parseFloat(a.value);
+
+    const periodKeys = Array.from(new Set([...Array.from(byPeriod.keys()), ...Array.from(salesByPeriod.keys())])).sort((a, b) => a - b);
+    const periods = periodKeys.map(key => {
+      const bucket = byPeriod.get(key) ?? { count: 0, qty: 0, value: 0 };
+      const sales = salesByPeriod.get(key) ?? 0;
+      return {
+        ...toTotals(bucket),
+        periodStart: new Date(key),
+        salesValue: sales.toFixed(2),
+        shrinkRate: rate(bucket.value, sales),
+      };
+    });
+
+    const staff = Array.from(byUser.entries()).map(([userId, bucket]) => ({
+      ...toTotals(bucket),
+      userId,
+      ...userInfo.get(userId)!,
+    })).sort(byValue);
+
+    const flags: ShrinkageReport['flags'] = [];
+    for (const user of staff) {
+      if (user.personalOrSampleCount >= staffAlertCount) {
+        flags.push({
+          kind: 'staff_personal_sample',
+          userId: user.userId,
+          message: `${user.name ?? 'Unknown user'} logged ${user.personalOrSampleCount} personal or sample removals`,
+        });
+      }
+    }
+    const totalRate = rate(total.value, salesTotal);
+    if (totalRate > alertRate) {
+      flags.push({
+        kind: 'shrink_rate',
+        message: `Shrink is ${percent(totalRate)} of sales, above the ${percent(alertRate)} alert level`,
+      });
+    }
+    for (const entry of periods) {
+      if (periods.length > 1 && entry.shrinkRate > alertRate) {
+        flags.push({
+          kind: 'shrink_rate',
+          periodStart: entry.periodStart,
+          message: `Shrink was ${percent(entry.shrinkRate)} of sales in the ${period} from ${entry.periodStart.toISOString().slice(0, 10)}`,
+        });
+      }
+    }
+
+    return {
+      from,
+      to,
+      period,
+      totals: { ...toTotals(total), salesValue: salesTotal.toFixed(2), shrinkRate: totalRate },
+      byReason: Array.from(byReason.entries()).map(([reason, bucket]) => ({ ...toTotals(bucket), reason })).sort(byValue),
+      byProduct: Array.from(byProduct.entries()).map(([productId, bucket]) => ({
+        ...toTotals(bucket),
+        productId,
+        ...productInfo.get(productId)!,
+      })).sort(byValue),
+      byUser: staff,
+      byPeriod: periods,
+      flags,
+    };
+  }
+
+  // Physical Counts
+  async getCountSessions(tenantId: string): Promise<Array<CountSession & { productCount: number; countedCount: number }>> {
+    const rows = await db
+      .select({
+        session: countSessions,
+        productCount: sql<number>`COUNT(${countSessionProducts.id})`,
+        countedCount: sql<number>`COUNT(${countSessionProducts.id}) FILTER (WHERE EXISTS (
+          SELECT 1 FROM ${countEntries}
+          WHERE ${countEntries.sessionId} = ${countSessions.id} AND ${countEntries.productId} = ${countSessionProducts.productId}
+        ))`,
+      })
+      .from(countSessions)
+      .leftJoin(countSessionProducts, eq(countSessionProducts.sessionId, countSessions.id))
+      .where(eq(countSessions.tenantId, tenantId))
+      .groupBy(countSessions.id)
+      .orderBy(desc(countSessions.createdAt));
+
+    return rows.map(row => ({
+      ...row.session,
+      productCount: Number(row.productCount),
+      countedCount: Number(row.countedCount),
+    }));
+  }
+
+  async getCountSession(id: string, tenantId: string): Promise<CountSessionDetail | undefined> {
+    return await this._getCountSessionDetail(db, id, tenantId);
+  }
+
+  async createCountSession(session: InsertCountSession, productIds?: string[]): Promise<CountSession> {
+    return await db.transaction(async (tx) => {
+      const productConditions = [eq(products.tenantId, session.tenantId)];
+      if (productIds) {
+        if (productIds.length === 0) {
+          throw new Error("Select at least one product to count");
+        }
+        productConditions.push(inArray(products.id, productIds));
+      } else {
+        productConditions.push(isNull(products.archivedAt));
+      }
+
+      const scope = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(...productConditions));
+
+      if (productIds && scope.length !== new Set(productIds).size) {
+        throw new Error("One or more products to count were not found");
+      }
+      if (scope.length === 0) {
+        throw new Error("There are no products to count");
+      }
+      if (session.locationId) {
+        await this._getLocation(tx, session.tenantId, session.locationId);
+      }
+
+      const [newSession] = await tx.insert(countSessions).values(session).returning();
+      await tx
+        .insert(countSessionProducts)
+        .values(scope.map(product => ({ sessionId: newSession.id, productId: product.id })));
+
+      await tx.insert(auditLogs).values({
+        tenantId: newSession.tenantId,
+        targetTable: 'count_sessions',
+        targetId: newSession.id,
+        action: 'create',
+        actor: newSession.createdBy,
+        actorType: 'user',
+        changes: { name: newSession.name, productCount: scope.length },
+      });
+
+      return newSession;
+    });
+  }
+
+  async addCountEntry(sessionId: string, tenantId: string, entry: Omit<InsertCountEntry, 'sessionId'>): Promise<CountEntry> {
+    return await db.transaction(async (tx) => {
+      // Share-lock the session so a concurrent post cannot slip in between check and insert
+      const [session] = await tx
+        .select()
+        .from(countSessions)
+        .where(and(eq(countSessions.id, sessionId), eq(countSessions.tenantId, tenantId)))
+        .for('share');
+
+      if (!session) {
+        throw new Error("Count session not found");
+      }
+      if (session.status !== 'open') {
+        throw new Error("Count session has been posted and can no longer be changed");
+      }
+
+      const [inScope] = await tx
+        .select({ id: countSessionProducts.id, systemQty: countSessionProducts.systemQty })
+        .from(countSessionProducts)
+        .where(and(eq(countSessionProducts.sessionId, sessionId), eq(countSessionProducts.productId, entry.productId)))
+        .for('update');
+      if (!inScope) {
+        throw new Error("Product is not part of this count session");
+      }
+
+      // Counting starts with the first entry: freeze system stock then, so sales and receipts
+      // made while staff count do not show up as variance
+      if (inScope.systemQty === null) {
+        const systemStock = await this._getCountableStock(tx, tenantId, [entry.productId], session.locationId);
+        await tx
+          .update(countSessionProducts)
+          .set({ systemQty: systemStock.get(entry.productId) ?? 0 })
+          .where(eq(countSessionProducts.id, inScope.id));
+      }
+
+      const [newEntry] = await tx
+        .insert(countEntries)
+        .values({ ...entry, sessionId })
+        .returning();
+      return newEntry;
+    });
+  }
+
+  async deleteCountEntry(sessionId: string, entryId: string, tenantId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [session] = await tx
+        .select()
+        .from(countSessions)
+        .where(and(eq(countSessions.id, sessionId), eq(countSessions.tenantId, tenantId)))
+        .for('share');
+
+      if (!session) {
+        throw new Error("Count session not found");
+      }
+      if (session.status !== 'open') {
+        throw new Error("Count session has been posted and can no longer be changed");
+      }
+
+      const deleted = await tx
+        .delete(countEntries)
+        .where(and(eq(countEntries.id, entryId), eq(countEntries.sessionId, sessionId)))
+        .returning({ id: countEntries.id });
+      if (deleted.length === 0) {
+        throw new Error("Count entry not found");
+      }
+    });
+  }
+
+  // Post a count: every counted product gets a recount adjustment for the difference
+  // between its counted total and the system stock snapshotted when counting started,
+  // and the session is frozen.
+  async postCountSession(id: string, tenantId: string, postedBy: string): Promise<CountSessionDetail> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx
+        .select()
+        .from(countSessions)
+        .where(and(eq(countSessions.id, id), eq(countSessions.tenantId, tenantId)))
+        .for('update');
+
+      if (!session) {
+        throw new Error("Count session not found");
+      }
+      if (session.status !== 'open') {
+        throw new Error("Count session has already been posted");
+      }
+
+      const scope = await tx
+        .select()
+        .from(countSessionProducts)
+        .where(eq(countSessionProducts.sessionId, id));
+
+      const totals = await tx
+        .select({
+          productId: countEntries.productId,
+          countedQty: sql<number>`SUM(${countEntries.qty})`,
+        })
+        .from(countEntries)
+        .where(eq(countEntries.sessionId, id))
+        .groupBy(countEntries.productId);
+      const countedMap = new Map(totals.map(t => [t.productId, Number(t.countedQty)]));
+
+      const posted: Array<{ productId: string; systemQty: number; countedQty: number; varianceQty: number; adjustmentIds: string[] }> = [];
+
+      for (const line of scope) {
+        const countedQty = countedMap.get(line.productId);
+        if (countedQty === undefined) continue; // Not counted; leave stock alone
+
+        // Entries always snapshot, so the live fallback only covers sessions counted before snapshots
+        const systemQty = line.systemQty
+          ?? (await this._getCountableStock(tx, tenantId, [line.productId], session.locationId)).get(line.productId)
+          ?? 0;
+        const varianceQty = countedQty - systemQty;
+
+        let adjustmentIds: string[] = [];
+        if (varianceQty !== 0) {
+          const result = await this._applyAdjustment(tx, {
+            tenantId,
+            productId: line.productId,
+            qtyDelta: varianceQty,
+            reason: 'recount',
+            notes: `Count session: ${session.name}`,
+            createdBy: postedBy,
+          }, { locationId: session.locationId ?? undefined });
+          adjustmentIds = result.adjustments.map(a => a.id);
+        }
+
+        await tx
+          .update(countSessionProducts)
+          .set({ systemQty, countedQty, varianceQty })
+          .where(eq(countSessionProducts.id, line.id));
+
+        posted.push({ productId: line.productId, systemQty, countedQty, varianceQty, adjustmentIds });
+      }
+
+      const now = new Date();
+      await tx
+        .update(countSessions)
+        .set({ status: 'posted', postedBy, postedAt: now })
+        .where(eq(countSessions.id, id));
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'count_sessions',
+        targetId: id,
+        action: 'update',
+        actor: postedBy,
+        actorType: 'user',
+        changes: { status: { from: 'open', to: 'posted' } },
+        metadata: { lines: posted },
+      });
+
+      return (await this._getCountSessionDetail(tx, id, tenantId))!;
+    });
+  }
+
+  private async _getCountSessionDetail(executor: any, id: string, tenantId: string): Promise<CountSessionDetail | undefined> {
+    const [session]: CountSession[] = await executor
+      .select()
+      .from(countSessions)
+      .where(and(eq(countSessions.id, id), eq(countSessions.tenantId, tenantId)));
+
+    if (!session) {
+      return undefined;
+    }
+
+    const scope: Array<{ line: typeof countSessionProducts.$inferSelect; productName: string; unit: string }> = await executor
+      .select({ line: countSessionProducts, productName: products.name, unit: products.unit })
+      .from(countSessionProducts)
+      .innerJoin(products, eq(countSessionProducts.productId, products.id))
+      .where(eq(countSessionProducts.sessionId, id))
+      .orderBy(asc(products.name));
+
+    const entryRows: Array<{ entry: CountEntry; firstName: string | null; lastName: string | null; email: string | null }> = await executor
+      .select({ entry: countEntries, firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(countEntries)
+      .leftJoin(users, eq(countEntries.countedBy, users.id))
+      .where(eq(countEntries.sessionId, id))
+      .orderBy(asc(countEntries.createdAt));
+
+    const entriesByProduct = new Map<string, Array<CountEntry & { countedByName: string | null }>>();
+    for (const row of entryRows) {
+      const list = entriesByProduct.get(row.entry.productId) ?? [];
+      list.push({ ...row.entry, countedByName: this._displayName(row) });
+      entriesByProduct.set(row.entry.productId, list);
+    }
+
+    // Open sessions compare against the snapshot once a product is counted and live stock
+    // before that; posted sessions keep what was frozen
+    const uncounted = scope.filter(row => row.line.systemQty === null).map(row => row.line.productId);
+    const liveStock = session.status === 'open' && uncounted.length > 0
+      ? await this._getCountableStock(executor, tenantId, uncounted, session.locationId)
+      : new Map<string, number>();
+
+    const lines = scope.map(({ line, productName, unit }) => {
+      const entries = entriesByProduct.get(line.productId) ?? [];
+      if (session.status === 'posted') {
+        return {
+          productId: line.productId,
+          productName,
+          unit,
+          systemQty: line.systemQty ?? 0,
+          countedQty: line.countedQty,
+          varianceQty: line.varianceQty,
+          entries,
+        };
+      }
+
+      const systemQty = line.systemQty ?? liveStock.get(line.productId) ?? 0;
+      const countedQty = entries.length > 0 ? entries.reduce((sum, e) => sum + e.qty, 0) : null;
+      return {
+        productId: line.productId,
+        productName,
+        unit,
+        systemQty,
+        countedQty,
+        varianceQty: countedQty === null ? null : countedQty - systemQty,
+        entries,
+      };
+    });
+
+    const userIds = [session.createdBy, session.postedBy].filter((userId): userId is string => !!userId);
+    const people: Array<{ id: string; firstName: string | null; lastName: string | null; email: string | null }> = await executor
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const nameOf = (userId: string | null) => {
+      const person = people.find(p => p.id === userId);
+      return person ? this._displayName(person) : null;
+    };
+
+    return {
+      ...session,
+      createdByName: nameOf(session.createdBy),
+      postedByName: nameOf(session.postedBy),
+      lines,
+    };
+  }
+
+  // Stock a recount can move: the lots _applyAdjustment takes removals from (quarantined lots
+  // excluded, expired ones included since they are still on the shelf), in the session's location
+  private async _getCountableStock(executor: any, tenantId: string, productIds: string[], locationId: string | null): Promise<Map<string, number>> {
+    const conditions = [
+      eq(inventoryLots.tenantId, tenantId),
+      inArray(inventoryLots.productId, productIds),
+      isNull(inventoryLots.quarantinedAt),
+    ];
+    if (locationId) {
+      conditions.push(eq(inventoryLots.locationId, locationId));
+    }
+
+    const rows: Array<{ productId: string; totalStock: number }> = await executor
+      .select({
+        productId: inventoryLots.productId,
+        totalStock: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}), 0)`,
+      })
+      .from(inventoryLots)
+      .where(and(...conditions))
+      .groupBy(inventoryLots.productId);
+    return new Map(rows.map(row => [row.productId, Number(row.totalStock)]));
+  }
+
+  private _displayName(user: { firstName: string | null; lastName: string | null; email: string | null }): string | null {
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || null;
+  }
+
+  // Suppliers
+  async getSuppliers(tenantId: string): Promise<Supplier[]> {
+    return await db
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.tenantId, tenantId))
+      .orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: string, tenantId: string): Promise<Supplier | undefined> {
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.tenantId, tenantId)));
+    return supplier;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [newSupplier] = await db.insert(suppliers).values(supplier).returning();
+    return newSupplier;
+  }
+
+  // Purchase Orders
+  async getPurchaseOrders(tenantId: string): Promise<Array<PurchaseOrder & {
+    supplierName: string;
+    lineCount: number;
+    orderedCost: string;
+    receivedCost: string;
+  }>> {
+    const rows = await db
+      .select({
+        purchaseOrder: purchaseOrders,
+        supplierName: suppliers.name,
+        lineCount: sql<number>`COUNT(${purchaseOrderLines.id})`,
+        orderedCost: sql<string>`COALESCE(SUM(${purchaseOrderLines.qtyOrdered} * ${purchaseOrderLines.unitCost}), 0)`,
+        receivedCost: sql<string>`COALESCE(SUM(${purchaseOrderLines.receivedCost}), 0)`,
+      })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(purchaseOrderLines, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+      .where(eq(purchaseOrders.tenantId, tenantId))
+      .groupBy(purchaseOrders.id, suppliers.name)
+      .orderBy(desc(purchaseOrders.createdAt));
+
+    return rows.map(row => ({
+      ...row.purchaseOrder,
+      supplierName: row.supplierName,
+      lineCount: Number(row.lineCount),
+      orderedCost: Number(row.orderedCost).toFixed(2),
+      receivedCost: Number(row.receivedCost).toFixed(2),
+    }));
+  }
+
+  async getPurchaseOrder(id: string, tenantId: string): Promise<PurchaseOrderWithLines | undefined> {
+    return await this._getPurchaseOrderWithLines(db, id, tenantId);
+  }
+
+  async createPurchaseOrder(purchaseOrder: Omit<InsertPurchaseOrder, 'poNumber'>, lines: Omit<InsertPurchaseOrderLine, 'purchaseOrderId'>[]): Promise<PurchaseOrderWithLines> {
+    if (lines.length === 0) {
+      throw new Error("A purchase order needs at least one line");
+    }
+
+    return await db.transaction(async (tx) => {
+      const [supplier] = await tx
+        .select({ id: suppliers.id })
+        .from(suppliers)
+        .where(and(eq(suppliers.id, purchaseOrder.supplierId), eq(suppliers.tenantId, purchaseOrder.tenantId)));
+      if (!supplier) {
+        throw new Error("Supplier not found");
+      }
+
+      const productIds = Array.from(new Set(lines.map(line => line.productId)));
+      const ownedProducts = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.tenantId, purchaseOrder.tenantId), inArray(products.id, productIds)));
+      if (ownedProducts.length !== productIds.length) {
+        throw new Error("One or more purchase order lines reference a product that was not found");
+      }
+
+      // Sequential, human-friendly PO numbers per tenant. The upsert holds the counter row lock until
+      // commit, so concurrent orders wait for each other; the count only seeds tenants without a counter.
+      const [{ count }] = await tx
+        .select({ count: sql<number>`COUNT(*)` })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.tenantId, purchaseOrder.tenantId));
+      const [counter] = await tx
+        .insert(purchaseOrderCounters)
+        .values({ tenantId: purchaseOrder.tenantId, lastNumber: Number(count) + 1 })
+        .onConflictDoUpdate({
+          target: purchaseOrderCounters.tenantId,
+          set: { lastNumber: sql`GREATEST(${purchaseOrderCounters.lastNumber}, ${Number(count)}) + 1` },
+        })
+        .returning({ lastNumber: purchaseOrderCounters.lastNumber });
+      const poNumber = `PO-${String(counter.lastNumber).padStart(5, '0')}`;
+
+      const [newPurchaseOrder] = await tx
+        .insert(purchaseOrders)
+        .values({ ...purchaseOrder, poNumber })
+        .returning();
+
+      await tx
+        .insert(purchaseOrderLines)
+        .values(lines.map(line => ({ ...line, purchaseOrderId: newPurchaseOrder.id })));
+
+      await tx.insert(auditLogs).values({
+        tenantId: newPurchaseOrder.tenantId,
+        targetTable: 'purchase_orders',
+        targetId: newPurchaseOrder.id,
+        action: 'create',
+        actor: newPurchaseOrder.createdBy,
+        actorType: 'user',
+        changes: { poNumber, supplierId: newPurchaseOrder.supplierId, lineCount: lines.length },
+      });
+
+      return (await this._getPurchaseOrderWithLines(tx, newPurchaseOrder.id, newPurchaseOrder.tenantId))!;
+    });
+  }
+
+  async sendPurchaseOrder(id: string, tenantId: string, sentBy: string): Promise<PurchaseOrder> {
+    return await this._transitionPurchaseOrder(id, tenantId, 'sent', sentBy);
+  }
+
+  async closePurchaseOrder(id: string, tenantId: string, closedBy: string): Promise<PurchaseOrder> {
+    return await this._transitionPurchaseOrder(id, tenantId, 'closed', closedBy);
+  }
+
+  async receivePurchaseOrder(id: string, tenantId: string, receipts: PurchaseOrderReceipt[], receivedBy: string, allowOverReceipt = false): Promise<PurchaseOrderWithLines> {
+    if (receipts.length === 0) {
+      throw new Error("Nothing to receive");
+    }
+
+    return await db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.tenantId, tenantId)))
+        .for('update');
+
+      if (!purchaseOrder) {
+        throw new Error("Purchase order not found");
+      }
+      if (purchaseOrder.status !== 'sent' && purchaseOrder.status !== 'partially_received') {
+        throw new Error(`Only sent purchase orders can be received (current status: ${purchaseOrder.status})`);
+      }
+
+      const [supplier] = await tx
+        .select()
+        .from(suppliers)
+        .where(eq(suppliers.id, purchaseOrder.supplierId));
+
+      const lines = await tx
+        .select()
+        .from(purchaseOrderLines)
+        .where(eq(purchaseOrderLines.purchaseOrderId, id));
+      const lineMap = new Map(lines.map(line => [line.id, line]));
+
+      for (const receipt of receipts) {
+        const line = lineMap.get(receipt.lineId);
+        if (!line) {
+          throw new Error("Purchase order line not found");
+        }
+
+        const normalized = await this._normalizeBatchUnits(tx, {
+          tenantId,
+          productId: line.productId,
+          acquiredAt: receipt.acquiredAt ?? new Date(),
+          supplier: supplier.name,
+          supplierId: supplier.id,
+          purchaseOrderLineId: line.id,
+          lotNumber: receipt.lotNumber ?? null,
+          expiresAt: receipt.expiresAt ?? null,
+          packId: receipt.packId ?? null,
+          locationId: receipt.locationId ?? null,
+          qtyAcquired: receipt.qtyReceived,
+          totalCost: receipt.totalCost,
+          notes: receipt.notes ?? `Received against ${purchaseOrder.poNumber}`,
+        });
+        if (!allowOverReceipt && line.qtyReceived + normalized.qtyAcquired > line.qtyOrdered) {
+          throw new Error(`Receipt exceeds the ordered quantity (${line.qtyOrdered - line.qtyReceived} outstanding); confirm the over-receipt to accept it`);
+        }
+        const { batch } = await this._insertBatchWithLot(tx, normalized, receivedBy, { purchaseOrderId: id, purchaseOrderLineId: line.id });
+
+        const updatedLine = {
+          ...line,
+          qtyReceived: line.qtyReceived + batch.qtyAcquired,
+          receivedCost: (parseFloat(line.receivedCost) + parseFloat(batch.totalCost)).toFixed(2),
+        };
+        await tx
+          .update(purchaseOrderLines)
+          .set({ qtyReceived: updatedLine.qtyReceived, receivedCost: updatedLine.receivedCost })
+          .where(eq(purchaseOrderLines.id, line.id));
+        lineMap.set(line.id, updatedLine);
+      }
+
+      const fullyReceived = Array.from(lineMap.values()).every(line => line.qtyReceived >= line.qtyOrdered);
+      const status = fullyReceived ? 'received' : 'partially_received';
+
+      await tx
+        .update(purchaseOrders)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id));
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'purchase_orders',
+        targetId: id,
+        action: 'update',
+        actor: receivedBy,
+        actorType: 'user',
+        changes: { status: { from: purchaseOrder.status, to: status } },
+        metadata: { receipts: receipts.map(r => ({ lineId: r.lineId, qtyReceived: r.qtyReceived, totalCost: r.totalCost })), allowOverReceipt },
+      });
+
+      return (await this._getPurchaseOrderWithLines(tx, id, tenantId))!;
+    });
+  }
+
+  private async _transitionPurchaseOrder(id: string, tenantId: string, to: PurchaseOrder['status'], actor: string): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.tenantId, tenantId)))
+        .for('update');
+
+      if (!purchaseOrder) {
+        throw new Error("Purchase order not found");
+      }
+      if (!purchaseOrderTransitions[purchaseOrder.status].includes(to)) {
+        throw new Error(`Cannot move purchase order from ${purchaseOrder.status} to ${to}`);
+      }
+
+      const now = new Date();
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: to,
+          updatedAt: now,
+          ...(to === 'sent' ? { sentAt: now } : {}),
+          ...(to === 'closed' ? { closedAt: now } : {}),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'purchase_orders',
+        targetId: id,
+        action: 'update',
+        actor,
+        actorType: 'user',
+        changes: { status: { from: purchaseOrder.status, to } },
+      });
+
+      return updated;
+    });
+  }
+
+  private async _getPurchaseOrderWithLines(executor: any, id: string, tenantId: string): Promise<PurchaseOrderWithLines | undefined> {
+    const [row] = await executor
+      .select({ purchaseOrder: purchaseOrders, supplier: suppliers })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.tenantId, tenantId)));
+
+    if (!row) {
+      return undefined;
+    }
+
+    const lineRows: Array<{ line: PurchaseOrderLine; productName: string; unit: string }> = await executor
+      .select({ line: purchaseOrderLines, productName: products.name, unit: products.unit })
+      .from(purchaseOrderLines)
+      .innerJoin(products, eq(purchaseOrderLines.productId, products.id))
+      .where(eq(purchaseOrderLines.purchaseOrderId, id))
+      .orderBy(asc(products.name));
+
+    let orderedCost = 0;
+    let receivedCost = 0;
+    let expectedCost = 0;
+
+    const lines = lineRows.map(({ line, productName, unit }) => {
+      const lineExpected = line.qtyReceived * parseFloat(line.unitCost);
+      const lineReceived = parseFloat(line.receivedCost);
+      orderedCost += line.qtyOrdered * parseFloat(line.unitCost);
+      receivedCost += lineReceived;
+      expectedCost += lineExpected;
+
+      return {
+        ...line,
+        productName,
+        unit,
+        qtyOutstanding: Math.max(0, line.qtyOrdered - line.qtyReceived),
+        expectedCost: lineExpected.toFixed(2),
+        costVariance: (lineReceived - lineExpected).toFixed(2),
+      };
+    });
+
+    return {
+      ...row.purchaseOrder,
+      supplier: row.supplier,
+      lines,
+      orderedCost: orderedCost.toFixed(2),
+      receivedCost: receivedCost.toFixed(2),
+      costVariance: (receivedCost - expectedCost).toFixed(2),
+    };
+  }
+
+  // Customers
+  async getCustomers(tenantId: string): Promise<Customer[]> {
+    let customerList = await db.select().from(customers).where(eq(customers.tenantId, tenantId));
+    
+    // Filter out armed content if self-destruct is enabled
+    customerList = await this.filterOutArmed(tenantId, 'customers', customerList);
+    
+    // Check if encryption is enabled for this tenant
+    const encryptionEnabled = await this.isEncryptionEnabled(tenantId);
+    
+    if (encryptionEnabled) {
+      // Decrypt all customers in the list
+      const decryptedCustomers = await Promise.all(
+        customerList.map(async (customer) => {
+          if (customer.nameEnc) {
+            return {
+              ...customer,
+              name: customer.nameEnc ? await decryptOptional(tenantId, customer.nameEnc) : customer.name,
+              phone: customer.phoneEnc ? await decryptOptional(tenantId, customer.phoneEnc) : customer.phone,
+              email: customer.emailEnc ? await decryptOptional(tenantId, customer.emailEnc) : customer.email,
+              notes: customer.notesEnc ? await decryptOptional(tenantId, customer.notesEnc) : customer.notes,
+            };
+          }
+          return customer;
+        })
+      );
+      return decryptedCustomers;
+    }
+    
+    return customerList;
+  }
+
+  async getCustomersWithDetails(tenantId: string): Promise<Array<Customer & { 
+    loyaltyTier?: string; 
+    loyaltyPoints?: number;
+    creditLimit?: string; 
+    creditBalance?: string;
+    creditStatus?: string;
+  }>> {
+    // Get all customers for the tenant (already handles decryption)
+    const customerList = await this.getCustomers(tenantId);
+
+    // Get loyalty data for all customers in one query
+    const loyaltyData = await db
+      .select({
+        customerId: loyaltyAccounts.customerId,
+        tier: loyaltyAccounts.tier,
+        points: loyaltyAccounts.points,
+      })
+      .from(loyaltyAccounts)
+      .where(eq(loyaltyAccounts.tenantId, tenantId));
+
+    // Get credit data for all customers in one query
+    const creditData = await db
+      .select({
+        customerId: credits.customerId,
+        limitAmount: credits.limitAmount,
+        balance: credits.balance,
+        status: credits.status,
+      })
+      .from(credits)
+      .where(eq(credits.tenantId, tenantId));
+
+    // Create lookup maps for efficient access
+    const loyaltyMap = new Map(loyaltyData.map(l => [l.customerId, l]));
+    const creditMap = new Map(creditData.map(c => [c.customerId, c]));
+
+    // Combine data for each customer (customers are already decrypted from getCustomers call)
+    const customersWithDetails = customerList.map(customer => {
+      const loyalty = loyaltyMap.get(customer.id);
+      const credit = creditMap.get(customer.id);
+
+      return {
+        ...customer,
+        loyaltyTier: loyalty?.tier,
+        loyaltyPoints: loyalty?.points,
+        creditLimit: credit?.limitAmount,
+        creditBalance: credit?.balance,
+        creditStatus: credit?.status,
+      };
+    });
+
+    return customersWithDetails;
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const [newCustomer] = await db.insert(customers).values(customer).returning();
+    return newCustomer;
+  }
+
+  async getCustomer(id: string, tenantId: string): Promise<Customer | undefined> {
+    // Use the dedicated decryption method for consistent handling
+    return await this.getCustomerDecrypted(id, tenantId);
+  }
+
+  // Orders
+  async getOrders(tenantId: string): Promise<Order[]> {
+    let orderList = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.tenantId, tenantId))
+      .orderBy(desc(orders.createdAt));
+    
+    // Filter out armed content if self-destruct is enabled
+    orderList = await this.filterOutArmed(tenantId, 'orders', orderList);
+    
+    return orderList;
+  }
+
+  async createOrder(order: InsertOrder, items: Omit<InsertOrderItem, 'orderId'>[] = [], discounts: Omit<InsertOrderDiscount, 'orderId'>[] = [], delivery: Omit<InsertDelivery, 'orderId'> | null = null): Promise<Order> {
+    const encryptDelivery = delivery ? await this.isEncryptionEnabled(order.tenantId) : false;
+    return await db.transaction(async (tx) => {
+      if (order.locationId) {
+        await this._getLocation(tx, order.tenantId, order.locationId);
+      }
+
+      const allocatesNow = order.status === "confirmed";
+      const [newOrder] = await tx
+        .insert(orders)
+        .values({ ...order, confirmedAt: allocatesNow ? new Date() : null })
+        .returning();
+
+      if (items.length > 0) {
+        // Every line must reference a product owned by this tenant
+        const productIds = Array.from(new Set(items.map(item => item.productId)));
+        const ownedProducts = await tx
+          .select({ id: products.id })
+          .from(products)
+          .where(and(
+            eq(products.tenantId, newOrder.tenantId),
+            inArray(products.id, productIds),
+            isNull(products.archivedAt)
+          ));
+
+        if (ownedProducts.length !== productIds.length) {
+          throw new Error("One or more order items reference a product that was not found or is archived");
+        }
+
+        // Lines sold in packs are stored per base unit so allocation and WAC stay in one unit
+        const normalizedItems = [];
+        for (const item of items) {
+          if (!item.packId) {
+            normalizedItems.push({ ...item, packId: null });
+            continue;
+          }
+          const packs = await this._getPacks(tx, newOrder.tenantId, item.productId, [item.packId]);
+          const { qtyPerPack } = packs.get(item.packId)!;
+          normalizedItems.push({
+            ...item,
+            qty: item.qty * qtyPerPack,
+            unitPrice: (parseFloat(item.unitPrice) / qtyPerPack).toFixed(4),
+          });
+        }
+
+        await tx.insert(orderItems).values(
+          normalizedItems.map(item => ({
+            ...item,
+            orderId: newOrder.id,
+            batchId: null,
+            lotId: null,
+            unitCostSnapshot: null,
+          }))
+        );
+      }
+
+      if (discounts.length > 0) {
+        await tx.insert(orderDiscounts).values(discounts.map(discount => ({ ...discount, orderId: newOrder.id })));
+        if (allocatesNow) {
+          await this._assertPromotionLimits(tx, newOrder);
+        }
+      }
+
+      // Redeemed points come off the balance in the same transaction, so they cannot be spent twice
+      if (newOrder.loyaltyPointsRedeemed > 0) {
+        const [account] = await tx
+          .update(loyaltyAccounts)
+          .set({
+            points: sql`${loyaltyAccounts.points} - ${newOrder.loyaltyPointsRedeemed}`,
+            updatedAt: new Date(),
+          })
+          .where(and(
+            eq(loyaltyAccounts.tenantId, newOrder.tenantId),
+            eq(loyaltyAccounts.customerId, newOrder.customerId!),
+            gte(loyaltyAccounts.points, newOrder.loyaltyPointsRedeemed)
+          ))
+          .returning();
+        if (!account) {
+          throw new Error("Loyalty points: the customer no longer has enough points");
+        }
+
+        await tx.insert(loyaltyEvents).values({
+          tenantId: newOrder.tenantId,
+          customerId: newOrder.customerId!,
+          orderId: newOrder.id,
+          pointsDelta: -newOrder.loyaltyPointsRedeemed,
+          reason: 'redeemed',
+        });
+      }
+
+      // The delivery is written with the order so an order never exists without its address
+      if (delivery) {
+        await this._insertDelivery(tx, { ...delivery, orderId: newOrder.id }, encryptDelivery);
+      }
+
+      // Orders that skip the draft stage consume stock immediately
+      const allocations = allocatesNow
+        ? await this._allocateOrderItemsFifo(tx, newOrder.tenantId, newOrder.id, newOrder.locationId)
+        : [];
+
+      await tx.insert(auditLogs).values({
+        tenantId: newOrder.tenantId,
+        targetTable: 'orders',
+        targetId: newOrder.id,
+        action: 'create',
+        actor: newOrder.createdBy,
+        actorType: 'user',
+        changes: { status: { from: null, to: newOrder.status }, total: newOrder.total },
+        metadata: { allocations },
+      });
+
+      return newOrder;
+    });
+  }
+
+  async getOrder(id: string, tenantId: string): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, id), eq(orders.tenantId, tenantId)));
+    return order;
+  }
+
+  // Customer and delivery address are decrypted; armed orders are treated as missing
+  async getOrderDetail(id: string, tenantId: string): Promise<OrderDetail | undefined> {
+    const [row] = await db
+      .select({
+        order: orders,
+        locationName: locations.name,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(orders)
+      .leftJoin(locations, eq(orders.locationId, locations.id))
+      .leftJoin(users, eq(orders.createdBy, users.id))
+      .where(and(eq(orders.id, id), eq(orders.tenantId, tenantId)));
+
+    if (!row) {
+      return undefined;
+    }
+    const [visible] = await this.filterOutArmed(tenantId, 'orders', [row.order]);
+    if (!visible) {
+      return undefined;
+    }
+    const { order } = row;
+
+    const customer = order.customerId ? await this.getCustomerDecrypted(order.customerId, tenantId) : undefined;
+
+    const itemRows = await db
+      .select({
+        item: orderItems,
+        productName: products.name,
+        unit: products.unit,
+        packName: productPacks.name,
+        lotNumber: batches.lotNumber,
+      })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .leftJoin(productPacks, eq(orderItems.packId, productPacks.id))
+      .leftJoin(batches, eq(orderItems.batchId, batches.id))
+      .where(eq(orderItems.orderId, id))
+      .orderBy(asc(products.name));
+
+    const discounts = await db
+      .select()
+      .from(orderDiscounts)
+      .where(eq(orderDiscounts.orderId, id))
+      .orderBy(asc(orderDiscounts.createdAt));
+
+    const orderPayments = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.orderId, id), eq(payments.tenantId, tenantId)))
+      .orderBy(asc(payments.createdAt));
+
+    const [deliveryRow] = await db
+      .select()
+      .from(deliveries)
+      .where(and(eq(deliveries.orderId, id), eq(deliveries.tenantId, tenantId)))
+      .orderBy(desc(deliveries.createdAt))
+      .limit(1);
+
+    let delivery: OrderDetail['delivery'] = null;
+    if (deliveryRow) {
+      const { addressLine1Enc, cityEnc, stateEnc, postalCodeEnc, ...plain } = deliveryRow;
+      delivery = { ...plain, ...(await this._decryptDeliveryAddress(tenantId, deliveryRow)) };
+    }
+
+    const orderLoyaltyEvents = await db
+      .select()
+      .from(loyaltyEvents)
+      .where(and(eq(loyaltyEvents.orderId, id), eq(loyaltyEvents.tenantId, tenantId)))
+      .orderBy(asc(loyaltyEvents.createdAt));
+
+    const orderCreditTransactions = await db
+      .select()
+      .from(creditTransactions)
+      .where(and(eq(creditTransactions.orderId, id), eq(creditTransactions.tenantId, tenantId)))
+      .orderBy(asc(creditTransactions.createdAt));
+
+    const returns = await this._getOrderReturns(db, id);
+
+    const auditRows = await db
+      .select({
+        log: auditLogs,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actor, users.id))
+      .where(and(
+        eq(auditLogs.tenantId, tenantId),
+        eq(auditLogs.targetTable, 'orders'),
+        eq(auditLogs.targetId, id)
+      ))
+      .orderBy(asc(auditLogs.createdAt));
+
+    return {
+      ...order,
+      customer: customer
+        ? { id: customer.id, name: customer.name, phone: customer.phone, email: customer.email }
+        : null,
+      locationName: row.locationName,
+      createdByName: this._displayName(row),
+      items: itemRows.map(itemRow => ({
+        ...itemRow.item,
+        productName: itemRow.productName,
+        unit: itemRow.unit,
+        packName: itemRow.packName,
+        lotNumber: itemRow.lotNumber,
+      })),
+      discounts,
+      payments: orderPayments,
+      delivery,
+      loyaltyEvents: orderLoyaltyEvents,
+      creditTransactions: orderCreditTransactions,
+      returns,
+      auditTrail: auditRows.map(auditRow => ({ ...auditRow.log, actorName: this._displayName(auditRow) })),
+    };
+  }
+
+  async confirmOrder(id: string, tenantId: string, confirmedBy: string): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const order = await this._lockOrderForTransition(tx, id, tenantId, 'confirmed', 'confirmed');
+      await this._assertPromotionLimits(tx, order);
+
+      const allocations = await this._allocateOrderItemsFifo(tx, tenantId, id, order.locationId);
+
+      return await this._completeOrderTransition(tx, order, { status: 'confirmed', confirmedAt: new Date() }, confirmedBy, { allocations });
+    });
+  }
+
+  async markOrderPaid(id: string, tenantId: string, paidBy: string, payment: { paymentMethod?: string | null; paymentNotes?: string | null } = {}): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const order = await this._lockOrderForTransition(tx, id, tenantId, 'paid', 'marked paid');
+
+      // Points are earned on what the customer paid for the goods, after discounts and redeemed points
+      const tenantSettings = await this.getTenantSettings(tenantId);
+      const pointsPerDollar = parseFloat(tenantSettings?.loyaltyPointsPerDollar ?? "0");
+      const paidForGoods = parseFloat(order.subtotal) - parseFloat(order.discount) - parseFloat(order.loyaltyDiscount);
+      const loyaltyPointsEarned = order.customerId && pointsPerDollar > 0
+        ? Math.max(Math.floor(paidForGoods * pointsPerDollar), 0)
+        : 0;
+      if (loyaltyPointsEarned > 0) {
+        await this._adjustLoyaltyPoints(tx, order, loyaltyPointsEarned, 'earned');
+      }
+
+      return await this._completeOrderTransition(tx, order, {
+        status: 'paid',
+        paymentStatus: 'completed',
+        paymentMethod: payment.paymentMethod ?? order.paymentMethod,
+        paymentNotes: payment.paymentNotes ?? order.paymentNotes,
+        loyaltyPointsEarned,
+      }, paidBy);
+    });
+  }
+
+  // Voiding a confirmed order puts its stock back; a draft never took any
+  async voidOrder(id: string, tenantId: string, voidedBy: string, reason: string): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const order = await this._lockOrder(tx, id, tenantId);
+      if (order.status === 'paid') {
+        throw new Error("Paid orders can only be voided through a refund");
+      }
+      this._assertOrderTransition(order, 'voided', 'voided');
+
+      const restocked = await this._reverseOrder(tx, order);
+
+      return await this._completeOrderTransition(tx, order, {
+        status: 'voided',
+        voidedAt: new Date(),
+        voidReason: reason,
+      }, voidedBy, { reason, restocked });
+    });
+  }
+
+  // Refunds the whole of a paid order, delivery fee included, as a return of every item:
+  // stock and redeemed points come back, earned points are taken back, the order is
+  // voided, and the money goes back the way it was paid. A card refund is sent once all
+  // of that has committed.
+  async refundOrder(id: string, tenantId: string, refundedBy: string, reason: string, issueCardRefund: CardRefundIssuer | null): Promise<Order> {
+    const orderReturn = await db.transaction(async (tx) => {
+      const order = await this._lockOrder(tx, id, tenantId);
+      if (order.status !== 'paid') {
+        throw new Error(`Only paid orders can be refunded (current status: ${order.status})`);
+      }
+      const [earlierReturn] = await tx
+        .select({ id: orderReturns.id })
+        .from(orderReturns)
+        .where(eq(orderReturns.orderId, id))
+        .limit(1);
+      if (earlierReturn) {
+        throw new Error("Only orders without returns can be refunded in full; return the remaining items instead");
+      }
+
+      const restocked = await this._reverseOrder(tx, order);
+
+      const itemRows: OrderItem[] = await tx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, id));
+      const subtotal = parseFloat(order.subtotal);
+      const paidShare = subtotal > 0 ? (parseFloat(order.total) - parseFloat(order.deliveryFee)) / subtotal : 0;
+      const orderReturn = await this._recordReturn(tx, order, {
+        reason,
+        refundAmount: order.total,
+        lines: itemRows.map(item => ({
+          orderItemId: item.id,
+          productId: item.productId,
+          lotId: restocked.find(entry => entry.orderItemId === item.id)?.lotId ?? null,
+          qty: item.qty,
+          disposition: 'restock' as const,
+          refundAmount: (item.qty * parseFloat(item.unitPrice) * paidShare).toFixed(2),
+        })),
+        loyaltyPointsDelta: order.loyaltyPointsRedeemed - order.loyaltyPointsEarned,
+        createdBy: refundedBy,
+      }, issueCardRefund);
+      const settled = await this._settleOrderRefund(tx, order);
+
+      await this._completeOrderTransition(tx, order, {
+        status: 'voided',
+        ...(settled ? { paymentStatus: 'refunded' as const } : {}),
+        voidedAt: new Date(),
+        voidReason: reason,
+      }, refundedBy, {
+        reason,
+        restocked,
+        refund: { returnId: orderReturn.id, refundAmount: orderReturn.refundAmount, refundMethod: orderReturn.refundMethod },
+      });
+      return orderReturn;
+    });
+
+    if (orderReturn.refundStatus === 'pending') {
+      try {
+        await this.issueReturnRefund(id, orderReturn.id, tenantId, refundedBy, issueCardRefund);
+      } catch (error) {
+        // The order stays voided; the refund is left failed for a retry from the order
+        console.error(`Card refund for order ${id} failed:`, error);
+      }
+    }
+    return (await this.getOrder(id, tenantId))!;
+  }
+
+  // Returned units go back to the lot they were sold from or are written off as waste.
+  // Each unit refunds its share of what the customer paid for the goods: discounts,
+  // redeemed points and tax are spread in proportion and the delivery fee is kept.
+  // Stripe payments are refunded through the issuer, credit orders reduce the balance
+  // owed, and anything else is refunded at the counter the way it was paid. The return
+  // is committed before a card refund is sent, so Stripe is never called under the lock.
+  async createOrderReturn(
+    orderId: string,
+    tenantId: string,
+    createdBy: string,
+    request: OrderReturnRequest,
+    issueCardRefund: CardRefundIssuer | null,
+  ): Promise<OrderReturnDetail> {
+    const orderReturn = await db.transaction(async (tx) => {
+      const order = await this._lockOrder(tx, orderId, tenantId);
+      if (order.status !== 'paid') {
+        throw new Error(`Only paid orders can be returned (current status: ${order.status})`);
+      }
+
+      const itemRows = await tx
+        .select({ item: orderItems, productName: products.name })
+        .from(orderItems)
+        .innerJoin(products, eq(orderItems.productId, products.id))
+        .where(eq(orderItems.orderId, orderId));
+      const items = new Map(itemRows.map(row => [row.item.id, row]));
+
+      const earlierLines = await tx
+        .select({ orderItemId: orderReturnLines.orderItemId, qty: orderReturnLines.qty, refundAmount: orderReturnLines.refundAmount })
+        .from(orderReturnLines)
+        .innerJoin(orderReturns, eq(orderReturnLines.returnId, orderReturns.id))
+        .where(eq(orderReturns.orderId, orderId));
+      const returnedQty = new Map<string, number>();
+      for (const line of earlierLines) {
+        returnedQty.set(line.orderItemId, (returnedQty.get(line.orderItemId) ?? 0) + line.qty);
+      }
+      const [earlierRefund] = await tx
+        .select({
+          total: sql<string>`COALESCE(SUM(${orderReturns.refundAmount}), 0)`,
+          loyaltyPoints: sql<number>`COALESCE(SUM(${orderReturns.loyaltyPointsDelta}), 0)`,
+        })
+        .from(orderReturns)
+        .where(eq(orderReturns.orderId, orderId));
+
+      for (const line of request.lines) {
+        const row = items.get(line.orderItemId);
+        if (!row) {
+          throw new Error("Return: order item not found on this order");
+        }
+        const available = row.item.qty - (returnedQty.get(line.orderItemId) ?? 0);
+        if (line.qty > available) {
+          throw new Error(`Return: only ${available} of ${row.productName} on this line can still be returned`);
+        }
+        returnedQty.set(line.orderItemId, (returnedQty.get(line.orderItemId) ?? 0) + line.qty);
+      }
+
+      const subtotal = parseFloat(order.subtotal);
+      const refundable = parseFloat(order.total) - parseFloat(order.deliveryFee);
+      const remaining = refundable - parseFloat(earlierRefund?.total ?? "0");
+      const paidShare = subtotal > 0 ? refundable / subtotal : 0;
+      const everythingReturned = itemRows.every(row => (returnedQty.get(row.item.id) ?? 0) >= row.item.qty);
+
+      let returnedGross = 0;
+      const lines: Array<Omit<OrderReturnLine, 'id' | 'returnId'>> = [];
+      for (const line of request.lines) {
+        const { item } = items.get(line.orderItemId)!;
+        const gross = line.qty * parseFloat(item.unitPrice);
+        returnedGross += gross;
+
+        let lotId: string | null = null;
+        if (line.disposition === 'restock') {
+          if (!item.batchId) {
+            throw new Error("Return: this order's items were never taken from stock");
+          }
+          lotId = await this._lotForOrderItem(tx, order, item);
+          await tx
+            .update(inventoryLots)
+            .set({ qtyRemaining: sql`${inventoryLots.qtyRemaining} + ${line.qty}` })
+            .where(eq(inventoryLots.id, lotId));
+        }
+
+        lines.push({
+          orderItemId: item.id,
+          productId: item.productId,
+          lotId,
+          qty: line.qty,
+          disposition: line.disposition,
+          refundAmount: (gross * paidShare).toFixed(2),
+        });
+      }
+
+      // The last return settles whatever is left, so rounding never leaves pennies behind
+      const refund = everythingReturned
+        ? Math.max(remaining, 0)
+        : Math.min(lines.reduce((sum, line) => sum + parseFloat(line.refundAmount), 0), Math.max(remaining, 0));
+      const refundAmount = refund.toFixed(2);
+
+      // Points follow the goods: the returned share of redeemed points comes back and the same
+      // share of earned points is taken away. Like the money, the last return settles the rest.
+      const share = subtotal > 0 ? Math.min(returnedGross / subtotal, 1) : 0;
+      const loyaltyPointsDelta = everythingReturned
+        ? order.loyaltyPointsRedeemed - order.loyaltyPointsEarned - Number(earlierRefund?.loyaltyPoints ?? 0)
+        : Math.floor(order.loyaltyPointsRedeemed * share) - Math.floor(order.loyaltyPointsEarned * share);
+      if (loyaltyPointsDelta !== 0 && order.customerId) {
+        await this._adjustLoyaltyPoints(tx, order, loyaltyPointsDelta, 'returned');
+      }
+
+      const orderReturn = await this._recordReturn(tx, order, {
+        reason: request.reason,
+        refundAmount,
+        lines,
+        loyaltyPointsDelta,
+        createdBy,
+      }, issueCardRefund);
+
+      const settled = await this._settleOrderRefund(tx, order);
+
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'orders',
+        targetId: orderId,
+        action: 'update',
+        actor: createdBy,
+        actorType: 'user',
+        changes: {
+          returned: { returnId: orderReturn.id, refundAmount, refundMethod: orderReturn.refundMethod },
+          ...(settled ? { paymentStatus: { from: order.paymentStatus, to: 'refunded' } } : {}),
+        },
+        metadata: { reason: request.reason, lines, loyaltyPointsDelta, refundStatus: orderReturn.refundStatus },
+      });
+
+      return orderReturn;
+    });
+
+    if (orderReturn.refundStatus === 'pending') {
+      try {
+        return await this.issueReturnRefund(orderId, orderReturn.id, tenantId, createdBy, issueCardRefund);
+      } catch (error) {
+        // The goods are back either way; the refund is left failed for a retry from the order
+        console.error(`Card refund for return ${orderReturn.id} failed:`, error);
+      }
+    }
+    return await this._getOrderReturn(db, orderId, orderReturn.id);
+  }
+
+  // Sends a return's card refund to Stripe and records it, for a new return or a retry of
+  // one that failed
+  async issueReturnRefund(
+    orderId: string,
+    returnId: string,
+    tenantId: string,
+    actor: string,
+    issueCardRefund: CardRefundIssuer | null,
+  ): Promise<OrderReturnDetail> {
+    const [row] = await db
+      .select({ orderReturn: orderReturns, payment: payments })
+      .from(orderReturns)
+      .leftJoin(payments, eq(orderReturns.paymentId, payments.id))
+      .where(and(eq(orderReturns.id, returnId), eq(orderReturns.orderId, orderId), eq(orderReturns.tenantId, tenantId)));
+    if (!row) {
+      throw new Error("Return not found");
+    }
+    const { orderReturn, payment } = row;
+    if (orderReturn.refundStatus === 'completed') {
+      return await this._getOrderReturn(db, orderId, returnId);
+    }
+    if (!payment) {
+      throw new Error("Refund: the card payment for this return was not found");
+    }
+    if (!issueCardRefund) {
+      throw new Error("Refund: card refunds need Stripe, which is not configured");
+    }
+
+    let refundId: string;
+    try {
+      refundId = await issueCardRefund(payment, orderReturn.refundAmount, orderReturn.reason, `order-return-${returnId}`);
+    } catch (error: any) {
+      await db
+        .update(orderReturns)
+        .set({ refundStatus: 'failed' })
+        .where(and(eq(orderReturns.id, returnId), eq(orderReturns.refundStatus, 'pending')));
+      throw new Error(`Refund: the card refund failed (${error.message}); try again from the order`);
+    }
+
+    return await db.transaction(async (tx) => {
+      const order = await this._lockOrder(tx, orderId, tenantId);
+      const [completed] = await tx
+        .update(orderReturns)
+        .set({ refundId, refundStatus: 'completed' })
+        .where(and(eq(orderReturns.id, returnId), ne(orderReturns.refundStatus, 'completed')))
+        .returning();
+      // A concurrent attempt got the same refund back from Stripe and recorded it first
+      if (!completed) {
+        return await this._getOrderReturn(tx, orderId, returnId);
+      }
+
+      // The payment keeps a running total, as partial refunds leave it completed until the last
+      const [current] = await tx
+        .select()
+        .from(payments)
+        .where(eq(payments.id, payment.id))
+        .for('update');
+      const paymentMetadata = (current.metadata ?? {}) as { refundAmount?: number };
+      const refunded = (paymentMetadata.refundAmount ?? 0) + parseFloat(completed.refundAmount);
+      await tx
+        .update(payments)
+        .set({
+          status: refunded >= parseFloat(current.amount) - 0.005 ? 'refunded' : 'completed',
+          refundId,
+          metadata: { ...paymentMetadata, refundId, refundAmount: refunded, refundReason: completed.reason },
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, payment.id));
+
+      const settled = await this._settleOrderRefund(tx, order);
 
-    return productsWithInventory;
-  }
+      await tx.insert(auditLogs).values({
+        tenantId,
+        targetTable: 'orders',
+        targetId: orderId,
+        action: 'update',
+        actor,
+        actorType: 'user',
+        changes: {
+          refunded: { returnId, refundAmount: completed.refundAmount, refundId },
+          ...(settled ? { paymentStatus: { from: order.paymentStatus, to: 'refunded' } } : {}),
+        },
+      });
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db.insert(products).values(product).returning();
-    return newProduct;
+      return await this._getOrderReturn(tx, orderId, returnId);
+    });
   }
 
-  async getProduct(id: string, tenantId: string): Promise<Product | undefined> {
-    const [product] = await db
+  // Records a return and how it is refunded. Credit refunds come off the balance owed here;
+  // a card refund is left pending for issueReturnRefund once the caller has committed.
+  private async _recordReturn(
+    tx: any,
+    order: Order,
+    entry: {
+      reason: string;
+      refundAmount: string;
+      lines: Array<Omit<OrderReturnLine, 'id' | 'returnId'>>;
+      loyaltyPointsDelta: number;
+      createdBy: string;
+    },
+    issueCardRefund: CardRefundIssuer | null,
+  ): Promise<OrderReturn> {
+    const refund = parseFloat(entry.refundAmount);
+    const [creditCharge] = await tx
+      .select({ id: creditTransactions.id })
+      .from(creditTransactions)
+      .where(and(eq(creditTransactions.orderId, order.id), gt(creditTransactions.amount, "0")))
+      .limit(1);
+    const [payment] = creditCharge ? [] : await tx
       .select()
-      .from(products)
-      .where(and(eq(products.id, id), eq(products.tenantId, tenantId)));
-    return product;
-  }
+      .from(payments)
+      .where(and(
+        eq(payments.orderId, order.id),
+        eq(payments.tenantId, order.tenantId),
+        inArray(payments.status, ['completed', 'refunded'])
+      ))
+      .orderBy(desc(payments.createdAt))
+      .limit(1);
+    if (payment?.status === 'refunded') {
+      throw new Error("Return: the order's payment has already been refunded");
+    }
 
-  // Customers
-  async getCustomers(tenantId: string): Promise<Customer[]> {
-    let customerList = await db.select().from(customers).where(eq(customers.tenantId, tenantId));
-    
-    // Filter out armed content if self-destruct is enabled
-    customerList = await this.filterOutArmed(tenantId, 'customers', customerList);
-    
-    // Check if encryption is enabled for this tenant
-    const encryptionEnabled = await this.isEncryptionEnabled(tenantId);
-    
-    if (encryptionEnabled) {
-      // Decrypt all customers in the list
-      const decryptedCustomers = await Promise.all(
-        customerList.map(async (customer) => {
-          if (customer.nameEnc) {
-            return {
-              ...customer,
-              name: customer.nameEnc ? await decryptOptional(tenantId, customer.nameEnc) : customer.name,
-              phone: customer.phoneEnc ? await decryptOptional(tenantId, customer.phoneEnc) : customer.phone,
-              email: customer.emailEnc ? await decryptOptional(tenantId, customer.emailEnc) : customer.email,
-              notes: customer.notesEnc ? await decryptOptional(tenantId, customer.notesEnc) : customer.notes,
-            };
-          }
-          return customer;
+    // Stripe charges are refunded through the issuer; anything else goes back the way it was paid
+    const refundMethod: OrderReturn['refundMethod'] = creditCharge
+      ? 'credit'
+      : payment?.chargeId
+        ? 'stripe'
+        : counterRefundMethods[payment?.method ?? order.paymentMethod ?? ''] ?? 'other';
+    if (refundMethod === 'credit' && refund > 0) {
+      const [account] = await tx
+        .update(credits)
+        .set({
+          balance: sql`GREATEST(${credits.balance} - ${entry.refundAmount}, 0)`,
+          updatedAt: new Date(),
         })
-      );
-      return decryptedCustomers;
+        .where(and(eq(credits.tenantId, order.tenantId), eq(credits.customerId, order.customerId!)))
+        .returning();
+      if (!account) {
+        throw new Error(`No credit account found for customer ${order.customerId}`);
+      }
+      await tx.insert(creditTransactions).values({
+        tenantId: order.tenantId,
+        customerId: order.customerId!,
+        orderId: order.id,
+        amount: `-${entry.refundAmount}`,
+        status: 'paid',
+        paidDate: new Date(),
+      });
     }
-    
-    return customerList;
+    if (refundMethod === 'stripe' && refund > 0 && !issueCardRefund) {
+      throw new Error("Refund: card refunds need Stripe, which is not configured");
+    }
+    const refundStatus: OrderReturn['refundStatus'] = refundMethod === 'stripe' && refund > 0 ? 'pending' : 'completed';
+
+    const [orderReturn] = await tx
+      .insert(orderReturns)
+      .values({
+        tenantId: order.tenantId,
+        orderId: order.id,
+        reason: entry.reason,
+        refundAmount: entry.refundAmount,
+        refundMethod,
+        refundStatus,
+        paymentId: refundMethod === 'stripe' ? payment.id : null,
+        loyaltyPointsDelta: entry.loyaltyPointsDelta,
+        createdBy: entry.createdBy,
+      })
+      .returning();
+
+    await tx.insert(orderReturnLines).values(entry.lines.map(line => ({ ...line, returnId: orderReturn.id })));
+
+    return orderReturn;
   }
 
-  async getCustomersWithDetails(tenantId: string): Promise<Array<Customer & { 
-    loyaltyTier?: string; 
-    loyaltyPoints?: number;
-    creditLimit?: string; 
-    creditBalance?: string;
-    creditStatus?: string;
-  }>> {
-    // Get all customers for the tenant (already handles decryption)
-    const customerList = await this.getCustomers(tenantId);
+  // An order is refunded once every item has come back and every refund has gone out
+  private async _settleOrderRefund(tx: any, order: Order): Promise<boolean> {
+    if (order.paymentStatus === 'refunded') {
+      return false;
+    }
+    const [unsettled] = await tx
+      .select({ id: orderReturns.id })
+      .from(orderReturns)
+      .where(and(eq(orderReturns.orderId, order.id), ne(orderReturns.refundStatus, 'completed')))
+      .limit(1);
+    if (unsettled) {
+      return false;
+    }
 
-    // Get loyalty data for all customers in one query
-    const loyaltyData = await db
+    const returnedRows = await tx
+      .select({ orderItemId: orderReturnLines.orderItemId, qty: sql<number>`SUM(${orderReturnLines.qty})` })
+      .from(orderReturnLines)
+      .innerJoin(orderReturns, eq(orderReturnLines.returnId, orderReturns.id))
+      .where(eq(orderReturns.orderId, order.id))
+      .groupBy(orderReturnLines.orderItemId);
+    const returnedQty = new Map<string, number>(returnedRows.map((row: any) => [row.orderItemId, Number(row.qty)]));
+    const itemRows = await tx
+      .select({ id: orderItems.id, qty: orderItems.qty })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id));
+    if (itemRows.some((item: any) => (returnedQty.get(item.id) ?? 0) < item.qty)) {
+      return false;
+    }
+
+    await tx
+      .update(orders)
+      .set({ paymentStatus: 'refunded' })
+      .where(eq(orders.id, order.id));
+    return true;
+  }
+
+  private async _getOrderReturn(executor: any, orderId: string, returnId: string): Promise<OrderReturnDetail> {
+    const [detail] = (await this._getOrderReturns(executor, orderId)).filter(entry => entry.id === returnId);
+    return detail;
+  }
+
+  private async _getOrderReturns(executor: any, orderId: string): Promise<OrderReturnDetail[]> {
+    const returnRows = await executor
       .select({
-        customerId: loyaltyAccounts.customerId,
-        tier: loyaltyAccounts.tier,
-        points: loyaltyAccounts.points,
+        orderReturn: orderReturns,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
       })
-      .from(loyaltyAccounts)
-      .where(eq(loyaltyAccounts.tenantId, tenantId));
+      .from(orderReturns)
+      .leftJoin(users, eq(orderReturns.createdBy, users.id))
+      .where(eq(orderReturns.orderId, orderId))
+      .orderBy(asc(orderReturns.createdAt));
+    if (returnRows.length === 0) {
+      return [];
+    }
 
-    // Get credit data for all customers in one query
-    const creditData = await db
+    const lineRows = await executor
       .select({
-        customerId: credits.customerId,
-        limitAmount: credits.limitAmount,
-        balance: credits.balance,
-        status: credits.status,
+        line: orderReturnLines,
+        productName: products.name,
+        unit: products.unit,
+        lotNumber: inventoryLots.lotNumber,
       })
-      .from(credits)
-      .where(eq(credits.tenantId, tenantId));
+      .from(orderReturnLines)
+      .innerJoin(products, eq(orderReturnLines.productId, products.id))
+      .leftJoin(inventoryLots, eq(orderReturnLines.lotId, inventoryLots.id))
+      .where(inArray(orderReturnLines.returnId, returnRows.map((row: any) => row.orderReturn.id)));
+
+    return returnRows.map((row: any) => ({
+      ...row.orderReturn,
+      createdByName: this._displayName(row),
+      lines: lineRows
+        .filter((lineRow: any) => lineRow.line.returnId === row.orderReturn.id)
+        .map((lineRow: any) => ({ ...lineRow.line, productName: lineRow.productName, unit: lineRow.unit, lotNumber: lineRow.lotNumber })),
+    }));
+  }
 
-    // Create lookup maps for efficient access
-    const loyaltyMap = new Map(loyaltyData.map(l => [l.customerId, l]));
-    const creditMap = new Map(creditData.map(c => [c.customerId, c]));
+  private async _lockOrder(tx: any, id: string, tenantId: string): Promise<Order> {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, id), eq(orders.tenantId, tenantId)))
+      .for('update');
 
-    // Combine data for each customer (customers are already decrypted from getCustomers call)
-    const customersWithDetails = customerList.map(customer => {
-      const loyalty = loyaltyMap.get(customer.id);
-      const credit = creditMap.get(customer.id);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    return order;
+  }
 
-      return {
-        ...customer,
-        loyaltyTier: loyalty?.tier,
-        loyaltyPoints: loyalty?.points,
-        creditLimit: credit?.limitAmount,
-        creditBalance: credit?.balance,
-        creditStatus: credit?.status,
-      };
-    });
+  private _assertOrderTransition(order: Order, to: Order['status'], verb: string): void {
+    if (order.status === 'voided') {
+      throw new Error("Voided orders cannot be changed");
+    }
+    if (!orderTransitions[order.status].includes(to)) {
+      const from = (Object.keys(orderTransitions) as Order['status'][]).filter(status => orderTransitions[status].includes(to));
+      throw new Error(`Only ${from.join(' or ')} orders can be ${verb} (current status: ${order.status})`);
+    }
+  }
 
-    return customersWithDetails;
+  private async _lockOrderForTransition(tx: any, id: string, tenantId: string, to: Order['status'], verb: string): Promise<Order> {
+    const order = await this._lockOrder(tx, id, tenantId);
+    this._assertOrderTransition(order, to, verb);
+    return order;
   }
 
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
-    const [newCustomer] = await db.insert(customers).values(customer).returning();
-    return newCustomer;
+  private async _completeOrderTransition(
+    tx: any,
+    order: Order,
+    changes: Partial<Pick<Order, 'status' | 'paymentStatus' | 'paymentMethod' | 'paymentNotes' | 'loyaltyPointsEarned' | 'confirmedAt' | 'voidedAt' | 'voidReason'>> & { status: Order['status'] },
+    actor: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<Order> {
+    const [updatedOrder] = await tx
+      .update(orders)
+      .set(changes)
+      .where(eq(orders.id, order.id))
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      tenantId: order.tenantId,
+      targetTable: 'orders',
+      targetId: order.id,
+      action: 'update',
+      actor,
+      actorType: 'user',
+      changes: {
+        status: { from: order.status, to: updatedOrder.status },
+        ...(changes.paymentStatus ? { paymentStatus: { from: order.paymentStatus, to: updatedOrder.paymentStatus } } : {}),
+      },
+      metadata,
+    });
+
+    return updatedOrder;
   }
 
-  async getCustomer(id: string, tenantId: string): Promise<Customer | undefined> {
-    // Use the dedicated decryption method for consistent handling
-    return await this.getCustomerDecrypted(id, tenantId);
+  // The lot an allocated item was drawn from. Items allocated before lots were recorded
+  // on them go back to their batch's lot at the order's location.
+  private async _lotForOrderItem(tx: any, order: Order, item: OrderItem): Promise<string> {
+    if (item.lotId) {
+      return item.lotId;
+    }
+    const [lot] = await tx
+      .select({ id: inventoryLots.id })
+      .from(inventoryLots)
+      .where(and(
+        eq(inventoryLots.tenantId, order.tenantId),
+        eq(inventoryLots.batchId, item.batchId!),
+        order.locationId ? eq(inventoryLots.locationId, order.locationId) : undefined
+      ))
+      .orderBy(asc(inventoryLots.createdAt))
+      .limit(1);
+    if (!lot) {
+      throw new Error(`No inventory lot to return batch ${item.batchId} to`);
+    }
+    return lot.id;
   }
 
-  // Orders
-  async getOrders(tenantId: string): Promise<Order[]> {
-    let orderList = await db
+  // Returns allocated items to the lots they came from, gives back redeemed points and takes
+  // back earned ones
+  private async _reverseOrder(tx: any, order: Order): Promise<Array<{ orderItemId: string; lotId: string; qty: number }>> {
+    const restocked: Array<{ orderItemId: string; lotId: string; qty: number }> = [];
+
+    const allocatedItems = await tx
       .select()
-      .from(orders)
-      .where(eq(orders.tenantId, tenantId))
-      .orderBy(desc(orders.createdAt));
-    
-    // Filter out armed content if self-destruct is enabled
-    orderList = await this.filterOutArmed(tenantId, 'orders', orderList);
-    
-    return orderList;
+      .from(orderItems)
+      .where(and(eq(orderItems.orderId, order.id), sql`${orderItems.batchId} IS NOT NULL`));
+
+    for (const item of allocatedItems) {
+      const lotId = await this._lotForOrderItem(tx, order, item);
+      await tx
+        .update(inventoryLots)
+        .set({ qtyRemaining: sql`${inventoryLots.qtyRemaining} + ${item.qty}` })
+        .where(eq(inventoryLots.id, lotId));
+      restocked.push({ orderItemId: item.id, lotId, qty: item.qty });
+    }
+
+    const loyaltyPointsDelta = order.loyaltyPointsRedeemed - order.loyaltyPointsEarned;
+    if (loyaltyPointsDelta !== 0 && order.customerId) {
+      await this._adjustLoyaltyPoints(tx, order, loyaltyPointsDelta, 'voided');
+    }
+
+    return restocked;
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
-    return newOrder;
+  // Moves the order's customer's points and records why. Taking back earned points the
+  // customer has already spent leaves the balance below zero until they earn more.
+  private async _adjustLoyaltyPoints(tx: any, order: Order, pointsDelta: number, reason: 'earned' | 'returned' | 'voided'): Promise<void> {
+    const [account] = await tx
+      .update(loyaltyAccounts)
+      .set({
+        points: sql`${loyaltyAccounts.points} + ${pointsDelta}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(loyaltyAccounts.tenantId, order.tenantId), eq(loyaltyAccounts.customerId, order.customerId!)))
+      .returning();
+    if (!account) {
+      await tx.insert(loyaltyAccounts).values({
+        tenantId: order.tenantId,
+        customerId: order.customerId!,
+        points: pointsDelta,
+      });
+    }
+
+    await tx.insert(loyaltyEvents).values({
+      tenantId: order.tenantId,
+      customerId: order.customerId!,
+      orderId: order.id,
+      pointsDelta,
+      reason,
+    });
   }
 
-  async getOrder(id: string, tenantId: string): Promise<Order | undefined> {
-    const [order] = await db
+  // Allocate unallocated order items against unexpired inventory lots, FEFO then FIFO,
+  // at the order's location when it has one. Items spanning several lots are split into
+  // one row per lot so each row carries its batch and unit cost. Throws when any product
+  // lacks sufficient stock.
+  private async _allocateOrderItemsFifo(tx: any, tenantId: string, orderId: string, locationId: string | null = null): Promise<Array<{
+    orderItemId: string;
+    productId: string;
+    lotId: string;
+    batchId: string;
+    qty: number;
+    unitCost: string;
+  }>> {
+    const allocations: Array<{
+      orderItemId: string;
+      productId: string;
+      lotId: string;
+      batchId: string;
+      qty: number;
+      unitCost: string;
+    }> = [];
+
+    const pendingItems = await tx
       .select()
-      .from(orders)
-      .where(and(eq(orders.id, id), eq(orders.tenantId, tenantId)));
-    return order;
+      .from(orderItems)
+      .where(and(eq(orderItems.orderId, orderId), isNull(orderItems.batchId)));
+
+    for (const item of pendingItems) {
+      const lots = await this._lockAvailableLots(tx, tenantId, item.productId, { locationId });
+
+      const available = lots.reduce((sum, lot) => sum + lot.qtyRemaining, 0);
+      if (available < item.qty) {
+        const [product] = await tx
+          .select({ name: products.name })
+          .from(products)
+          .where(eq(products.id, item.productId));
+        const [expiredResult] = await tx
+          .select({ qty: sql<number>`COALESCE(SUM(${inventoryLots.qtyRemaining}), 0)` })
+          .from(inventoryLots)
+          .where(
+            and(
+              eq(inventoryLots.tenantId, tenantId),
+              eq(inventoryLots.productId, item.productId),
+              locationId ? eq(inventoryLots.locationId, locationId) : undefined,
+              sql`${inventoryLots.expiresAt} <= NOW()`
+            )
+          );
+        const expired = Number(expiredResult?.qty || 0);
+        const expiredNote = expired > 0 ? ` (${expired} more expired and cannot be sold)` : '';
+        const location = locationId ? await this._getLocation(tx, tenantId, locationId, { includeArchived: true }) : null;
+        const locationNote = location ? ` at ${location.name}` : '';
+        throw new Error(`Insufficient stock for ${product?.name ?? item.productId}${locationNote}: requested ${item.qty}, available ${available}${expiredNote}`);
+      }
+
+      let remaining = item.qty;
+      let isFirstSplit = true;
+
+      for (const lot of lots) {
+        if (remaining === 0) break;
+
+        const take = Math.min(remaining, lot.qtyRemaining);
+        const unitCost = (parseFloat(lot.totalCost) / lot.qtyAcquired).toFixed(4);
+
+        await tx
+          .update(inventoryLots)
+          .set({ qtyRemaining: lot.qtyRemaining - take })
+          .where(eq(inventoryLots.id, lot.id));
+
+        let orderItemId: string;
+        if (isFirstSplit) {
+          // Reuse the original row for the first lot
+          await tx
+            .update(orderItems)
+            .set({ qty: take, batchId: lot.batchId, lotId: lot.id, unitCostSnapshot: unitCost })
+            .where(eq(orderItems.id, item.id));
+          orderItemId = item.id;
+          isFirstSplit = false;
+        } else {
+          const [splitItem] = await tx
+            .insert(orderItems)
+            .values({
+              orderId,
+              productId: item.productId,
+              batchId: lot.batchId,
+              lotId: lot.id,
+              packId: item.packId,
+              qty: take,
+              unitPrice: item.unitPrice,
+              unitCostSnapshot: unitCost,
+            })
+            .returning();
+          orderItemId = splitItem.id;
+        }
+
+        allocations.push({
+          orderItemId,
+          productId: item.productId,
+          lotId: lot.id,
+          batchId: lot.batchId,
+          qty: take,
+          unitCost,
+        });
+        remaining -= take;
+      }
+    }
+
+    return allocations;
   }
 
   // Dashboard KPIs
@@ -611,6 +5456,7 @@ export class DatabaseStorage implements IStorage {
     ordersToday: number;
     lowStockItems: number;
     overdueCredits: string;
+    overdueCustomers: number;
   }> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -646,36 +5492,109 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
-    // Low stock items (simplified - would need proper inventory calculation)
-    const [lowStockResult] = await db
-      .select({
-        count: sql<number>`COUNT(*)`,
-      })
-      .from(products)
-      .where(eq(products.tenantId, tenantId));
+    // Low stock: products at or below the tenant's minimum stock threshold, including stockouts
+    const productsWithInventory = await this.getProductsWithInventory(tenantId);
+    const lowStockItems = productsWithInventory.filter(p => p.stockStatus !== 'in_stock').length;
 
-    // Overdue credits (simplified)
-    const [creditsResult] = await db
-      .select({
-        total: sql<string>`COALESCE(SUM(${credits.balance}), 0)`,
-      })
-      .from(credits)
-      .where(
-        and(
-          eq(credits.tenantId, tenantId),
-          eq(credits.status, "active"),
-          sql`${credits.balance} > 0`
-        )
-      );
+    // Overdue credit: unpaid charges whose due date has passed
+    const overdueByCustomer = await this._getOverdueCreditsByCustomer(tenantId);
+    const overdueTotal = overdueByCustomer.reduce((sum, row) => sum + parseFloat(row.overdueAmount), 0);
 
     return {
       todayRevenue: revenueResult?.total || "0",
       ordersToday: ordersResult?.count || 0,
-      lowStockItems: Math.floor((lowStockResult?.count || 0) * 0.1), // 10% for demo
-      overdueCredits: creditsResult?.total || "0",
+      lowStockItems,
+      overdueCredits: overdueTotal.toFixed(2),
+      overdueCustomers: overdueByCustomer.length,
     };
   }
 
+  async getDashboardDrilldown(tenantId: string): Promise<{
+    lowStockProducts: Array<{
+      id: string;
+      name: string;
+      unit: string;
+      currentStock: number;
+      minStockThreshold: number;
+      stockStatus: 'low_stock' | 'out_of_stock';
+    }>;
+    overdueCustomers: Array<{
+      customerId: string;
+      customerName: string;
+      overdueAmount: string;
+      transactionCount: number;
+      oldestDueDate: Date | null;
+    }>;
+  }> {
+    const productsWithInventory = await this.getProductsWithInventory(tenantId);
+    const lowStockProducts = productsWithInventory
+      .filter(p => p.stockStatus !== 'in_stock')
+      .sort((a, b) => a.currentStock - b.currentStock)
+      .map(p => ({
+        id: p.id,
+        name: p.name,
+        unit: p.unit,
+        currentStock: p.currentStock,
+        minStockThreshold: p.minStockThreshold,
+        stockStatus: p.stockStatus as 'low_stock' | 'out_of_stock',
+      }));
+
+    // getCustomers decrypts names and hides armed records
+    const overdueByCustomer = await this._getOverdueCreditsByCustomer(tenantId);
+    const customerList = await this.getCustomers(tenantId);
+    const customerMap = new Map(customerList.map(c => [c.id, c]));
+
+    const overdueCustomers = overdueByCustomer
+      .filter(row => customerMap.has(row.customerId))
+      .map(row => ({
+        ...row,
+        customerName: customerMap.get(row.customerId)!.name,
+      }))
+      .sort((a, b) => parseFloat(b.overdueAmount) - parseFloat(a.overdueAmount));
+
+    return { lowStockProducts, overdueCustomers };
+  }
+
+  // Sum unpaid, past-due credit charges (amount plus fee) per customer. Returns credit the
+  // order they came from, so each charge counts only what is still owed for its goods.
+  private async _getOverdueCreditsByCustomer(tenantId: string): Promise<Array<{
+    customerId: string;
+    overdueAmount: string;
+    transactionCount: number;
+    oldestDueDate: Date | null;
+  }>> {
+    const owed = sql`(${creditTransactions.amount} - COALESCE((
+      SELECT SUM(-r.amount) FROM credit_transactions r
+      WHERE r.tenant_id = ${tenantId} AND r.order_id = ${creditTransactions.orderId} AND r.amount < 0
+    ), 0))`;
+    const rows = await db
+      .select({
+        customerId: creditTransactions.customerId,
+        overdueAmount: sql<string>`COALESCE(SUM(${owed} + ${creditTransactions.fee}), 0)`,
+        transactionCount: sql<number>`COUNT(*)`,
+        oldestDueDate: sql<Date | null>`MIN(${creditTransactions.dueDate})`,
+      })
+      .from(creditTransactions)
+      .where(
+        and(
+          eq(creditTransactions.tenantId, tenantId),
+          sql`${creditTransactions.status} <> 'paid'`,
+          isNull(creditTransactions.paidDate),
+          sql`${creditTransactions.dueDate} < NOW()`,
+          sql`${creditTransactions.amount} > 0`,
+          sql`${owed} > 0`
+        )
+      )
+      .groupBy(creditTransactions.customerId);
+
+    return rows.map(row => ({
+      customerId: row.customerId,
+      overdueAmount: Number(row.overdueAmount).toFixed(2),
+      transactionCount: Number(row.transactionCount),
+      oldestDueDate: row.oldestDueDate ? new Date(row.oldestDueDate) : null,
+    }));
+  }
+
   // Settings
   async getTenantSettings(tenantId: string): Promise<TenantSettings | undefined> {
     const [settings] = await db
@@ -712,6 +5631,8 @@ export class DatabaseStorage implements IStorage {
       deliveryMethodsEnabled: "pickup,manual_courier",
       leadTimeDays: 7,
       safetyDays: 3,
+      shrinkAlertRate: "0.0200",
+      shrinkStaffAlertCount: 5,
       paymentMode: "platform" as const,
       applicationFeeBps: 0,
       defaultCurrency: "usd",
@@ -739,6 +5660,15 @@ export class DatabaseStorage implements IStorage {
     return results as (LoyaltyAccount & { customerName: string })[];
   }
 
+  // Customers without a loyalty account have no points
+  async getLoyaltyBalance(tenantId: string, customerId: string): Promise<number> {
+    const [account] = await db
+      .select({ points: loyaltyAccounts.points })
+      .from(loyaltyAccounts)
+      .where(and(eq(loyaltyAccounts.tenantId, tenantId), eq(loyaltyAccounts.customerId, customerId)));
+    return account?.points ?? 0;
+  }
+
   // Credit
   async getCreditAccounts(tenantId: string): Promise<(Credit & { customerName: string })[]> {
     const results = await db
@@ -2433,6 +7363,7 @@ X-RateLimit-Reset: 1642284000
           addressLine1: deliveries.addressLine1,
           city: deliveries.city,
           state: deliveries.state,
+          postalCode: deliveries.postalCode,
           fee: deliveries.fee,
           status: deliveries.status,
           createdAt: deliveries.createdAt,
@@ -2460,17 +7391,13 @@ X-RateLimit-Reset: 1642284000
       if (encryptionEnabled) {
         const decryptedResults = await Promise.all(
           filteredResults.map(async (result) => {
+            const { addressLine1Enc, cityEnc, stateEnc, postalCodeEnc, ...plain } = result;
+            const address = await this._decryptDeliveryAddress(tenantId, result);
             return {
-              ...result,
-              addressLine1: result.addressLine1Enc
-                ? await decryptOptional(tenantId, result.addressLine1Enc) || result.addressLine1 || ''
-                : result.addressLine1 || '',
-              city: result.cityEnc
-                ? await decryptOptional(tenantId, result.cityEnc) || result.city || ''
-                : result.city || '',
-              state: result.stateEnc
-                ? await decryptOptional(tenantId, result.stateEnc) || result.state || ''
-                : result.state || '',
+              ...plain,
+              addressLine1: address.addressLine1 || '',
+              city: address.city || '',
+              state: address.state || '',
               customerName: result.customerName || 'Walk-in Customer',
               customerPhone: result.customerPhone || undefined,
             };
@@ -2494,40 +7421,62 @@ X-RateLimit-Reset: 1642284000
     }
   }
 
+  // A delivery's address, decrypting each field that is stored encrypted
+  private async _decryptDeliveryAddress(tenantId: string, row: {
+    addressLine1: string | null;
+    city: string | null;
+    state: string | null;
+    postalCode: string | null;
+    addressLine1Enc: any;
+    cityEnc: any;
+    stateEnc: any;
+    postalCodeEnc: any;
+  }): Promise<Pick<Delivery, 'addressLine1' | 'city' | 'state' | 'postalCode'>> {
+    return {
+      addressLine1: row.addressLine1Enc ? await decryptOptional(tenantId, row.addressLine1Enc) : row.addressLine1,
+      city: row.cityEnc ? await decryptOptional(tenantId, row.cityEnc) : row.city,
+      state: row.stateEnc ? await decryptOptional(tenantId, row.stateEnc) : row.state,
+      postalCode: row.postalCodeEnc ? await decryptOptional(tenantId, row.postalCodeEnc) : row.postalCode,
+    };
+  }
+
   async createDeliveryEncrypted(delivery: any): Promise<any> {
     try {
-      const { tenantId } = delivery;
-      const encryptionEnabled = await this.isEncryptionEnabled(tenantId);
-      
-      if (encryptionEnabled) {
-        // SECURITY FIX: Only store encrypted data, clear plaintext fields
-        const deliveryData = {
-          ...delivery,
-          // Clear plaintext fields for security
-          addressLine1: null,
-          city: null,
-          state: null,
-          postalCode: null,
-          // Store only encrypted versions of sensitive fields
-          addressLine1Enc: delivery.addressLine1 ? await encryptOptional(tenantId, delivery.addressLine1) : null,
-          cityEnc: delivery.city ? await encryptOptional(tenantId, delivery.city) : null,
-          stateEnc: delivery.state ? await encryptOptional(tenantId, delivery.state) : null,
-          postalCodeEnc: delivery.postalCode ? await encryptOptional(tenantId, delivery.postalCode) : null,
-        };
-        
-        const [newDelivery] = await db.insert(deliveries).values(deliveryData).returning();
-        return newDelivery;
-      } else {
-        // Fallback to regular delivery creation if encryption is disabled
-        const [newDelivery] = await db.insert(deliveries).values(delivery).returning();
-        return newDelivery;
-      }
+      const encryptionEnabled = await this.isEncryptionEnabled(delivery.tenantId);
+      return await this._insertDelivery(db, delivery, encryptionEnabled);
     } catch (error) {
       console.error(`Failed to create encrypted delivery for tenant ${delivery.tenantId}:`, error);
       throw new Error("Failed to create delivery");
     }
   }
 
+  private async _insertDelivery(executor: any, delivery: InsertDelivery, encryptionEnabled: boolean): Promise<Delivery> {
+    const { tenantId } = delivery;
+    if (encryptionEnabled) {
+      // SECURITY FIX: Only store encrypted data, clear plaintext fields
+      const deliveryData = {
+        ...delivery,
+        // Clear plaintext fields for security
+        addressLine1: null,
+        city: null,
+        state: null,
+        postalCode: null,
+        // Store only encrypted versions of sensitive fields
+        addressLine1Enc: delivery.addressLine1 ? await encryptOptional(tenantId, delivery.addressLine1) : null,
+        cityEnc: delivery.city ? await encryptOptional(tenantId, delivery.city) : null,
+        stateEnc: delivery.state ? await encryptOptional(tenantId, delivery.state) : null,
+        postalCodeEnc: delivery.postalCode ? await encryptOptional(tenantId, delivery.postalCode) : null,
+      };
+
+      const [newDelivery] = await executor.insert(deliveries).values(deliveryData).returning();
+      return newDelivery;
+    }
+
+    // Fallback to regular delivery creation if encryption is disabled
+    const [newDelivery] = await executor.insert(deliveries).values(delivery).returning();
+    return newDelivery;
+  }
+
   // Feature Flag Seeding
   async seedFeatureFlags(): Promise<void> {
     try {
@@ -0,0 +1,27 @@
+import type { TaxJurisdiction } from "@shared/schema";
+
+// Address matching for sales tax jurisdictions. Kept apart from the tax engine, which reads
+// through storage, so storage can match addresses without importing it back.
+
+export interface TaxAddress {
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+const same = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The most specific jurisdiction covering the address: postal code, then city, then state
+export function matchJurisdiction(jurisdictions: TaxJurisdiction[], address: TaxAddress): TaxJurisdiction | null {
+  const zip = address.postalCode?.trim().slice(0, 5);
+  const specificity = (jurisdiction: TaxJurisdiction) => (jurisdiction.postalCode ? 2 : jurisdiction.city ? 1 : 0);
+
+  const [match] = jurisdictions
+    .filter(jurisdiction =>
+      same(jurisdiction.state, address.state) &&
+      (!jurisdiction.city || same(jurisdiction.city, address.city)) &&
+      (!jurisdiction.postalCode || jurisdiction.postalCode === zip))
+    .sort((a, b) => specificity(b) - specificity(a));
+  return match ?? null;
+}
@@ -0,0 +1,83 @@
+import type { Product, TaxExemption, TaxJurisdiction } from "@shared/schema";
+import { storage } from "./storage";
+import type { TaxAddress } from "./tax-jurisdictions";
+
+// Sales tax engine: the jurisdiction for the address the order is fulfilled at, a rate per
+// product tax category, and customer exemption certificates (see taxJurisdictions)
+
+export interface TaxLine {
+  productId: string;
+  total: number; // Line total before order discounts
+}
+
+export interface TaxContext {
+  jurisdiction: TaxJurisdiction | null; // Null when no jurisdiction matches the address
+  exemption: TaxExemption | null; // A current certificate of the customer's that covers the jurisdiction
+  categories: Map<string, Product["taxCategory"]>; // By product id
+}
+
+export interface TaxQuote {
+  jurisdictionId: string | null;
+  jurisdictionName: string | null;
+  exemptionId: string | null;
+  taxableAmount: string;
+  tax: string;
+}
+
+export function rateFor(jurisdiction: TaxJurisdiction, category: Product["taxCategory"]): number {
+  switch (category) {
+    case "exempt":
+      return 0;
+    case "prescription":
+      return parseFloat(jurisdiction.prescriptionRate);
+    case "otc_medication":
+      return parseFloat(jurisdiction.otcRate ?? jurisdiction.rate);
+    case "general":
+      return parseFloat(jurisdiction.rate);
+  }
+}
+
+// Order discounts are spread over the lines in proportion to their totals before tax is
+// worked out, so a discount on a taxed item and one on an exempt item come out the same.
+// Delivery fees are not taxed.
+export function taxFromContext(context: TaxContext, lines: TaxLine[], discount = 0): TaxQuote {
+  const { jurisdiction, exemption } = context;
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const discountShare = subtotal > 0 ? Math.min(discount, subtotal) / subtotal : 0;
+
+  let taxableAmount = 0;
+  let tax = 0;
+  if (jurisdiction && !exemption) {
+    for (const line of lines) {
+      const rate = rateFor(jurisdiction, context.categories.get(line.productId) ?? "general");
+      if (rate > 0) {
+        const net = line.total * (1 - discountShare);
+        taxableAmount += net;
+        tax += net * rate;
+      }
+    }
+  }
+
+  return {
+    jurisdictionId: jurisdiction?.id ?? null,
+    jurisdictionName: jurisdiction?.name ?? null,
+    exemptionId: jurisdiction && exemption ? exemption.id : null,
+    taxableAmount: taxableAmount.toFixed(2),
+    tax: tax.toFixed(2),
+  };
+}
+
+// Tax for an order fulfilled at a delivery address, or picked up at a location
+export async function calculateTax(
+  tenantId: string,
+  lines: TaxLine[],
+  options: { discount?: number; customerId?: string | null; locationId?: string | null; deliveryAddress?: TaxAddress | null } = {},
+): Promise<TaxQuote> {
+  const context = await storage.getTaxContext(tenantId, {
+    productIds: Array.from(new Set(lines.map(line => line.productId))),
+    customerId: options.customerId ?? null,
+    locationId: options.locationId ?? null,
+    deliveryAddress: options.deliveryAddress ?? null,
+  });
+  return taxFromContext(context, lines, options.discount ?? 0);
+}
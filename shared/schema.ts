@@ -44,10 +44,19 @@ export const userRoleEnum = pgEnum("user_role", ["super_admin", "owner", "manage
 export const tenantStatusEnum = pgEnum("tenant_status", ["active", "suspended", "trial"]);
 export const productTypeEnum = pgEnum("product_type", ["solid", "liquid", "other"]);
 export const productUnitEnum = pgEnum("product_unit", ["g", "ml", "count"]);
+export const taxCategoryEnum = pgEnum("tax_category", ["general", "prescription", "otc_medication", "exempt"]);
+export const priceRuleTypeEnum = pgEnum("price_rule_type", ["list_price", "category_margin", "quantity_break", "rounding"]);
+export const promotionTypeEnum = pgEnum("promotion_type", ["percent_off", "fixed_off", "buy_x_get_y"]);
 export const adjustmentReasonEnum = pgEnum("adjustment_reason", ["waste", "sample", "personal", "recount"]);
+export const purchaseOrderStatusEnum = pgEnum("purchase_order_status", ["draft", "sent", "partially_received", "received", "closed"]);
+export const countSessionStatusEnum = pgEnum("count_session_status", ["open", "posted"]);
+export const stockTransferStatusEnum = pgEnum("stock_transfer_status", ["in_transit", "received", "cancelled"]);
 export const fulfillmentMethodEnum = pgEnum("fulfillment_method", ["pickup", "delivery"]);
 export const orderStatusEnum = pgEnum("order_status", ["draft", "confirmed", "paid", "voided"]);
 export const paymentStatusEnum = pgEnum("payment_status", ["pending", "completed", "failed", "refunded"]);
+export const returnDispositionEnum = pgEnum("return_disposition", ["restock", "waste"]);
+export const refundMethodEnum = pgEnum("refund_method", ["stripe", "card", "cash", "credit", "other"]);
+export const refundStatusEnum = pgEnum("refund_status", ["pending", "completed", "failed"]);
 export const deliveryMethodEnum = pgEnum("delivery_method", ["pickup", "manual_courier"]);
 export const deliveryStatusEnum = pgEnum("delivery_status", ["requested", "picked_up", "delivered", "canceled"]);
 export const loyaltyTierEnum = pgEnum("loyalty_tier", ["bronze", "silver", "gold", "platinum"]);
@@ -59,7 +68,7 @@ export const kbCategoryEnum = pgEnum("kb_category", ["getting_started", "feature
 export const keyStatusEnum = pgEnum("key_status", ["active", "revoked"]);
 export const selfDestructStatusEnum = pgEnum("self_destruct_status", ["armed", "disarmed", "destroyed"]);
 export const purgeStatusEnum = pgEnum("purge_status", ["pending", "running", "finished", "failed", "canceled"]);
-export const auditActionEnum = pgEnum("audit_action", ["create", "update", "delete", "arm_self_destruct", "disarm_self_destruct", "destroy_self_destruct", "sweeper_destroy", "request_purge", "ack_export", "schedule_purge", "cancel_purge", "start_purge", "complete_purge", "fail_purge", "inactivity_warn", "inactivity_arm", "inactivity_delete", "inactivity_restore", "inactivity_snooze"]);
+export const auditActionEnum = pgEnum("audit_action", ["create", "update", "delete", "arm_self_destruct", "disarm_self_destruct", "destroy_self_destruct", "sweeper_destroy", "request_purge", "ack_export", "schedule_purge", "cancel_purge", "start_purge", "complete_purge", "fail_purge", "inactivity_warn", "inactivity_arm", "inactivity_delete", "inactivity_restore", "inactivity_snooze", "recall_batch", "export_recall_contacts"]);
 
 // Inactivity Policy System Enums
 export const inactivityTargetEnum = pgEnum("inactivity_target", ["all", "customers", "products", "orders", "payments", "deliveries", "loyalty_accounts", "credits"]);
@@ -97,6 +106,7 @@ export const usersTenants = pgTable("users_tenants", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
   role: userRoleEnum("role").notNull(),
+  currentLocationId: varchar("current_location_id").references(() => locations.id, { onDelete: "set null" }), // Store the user is working at; POS sales draw stock from it
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_users_tenants_user").on(table.userId),
@@ -131,12 +141,163 @@ export const products = pgTable("products", {
   type: productTypeEnum("type").notNull().default("solid"),
   unit: productUnitEnum("unit").notNull().default("count"),
   description: text("description"),
+  category: varchar("category", { length: 100 }), // Groups products for pricing rules
+  taxCategory: taxCategoryEnum("tax_category").notNull().default("general"), // Rate comes from the jurisdiction
+  archivedAt: timestamp("archived_at"), // Hidden from sale and listings; kept for historical orders
+  archivedBy: varchar("archived_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_products_tenant").on(table.tenantId),
   index("idx_products_ndc").on(table.ndcCode),
 ]);
 
+// Fields printed on receipts and used to price or tax a line; edits to these are kept in product_history
+export const productHistoryFields = ["name", "ndcCode", "type", "unit", "category", "taxCategory"] as const;
+
+// Product history: one row per tracked field change, so past receipts can be explained.
+// List prices live in price_rules; adding or removing one is kept here as the listPrice field.
+export const productHistory = pgTable("product_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  field: varchar("field", { length: 50 }).notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  changedBy: varchar("changed_by").references(() => users.id),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [
+  index("idx_product_history_product").on(table.productId, table.changedAt),
+]);
+
+// Product packs: purchase/sale units expressed as a whole number of the product's base unit
+export const productPacks = pgTable("product_packs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(), // "Bottle of 100", "Box of 10"
+  qtyPerPack: integer("qty_per_pack").notNull(), // Base units in one pack; fixed once created
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_product_packs_product").on(table.productId),
+  unique("unique_product_pack_name").on(table.productId, table.name),
+]);
+
+// Price rules evaluated by server/pricing.ts. A product's base price is its list price, or WAC
+// plus the margin for its category (the tenant target margin otherwise); the best quantity break
+// then discounts it and a rounding rule sets the price ending. Prices are per base unit.
+export const priceRules = pgTable("price_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  type: priceRuleTypeEnum("type").notNull(),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }), // list_price; optional scope for quantity_break
+  category: varchar("category", { length: 100 }), // category_margin; optional scope for quantity_break and rounding
+  minQty: integer("min_qty"), // quantity_break, in base units
+  price: decimal("price", { precision: 12, scale: 4 }), // list_price
+  margin: decimal("margin", { precision: 5, scale: 4 }), // category_margin, over WAC
+  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }), // quantity_break
+  roundingEnding: decimal("rounding_ending", { precision: 3, scale: 2 }), // rounding: 0.99 rounds up to the next x.99
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_price_rules_tenant").on(table.tenantId),
+  index("idx_price_rules_product").on(table.productId),
+]);
+
+// Contract price lists: negotiated prices for customers such as clinics and care homes.
+// An item fixes a product's price or takes a discount off its regular price; the list's
+// own discountRate covers products without an item. A list applies only while effective.
+export const priceLists = pgTable("price_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }), // Off the regular price of products without an item
+  effectiveFrom: timestamp("effective_from").notNull().defaultNow(),
+  effectiveTo: timestamp("effective_to"), // Open-ended when null
+  archivedAt: timestamp("archived_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_price_lists_tenant").on(table.tenantId),
+  unique("unique_price_list_name").on(table.tenantId, table.name),
+]);
+
+export const priceListItems = pgTable("price_list_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priceListId: varchar("price_list_id").notNull().references(() => priceLists.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  price: decimal("price", { precision: 12, scale: 4 }), // Fixed price per base unit
+  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }), // Off the regular price; set when price is not
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_price_list_items_product").on(table.productId),
+  unique("unique_price_list_product").on(table.priceListId, table.productId),
+]);
+
+// Promotions: discounts applied at checkout. Promotions without a code apply to every
+// qualifying order; coded ones only when the code is entered. Each use is an orderDiscounts row.
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  code: varchar("code", { length: 50 }), // Stored upper case; null applies automatically
+  type: promotionTypeEnum("type").notNull(),
+  value: decimal("value", { precision: 12, scale: 4 }).notNull(), // percent_off and buy_x_get_y: rate off (1 = free); fixed_off: amount
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }), // Required for buy_x_get_y; limits the others to one product
+  buyQty: integer("buy_qty"), // buy_x_get_y, in base units
+  getQty: integer("get_qty"), // buy_x_get_y, in base units
+  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }), // Order minimum before discounts
+  startsAt: timestamp("starts_at").notNull().defaultNow(),
+  endsAt: timestamp("ends_at"), // Open-ended when null
+  usageLimitPerCustomer: integer("usage_limit_per_customer"), // Needs a named customer on the order
+  archivedAt: timestamp("archived_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_promotions_tenant").on(table.tenantId),
+  unique("unique_promotion_code").on(table.tenantId, table.code),
+]);
+
+// Locations: stores and stockrooms holding stock. Each tenant has one default location, created
+// with the tenant or, for older tenants, at startup, when it takes over stock received before locations existed.
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  address: text("address"),
+  city: varchar("city", { length: 100 }),
+  state: varchar("state", { length: 50 }),
+  postalCode: varchar("postal_code", { length: 20 }), // City, state and postal code pick the sales tax jurisdiction for pickup
+  lat: decimal("lat", { precision: 10, scale: 7 }), // Where deliveries from this store are estimated from
+  lon: decimal("lon", { precision: 10, scale: 7 }),
+  isDefault: boolean("is_default").notNull().default(false),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_locations_tenant").on(table.tenantId),
+  unique("unique_location_name").on(table.tenantId, table.name),
+]);
+
+// Sales tax jurisdictions. An address matches when its state and any city or postal code
+// set here agree; the most specific match wins (postal code, then city, then state).
+export const taxJurisdictions = pgTable("tax_jurisdictions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  state: varchar("state", { length: 50 }).notNull(),
+  city: varchar("city", { length: 100 }),
+  postalCode: varchar("postal_code", { length: 10 }), // First five digits
+  rate: decimal("rate", { precision: 6, scale: 5 }).notNull(), // Combined rate for general goods, e.g. 0.08250
+  prescriptionRate: decimal("prescription_rate", { precision: 6, scale: 5 }).notNull().default("0"),
+  otcRate: decimal("otc_rate", { precision: 6, scale: 5 }), // Over-the-counter medication; null uses rate
+  archivedAt: timestamp("archived_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_tax_jurisdictions_tenant").on(table.tenantId),
+]);
+
 // Batches
 export const batches = pgTable("batches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -144,13 +305,24 @@ export const batches = pgTable("batches", {
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
   acquiredAt: timestamp("acquired_at").notNull(),
   supplier: varchar("supplier", { length: 255 }),
-  qtyAcquired: integer("qty_acquired").notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  purchaseOrderLineId: varchar("purchase_order_line_id").references(() => purchaseOrderLines.id),
+  lotNumber: varchar("lot_number", { length: 100 }), // Manufacturer lot/batch number
+  expiresAt: timestamp("expires_at"),
+  packId: varchar("pack_id").references(() => productPacks.id), // Purchase unit, when received in packs
+  packQty: integer("pack_qty"),
+  locationId: varchar("location_id").references(() => locations.id), // Where the batch was received
+  qtyAcquired: integer("qty_acquired").notNull(), // Always in the product's base unit
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
   notes: text("notes"),
+  recalledAt: timestamp("recalled_at"),
+  recallReason: text("recall_reason"),
+  recalledBy: varchar("recalled_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_batches_tenant").on(table.tenantId),
   index("idx_batches_product").on(table.productId),
+  index("idx_batches_po_line").on(table.purchaseOrderLineId),
 ]);
 
 // Inventory Lots
@@ -159,12 +331,49 @@ export const inventoryLots = pgTable("inventory_lots", {
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
   batchId: varchar("batch_id").notNull().references(() => batches.id, { onDelete: "cascade" }),
+  locationId: varchar("location_id").references(() => locations.id), // Null only on lots that predate locations
+  lotNumber: varchar("lot_number", { length: 100 }), // Copied from the batch for allocation queries
+  expiresAt: timestamp("expires_at"),
+  quarantinedAt: timestamp("quarantined_at"), // Set on recall; quarantined lots cannot be sold
   qtyRemaining: integer("qty_remaining").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_inventory_lots_tenant").on(table.tenantId),
   index("idx_inventory_lots_product").on(table.productId),
   index("idx_inventory_lots_batch").on(table.batchId),
+  index("idx_inventory_lots_location").on(table.locationId),
+  index("idx_inventory_lots_expires").on(table.expiresAt),
+]);
+
+// Stock Transfers: lots leave the source location on dispatch and are held in transit
+// until the destination receives them (new lots, same batch) or the transfer is cancelled
+export const stockTransfers = pgTable("stock_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  fromLocationId: varchar("from_location_id").notNull().references(() => locations.id),
+  toLocationId: varchar("to_location_id").notNull().references(() => locations.id),
+  status: stockTransferStatusEnum("status").notNull().default("in_transit"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedBy: varchar("completed_by").references(() => users.id), // Received or cancelled by
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_stock_transfers_tenant").on(table.tenantId),
+  index("idx_stock_transfers_status").on(table.status),
+]);
+
+// One row per source lot drawn on dispatch
+export const stockTransferLines = pgTable("stock_transfer_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transferId: varchar("transfer_id").notNull().references(() => stockTransfers.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  batchId: varchar("batch_id").notNull().references(() => batches.id, { onDelete: "cascade" }),
+  sourceLotId: varchar("source_lot_id").notNull().references(() => inventoryLots.id),
+  destinationLotId: varchar("destination_lot_id").references(() => inventoryLots.id), // Set on receipt
+  qty: integer("qty").notNull(),
+}, (table) => [
+  index("idx_stock_transfer_lines_transfer").on(table.transferId),
 ]);
 
 // Adjustments
@@ -172,6 +381,7 @@ export const adjustments = pgTable("adjustments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  batchId: varchar("batch_id").references(() => batches.id, { onDelete: "cascade" }), // Batch whose lot absorbed the delta
   qtyDelta: integer("qty_delta").notNull(),
   reason: adjustmentReasonEnum("reason").notNull(),
   notes: text("notes"),
@@ -180,6 +390,105 @@ export const adjustments = pgTable("adjustments", {
 }, (table) => [
   index("idx_adjustments_tenant").on(table.tenantId),
   index("idx_adjustments_product").on(table.productId),
+  index("idx_adjustments_batch").on(table.batchId),
+]);
+
+// Physical Count Sessions
+export const countSessions = pgTable("count_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  status: countSessionStatusEnum("status").notNull().default("open"),
+  locationId: varchar("location_id").references(() => locations.id), // Store being counted; null counts every location
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  postedBy: varchar("posted_by").references(() => users.id),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_count_sessions_tenant").on(table.tenantId),
+]);
+
+// Products in scope for a count session; system stock is snapshotted when the first count for the
+// product is entered, and the counted and variance quantities are frozen on posting
+export const countSessionProducts = pgTable("count_session_products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => countSessions.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  systemQty: integer("system_qty"),
+  countedQty: integer("counted_qty"),
+  varianceQty: integer("variance_qty"),
+}, (table) => [
+  index("idx_count_session_products_session").on(table.sessionId),
+  unique("unique_count_session_product").on(table.sessionId, table.productId),
+]);
+
+// Individual counts; several staff can count the same product (e.g. different shelves) and entries add up
+export const countEntries = pgTable("count_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => countSessions.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  qty: integer("qty").notNull(),
+  location: varchar("location", { length: 255 }), // Shelf or bin the count covers
+  countedBy: varchar("counted_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_count_entries_session").on(table.sessionId),
+  index("idx_count_entries_product").on(table.productId),
+]);
+
+// Suppliers
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  contactName: varchar("contact_name", { length: 255 }),
+  email: varchar("email", { length: 255 }),
+  phone: varchar("phone", { length: 20 }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_suppliers_tenant").on(table.tenantId),
+]);
+
+// Purchase Orders
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  poNumber: varchar("po_number", { length: 50 }).notNull(),
+  status: purchaseOrderStatusEnum("status").notNull().default("draft"),
+  expectedAt: timestamp("expected_at"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_purchase_orders_tenant").on(table.tenantId),
+  index("idx_purchase_orders_supplier").on(table.supplierId),
+  unique("unique_po_number_per_tenant").on(table.tenantId, table.poNumber),
+]);
+
+// Last PO number issued per tenant; incremented under the row lock so numbers never collide
+export const purchaseOrderCounters = pgTable("purchase_order_counters", {
+  tenantId: varchar("tenant_id").primaryKey().references(() => tenants.id, { onDelete: "cascade" }),
+  lastNumber: integer("last_number").notNull().default(0),
+});
+
+// Purchase Order Lines
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  qtyOrdered: integer("qty_ordered").notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(), // Agreed cost per unit
+  qtyReceived: integer("qty_received").notNull().default(0),
+  receivedCost: decimal("received_cost", { precision: 10, scale: 2 }).notNull().default("0"), // Sum of batch totalCost received against this line
+}, (table) => [
+  index("idx_purchase_order_lines_po").on(table.purchaseOrderId),
+  index("idx_purchase_order_lines_product").on(table.productId),
 ]);
 
 // Customers
@@ -192,6 +501,7 @@ export const customers = pgTable("customers", {
   preferredFulfillment: fulfillmentMethodEnum("preferred_fulfillment").default("pickup"),
   preferredPayment: varchar("preferred_payment", { length: 50 }),
   notes: text("notes"),
+  priceListId: varchar("price_list_id").references(() => priceLists.id, { onDelete: "set null" }), // Contract prices
   // Encrypted fields for dual-write approach
   nameEnc: jsonb("name_enc"), // Encrypted name
   phoneEnc: jsonb("phone_enc"), // Encrypted phone
@@ -204,14 +514,38 @@ export const customers = pgTable("customers", {
   index("idx_customers_phone").on(table.phone),
 ]);
 
+// Tax-exempt certificates held for a customer. A certificate without a state covers every jurisdiction.
+export const taxExemptions = pgTable("tax_exemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  certificateNumber: varchar("certificate_number", { length: 100 }).notNull(),
+  state: varchar("state", { length: 50 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  notes: text("notes"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_tax_exemptions_customer").on(table.customerId),
+]);
+
 // Orders
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
   customerId: varchar("customer_id").references(() => customers.id),
+  locationId: varchar("location_id").references(() => locations.id), // Store the stock is drawn from; null draws from any
   status: orderStatusEnum("status").notNull().default("draft"),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default("0"),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull().default("0"), // Sum of the order's orderDiscounts
   tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxableAmount: decimal("taxable_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Sales after discounts that tax was charged on
+  taxJurisdictionId: varchar("tax_jurisdiction_id").references(() => taxJurisdictions.id),
+  taxExemptionId: varchar("tax_exemption_id").references(() => taxExemptions.id), // Certificate that zeroed the tax
+  loyaltyPointsRedeemed: integer("loyalty_points_redeemed").notNull().default(0),
+  loyaltyDiscount: decimal("loyalty_discount", { precision: 10, scale: 2 }).notNull().default("0"), // What the redeemed points took off
+  loyaltyPointsEarned: integer("loyalty_points_earned").notNull().default(0), // Credited when the order is paid
   deliveryFee: decimal("delivery_fee", { precision: 10, scale: 2 }).notNull().default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull().default("0"),
   paymentMethod: varchar("payment_method", { length: 50 }),
@@ -220,6 +554,9 @@ export const orders = pgTable("orders", {
   paymentIntentId: varchar("payment_intent_id"),
   chargeId: varchar("charge_id"),
   transferId: varchar("transfer_id"),
+  confirmedAt: timestamp("confirmed_at"), // When stock was allocated: on confirmation, or at creation for orders that skip the draft
+  voidedAt: timestamp("voided_at"), // When a void or refund put the order's stock back
+  voidReason: text("void_reason"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
@@ -235,14 +572,64 @@ export const orderItems = pgTable("order_items", {
   orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
   productId: varchar("product_id").notNull().references(() => products.id),
   batchId: varchar("batch_id").references(() => batches.id),
+  packId: varchar("pack_id").references(() => productPacks.id), // Unit the line was sold in; qty and price stay per base unit
   qty: integer("qty").notNull(),
-  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
-  unitCostSnapshot: decimal("unit_cost_snapshot", { precision: 10, scale: 2 }),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 4 }).notNull(),
+  priceListId: varchar("price_list_id").references(() => priceLists.id), // Contract list the price came from, if any
+  unitCostSnapshot: decimal("unit_cost_snapshot", { precision: 12, scale: 4 }), // Per base unit, so pack costs divide without rounding
+  lotId: varchar("lot_id").references(() => inventoryLots.id), // Lot allocation drew from, so a void can put it back
 }, (table) => [
   index("idx_order_items_order").on(table.orderId),
   index("idx_order_items_product").on(table.productId),
 ]);
 
+// Discount lines: one per promotion applied to an order
+export const orderDiscounts = pgTable("order_discounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  promotionId: varchar("promotion_id").notNull().references(() => promotions.id),
+  code: varchar("code", { length: 50 }), // Code entered, if any
+  description: varchar("description", { length: 255 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_order_discounts_order").on(table.orderId),
+  index("idx_order_discounts_promotion").on(table.promotionId),
+]);
+
+// Returns: items brought back from a paid order and the refund given for them
+export const orderReturns = pgTable("order_returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  reason: text("reason").notNull(),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull(), // Share of the order's total less delivery
+  refundMethod: refundMethodEnum("refund_method").notNull(), // Stripe charges are refunded through Stripe; credit reduces the balance owed; the rest at the counter
+  refundId: varchar("refund_id"), // Stripe refund, for card refunds
+  refundStatus: refundStatusEnum("refund_status").notNull().default("completed"), // Card refunds are pending until Stripe accepts them
+  paymentId: varchar("payment_id").references(() => payments.id), // Payment a card refund goes back to
+  loyaltyPointsDelta: integer("loyalty_points_delta").notNull().default(0), // Share of the redeemed points given back less the share of earned points taken back
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_order_returns_tenant").on(table.tenantId),
+  index("idx_order_returns_order").on(table.orderId),
+]);
+
+export const orderReturnLines = pgTable("order_return_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  returnId: varchar("return_id").notNull().references(() => orderReturns.id, { onDelete: "cascade" }),
+  orderItemId: varchar("order_item_id").notNull().references(() => orderItems.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  lotId: varchar("lot_id").references(() => inventoryLots.id), // Lot restocked units went back to; null for waste
+  qty: integer("qty").notNull(), // Base units
+  disposition: returnDispositionEnum("disposition").notNull(),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull(),
+}, (table) => [
+  index("idx_order_return_lines_return").on(table.returnId),
+  index("idx_order_return_lines_item").on(table.orderItemId),
+]);
+
 // Deliveries
 export const deliveries = pgTable("deliveries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -338,6 +725,10 @@ export const settingsTenant = pgTable("settings_tenant", {
   deliveryMethodsEnabled: text("delivery_methods_enabled").default("pickup,manual_courier"),
   leadTimeDays: integer("lead_time_days").default(7),
   safetyDays: integer("safety_days").default(3),
+  shrinkAlertRate: decimal("shrink_alert_rate", { precision: 5, scale: 4 }).default("0.0200"), // Flag shrink above this share of sales
+  shrinkStaffAlertCount: integer("shrink_staff_alert_count").default(5), // Flag staff logging this many personal/sample removals in a report
+  loyaltyPointValue: decimal("loyalty_point_value", { precision: 6, scale: 4 }).default("0.0100"), // Dollars one loyalty point takes off an order
+  loyaltyPointsPerDollar: decimal("loyalty_points_per_dollar", { precision: 6, scale: 2 }).default("0"), // Points earned per dollar paid for goods; 0 earns none
   cityProfile: jsonb("city_profile"),
   paymentMode: paymentModeEnum("payment_mode").default("platform"),
   applicationFeeBps: integer("application_fee_bps").default(0),
@@ -714,8 +1105,46 @@ export type UserTenant = typeof usersTenants.$inferSelect;
 export type InsertUserTenant = typeof usersTenants.$inferInsert;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = typeof products.$inferInsert;
+export type ProductHistoryEntry = typeof productHistory.$inferSelect;
+export type ProductPack = typeof productPacks.$inferSelect;
+export type InsertProductPack = typeof productPacks.$inferInsert;
+export type PriceRule = typeof priceRules.$inferSelect;
+export type InsertPriceRule = typeof priceRules.$inferInsert;
+export type PriceList = typeof priceLists.$inferSelect;
+export type InsertPriceList = typeof priceLists.$inferInsert;
+export type PriceListItem = typeof priceListItems.$inferSelect;
+export type InsertPriceListItem = typeof priceListItems.$inferInsert;
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = typeof promotions.$inferInsert;
+export type OrderDiscount = typeof orderDiscounts.$inferSelect;
+export type InsertOrderDiscount = typeof orderDiscounts.$inferInsert;
+export type OrderReturn = typeof orderReturns.$inferSelect;
+export type OrderReturnLine = typeof orderReturnLines.$inferSelect;
+export type Location = typeof locations.$inferSelect;
+export type TaxJurisdiction = typeof taxJurisdictions.$inferSelect;
+export type InsertTaxJurisdiction = typeof taxJurisdictions.$inferInsert;
+export type TaxExemption = typeof taxExemptions.$inferSelect;
+export type InsertTaxExemption = typeof taxExemptions.$inferInsert;
+export type InsertLocation = typeof locations.$inferInsert;
 export type Batch = typeof batches.$inferSelect;
 export type InsertBatch = typeof batches.$inferInsert;
+export type InventoryLot = typeof inventoryLots.$inferSelect;
+export type InsertInventoryLot = typeof inventoryLots.$inferInsert;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type StockTransferLine = typeof stockTransferLines.$inferSelect;
+export type Adjustment = typeof adjustments.$inferSelect;
+export type InsertAdjustment = typeof adjustments.$inferInsert;
+export type CountSession = typeof countSessions.$inferSelect;
+export type InsertCountSession = typeof countSessions.$inferInsert;
+export type CountSessionProduct = typeof countSessionProducts.$inferSelect;
+export type CountEntry = typeof countEntries.$inferSelect;
+export type InsertCountEntry = typeof countEntries.$inferInsert;
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = typeof suppliers.$inferInsert;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = typeof purchaseOrders.$inferInsert;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrderLine = typeof purchaseOrderLines.$inferInsert;
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = typeof customers.$inferInsert;
 export type Order = typeof orders.$inferSelect;
@@ -728,12 +1157,15 @@ export type FeatureFlagOverride = typeof featureFlagOverrides.$inferSelect;
 export type InsertFeatureFlagOverride = typeof featureFlagOverrides.$inferInsert;
 export type LoyaltyAccount = typeof loyaltyAccounts.$inferSelect;
 export type InsertLoyaltyAccount = typeof loyaltyAccounts.$inferInsert;
+export type LoyaltyEvent = typeof loyaltyEvents.$inferSelect;
 export type Credit = typeof credits.$inferSelect;
 export type InsertCredit = typeof credits.$inferInsert;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 export type InsertCreditTransaction = typeof creditTransactions.$inferInsert;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = typeof payments.$inferInsert;
+export type Delivery = typeof deliveries.$inferSelect;
+export type InsertDelivery = typeof deliveries.$inferInsert;
 export type TenantSettings = typeof settingsTenant.$inferSelect;
 export type InsertTenantSettings = typeof settingsTenant.$inferInsert;
 export type WebhookEvent = typeof webhookEvents.$inferSelect;
@@ -770,9 +1202,195 @@ export const insertTenantSchema = createInsertSchema(tenants).omit({
   updatedAt: true,
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const insertProductSchema = createInsertSchema(products, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  category: (schema) => schema.trim().max(100),
+}).omit({
   id: true,
+  archivedAt: true,
+  archivedBy: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProductPackSchema = createInsertSchema(productPacks).omit({
+  id: true,
+  archivedAt: true,
+  createdAt: true,
+});
+
+// Each rule type carries only its own fields
+const priceRuleBase = createInsertSchema(priceRules).pick({ tenantId: true, createdBy: true });
+const optionalCategory = z.string().trim().min(1).max(100).nullish();
+const priceRuleRate = z.coerce.number().positive().lt(1).transform(value => value.toFixed(4));
+
+export const insertPriceRuleSchema = z.discriminatedUnion("type", [
+  priceRuleBase.extend({
+    type: z.literal("list_price"),
+    productId: z.string().min(1),
+    price: z.coerce.number().nonnegative().transform(value => value.toFixed(4)),
+  }),
+  priceRuleBase.extend({
+    type: z.literal("category_margin"),
+    category: z.string().trim().min(1).max(100),
+    margin: z.coerce.number().min(0).lt(10).transform(value => value.toFixed(4)), // Column holds up to 9.9999
+  }),
+  priceRuleBase.extend({
+    type: z.literal("quantity_break"),
+    productId: z.string().min(1).nullish(),
+    category: optionalCategory,
+    minQty: z.number().int().min(2),
+    discountRate: priceRuleRate,
+  }),
+  priceRuleBase.extend({
+    type: z.literal("rounding"),
+    category: optionalCategory,
+    roundingEnding: z.coerce.number().min(0).max(0.99).transform(value => value.toFixed(2)),
+  }),
+]);
+
+export const insertPriceListSchema = createInsertSchema(priceLists, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(255),
+}).omit({
+  id: true,
+  archivedAt: true,
+  createdAt: true,
+}).extend({
+  discountRate: priceRuleRate.nullish(),
+  effectiveFrom: z.coerce.date().optional(),
+  effectiveTo: z.coerce.date().nullish(),
+}).refine(list => !list.effectiveTo || !list.effectiveFrom || list.effectiveTo > list.effectiveFrom, {
+  message: "The end date must be after the start date",
+  path: ["effectiveTo"],
+});
+
+export const insertPriceListItemSchema = z.object({
+  priceListId: z.string().min(1),
+  productId: z.string().min(1),
+  price: z.coerce.number().nonnegative().transform(value => value.toFixed(4)).nullish(),
+  discountRate: priceRuleRate.nullish(),
+}).refine(item => (item.price == null) !== (item.discountRate == null), {
+  message: "Set either a fixed price or a discount",
+  path: ["price"],
+});
+
+const promotionBase = createInsertSchema(promotions, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(255),
+}).pick({
+  tenantId: true,
+  name: true,
+  createdBy: true,
+}).extend({
+  code: z.string().trim().min(3).max(50).regex(/^[A-Za-z0-9_-]+$/, "Codes use letters, digits, - and _").transform(code => code.toUpperCase()).nullish(),
+  minSubtotal: z.coerce.number().positive().transform(value => value.toFixed(2)).nullish(),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().nullish(),
+  usageLimitPerCustomer: z.number().int().positive().nullish(),
+});
+
+export const insertPromotionSchema = z.discriminatedUnion("type", [
+  promotionBase.extend({
+    type: z.literal("percent_off"),
+    value: z.coerce.number().positive().max(1).transform(value => value.toFixed(4)),
+    productId: z.string().min(1).nullish(),
+  }),
+  promotionBase.extend({
+    type: z.literal("fixed_off"),
+    value: z.coerce.number().positive().transform(value => value.toFixed(4)),
+    productId: z.string().min(1).nullish(),
+  }),
+  promotionBase.extend({
+    type: z.literal("buy_x_get_y"),
+    value: z.coerce.number().positive().max(1).default(1).transform(value => value.toFixed(4)),
+    productId: z.string().min(1),
+    buyQty: z.number().int().positive(),
+    getQty: z.number().int().positive(),
+  }),
+]).refine(promotion => !promotion.endsAt || !promotion.startsAt || promotion.endsAt > promotion.startsAt, {
+  message: "The end date must be after the start date",
+  path: ["endsAt"],
+});
+
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+}).omit({
+  id: true,
+  isDefault: true,
+  archivedAt: true,
+  createdAt: true,
+});
+
+const taxRate = z.coerce.number().min(0).lt(1).transform(value => value.toFixed(5));
+
+export const insertTaxJurisdictionSchema = createInsertSchema(taxJurisdictions, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(255),
+  state: (schema) => schema.trim().min(2, "State is required").max(50),
+}).omit({
+  id: true,
+  archivedAt: true,
+  createdAt: true,
+}).extend({
+  city: z.string().trim().min(1).max(100).nullish(),
+  postalCode: z.string().trim().regex(/^\d{5}$/, "Postal code must be 5 digits").nullish(),
+  rate: taxRate,
+  prescriptionRate: taxRate.optional(),
+  otcRate: taxRate.nullish(),
+});
+
+export const insertTaxExemptionSchema = createInsertSchema(taxExemptions, {
+  certificateNumber: (schema) => schema.trim().min(1, "Certificate number is required").max(100),
+}).omit({
+  id: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  state: z.string().trim().min(2).max(50).nullish(),
+  expiresAt: z.coerce.date(),
+});
+
+export const insertBatchSchema = createInsertSchema(batches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAdjustmentSchema = createInsertSchema(adjustments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCountSessionSchema = createInsertSchema(countSessions).omit({
+  id: true,
+  status: true,
+  postedBy: true,
+  postedAt: true,
+  createdAt: true,
+});
+
+export const insertCountEntrySchema = createInsertSchema(countEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  poNumber: true,
+  status: true,
+  sentAt: true,
+  closedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPurchaseOrderLineSchema = createInsertSchema(purchaseOrderLines).omit({
+  id: true,
+  purchaseOrderId: true,
+  qtyReceived: true,
+  receivedCost: true,
 });
 
 export const insertCustomerSchema = createInsertSchema(customers).omit({
@@ -782,9 +1400,18 @@ export const insertCustomerSchema = createInsertSchema(customers).omit({
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  loyaltyPointsEarned: true, // Credited by payment, never by the client
+  confirmedAt: true,
+  voidedAt: true,
+  voidReason: true,
   createdAt: true,
 });
 
+export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
+  id: true,
+  orderId: true,
+});
+
 export const insertCreditSchema = createInsertSchema(credits).omit({
   id: true,
   updatedAt: true,